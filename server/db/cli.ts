@@ -0,0 +1,43 @@
+/**
+ * Database maintenance commands:
+ *   tsx server/db/cli.ts migrate   apply pending migrations
+ *   tsx server/db/cli.ts status    list applied and pending migrations
+ *   tsx server/db/cli.ts check     exit non-zero if the schema has drifted
+ */
+import { sqliteClient } from "./client";
+import { assertSchemaMatches, getMigrationStatus, runMigrations } from "./migrate";
+
+const commands: Record<string, () => void> = {
+  migrate: () => {
+    const applied = runMigrations(sqliteClient);
+    console.log(applied.length > 0 ? `Applied ${applied.length} migration(s)` : "Already up to date");
+    assertSchemaMatches(sqliteClient);
+  },
+  status: () => {
+    const status = getMigrationStatus(sqliteClient);
+    status.applied.forEach((m) => {
+      console.log(`  applied  ${m.version} ${m.name} (${m.appliedAt.toISOString()})`);
+    });
+    status.pending.forEach((m) => console.log(`  pending  ${m.version} ${m.name}`));
+    status.unknown.forEach((version) => console.log(`  unknown  ${version} (applied by newer code)`));
+  },
+  check: () => {
+    assertSchemaMatches(sqliteClient);
+    console.log("Schema matches");
+  },
+};
+
+const command = commands[process.argv[2] ?? ""];
+if (!command) {
+  console.error(`Usage: tsx server/db/cli.ts <${Object.keys(commands).join("|")}>`);
+  process.exit(1);
+}
+
+try {
+  command();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+} finally {
+  sqliteClient.close();
+}
@@ -0,0 +1,156 @@
+/**
+ * Versioned schema migrations. Applied versions are recorded in
+ * schema_migrations; each pending migration runs in its own transaction
+ * together with its record, so a failure leaves the database at the last
+ * version that fully applied.
+ */
+import { is } from "drizzle-orm";
+import { SQLiteTable, getTableConfig } from "drizzle-orm/sqlite-core";
+import * as schema from "./schema";
+import { migrations, SqliteDatabase } from "./migrations";
+
+const MIGRATIONS_TABLE = "schema_migrations";
+
+export interface MigrationStatus {
+  applied: { version: number; name: string; appliedAt: Date }[];
+  pending: { version: number; name: string }[];
+  // Applied in the database but unknown to this build, i.e. the database
+  // was migrated by newer code
+  unknown: number[];
+}
+
+const ensureMigrationsTable = (sqlite: SqliteDatabase) => {
+  sqlite.exec(`
+    CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL DEFAULT (unixepoch())
+    );
+  `);
+};
+
+export const getMigrationStatus = (sqlite: SqliteDatabase): MigrationStatus => {
+  ensureMigrationsTable(sqlite);
+
+  const rows = sqlite
+    .prepare(`SELECT version, name, applied_at FROM ${MIGRATIONS_TABLE} ORDER BY version`)
+    .all() as { version: number; name: string; applied_at: number }[];
+  const appliedVersions = new Set(rows.map((row) => row.version));
+  const knownVersions = new Set(migrations.map((migration) => migration.version));
+
+  return {
+    applied: rows.map((row) => ({
+      version: row.version,
+      name: row.name,
+      appliedAt: new Date(row.applied_at * 1000),
+    })),
+    pending: migrations
+      .filter((migration) => !appliedVersions.has(migration.version))
+      .map(({ version, name }) => ({ version, name })),
+    unknown: rows.filter((row) => !knownVersions.has(row.version)).map((row) => row.version),
+  };
+};
+
+/**
+ * Apply every pending migration in version order. Returns the ones applied.
+ */
+export const runMigrations = (sqlite: SqliteDatabase) => {
+  const status = getMigrationStatus(sqlite);
+  if (status.unknown.length > 0) {
+    throw new Error(
+      `Database has migrations this build doesn't know about (${status.unknown.join(", ")}); ` +
+        "refusing to run older code against a newer schema"
+    );
+  }
+
+  const pending = migrations
+    .filter((migration) => status.pending.some((p) => p.version === migration.version))
+    .sort((a, b) => a.version - b.version);
+
+  const record = sqlite.prepare(`INSERT INTO ${MIGRATIONS_TABLE} (version, name) VALUES (?, ?)`);
+  pending.forEach((migration) => {
+    sqlite.transaction(() => {
+      migration.up(sqlite);
+      record.run(migration.version, migration.name);
+    })();
+    console.log(`Applied migration ${migration.version} (${migration.name})`);
+  });
+
+  return pending;
+};
+
+/**
+ * Differences between the Drizzle schema and the live database: missing or
+ * extra tables and columns, and columns whose type, NOT NULL or primary key
+ * disagree. Empty when they match.
+ */
+export const findSchemaDrift = (sqlite: SqliteDatabase): string[] => {
+  const problems: string[] = [];
+  const tables = Object.values(schema as Record<string, unknown>).filter(
+    (value): value is SQLiteTable => is(value, SQLiteTable)
+  );
+
+  tables.forEach((table) => {
+    const config = getTableConfig(table);
+    const dbColumns = sqlite.pragma(`table_info(${config.name})`) as {
+      name: string;
+      type: string;
+      notnull: number;
+      pk: number;
+    }[];
+
+    if (dbColumns.length === 0) {
+      problems.push(`table ${config.name} is missing`);
+      return;
+    }
+
+    config.columns.forEach((column) => {
+      const dbColumn = dbColumns.find((c) => c.name === column.name);
+      const where = `${config.name}.${column.name}`;
+      if (!dbColumn) {
+        problems.push(`column ${where} is missing`);
+        return;
+      }
+      if (dbColumn.type.toLowerCase() !== column.getSQLType().toLowerCase()) {
+        problems.push(`column ${where} is ${dbColumn.type}, schema says ${column.getSQLType()}`);
+      }
+      // SQLite doesn't report NOT NULL on primary keys that don't declare it
+      if (!column.primary && Boolean(dbColumn.notnull) !== column.notNull) {
+        problems.push(`column ${where} is ${dbColumn.notnull ? "NOT NULL" : "nullable"} in the database`);
+      }
+      if (Boolean(dbColumn.pk) !== column.primary) {
+        problems.push(`column ${where} ${dbColumn.pk ? "is" : "isn't"} a primary key in the database`);
+      }
+    });
+
+    dbColumns
+      .filter((dbColumn) => !config.columns.some((column) => column.name === dbColumn.name))
+      .forEach((dbColumn) => problems.push(`column ${config.name}.${dbColumn.name} isn't in the schema`));
+  });
+
+  return problems;
+};
+
+/**
+ * Fail fast when the applied migrations don't produce the schema the code
+ * was written against, instead of erroring on the first query that touches
+ * the difference.
+ */
+export const assertSchemaMatches = (sqlite: SqliteDatabase) => {
+  const status = getMigrationStatus(sqlite);
+  if (status.pending.length > 0) {
+    throw new Error(
+      `Database has pending migrations: ${status.pending
+        .map((m) => `${m.version} (${m.name})`)
+        .join(", ")}. Run \`npm run db:migrate\`.`
+    );
+  }
+
+  const problems = findSchemaDrift(sqlite);
+  if (problems.length > 0) {
+    throw new Error(
+      `Database schema doesn't match server/db/schema.ts:\n  - ${problems.join("\n  - ")}\n` +
+        "Add a migration for the change."
+    );
+  }
+};
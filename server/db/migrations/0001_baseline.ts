@@ -0,0 +1,198 @@
+import type { Migration, SqliteDatabase } from "./types";
+
+/**
+ * The schema as it stood when versioned migrations were introduced.
+ * Databases created before then were kept up to date by ad hoc
+ * CREATE TABLE IF NOT EXISTS / ALTER TABLE calls at startup and may be at
+ * any point along the way, so unlike every later migration this one is
+ * idempotent and fills in whatever is missing.
+ */
+export const baseline: Migration = {
+  version: 1,
+  name: "baseline",
+  up: (sqlite) => {
+    sqlite.exec(`
+      CREATE TABLE IF NOT EXISTS users (
+        id TEXT PRIMARY KEY,
+        email TEXT NOT NULL UNIQUE,
+        password_hash TEXT NOT NULL,
+        username TEXT,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+      );
+
+      CREATE TABLE IF NOT EXISTS user_roles (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        role TEXT NOT NULL,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        UNIQUE(user_id, role),
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      );
+
+      CREATE TABLE IF NOT EXISTS rooms (
+        id TEXT PRIMARY KEY,
+        code TEXT NOT NULL UNIQUE,
+        video_url TEXT,
+        playback_position REAL NOT NULL DEFAULT 0,
+        is_playing INTEGER NOT NULL DEFAULT 0,
+        subtitle_enabled INTEGER NOT NULL DEFAULT 0,
+        subtitle_id TEXT,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+      );
+
+      CREATE TABLE IF NOT EXISTS room_participants (
+        id TEXT PRIMARY KEY,
+        room_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        username TEXT NOT NULL,
+        is_host INTEGER NOT NULL DEFAULT 0,
+        status TEXT NOT NULL DEFAULT 'active',
+        joined_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        left_at INTEGER,
+        FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS room_join_requests (
+        id TEXT PRIMARY KEY,
+        room_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        username TEXT NOT NULL,
+        browser_name TEXT,
+        browser_version TEXT,
+        ip_address TEXT,
+        status TEXT NOT NULL DEFAULT 'pending',
+        requested_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        responded_at INTEGER,
+        FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS room_messages (
+        id TEXT PRIMARY KEY,
+        room_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        username TEXT NOT NULL,
+        body TEXT NOT NULL,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch() * 1000),
+        FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS room_messages_room_created_idx
+        ON room_messages (room_id, created_at);
+
+      CREATE TABLE IF NOT EXISTS room_queue_items (
+        id TEXT PRIMARY KEY,
+        room_id TEXT NOT NULL,
+        media_id TEXT,
+        video_url TEXT NOT NULL,
+        title TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        added_by TEXT NOT NULL,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE CASCADE,
+        FOREIGN KEY (media_id) REFERENCES media_files(id) ON DELETE SET NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS room_queue_items_room_position_idx
+        ON room_queue_items (room_id, position);
+
+      CREATE TABLE IF NOT EXISTS media_files (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        description TEXT,
+        file_url TEXT NOT NULL,
+        file_type TEXT NOT NULL,
+        file_size INTEGER,
+        uploaded_by TEXT NOT NULL,
+        external_api_url TEXT,
+        poster_url TEXT,
+        imdb_id TEXT,
+        release_year INTEGER,
+        rating TEXT,
+        genre TEXT,
+        director TEXT,
+        actors TEXT,
+        transcode_status TEXT NOT NULL DEFAULT 'none',
+        hls_url TEXT,
+        transcode_error TEXT,
+        duration REAL,
+        container TEXT,
+        video_codec TEXT,
+        audio_codec TEXT,
+        width INTEGER,
+        height INTEGER,
+        bit_rate INTEGER,
+        audio_streams TEXT,
+        subtitle_streams TEXT,
+        probed_at INTEGER,
+        probe_error TEXT,
+        thumbnail_url TEXT,
+        preview_track_url TEXT,
+        thumbnail_error TEXT,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        FOREIGN KEY (uploaded_by) REFERENCES users(id)
+      );
+
+      CREATE TABLE IF NOT EXISTS media_subtitles (
+        id TEXT PRIMARY KEY,
+        media_id TEXT NOT NULL,
+        language TEXT NOT NULL,
+        label TEXT NOT NULL,
+        file_url TEXT NOT NULL,
+        source TEXT NOT NULL,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        FOREIGN KEY (media_id) REFERENCES media_files(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS media_subtitles_media_idx
+        ON media_subtitles (media_id);
+
+      CREATE TABLE IF NOT EXISTS media_uploads (
+        id TEXT PRIMARY KEY,
+        filename TEXT NOT NULL,
+        file_type TEXT NOT NULL,
+        total_size INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        description TEXT,
+        uploaded_by TEXT NOT NULL,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        FOREIGN KEY (uploaded_by) REFERENCES users(id) ON DELETE CASCADE
+      );
+    `);
+
+    // Columns added to existing tables before migrations were tracked
+    addColumnIfMissing(sqlite, "media_files", "transcode_status", "TEXT NOT NULL DEFAULT 'none'");
+    addColumnIfMissing(sqlite, "media_files", "hls_url", "TEXT");
+    addColumnIfMissing(sqlite, "media_files", "transcode_error", "TEXT");
+    addColumnIfMissing(sqlite, "rooms", "subtitle_id", "TEXT");
+    addColumnIfMissing(sqlite, "media_files", "duration", "REAL");
+    addColumnIfMissing(sqlite, "media_files", "container", "TEXT");
+    addColumnIfMissing(sqlite, "media_files", "video_codec", "TEXT");
+    addColumnIfMissing(sqlite, "media_files", "audio_codec", "TEXT");
+    addColumnIfMissing(sqlite, "media_files", "width", "INTEGER");
+    addColumnIfMissing(sqlite, "media_files", "height", "INTEGER");
+    addColumnIfMissing(sqlite, "media_files", "bit_rate", "INTEGER");
+    addColumnIfMissing(sqlite, "media_files", "audio_streams", "TEXT");
+    addColumnIfMissing(sqlite, "media_files", "subtitle_streams", "TEXT");
+    addColumnIfMissing(sqlite, "media_files", "probed_at", "INTEGER");
+    addColumnIfMissing(sqlite, "media_files", "probe_error", "TEXT");
+    addColumnIfMissing(sqlite, "media_files", "thumbnail_url", "TEXT");
+    addColumnIfMissing(sqlite, "media_files", "preview_track_url", "TEXT");
+    addColumnIfMissing(sqlite, "media_files", "thumbnail_error", "TEXT");
+  },
+};
+
+const addColumnIfMissing = (
+  sqlite: SqliteDatabase,
+  table: string,
+  column: string,
+  definition: string
+) => {
+  const columns = sqlite.pragma(`table_info(${table})`) as { name: string }[];
+  if (!columns.some((c) => c.name === column)) {
+    sqlite.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+};
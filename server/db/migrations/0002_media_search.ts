@@ -0,0 +1,45 @@
+import type { Migration } from "./types";
+
+/**
+ * FTS5 index over the searchable media text. It keeps its own copy of the
+ * text keyed by media id rather than pointing at media_files' implicit rowid,
+ * which VACUUM is free to renumber. Triggers keep it in sync.
+ */
+export const mediaSearch: Migration = {
+  version: 2,
+  name: "media_search",
+  up: (sqlite) => {
+    sqlite.exec(`
+      CREATE VIRTUAL TABLE media_search USING fts5(
+        media_id UNINDEXED,
+        title,
+        description,
+        director,
+        actors,
+        genre,
+        tokenize = 'unicode61 remove_diacritics 2'
+      );
+
+      CREATE TRIGGER media_files_search_insert AFTER INSERT ON media_files BEGIN
+        INSERT INTO media_search (media_id, title, description, director, actors, genre)
+        VALUES (new.id, new.title, new.description, new.director, new.actors, new.genre);
+      END;
+
+      CREATE TRIGGER media_files_search_update
+      AFTER UPDATE OF title, description, director, actors, genre ON media_files BEGIN
+        DELETE FROM media_search WHERE media_id = old.id;
+        INSERT INTO media_search (media_id, title, description, director, actors, genre)
+        VALUES (new.id, new.title, new.description, new.director, new.actors, new.genre);
+      END;
+
+      CREATE TRIGGER media_files_search_delete AFTER DELETE ON media_files BEGIN
+        DELETE FROM media_search WHERE media_id = old.id;
+      END;
+
+      INSERT INTO media_search (media_id, title, description, director, actors, genre)
+      SELECT id, title, description, director, actors, genre FROM media_files;
+
+      CREATE INDEX media_files_release_year_idx ON media_files (release_year);
+    `);
+  },
+};
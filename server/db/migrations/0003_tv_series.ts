@@ -0,0 +1,36 @@
+import type { Migration } from "./types";
+
+/**
+ * TV shows. An episode is an ordinary media file that points at its series
+ * with a season and episode number; seasons are just those numbers grouped.
+ */
+export const tvSeries: Migration = {
+  version: 3,
+  name: "tv_series",
+  up: (sqlite) => {
+    sqlite.exec(`
+      CREATE TABLE tv_series (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        description TEXT,
+        poster_url TEXT,
+        imdb_id TEXT,
+        release_year INTEGER,
+        rating TEXT,
+        genre TEXT,
+        actors TEXT,
+        total_seasons INTEGER,
+        external_api_url TEXT,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        updated_at INTEGER NOT NULL DEFAULT (unixepoch())
+      );
+
+      ALTER TABLE media_files ADD COLUMN series_id TEXT REFERENCES tv_series(id) ON DELETE SET NULL;
+      ALTER TABLE media_files ADD COLUMN season_number INTEGER;
+      ALTER TABLE media_files ADD COLUMN episode_number INTEGER;
+
+      CREATE INDEX media_files_episode_idx
+        ON media_files (series_id, season_number, episode_number);
+    `);
+  },
+};
@@ -0,0 +1,15 @@
+import type { Migration } from "./types";
+
+/**
+ * Lets an admin pin a media file to the IMDb title they picked, so later
+ * metadata lookups go by that ID instead of searching by title again.
+ */
+export const metadataPin: Migration = {
+  version: 4,
+  name: "metadata_pin",
+  up: (sqlite) => {
+    sqlite.exec(`
+      ALTER TABLE media_files ADD COLUMN imdb_pinned INTEGER NOT NULL DEFAULT 0;
+    `);
+  },
+};
@@ -0,0 +1,16 @@
+import type { Migration } from "./types";
+
+/**
+ * Resolution and source tags parsed from an upload's release name
+ * ("1080p", "BluRay"), kept alongside the probed technical metadata.
+ */
+export const releaseInfo: Migration = {
+  version: 5,
+  name: "release_info",
+  up: (sqlite) => {
+    sqlite.exec(`
+      ALTER TABLE media_files ADD COLUMN release_resolution TEXT;
+      ALTER TABLE media_files ADD COLUMN release_source TEXT;
+    `);
+  },
+};
@@ -0,0 +1,18 @@
+import type { Migration } from "./types";
+
+/**
+ * What the library watcher needs to follow files on disk: a content
+ * fingerprint to recognise a file that was moved or renamed, and when a file
+ * was last seen missing.
+ */
+export const libraryWatch: Migration = {
+  version: 6,
+  name: "library_watch",
+  up: (sqlite) => {
+    sqlite.exec(`
+      ALTER TABLE media_files ADD COLUMN content_hash TEXT;
+      ALTER TABLE media_files ADD COLUMN missing_at INTEGER;
+      CREATE INDEX media_files_content_hash_idx ON media_files (content_hash);
+    `);
+  },
+};
@@ -0,0 +1,19 @@
+import type { Migration } from "./types";
+
+/**
+ * Which storage backend holds each media file, and under what key. Files
+ * uploaded so far are all on local disk under /uploads.
+ */
+export const storageBackend: Migration = {
+  version: 7,
+  name: "storage_backend",
+  up: (sqlite) => {
+    sqlite.exec(`
+      ALTER TABLE media_files ADD COLUMN storage_backend TEXT;
+      ALTER TABLE media_files ADD COLUMN storage_key TEXT;
+      UPDATE media_files
+        SET storage_backend = 'local', storage_key = substr(file_url, length('/uploads/') + 1)
+        WHERE file_url LIKE '/uploads/%';
+    `);
+  },
+};
@@ -0,0 +1,17 @@
+import type { Migration } from "./types";
+
+/**
+ * Replaces the host flag on room participants with a role (host, cohost or
+ * viewer), so hosting can be shared and handed over.
+ */
+export const roomRoles: Migration = {
+  version: 8,
+  name: "room_roles",
+  up: (sqlite) => {
+    sqlite.exec(`
+      ALTER TABLE room_participants ADD COLUMN role TEXT NOT NULL DEFAULT 'viewer';
+      UPDATE room_participants SET role = 'host' WHERE is_host = 1;
+      ALTER TABLE room_participants DROP COLUMN is_host;
+    `);
+  },
+};
@@ -0,0 +1,43 @@
+import type { Migration } from "./types";
+
+/**
+ * Room moderation: muted participants, bans that keep someone out for the
+ * rest of the room's life, and a log of every kick, ban and mute.
+ */
+export const roomModeration: Migration = {
+  version: 9,
+  name: "room_moderation",
+  up: (sqlite) => {
+    sqlite.exec(`
+      ALTER TABLE room_participants ADD COLUMN muted INTEGER NOT NULL DEFAULT 0;
+
+      CREATE TABLE room_bans (
+        id TEXT PRIMARY KEY,
+        room_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        username TEXT NOT NULL,
+        ip_address TEXT,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX room_bans_room_idx ON room_bans (room_id);
+
+      CREATE TABLE room_moderation_log (
+        id TEXT PRIMARY KEY,
+        room_id TEXT NOT NULL,
+        action TEXT NOT NULL,
+        actor_user_id TEXT NOT NULL,
+        actor_username TEXT NOT NULL,
+        target_user_id TEXT NOT NULL,
+        target_username TEXT NOT NULL,
+        reason TEXT,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch() * 1000),
+        FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX room_moderation_log_room_created_idx
+        ON room_moderation_log (room_id, created_at);
+    `);
+  },
+};
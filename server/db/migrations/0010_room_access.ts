@@ -0,0 +1,37 @@
+import type { Migration } from "./types";
+
+/**
+ * Per-room access policies and invite links. Rooms without a room_access row
+ * keep asking the host to approve every join.
+ */
+export const roomAccess: Migration = {
+  version: 10,
+  name: "room_access",
+  up: (sqlite) => {
+    sqlite.exec(`
+      CREATE TABLE room_access (
+        room_id TEXT PRIMARY KEY,
+        mode TEXT NOT NULL DEFAULT 'approval',
+        password_hash TEXT,
+        updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE room_invites (
+        id TEXT PRIMARY KEY,
+        room_id TEXT NOT NULL,
+        token TEXT NOT NULL,
+        max_uses INTEGER,
+        use_count INTEGER NOT NULL DEFAULT 0,
+        expires_at INTEGER NOT NULL,
+        created_by TEXT NOT NULL,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        revoked_at INTEGER,
+        FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE CASCADE
+      );
+
+      CREATE UNIQUE INDEX room_invites_token_idx ON room_invites (token);
+      CREATE INDEX room_invites_room_idx ON room_invites (room_id);
+    `);
+  },
+};
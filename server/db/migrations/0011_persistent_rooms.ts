@@ -0,0 +1,40 @@
+import type { Migration } from "./types";
+
+/**
+ * Rooms owned by an account, which stay around when everyone leaves, and the
+ * watch parties scheduled in them. Participants can be linked to the account
+ * they joined from, so an owner is recognised in their rooms.
+ */
+export const persistentRooms: Migration = {
+  version: 11,
+  name: "persistent_rooms",
+  up: (sqlite) => {
+    sqlite.exec(`
+      ALTER TABLE rooms ADD COLUMN name TEXT;
+      ALTER TABLE rooms ADD COLUMN owner_id TEXT REFERENCES users(id) ON DELETE CASCADE;
+
+      CREATE INDEX rooms_owner_idx ON rooms (owner_id);
+
+      ALTER TABLE room_participants ADD COLUMN account_id TEXT REFERENCES users(id) ON DELETE SET NULL;
+      CREATE INDEX room_participants_account_idx ON room_participants (room_id, account_id);
+
+      CREATE TABLE watch_parties (
+        id TEXT PRIMARY KEY,
+        room_id TEXT NOT NULL,
+        media_id TEXT,
+        video_url TEXT NOT NULL,
+        title TEXT NOT NULL,
+        starts_at INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'scheduled',
+        created_by TEXT NOT NULL,
+        created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+        started_at INTEGER,
+        FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE CASCADE,
+        FOREIGN KEY (media_id) REFERENCES media_files(id) ON DELETE SET NULL
+      );
+
+      CREATE INDEX watch_parties_room_idx ON watch_parties (room_id);
+      CREATE INDEX watch_parties_status_starts_idx ON watch_parties (status, starts_at);
+    `);
+  },
+};
@@ -0,0 +1,16 @@
+import type { Migration } from "./types";
+
+/**
+ * The account behind a join request or ban, for signed-in users, so a ban
+ * follows the account rather than a per-join id or an IP address.
+ */
+export const roomAccounts: Migration = {
+  version: 12,
+  name: "room_accounts",
+  up: (sqlite) => {
+    sqlite.exec(`
+      ALTER TABLE room_join_requests ADD COLUMN account_id TEXT REFERENCES users(id) ON DELETE SET NULL;
+      ALTER TABLE room_bans ADD COLUMN account_id TEXT REFERENCES users(id) ON DELETE SET NULL;
+    `);
+  },
+};
@@ -0,0 +1,32 @@
+import type { Migration } from "./types";
+import { baseline } from "./0001_baseline";
+import { mediaSearch } from "./0002_media_search";
+import { tvSeries } from "./0003_tv_series";
+import { metadataPin } from "./0004_metadata_pin";
+import { releaseInfo } from "./0005_release_info";
+import { libraryWatch } from "./0006_library_watch";
+import { storageBackend } from "./0007_storage_backend";
+import { roomRoles } from "./0008_room_roles";
+import { roomModeration } from "./0009_room_moderation";
+import { roomAccess } from "./0010_room_access";
+import { persistentRooms } from "./0011_persistent_rooms";
+import { roomAccounts } from "./0012_room_accounts";
+
+export type { Migration, SqliteDatabase } from "./types";
+
+// Every migration, oldest first. Add new ones at the end with the next
+// version number, and update ../schema.ts to match in the same change.
+export const migrations: Migration[] = [
+  baseline,
+  mediaSearch,
+  tvSeries,
+  metadataPin,
+  releaseInfo,
+  libraryWatch,
+  storageBackend,
+  roomRoles,
+  roomModeration,
+  roomAccess,
+  persistentRooms,
+  roomAccounts,
+];
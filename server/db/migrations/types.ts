@@ -0,0 +1,10 @@
+import type { sqliteClient } from "../client";
+
+export type SqliteDatabase = typeof sqliteClient;
+
+export interface Migration {
+  // Applied in ascending order; never renumber or edit one that has shipped
+  version: number;
+  name: string;
+  up: (sqlite: SqliteDatabase) => void;
+}
@@ -1,5 +1,6 @@
 import { sql } from "drizzle-orm";
 import { integer, real, sqliteTable, text } from "drizzle-orm/sqlite-core";
+import type { MediaAudioStream, MediaSubtitleStream } from "../../shared/mediaInfo";
 
 export const users = sqliteTable("users", {
   id: text("id").primaryKey(),
@@ -36,6 +37,10 @@ export const rooms = sqliteTable("rooms", {
   subtitleEnabled: integer("subtitle_enabled", { mode: "boolean" })
     .notNull()
     .default(false),
+  subtitleId: text("subtitle_id"), // Host-selected track; null means the first one
+  name: text("name"),
+  // Rooms with an owner are kept when everyone leaves; see watchParties
+  ownerId: text("owner_id").references(() => users.id, { onDelete: "cascade" }),
   createdAt: integer("created_at", { mode: "timestamp" })
     .notNull()
     .default(sql`(unixepoch())`),
@@ -51,16 +56,80 @@ export const roomParticipants = sqliteTable("room_participants", {
     .references(() => rooms.id, { onDelete: "cascade" }),
   userId: text("user_id").notNull(), // Unique ID based on IP + browser
   username: text("username").notNull(),
-  isHost: integer("is_host", { mode: "boolean" })
-    .notNull()
-    .default(false),
-  status: text("status").notNull().default("active"), // active, left, rejected
+  // The signed-in account that joined, if any
+  accountId: text("account_id").references(() => users.id, { onDelete: "set null" }),
+  role: text("role").notNull().default("viewer"), // host, cohost, viewer
+  status: text("status").notNull().default("active"), // active, left, rejected, kicked, banned
+  // Muted participants can watch but not chat
+  muted: integer("muted", { mode: "boolean" }).notNull().default(false),
   joinedAt: integer("joined_at", { mode: "timestamp" })
     .notNull()
     .default(sql`(unixepoch())`),
   leftAt: integer("left_at", { mode: "timestamp" }),
 });
 
+// Join requests matching a ban's user id or account are refused until the
+// room is gone
+export const roomBans = sqliteTable("room_bans", {
+  id: text("id").primaryKey(),
+  roomId: text("room_id")
+    .notNull()
+    .references(() => rooms.id, { onDelete: "cascade" }),
+  userId: text("user_id").notNull(),
+  username: text("username").notNull(),
+  ipAddress: text("ip_address"), // from the banned user's join request; for reference only
+  accountId: text("account_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
+// Who may join without the host approving them; see utils/roomAccess.ts.
+// Rooms without a row use "approval".
+export const roomAccess = sqliteTable("room_access", {
+  roomId: text("room_id")
+    .primaryKey()
+    .references(() => rooms.id, { onDelete: "cascade" }),
+  mode: text("mode").notNull().default("approval"), // open, approval, password, invite
+  passwordHash: text("password_hash"), // set in password mode only
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
+// Links that let their holder straight in, whatever the room's mode
+export const roomInvites = sqliteTable("room_invites", {
+  id: text("id").primaryKey(),
+  roomId: text("room_id")
+    .notNull()
+    .references(() => rooms.id, { onDelete: "cascade" }),
+  token: text("token").notNull(),
+  maxUses: integer("max_uses"), // null for unlimited
+  useCount: integer("use_count").notNull().default(0),
+  expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+  createdBy: text("created_by").notNull(), // participant user id
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+  revokedAt: integer("revoked_at", { mode: "timestamp" }),
+});
+
+export const roomModerationLog = sqliteTable("room_moderation_log", {
+  id: text("id").primaryKey(),
+  roomId: text("room_id")
+    .notNull()
+    .references(() => rooms.id, { onDelete: "cascade" }),
+  action: text("action").notNull(), // kick, ban, mute, unmute
+  actorUserId: text("actor_user_id").notNull(),
+  actorUsername: text("actor_username").notNull(),
+  targetUserId: text("target_user_id").notNull(),
+  targetUsername: text("target_username").notNull(),
+  reason: text("reason"),
+  createdAt: integer("created_at", { mode: "timestamp_ms" })
+    .notNull()
+    .default(sql`(unixepoch() * 1000)`),
+});
+
 export const roomJoinRequests = sqliteTable("room_join_requests", {
   id: text("id").primaryKey(),
   roomId: text("room_id")
@@ -71,6 +140,7 @@ export const roomJoinRequests = sqliteTable("room_join_requests", {
   browserName: text("browser_name"),
   browserVersion: text("browser_version"),
   ipAddress: text("ip_address"),
+  accountId: text("account_id").references(() => users.id, { onDelete: "set null" }),
   status: text("status").notNull().default("pending"), // pending, approved, rejected
   requestedAt: integer("requested_at", { mode: "timestamp" })
     .notNull()
@@ -78,11 +148,63 @@ export const roomJoinRequests = sqliteTable("room_join_requests", {
   respondedAt: integer("responded_at", { mode: "timestamp" }),
 });
 
+export const roomMessages = sqliteTable("room_messages", {
+  id: text("id").primaryKey(),
+  roomId: text("room_id")
+    .notNull()
+    .references(() => rooms.id, { onDelete: "cascade" }),
+  userId: text("user_id").notNull(),
+  username: text("username").notNull(),
+  body: text("body").notNull(),
+  // Millisecond precision so messages sent within the same second keep order
+  createdAt: integer("created_at", { mode: "timestamp_ms" })
+    .notNull()
+    .default(sql`(unixepoch() * 1000)`),
+});
+
+export const roomQueueItems = sqliteTable("room_queue_items", {
+  id: text("id").primaryKey(),
+  roomId: text("room_id")
+    .notNull()
+    .references(() => rooms.id, { onDelete: "cascade" }),
+  // Library item the entry was added from; null for plain URLs
+  mediaId: text("media_id").references(() => mediaFiles.id, { onDelete: "set null" }),
+  videoUrl: text("video_url").notNull(),
+  title: text("title").notNull(),
+  position: integer("position").notNull(), // 0-based play order within the room
+  addedBy: text("added_by").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
+// A start time and video for an owned room; the server starts playback then
+export const watchParties = sqliteTable("watch_parties", {
+  id: text("id").primaryKey(),
+  roomId: text("room_id")
+    .notNull()
+    .references(() => rooms.id, { onDelete: "cascade" }),
+  mediaId: text("media_id").references(() => mediaFiles.id, { onDelete: "set null" }),
+  videoUrl: text("video_url").notNull(),
+  title: text("title").notNull(),
+  startsAt: integer("starts_at", { mode: "timestamp" }).notNull(),
+  status: text("status").notNull().default("scheduled"), // scheduled, started, cancelled, missed
+  createdBy: text("created_by").notNull(), // owner's user id
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+  startedAt: integer("started_at", { mode: "timestamp" }),
+});
+
 export const mediaFiles = sqliteTable("media_files", {
   id: text("id").primaryKey(),
   title: text("title").notNull(),
   description: text("description"),
   fileUrl: text("file_url").notNull(),
+  // Storage backend ("local", "s3") and key of an uploaded file; null for
+  // library files and external links
+  storageBackend: text("storage_backend"),
+  storageKey: text("storage_key"),
   fileType: text("file_type").notNull(),
   fileSize: integer("file_size"),
   uploadedBy: text("uploaded_by")
@@ -92,11 +214,101 @@ export const mediaFiles = sqliteTable("media_files", {
   externalApiUrl: text("external_api_url"), // IMDB, TMDB, etc. link
   posterUrl: text("poster_url"), // Cached poster image URL
   imdbId: text("imdb_id"), // IMDB ID for reference
+  // Set when an admin picked the match; lookups then go by imdbId
+  imdbPinned: integer("imdb_pinned", { mode: "boolean" })
+    .notNull()
+    .default(false),
   releaseYear: integer("release_year"),
   rating: text("rating"), // e.g., "PG-13", "R"
   genre: text("genre"), // Comma-separated genres
   director: text("director"),
   actors: text("actors"), // Comma-separated actors
+  // HLS transcoding: none, pending, processing, ready, failed
+  transcodeStatus: text("transcode_status").notNull().default("none"),
+  hlsUrl: text("hls_url"), // Master playlist once transcoding is ready
+  transcodeError: text("transcode_error"),
+  // Technical metadata from ffprobe; null until the file has been probed
+  duration: real("duration"), // seconds
+  container: text("container"), // ffprobe format_name
+  videoCodec: text("video_codec"),
+  audioCodec: text("audio_codec"),
+  width: integer("width"),
+  height: integer("height"),
+  bitRate: integer("bit_rate"),
+  audioStreams: text("audio_streams", { mode: "json" }).$type<MediaAudioStream[]>(),
+  subtitleStreams: text("subtitle_streams", { mode: "json" }).$type<MediaSubtitleStream[]>(),
+  probedAt: integer("probed_at", { mode: "timestamp" }),
+  probeError: text("probe_error"),
+  // Parsed from the release name at upload; admins can correct them
+  releaseResolution: text("release_resolution"), // e.g. "1080p"
+  releaseSource: text("release_source"), // e.g. "BluRay", "WEB-DL"
+  // Generated frames under /uploads/thumbnails/<id>
+  thumbnailUrl: text("thumbnail_url"), // Poster frame, used when there's no OMDB poster
+  previewTrackUrl: text("preview_track_url"), // WebVTT thumbnails track for scrub previews
+  thumbnailError: text("thumbnail_error"),
+  // Set when the file is a TV episode
+  seriesId: text("series_id").references(() => tvSeries.id, { onDelete: "set null" }),
+  seasonNumber: integer("season_number"),
+  episodeNumber: integer("episode_number"),
+  // Library files: fingerprint for spotting moves, and when the file went
+  // missing from disk (null while it's there)
+  contentHash: text("content_hash"),
+  missingAt: integer("missing_at", { mode: "timestamp" }),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
+// Show-level OMDB metadata shared by a series' episodes
+export const tvSeries = sqliteTable("tv_series", {
+  id: text("id").primaryKey(),
+  title: text("title").notNull(),
+  description: text("description"),
+  posterUrl: text("poster_url"),
+  imdbId: text("imdb_id"),
+  releaseYear: integer("release_year"), // Year the show started
+  rating: text("rating"),
+  genre: text("genre"),
+  actors: text("actors"),
+  totalSeasons: integer("total_seasons"),
+  externalApiUrl: text("external_api_url"),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
+export const mediaSubtitles = sqliteTable("media_subtitles", {
+  id: text("id").primaryKey(),
+  mediaId: text("media_id")
+    .notNull()
+    .references(() => mediaFiles.id, { onDelete: "cascade" }),
+  language: text("language").notNull(), // BCP 47 / ISO 639 code, "und" if unknown
+  label: text("label").notNull(),
+  fileUrl: text("file_url").notNull(), // WebVTT under /uploads/subtitles
+  source: text("source").notNull(), // upload, embedded
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
+// In-progress resumable uploads. Received bytes live in uploads/.incoming/<id>;
+// the file's size on disk is the upload offset.
+export const mediaUploads = sqliteTable("media_uploads", {
+  id: text("id").primaryKey(),
+  filename: text("filename").notNull(), // original client filename
+  fileType: text("file_type").notNull(),
+  totalSize: integer("total_size").notNull(),
+  title: text("title").notNull(),
+  description: text("description"),
+  uploadedBy: text("uploaded_by")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
   createdAt: integer("created_at", { mode: "timestamp" })
     .notNull()
     .default(sql`(unixepoch())`),
@@ -1,83 +1,15 @@
 import { sqliteClient } from "./client";
+import { assertSchemaMatches, runMigrations } from "./migrate";
+
+// Set DB_AUTO_MIGRATE=false to apply migrations only through the CLI
+// (`npm run db:migrate`); startup then refuses to run with pending ones.
+const autoMigrate = process.env.DB_AUTO_MIGRATE !== "false";
 
 export const ensureDatabase = () => {
   sqliteClient.pragma("journal_mode = WAL");
 
-  sqliteClient.exec(`
-    CREATE TABLE IF NOT EXISTS users (
-      id TEXT PRIMARY KEY,
-      email TEXT NOT NULL UNIQUE,
-      password_hash TEXT NOT NULL,
-      username TEXT,
-      created_at INTEGER NOT NULL DEFAULT (unixepoch()),
-      updated_at INTEGER NOT NULL DEFAULT (unixepoch())
-    );
-
-    CREATE TABLE IF NOT EXISTS user_roles (
-      id TEXT PRIMARY KEY,
-      user_id TEXT NOT NULL,
-      role TEXT NOT NULL,
-      created_at INTEGER NOT NULL DEFAULT (unixepoch()),
-      UNIQUE(user_id, role),
-      FOREIGN KEY (user_id) REFERENCES users(id)
-    );
-
-    CREATE TABLE IF NOT EXISTS rooms (
-      id TEXT PRIMARY KEY,
-      code TEXT NOT NULL UNIQUE,
-      video_url TEXT,
-      playback_position REAL NOT NULL DEFAULT 0,
-      is_playing INTEGER NOT NULL DEFAULT 0,
-      subtitle_enabled INTEGER NOT NULL DEFAULT 0,
-      created_at INTEGER NOT NULL DEFAULT (unixepoch()),
-      updated_at INTEGER NOT NULL DEFAULT (unixepoch())
-    );
-
-    CREATE TABLE IF NOT EXISTS room_participants (
-      id TEXT PRIMARY KEY,
-      room_id TEXT NOT NULL,
-      user_id TEXT NOT NULL,
-      username TEXT NOT NULL,
-      is_host INTEGER NOT NULL DEFAULT 0,
-      status TEXT NOT NULL DEFAULT 'active',
-      joined_at INTEGER NOT NULL DEFAULT (unixepoch()),
-      left_at INTEGER,
-      FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE CASCADE
-    );
-
-    CREATE TABLE IF NOT EXISTS room_join_requests (
-      id TEXT PRIMARY KEY,
-      room_id TEXT NOT NULL,
-      user_id TEXT NOT NULL,
-      username TEXT NOT NULL,
-      browser_name TEXT,
-      browser_version TEXT,
-      ip_address TEXT,
-      status TEXT NOT NULL DEFAULT 'pending',
-      requested_at INTEGER NOT NULL DEFAULT (unixepoch()),
-      responded_at INTEGER,
-      FOREIGN KEY (room_id) REFERENCES rooms(id) ON DELETE CASCADE
-    );
-
-    CREATE TABLE IF NOT EXISTS media_files (
-      id TEXT PRIMARY KEY,
-      title TEXT NOT NULL,
-      description TEXT,
-      file_url TEXT NOT NULL,
-      file_type TEXT NOT NULL,
-      file_size INTEGER,
-      uploaded_by TEXT NOT NULL,
-      external_api_url TEXT,
-      poster_url TEXT,
-      imdb_id TEXT,
-      release_year INTEGER,
-      rating TEXT,
-      genre TEXT,
-      director TEXT,
-      actors TEXT,
-      created_at INTEGER NOT NULL DEFAULT (unixepoch()),
-      updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
-      FOREIGN KEY (uploaded_by) REFERENCES users(id)
-    );
-  `);
+  if (autoMigrate) {
+    runMigrations(sqliteClient);
+  }
+  assertSchemaMatches(sqliteClient);
 };
@@ -0,0 +1,59 @@
+/**
+ * Import the server's media folder (LIBRARY_DIR) from the command line:
+ *   tsx server/importLibrary.ts [folder inside LIBRARY_DIR]
+ *
+ * Files are registered as uploaded by the first admin account. Probing,
+ * thumbnails and transcodes for them run when the API server next starts;
+ * use the admin API instead to have a running server start them right away.
+ */
+import "dotenv/config";
+import { inArray } from "drizzle-orm";
+import { db, sqliteClient } from "./db/client";
+import { ensureDatabase } from "./db/setup";
+import { mediaFiles } from "./db/schema";
+import { LIBRARY_DIR, findLibraryOwner, importLibrary } from "./utils/library";
+
+const main = async () => {
+  if (!LIBRARY_DIR) {
+    throw new Error("Set LIBRARY_DIR to the folder to import");
+  }
+  ensureDatabase();
+
+  const admin = findLibraryOwner();
+  if (!admin) {
+    throw new Error("No admin account yet; sign up in the app first");
+  }
+
+  const importedIds: string[] = [];
+  const report = await importLibrary({
+    uploadedBy: admin.id,
+    subdirectory: process.argv[2],
+    onImported: (mediaId) => importedIds.push(mediaId),
+  });
+
+  // What queueTranscode does, minus the queue: the server resumes pending
+  // transcodes at startup
+  if (importedIds.length > 0) {
+    db.update(mediaFiles).set({ transcodeStatus: "pending" }).where(inArray(mediaFiles.id, importedIds)).run();
+  }
+
+  console.log(`Imported from ${report.root} as ${admin.email}`);
+  report.imported.forEach((file) => console.log(`  imported     ${file.path} -> "${file.title}"`));
+  report.restored.forEach((file) => console.log(`  restored     ${file.path}`));
+  report.moved.forEach((file) => console.log(`  moved        ${file.from} -> ${file.path}`));
+  report.missing.forEach((file) => console.log(`  missing      ${file.path}`));
+  report.duplicates.forEach((file) => console.log(`  duplicate    ${file.path} (same as ${file.duplicateOf})`));
+  report.unreadable.forEach((file) => console.log(`  unreadable   ${file.path}: ${file.error}`));
+  console.log(
+    `${report.imported.length} imported, ${report.alreadyImported} already in the library, ` +
+      `${report.restored.length} restored, ${report.moved.length} moved, ${report.missing.length} missing, ` +
+      `${report.duplicates.length} duplicate(s), ${report.unreadable.length} unreadable`
+  );
+};
+
+main()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => sqliteClient.close());
@@ -7,46 +7,147 @@ import multer from "multer";
 import path from "path";
 import fs from "fs";
 import { randomUUID } from "crypto";
-import { desc, eq } from "drizzle-orm";
+import { pipeline } from "stream/promises";
+import { SQL, and, asc, desc, eq, gt, gte, inArray, isNotNull, isNull, lt, lte, or, sql } from "drizzle-orm";
 import { WebSocketServer, WebSocket } from "ws";
+import { z } from "zod";
 import { createServer } from "http";
 import { db } from "./db/client";
 import { ensureDatabase } from "./db/setup";
 import {
   mediaFiles,
+  mediaSubtitles,
+  mediaUploads,
+  roomAccess,
+  roomBans,
+  roomInvites,
   roomParticipants,
   roomJoinRequests,
+  roomMessages,
+  roomModerationLog,
+  roomQueueItems,
   rooms,
+  tvSeries,
   userRoles,
   users,
+  watchParties,
 } from "./db/schema";
-import { fetchOmdbMetadata, cachePosterImage } from "./utils/omdb";
-import { generateUserId, getClientIp } from "./utils/userIdGenerator";
+import { cachePosterImage, describeMetadataProviders, fetchMetadata, searchMetadata } from "./utils/metadata";
+import { EpisodeInput, MediaRecordInput, createMediaRecord, findOrCreateSeries } from "./utils/mediaRecords";
+import {
+  LIBRARY_DIR,
+  MEDIA_MIME_TYPES,
+  importLibrary,
+  isServerMedia,
+  libraryFolder,
+  mediaPathFromUrl,
+  mediaSourceFor,
+} from "./utils/library";
+import { UPLOAD_DIR } from "./utils/localStorage";
+import { defaultStorage, getStorageBackend, storeFile, storedObjectForUrl } from "./utils/storage";
+import { libraryRoots, watchLibraryRoots } from "./utils/libraryWatcher";
+import { getClientIp, trustProxySetting } from "./utils/clientIp";
+import {
+  RoomAccessPolicy,
+  RoomAccessSettings,
+  checkRoomAccess,
+  generateInviteToken,
+  isRoomAccessMode,
+  parseAccessSettings,
+  parseInviteOptions,
+} from "./utils/roomAccess";
+import { isWatchPartyMissed, parseRoomName, parseWatchPartyInput, watchPartyDelay } from "./utils/watchParties";
+import { BroadcastOptions, selectRecipients } from "./utils/roomBroadcast";
+import { createJobQueue } from "./utils/jobQueue";
+import { HLS_MASTER_PLAYLIST, transcodeToHls } from "./utils/transcoder";
+import { extractEmbeddedSubtitles, toWebVtt } from "./utils/subtitles";
+import { probeMedia } from "./utils/ffmpeg";
+import { splitGenres, toFtsQuery } from "./utils/mediaSearch";
+import {
+  POSTER_FILENAME,
+  PREVIEW_TRACK_FILENAME,
+  SPRITE_FILENAME,
+  generatePoster,
+  generatePreviewSprite,
+} from "./utils/thumbnails";
+import {
+  ClockChanges,
+  RoomClock,
+  applyClockChanges,
+  createRoomClock,
+  getClockPosition,
+  toClockFrame,
+} from "./utils/roomClock";
+import {
+  ChatMessage,
+  ClientMessage,
+  JoinRequest,
+  ParticipantRecord,
+  ParticipantRole,
+  ParticipantStatus,
+  ProtocolErrorCode,
+  QueueItem,
+  RoomUpdatePayload,
+  ServerMessage,
+  WatchParty,
+  negotiateProtocolVersion,
+  parseClientMessage,
+  participantStatusSchema,
+  roomUpdatePayloadSchema,
+} from "../shared/roomProtocol";
 
 const app = express();
+app.set("trust proxy", trustProxySetting());
 const port = Number(process.env.PORT) || 4000;
 const jwtSecret = process.env.JWT_SECRET || "dev-secret";
 const apiBase = "/api";
 
 ensureDatabase();
 
-const uploadDir = path.join(process.cwd(), "server", "uploads");
+const uploadDir = UPLOAD_DIR;
 fs.mkdirSync(uploadDir, { recursive: true });
+// Where uploaded media and posters go. Generated files (HLS, thumbnails,
+// subtitles) always stay under uploadDir.
+const mediaStorage = defaultStorage();
+// Transcoded HLS ladders, one directory per media id
+const hlsDir = path.join(uploadDir, "hls");
+// WebVTT subtitle tracks, one directory per media id
+const subtitleDir = path.join(uploadDir, "subtitles");
+// Poster frames and preview sprites, one directory per media id
+const thumbnailDir = path.join(uploadDir, "thumbnails");
+// Uploads in progress: multipart files, and partial resumable uploads named
+// by upload id. Dot-prefixed so express.static never serves them.
+const incomingDir = path.join(uploadDir, ".incoming");
+fs.mkdirSync(incomingDir, { recursive: true });
+
+const MAX_UPLOAD_BYTES = 1024 * 1024 * 5000; // 5GB ceiling
+// Resumable uploads nobody has touched for this long are discarded
+const UPLOAD_EXPIRY_MS = 1000 * 60 * 60 * 24 * 7;
+const UPLOAD_CLEANUP_INTERVAL_MS = 1000 * 60 * 60;
+
+// Preserve the file extension and make the name unique
+const storedFilename = (originalName: string) => {
+  const ext = path.extname(originalName);
+  const name = path.basename(originalName, ext);
+  return `${name}-${Date.now()}${ext}`;
+};
 
 const storage = multer.diskStorage({
-  destination: uploadDir,
+  destination: incomingDir,
   filename: (req, file, cb) => {
-    // Preserve file extension
-    const ext = path.extname(file.originalname);
-    const name = path.basename(file.originalname, ext);
-    const filename = `${name}-${Date.now()}${ext}`;
-    cb(null, filename);
+    cb(null, storedFilename(file.originalname));
   },
 });
 
 const upload = multer({
   storage,
-  limits: { fileSize: 1024 * 1024 * 5000 }, // 5GB ceiling
+  limits: { fileSize: MAX_UPLOAD_BYTES },
+});
+
+// Subtitle files are converted before they are written, so keep them in memory
+const subtitleUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 1024 * 1024 * 2 }, // 2MB is plenty for text subtitles
 });
 
 app.use(
@@ -61,29 +162,12 @@ app.use(
 app.use(express.json({ limit: "5gb" }));
 app.use(express.urlencoded({ limit: "5gb", extended: true }));
 
-// Serve uploads with proper video MIME types and streaming support
-app.use("/uploads", (req, res, next) => {
-  const filePath = path.join(uploadDir, req.path);
-  const ext = path.extname(filePath).toLowerCase();
-
-  // Set proper MIME types for video files
-  const mimeTypes: { [key: string]: string } = {
-    ".mp4": "video/mp4",
-    ".mkv": "video/x-matroska",
-    ".webm": "video/webm",
-    ".avi": "video/x-msvideo",
-    ".mov": "video/quicktime",
-    ".flv": "video/x-flv",
-    ".wmv": "video/x-ms-wmv",
-    ".m4v": "video/x-m4v",
-    ".jpg": "image/jpeg",
-    ".jpeg": "image/jpeg",
-    ".png": "image/png",
-    ".gif": "image/gif",
-  };
+// Serve media with proper video MIME types and streaming support
+const mediaHeaders = (req: Request, res: Response, next: NextFunction) => {
+  const ext = path.extname(req.path).toLowerCase();
 
-  if (mimeTypes[ext]) {
-    res.setHeader("Content-Type", mimeTypes[ext]);
+  if (MEDIA_MIME_TYPES[ext]) {
+    res.setHeader("Content-Type", MEDIA_MIME_TYPES[ext]);
   }
 
   // Enable range requests for video streaming
@@ -93,7 +177,58 @@ app.use("/uploads", (req, res, next) => {
   res.setHeader("Access-Control-Allow-Headers", "Content-Type, Range");
 
   next();
-}, express.static(uploadDir));
+};
+
+app.use("/uploads", mediaHeaders, express.static(uploadDir));
+// The imported library folder, served in place
+if (LIBRARY_DIR) {
+  app.use("/library", mediaHeaders, express.static(LIBRARY_DIR));
+}
+// Files in remote storage (/storage/s3/...), streamed through the API with
+// range support so players can seek without access to the bucket
+app.get("/storage/*", mediaHeaders, async (req, res) => {
+  const stored = storedObjectForUrl(req.path);
+  // Files on local disk are served from /uploads
+  if (!stored || stored.backend.localPath(stored.key)) {
+    return res.status(404).end();
+  }
+
+  const match = req.headers.range?.match(/^bytes=(\d+)-(\d*)$/);
+  const range = match ? { start: Number(match[1]), end: match[2] ? Number(match[2]) : undefined } : undefined;
+  if (range?.end !== undefined && range.end < range.start) {
+    return res.status(416).end();
+  }
+
+  try {
+    const object = await stored.backend.get(stored.key, range);
+    if (!object) {
+      return res.status(404).end();
+    }
+    // Backends hand back the whole object for a range past its end
+    if (range && range.start >= object.size) {
+      object.body.destroy();
+      res.setHeader("Content-Range", `bytes */${object.size}`);
+      return res.status(416).end();
+    }
+
+    if (object.contentType && !res.getHeader("Content-Type")) {
+      res.setHeader("Content-Type", object.contentType);
+    }
+    if (object.range) {
+      res.status(206);
+      res.setHeader("Content-Range", `bytes ${object.range.start}-${object.range.end}/${object.size}`);
+      res.setHeader("Content-Length", object.range.end - object.range.start + 1);
+    } else {
+      res.setHeader("Content-Length", object.size);
+    }
+    await pipeline(object.body, res);
+  } catch (error) {
+    // Players drop connections all the time when seeking
+    if (res.headersSent) return res.destroy();
+    console.error("Error streaming from storage:", error);
+    return res.status(502).end();
+  }
+});
 
 // Request logging middleware
 app.use((req: Request, res: Response, next: NextFunction) => {
@@ -129,28 +264,47 @@ const sanitizeUser = (
   roles,
 });
 
+// Account tokens share the signing secret with room tokens, so each carries
+// its kind in `typ` and is only accepted where that kind is expected
 const generateToken = (userId: string) =>
-  jwt.sign({ userId }, jwtSecret, { expiresIn: "7d" });
+  jwt.sign({ typ: "account", userId }, jwtSecret, { expiresIn: "7d" });
+
+const accountTokenFrom = (req: Request) =>
+  req.headers.authorization?.replace("Bearer ", "") || (req.headers["x-auth-token"] as string | undefined);
+
+// The account id an account token was issued for, or null
+const verifyAccountToken = (token: string) => {
+  try {
+    const payload = jwt.verify(token, jwtSecret) as { typ?: string; userId?: string };
+    return payload.typ === "account" && payload.userId ? payload.userId : null;
+  } catch {
+    return null;
+  }
+};
 
 const authMiddleware = (
   req: AuthenticatedRequest,
   res: Response,
   next: NextFunction
 ) => {
-  const bearer = req.headers.authorization?.replace("Bearer ", "");
-  const token = bearer || (req.headers["x-auth-token"] as string | undefined);
+  const token = accountTokenFrom(req);
 
   if (!token) {
     return res.status(401).json({ error: "Unauthorized" });
   }
 
-  try {
-    const payload = jwt.verify(token, jwtSecret) as { userId: string };
-    req.userId = payload.userId;
-    next();
-  } catch (error) {
+  const userId = verifyAccountToken(token);
+  if (!userId) {
     return res.status(401).json({ error: "Invalid token" });
   }
+  req.userId = userId;
+  next();
+};
+
+// For routes guests use too: the signed-in account, if there is one
+const optionalAccountId = (req: Request) => {
+  const token = accountTokenFrom(req);
+  return token ? verifyAccountToken(token) : null;
 };
 
 const getUserWithRoles = (userId: string) => {
@@ -186,6 +340,158 @@ const requireAdmin = (
 const generateRoomCode = () =>
   Math.random().toString(36).substring(2, 8).toUpperCase();
 
+const findRoomParticipant = (roomId: string, userId: string) =>
+  db
+    .select()
+    .from(roomParticipants)
+    .where(eq(roomParticipants.roomId, roomId))
+    .all()
+    .find((p) => p.userId === userId) ?? null;
+
+// The participant an account joined a room as. Of several (say, from joins
+// in different browsers), the host's record, else the latest.
+const findAccountParticipant = (roomId: string, accountId: string) => {
+  const records = db
+    .select()
+    .from(roomParticipants)
+    .where(and(eq(roomParticipants.roomId, roomId), eq(roomParticipants.accountId, accountId)))
+    .orderBy(desc(roomParticipants.joinedAt))
+    .all();
+  return records.find((p) => p.role === "host") ?? records[0] ?? null;
+};
+
+// The lobby panels' view of join requests and participants; see
+// broadcastToControllers
+const toJoinRequest = (row: typeof roomJoinRequests.$inferSelect): JoinRequest => ({
+  id: row.id,
+  userId: row.userId,
+  username: row.username,
+  browserName: row.browserName,
+  browserVersion: row.browserVersion,
+  status: row.status as JoinRequest["status"],
+  requestedAt: row.requestedAt.toISOString(),
+});
+
+const toParticipantRecord = (row: typeof roomParticipants.$inferSelect): ParticipantRecord => ({
+  id: row.id,
+  userId: row.userId,
+  username: row.username,
+  role: row.role as ParticipantRole,
+  status: row.status,
+  muted: row.muted,
+  joinedAt: row.joinedAt.toISOString(),
+});
+
+type RoomCapability = "host" | "viewer";
+
+interface RoomTokenClaims {
+  typ: "room";
+  roomId: string;
+  userId: string;
+  capability: RoomCapability;
+}
+
+type RoomAuthenticatedRequest = Request & {
+  room?: typeof rooms.$inferSelect;
+  roomToken?: RoomTokenClaims;
+};
+
+// Per-room participant token. The signed room id + user id pair is the only
+// identity the room routes and the socket accept, so it can't be forged by
+// copying a username or spoofing proxy headers.
+const generateRoomToken = (
+  roomId: string,
+  userId: string,
+  capability: RoomCapability
+) =>
+  jwt.sign({ typ: "room", roomId, userId, capability }, jwtSecret, {
+    expiresIn: "7d",
+  });
+
+const verifyRoomToken = (token: string | undefined): RoomTokenClaims | null => {
+  if (!token) return null;
+
+  try {
+    const payload = jwt.verify(token, jwtSecret) as Partial<RoomTokenClaims>;
+    if (payload.typ !== "room" || !payload.roomId || !payload.userId) return null;
+    if (payload.capability !== "host" && payload.capability !== "viewer") return null;
+    return payload as RoomTokenClaims;
+  } catch {
+    return null;
+  }
+};
+
+// Resolves the room from :code (or :id, which also carries the room code) and
+// requires an X-Room-Token issued for that room.
+const roomAuthMiddleware = (
+  req: RoomAuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  const code = req.params.code ?? req.params.id;
+  const room =
+    db.select().from(rooms).where(eq(rooms.code, code)).all()[0] ?? null;
+
+  if (!room) {
+    return res.status(404).json({ error: "Room not found" });
+  }
+
+  const claims = verifyRoomToken(req.headers["x-room-token"] as string | undefined);
+  if (!claims || claims.roomId !== room.id) {
+    return res.status(401).json({ error: "Invalid room token" });
+  }
+
+  req.room = room;
+  req.roomToken = claims;
+  next();
+};
+
+// Hosts and co-hosts run the room: playback, the queue and the lobby
+const canControlRoom = (role: string) => role === "host" || role === "cohost";
+
+// The token's capability is what the participant joined as; roles change
+// after that, so permissions go by the participant record. Like sockets (see
+// requireActiveConnection), only active participants act on the room.
+const requireRoomRole = (allowed: (role: string) => boolean, error: string) => (
+  req: RoomAuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  if (!req.room || !req.roomToken) {
+    return res.status(401).json({ error: "Invalid room token" });
+  }
+
+  const participant = findRoomParticipant(req.room.id, req.roomToken.userId);
+  if (!participant || participant.status !== "active") {
+    return res.status(403).json({ error: "Only active participants can do that" });
+  }
+  if (!allowed(participant.role)) {
+    return res.status(403).json({ error });
+  }
+
+  next();
+};
+
+const requireRoomHost = requireRoomRole((role) => role === "host", "Only the host can manage this room");
+const requireRoomController = requireRoomRole(canControlRoom, "Only the host or a co-host can do that");
+
+const requireRoomParticipant = (
+  req: RoomAuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  if (!req.room || !req.roomToken) {
+    return res.status(401).json({ error: "Invalid room token" });
+  }
+
+  const participant = findRoomParticipant(req.room.id, req.roomToken.userId);
+  if (!participant || participant.status !== "active") {
+    return res.status(403).json({ error: "Only active participants can do that" });
+  }
+
+  next();
+};
+
 app.get("/health", (_req, res) => res.json({ ok: true }));
 
 app.post(`${apiBase}/auth/signup`, (req, res) => {
@@ -292,12 +598,136 @@ app.get(`${apiBase}/auth/me`, authMiddleware, (req: AuthenticatedRequest, res) =
   return res.json({ user: sanitizeUser(data.user, data.roles) });
 });
 
-app.post(`${apiBase}/rooms`, (req, res) => {
-  const { username, browserFingerprint } = req.body;
-  if (!username?.trim()) {
-    return res.status(400).json({ error: "Username is required" });
+// Rooms without saved settings predate access policies and keep asking the host
+const getRoomAccess = (roomId: string): RoomAccessPolicy => {
+  const row = db.select().from(roomAccess).where(eq(roomAccess.roomId, roomId)).all()[0];
+  if (!row || !isRoomAccessMode(row.mode)) {
+    return { mode: "approval", passwordHash: null };
+  }
+  return { mode: row.mode, passwordHash: row.passwordHash };
+};
+
+// The password is only kept while the room is in password mode
+const saveRoomAccess = (roomId: string, settings: RoomAccessSettings) => {
+  let passwordHash: string | null = null;
+  if (settings.mode === "password") {
+    passwordHash = settings.password
+      ? bcrypt.hashSync(settings.password, 10)
+      : getRoomAccess(roomId).passwordHash;
+  }
+
+  const now = new Date();
+  db.insert(roomAccess)
+    .values({ roomId, mode: settings.mode, passwordHash, updatedAt: now })
+    .onConflictDoUpdate({
+      target: roomAccess.roomId,
+      set: { mode: settings.mode, passwordHash, updatedAt: now },
+    })
+    .run();
+};
+
+const toRoomInvite = (row: typeof roomInvites.$inferSelect) => ({
+  id: row.id,
+  token: row.token,
+  maxUses: row.maxUses,
+  useCount: row.useCount,
+  expiresAt: row.expiresAt,
+  createdAt: row.createdAt,
+});
+
+const describeRoomAccess = (roomId: string) => {
+  const access = getRoomAccess(roomId);
+  const invites = db
+    .select()
+    .from(roomInvites)
+    .where(and(eq(roomInvites.roomId, roomId), isNull(roomInvites.revokedAt)))
+    .orderBy(desc(roomInvites.createdAt))
+    .all();
+
+  return {
+    mode: access.mode,
+    hasPassword: access.passwordHash !== null,
+    invites: invites.map(toRoomInvite),
+  };
+};
+
+// Count one use of an invite link. A single UPDATE, so two people can't both
+// take the last use; false when the link is revoked, expired or used up.
+const redeemInvite = (roomId: string, token: string) =>
+  db
+    .update(roomInvites)
+    .set({ useCount: sql`${roomInvites.useCount} + 1` })
+    .where(
+      and(
+        eq(roomInvites.roomId, roomId),
+        eq(roomInvites.token, token),
+        isNull(roomInvites.revokedAt),
+        gt(roomInvites.expiresAt, new Date()),
+        or(isNull(roomInvites.maxUses), lt(roomInvites.useCount, roomInvites.maxUses))
+      )
+    )
+    .run().changes > 0;
+
+// Let a join request in: shared by the host approving it and by joins the
+// room's access policy admits on its own
+const approveJoinRequest = (
+  room: typeof rooms.$inferSelect,
+  request: typeof roomJoinRequests.$inferSelect
+) => {
+  const now = new Date();
+
+  // Update request status
+  db.update(roomJoinRequests)
+    .set({ status: "approved", respondedAt: now })
+    .where(eq(roomJoinRequests.id, request.id))
+    .run();
+
+  // Check if participant already exists (e.g., was rejected before)
+  const existingParticipant = db
+    .select()
+    .from(roomParticipants)
+    .where(eq(roomParticipants.roomId, room.id))
+    .all()
+    .find((p) => p.userId === request.userId);
+
+  if (existingParticipant) {
+    // Update existing participant to active
+    db.update(roomParticipants)
+      .set({ status: "active", joinedAt: now, accountId: request.accountId ?? existingParticipant.accountId })
+      .where(eq(roomParticipants.id, existingParticipant.id))
+      .run();
+  } else {
+    // Add new participant to room
+    db.insert(roomParticipants)
+      .values({
+        id: randomUUID(),
+        roomId: room.id,
+        userId: request.userId,
+        username: request.username,
+        accountId: request.accountId,
+        role: "viewer",
+        status: "active",
+        joinedAt: now,
+      })
+      .run();
   }
 
+  // Broadcast approval status to all users in the room
+  broadcastApprovalStatus(room.code, request.userId, "active");
+  broadcastJoinRequestResolved(room.code, request.id, "approved");
+  const participant = findRoomParticipant(room.id, request.userId);
+  if (participant) broadcastParticipantChanged(room.code, participant);
+};
+
+// Shared by anonymous and owned rooms. An owned room's host record is linked
+// to the owner's account, so the owner is recognised whenever they come back.
+const createRoom = (options: {
+  username: string;
+  userId: string;
+  access: RoomAccessSettings | null;
+  name?: string;
+  ownerId?: string;
+}) => {
   let code = generateRoomCode();
   let attempts = 0;
   while (
@@ -310,8 +740,7 @@ app.post(`${apiBase}/rooms`, (req, res) => {
 
   const roomId = randomUUID();
   const now = new Date();
-  const ipAddress = getClientIp(req);
-  const userId = generateUserId(ipAddress, browserFingerprint || "unknown");
+  const { userId } = options;
 
   db.insert(rooms)
     .values({
@@ -320,6 +749,8 @@ app.post(`${apiBase}/rooms`, (req, res) => {
       playbackPosition: 0,
       isPlaying: false,
       subtitleEnabled: false,
+      name: options.name ?? null,
+      ownerId: options.ownerId ?? null,
       createdAt: now,
       updatedAt: now,
     })
@@ -330,20 +761,51 @@ app.post(`${apiBase}/rooms`, (req, res) => {
       id: randomUUID(),
       roomId,
       userId,
-      username: username.trim(),
-      isHost: true,
+      username: options.username,
+      accountId: options.ownerId ?? null,
+      role: "host",
       joinedAt: now,
     })
     .run();
 
+  if (options.access) {
+    saveRoomAccess(roomId, options.access);
+  }
+
   const room =
     db.select().from(rooms).where(eq(rooms.id, roomId)).all()[0] ?? null;
 
-  return res.json({ room, code, userId });
+  return {
+    room,
+    code,
+    userId,
+    roomToken: generateRoomToken(roomId, userId, "host"),
+  };
+};
+
+app.post(`${apiBase}/rooms`, (req, res) => {
+  const { username, access } = req.body;
+  if (!username?.trim()) {
+    return res.status(400).json({ error: "Username is required" });
+  }
+
+  // Access settings are optional; without them the host approves every join
+  const accessSettings = access === undefined ? null : parseAccessSettings(access, false);
+  if (accessSettings?.success === false) {
+    return res.status(400).json({ error: accessSettings.error });
+  }
+
+  return res.json(
+    createRoom({
+      username: username.trim(),
+      userId: randomUUID(),
+      access: accessSettings ? accessSettings.value : null,
+    })
+  );
 });
 
 app.post(`${apiBase}/rooms/:code/join`, (req, res) => {
-  const { username, browserName, browserVersion, browserFingerprint } = req.body;
+  const { username, browserName, browserVersion, password, invite } = req.body;
   const { code } = req.params;
 
   if (!username?.trim()) {
@@ -359,37 +821,61 @@ app.post(`${apiBase}/rooms/:code/join`, (req, res) => {
 
   const now = new Date();
   const ipAddress = getClientIp(req);
-  const userId = generateUserId(ipAddress, browserFingerprint || "unknown");
-
-  // Create a join request instead of directly adding participant
-  db.insert(roomJoinRequests)
-    .values({
-      id: randomUUID(),
-      roomId: room.id,
-      userId,
-      username: username.trim(),
-      browserName: browserName || "Unknown",
-      browserVersion: browserVersion || "Unknown",
-      ipAddress,
-      status: "pending",
-      requestedAt: now,
-    })
-    .run();
+  const accountId = optionalAccountId(req);
+  // A browser coming back presents the room token it was given before and
+  // keeps its id, so its participant record and any ban still apply
+  const previous = verifyRoomToken(req.headers["x-room-token"] as string | undefined);
+  const userId = previous?.roomId === room.id ? previous.userId : randomUUID();
+
+  if (findRoomBan(room.id, { userId, accountId })) {
+    return res.status(403).json({ error: "You are banned from this room" });
+  }
 
-  return res.json({ room, status: "pending", userId, message: "Waiting for host approval" });
-});
+  const denial = checkRoomAccess(getRoomAccess(room.id), { password, invite }, (token) => redeemInvite(room.id, token));
+  if (denial !== null && denial !== "pending") {
+    return res.status(denial.status).json({ error: denial.error });
+  }
 
-// Get pending join requests for a room (host only)
-app.get(`${apiBase}/rooms/:code/join-requests`, (req, res) => {
-  const { code } = req.params;
+  // Every join is recorded as a request, even one the policy lets straight in
+  const request = {
+    id: randomUUID(),
+    roomId: room.id,
+    userId,
+    username: username.trim(),
+    browserName: browserName || "Unknown",
+    browserVersion: browserVersion || "Unknown",
+    ipAddress,
+    accountId,
+    status: "pending",
+    requestedAt: now,
+    respondedAt: null,
+  };
+  db.insert(roomJoinRequests).values(request).run();
 
-  const room =
-    db.select().from(rooms).where(eq(rooms.code, code)).all()[0] ?? null;
+  // The viewer token identifies the requester from now on; it only grants
+  // access once the request is approved.
+  const roomToken = generateRoomToken(room.id, userId, "viewer");
 
-  if (!room) {
-    return res.status(404).json({ error: "Room not found" });
+  if (denial === null) {
+    approveJoinRequest(room, request);
+    return res.json({ room, status: "active", userId, roomToken, message: "Joined the room" });
   }
 
+  broadcastJoinRequest(room.code, request);
+
+  return res.json({
+    room,
+    status: "pending",
+    userId,
+    roomToken,
+    message: "Waiting for host approval",
+  });
+});
+
+// Get pending join requests for a room (host and co-hosts)
+app.get(`${apiBase}/rooms/:code/join-requests`, roomAuthMiddleware, requireRoomController, (req: RoomAuthenticatedRequest, res) => {
+  const room = req.room!;
+
   const requests = db
     .select()
     .from(roomJoinRequests)
@@ -399,16 +885,10 @@ app.get(`${apiBase}/rooms/:code/join-requests`, (req, res) => {
   return res.json({ requests });
 });
 
-// Approve a join request (host only)
-app.post(`${apiBase}/rooms/:code/join-requests/:requestId/approve`, (req, res) => {
-  const { code, requestId } = req.params;
-
-  const room =
-    db.select().from(rooms).where(eq(rooms.code, code)).all()[0] ?? null;
-
-  if (!room) {
-    return res.status(404).json({ error: "Room not found" });
-  }
+// Approve a join request (host and co-hosts)
+app.post(`${apiBase}/rooms/:code/join-requests/:requestId/approve`, roomAuthMiddleware, requireRoomController, (req: RoomAuthenticatedRequest, res) => {
+  const { requestId } = req.params;
+  const room = req.room!;
 
   const request = db
     .select()
@@ -416,63 +896,23 @@ app.post(`${apiBase}/rooms/:code/join-requests/:requestId/approve`, (req, res) =
     .where(eq(roomJoinRequests.id, requestId))
     .all()[0];
 
-  if (!request) {
+  if (!request || request.roomId !== room.id) {
     return res.status(404).json({ error: "Join request not found" });
   }
 
-  const now = new Date();
-
-  // Update request status
-  db.update(roomJoinRequests)
-    .set({ status: "approved", respondedAt: now })
-    .where(eq(roomJoinRequests.id, requestId))
-    .run();
-
-  // Check if participant already exists (e.g., was rejected before)
-  const existingParticipant = db
-    .select()
-    .from(roomParticipants)
-    .where(eq(roomParticipants.roomId, room.id))
-    .all()
-    .find((p) => p.userId === request.userId);
-
-  if (existingParticipant) {
-    // Update existing participant to active
-    db.update(roomParticipants)
-      .set({ status: "active", joinedAt: now })
-      .where(eq(roomParticipants.id, existingParticipant.id))
-      .run();
-  } else {
-    // Add new participant to room
-    db.insert(roomParticipants)
-      .values({
-        id: randomUUID(),
-        roomId: room.id,
-        userId: request.userId,
-        username: request.username,
-        isHost: false,
-        status: "active",
-        joinedAt: now,
-      })
-      .run();
+  if (findRoomBan(room.id, { userId: request.userId, accountId: request.accountId })) {
+    return res.status(403).json({ error: "This user is banned from this room" });
   }
 
-  // Broadcast approval status to all users in the room
-  broadcastApprovalStatus(code, request.userId, "active");
+  approveJoinRequest(room, request);
 
   return res.json({ message: "User approved and added to room", userId: request.userId });
 });
 
-// Reject a join request (host only)
-app.post(`${apiBase}/rooms/:code/join-requests/:requestId/reject`, (req, res) => {
+// Reject a join request (host and co-hosts)
+app.post(`${apiBase}/rooms/:code/join-requests/:requestId/reject`, roomAuthMiddleware, requireRoomController, (req: RoomAuthenticatedRequest, res) => {
   const { code, requestId } = req.params;
-
-  const room =
-    db.select().from(rooms).where(eq(rooms.code, code)).all()[0] ?? null;
-
-  if (!room) {
-    return res.status(404).json({ error: "Room not found" });
-  }
+  const room = req.room!;
 
   const request = db
     .select()
@@ -480,7 +920,7 @@ app.post(`${apiBase}/rooms/:code/join-requests/:requestId/reject`, (req, res) =>
     .where(eq(roomJoinRequests.id, requestId))
     .all()[0];
 
-  if (!request) {
+  if (!request || request.roomId !== room.id) {
     return res.status(404).json({ error: "Join request not found" });
   }
 
@@ -514,7 +954,7 @@ app.post(`${apiBase}/rooms/:code/join-requests/:requestId/reject`, (req, res) =>
         roomId: room.id,
         userId: request.userId,
         username: request.username,
-        isHost: false,
+        role: "viewer",
         status: "rejected",
         joinedAt: now,
       })
@@ -523,21 +963,17 @@ app.post(`${apiBase}/rooms/:code/join-requests/:requestId/reject`, (req, res) =>
 
   // Broadcast rejection status to all users in the room
   broadcastApprovalStatus(code, request.userId, "rejected");
+  broadcastJoinRequestResolved(code, request.id, "rejected");
+  const participant = findRoomParticipant(room.id, request.userId);
+  if (participant) broadcastParticipantChanged(code, participant);
 
   return res.json({ message: "Join request rejected", userId: request.userId });
 });
 
 // More specific routes must come before generic :code route
 // Get all participants including rejected/left (for host lobby management)
-app.get(`${apiBase}/rooms/:code/participants/all`, (req, res) => {
-  const { code } = req.params;
-
-  const room =
-    db.select().from(rooms).where(eq(rooms.code, code)).all()[0] ?? null;
-
-  if (!room) {
-    return res.status(404).json({ error: "Room not found" });
-  }
+app.get(`${apiBase}/rooms/:code/participants/all`, roomAuthMiddleware, requireRoomController, (req: RoomAuthenticatedRequest, res) => {
+  const room = req.room!;
 
   // Return all participants with their status
   const participants = db
@@ -546,41 +982,642 @@ app.get(`${apiBase}/rooms/:code/participants/all`, (req, res) => {
     .where(eq(roomParticipants.roomId, room.id))
     .all();
 
-  return res.json({ participants });
+  return res.json({ participants: participants.map(toParticipantRecord) });
 });
 
 // Update participant status (e.g., mark as left)
-app.put(`${apiBase}/rooms/:code/participants/:username/status`, (req, res) => {
-  const { code, username } = req.params;
+app.put(`${apiBase}/rooms/:code/participants/:username/status`, roomAuthMiddleware, (req: RoomAuthenticatedRequest, res) => {
+  const { username } = req.params;
   const { status } = req.body;
+  const room = req.room!;
 
-  const room =
-    db.select().from(rooms).where(eq(rooms.code, code)).all()[0] ?? null;
-
-  if (!room) {
-    return res.status(404).json({ error: "Room not found" });
-  }
-
-  const participant = db
+  const matches = db
     .select()
     .from(roomParticipants)
     .where(eq(roomParticipants.roomId, room.id))
     .all()
-    .find((p) => p.username === username);
+    .filter((p) => p.username === username);
+  // Usernames aren't unique; prefer the caller's own record
+  const participant = matches.find((p) => p.userId === req.roomToken!.userId) ?? matches[0];
 
   if (!participant) {
     return res.status(404).json({ error: "Participant not found" });
   }
 
+  const parsedStatus = participantStatusSchema.safeParse(status);
+  if (!parsedStatus.success) {
+    return res.status(400).json({ error: "Invalid status" });
+  }
+
+  // Kicks and bans stick; they only change through the moderation routes
+  if (isRemovedStatus(participant.status) || isRemovedStatus(status)) {
+    return res.status(403).json({ error: "Not allowed to update this participant" });
+  }
+
+  // Participants may mark themselves as left; hosts and co-hosts may update
+  // anyone else's record, except the host's
+  const caller = findRoomParticipant(room.id, req.roomToken!.userId);
+  const callerControlsRoom = Boolean(caller && canControlRoom(caller.role));
+  const isOwnRecord = participant.userId === req.roomToken!.userId;
+  const isOwnLeave = isOwnRecord && status === "left";
+  if (!isOwnLeave && (!callerControlsRoom || isOwnRecord || participant.role === "host")) {
+    return res.status(403).json({ error: "Not allowed to update this participant" });
+  }
+
   const now = new Date();
   db.update(roomParticipants)
     .set({ status, leftAt: status === "left" ? now : null })
     .where(eq(roomParticipants.id, participant.id))
     .run();
+  broadcastParticipantChanged(room.code, { ...participant, status, leftAt: status === "left" ? now : null });
 
   return res.json({ message: "Participant status updated" });
 });
 
+type RoleResult<T> =
+  | { success: true; value: T }
+  | { success: false; status: 400 | 404; error: string };
+
+const findParticipantInRoom = (room: typeof rooms.$inferSelect, participantId: string) => {
+  const participant =
+    db.select().from(roomParticipants).where(eq(roomParticipants.id, participantId)).all()[0] ?? null;
+  return participant?.roomId === room.id ? participant : null;
+};
+
+// Role changes shared by the REST routes and the WebSocket handlers. Callers
+// broadcast the changed participants once they have been stored.
+const setParticipantRole = (
+  room: typeof rooms.$inferSelect,
+  participantId: string,
+  role: Exclude<ParticipantRole, "host">
+): RoleResult<typeof roomParticipants.$inferSelect> => {
+  const participant = findParticipantInRoom(room, participantId);
+  if (!participant) {
+    return { success: false, status: 404, error: "Participant not found" };
+  }
+  if (participant.role === "host") {
+    return { success: false, status: 400, error: "Transfer host to someone else first" };
+  }
+  if (role === "cohost" && participant.status !== "active") {
+    return { success: false, status: 400, error: "Only active participants can be co-hosts" };
+  }
+
+  db.update(roomParticipants).set({ role }).where(eq(roomParticipants.id, participant.id)).run();
+
+  return { success: true, value: { ...participant, role } };
+};
+
+// Make `participantId` the host; whoever was host stays on as a co-host
+const transferRoomHost = (
+  room: typeof rooms.$inferSelect,
+  participantId: string
+): RoleResult<(typeof roomParticipants.$inferSelect)[]> => {
+  const participant = findParticipantInRoom(room, participantId);
+  if (!participant) {
+    return { success: false, status: 404, error: "Participant not found" };
+  }
+  if (participant.role === "host") {
+    return { success: false, status: 400, error: "Already the host" };
+  }
+  if (participant.status !== "active") {
+    return { success: false, status: 400, error: "Only active participants can become host" };
+  }
+
+  const previousHosts = db
+    .select()
+    .from(roomParticipants)
+    .where(and(eq(roomParticipants.roomId, room.id), eq(roomParticipants.role, "host")))
+    .all();
+
+  db.transaction((tx) => {
+    tx.update(roomParticipants)
+      .set({ role: "cohost" })
+      .where(and(eq(roomParticipants.roomId, room.id), eq(roomParticipants.role, "host")))
+      .run();
+    tx.update(roomParticipants)
+      .set({ role: "host" })
+      .where(eq(roomParticipants.id, participant.id))
+      .run();
+  });
+  cancelHostHandoff(room.code);
+
+  return {
+    success: true,
+    value: [...previousHosts.map((p) => ({ ...p, role: "cohost" })), { ...participant, role: "host" }],
+  };
+};
+
+// Promote a participant to co-host or demote them to viewer (host only)
+app.put(`${apiBase}/rooms/:code/participants/:participantId/role`, roomAuthMiddleware, requireRoomHost, (req: RoomAuthenticatedRequest, res) => {
+  const room = req.room!;
+  const { role } = req.body ?? {};
+
+  if (role !== "cohost" && role !== "viewer") {
+    return res.status(400).json({ error: "role must be cohost or viewer" });
+  }
+
+  const result = setParticipantRole(room, req.params.participantId, role);
+  if (result.success === false) {
+    return res.status(result.status).json({ error: result.error });
+  }
+
+  broadcastRoles(room.code, [result.value]);
+  return res.json({ participant: result.value });
+});
+
+// Hand hosting to another active participant (host only)
+app.post(`${apiBase}/rooms/:code/host`, roomAuthMiddleware, requireRoomHost, (req: RoomAuthenticatedRequest, res) => {
+  const room = req.room!;
+  const participantId = req.body?.participant_id;
+
+  if (typeof participantId !== "string" || !participantId) {
+    return res.status(400).json({ error: "participant_id is required" });
+  }
+
+  const result = transferRoomHost(room, participantId);
+  if (result.success === false) {
+    return res.status(result.status).json({ error: result.error });
+  }
+
+  broadcastRoles(room.code, result.value);
+  return res.json({ participants: result.value });
+});
+
+type ModerationAction = "kick" | "ban" | "mute" | "unmute";
+
+type ModerationResult<T> =
+  | { success: true; value: T }
+  | { success: false; status: 403 | 404; error: string };
+
+const isRemovedStatus = (status: string) => status === "kicked" || status === "banned";
+
+const ROLE_RANK: Record<string, number> = { host: 2, cohost: 1, viewer: 0 };
+
+// The host can moderate anyone else, co-hosts only viewers
+const canModerate = (
+  actor: typeof roomParticipants.$inferSelect,
+  target: typeof roomParticipants.$inferSelect
+) =>
+  actor.id !== target.id &&
+  canControlRoom(actor.role) &&
+  (ROLE_RANK[actor.role] ?? 0) > (ROLE_RANK[target.role] ?? 0);
+
+// A ban matching the room identity a join presents (see the join route) or
+// the signed-in account behind it. Addresses aren't matched: they are shared
+// behind NAT and easy to fake.
+const findRoomBan = (roomId: string, identity: { userId: string; accountId: string | null }) =>
+  db
+    .select()
+    .from(roomBans)
+    .where(eq(roomBans.roomId, roomId))
+    .all()
+    .find(
+      (ban) =>
+        ban.userId === identity.userId ||
+        (ban.accountId !== null && ban.accountId === identity.accountId)
+    ) ?? null;
+
+// Apply a moderation action and record it in the room's log. Callers tell
+// the room (and close the sockets of anyone removed) once it is stored.
+const moderateParticipant = (
+  room: typeof rooms.$inferSelect,
+  actor: typeof roomParticipants.$inferSelect,
+  participantId: string,
+  action: ModerationAction,
+  reason: string | null
+): ModerationResult<typeof roomParticipants.$inferSelect> => {
+  const target = findParticipantInRoom(room, participantId);
+  if (!target) {
+    return { success: false, status: 404, error: "Participant not found" };
+  }
+  if (!canModerate(actor, target)) {
+    return { success: false, status: 403, error: "Not allowed to moderate this participant" };
+  }
+
+  const now = new Date();
+  const changes: Partial<typeof roomParticipants.$inferInsert> =
+    action === "kick" || action === "ban"
+      ? { status: action === "kick" ? "kicked" : "banned", role: "viewer", leftAt: now }
+      : { muted: action === "mute" };
+
+  // The address the banned user asked to join from, kept for the host's
+  // reference
+  const joinRequest = db
+    .select()
+    .from(roomJoinRequests)
+    .where(and(eq(roomJoinRequests.roomId, room.id), eq(roomJoinRequests.userId, target.userId)))
+    .orderBy(desc(roomJoinRequests.requestedAt))
+    .all()[0];
+  const ipAddress = joinRequest?.ipAddress && joinRequest.ipAddress !== "unknown" ? joinRequest.ipAddress : null;
+
+  db.transaction((tx) => {
+    tx.update(roomParticipants).set(changes).where(eq(roomParticipants.id, target.id)).run();
+
+    if (action === "ban") {
+      tx.insert(roomBans)
+        .values({
+          id: randomUUID(),
+          roomId: room.id,
+          userId: target.userId,
+          username: target.username,
+          ipAddress,
+          accountId: target.accountId,
+          createdAt: now,
+        })
+        .run();
+    }
+
+    tx.insert(roomModerationLog)
+      .values({
+        id: randomUUID(),
+        roomId: room.id,
+        action,
+        actorUserId: actor.userId,
+        actorUsername: actor.username,
+        targetUserId: target.userId,
+        targetUsername: target.username,
+        reason,
+        createdAt: now,
+      })
+      .run();
+  });
+
+  return { success: true, value: { ...target, ...changes } };
+};
+
+// Tell the room about a moderation action that has been stored
+const announceModeration = (roomCode: string, participant: typeof roomParticipants.$inferSelect) => {
+  broadcastParticipantChanged(roomCode, participant);
+  if (isRemovedStatus(participant.status)) {
+    removeFromRoom(roomCode, participant.userId, participant.status as ParticipantStatus);
+  } else {
+    broadcastToRoom(roomCode, { type: "mute_status", userId: participant.userId, muted: participant.muted });
+  }
+};
+
+// Shared by the kick, ban and mute routes; the caller is the acting participant
+const respondToModeration = (req: RoomAuthenticatedRequest, res: Response, action: ModerationAction) => {
+  const room = req.room!;
+  const actor = findRoomParticipant(room.id, req.roomToken!.userId);
+  if (!actor) {
+    return res.status(403).json({ error: "Only the host or a co-host can do that" });
+  }
+
+  const reason = typeof req.body?.reason === "string" && req.body.reason.trim() ? req.body.reason.trim() : null;
+  const result = moderateParticipant(room, actor, req.params.participantId, action, reason);
+  if (result.success === false) {
+    return res.status(result.status).json({ error: result.error });
+  }
+
+  announceModeration(room.code, result.value);
+  return res.json({ participant: result.value });
+};
+
+// Remove a participant from the room; they may ask to join again
+app.post(`${apiBase}/rooms/:code/participants/:participantId/kick`, roomAuthMiddleware, requireRoomController, (req: RoomAuthenticatedRequest, res) =>
+  respondToModeration(req, res, "kick")
+);
+
+// Remove a participant and refuse their join requests while the room lasts
+app.post(`${apiBase}/rooms/:code/participants/:participantId/ban`, roomAuthMiddleware, requireRoomController, (req: RoomAuthenticatedRequest, res) =>
+  respondToModeration(req, res, "ban")
+);
+
+// Stop a participant from chatting, or let them again
+app.put(`${apiBase}/rooms/:code/participants/:participantId/mute`, roomAuthMiddleware, requireRoomController, (req: RoomAuthenticatedRequest, res) => {
+  if (typeof req.body?.muted !== "boolean") {
+    return res.status(400).json({ error: "muted must be true or false" });
+  }
+
+  return respondToModeration(req, res, req.body.muted ? "mute" : "unmute");
+});
+
+// Every kick, ban and mute in the room, newest first
+app.get(`${apiBase}/rooms/:code/moderation-log`, roomAuthMiddleware, requireRoomController, (req: RoomAuthenticatedRequest, res) => {
+  const entries = db
+    .select()
+    .from(roomModerationLog)
+    .where(eq(roomModerationLog.roomId, req.room!.id))
+    .orderBy(desc(roomModerationLog.createdAt))
+    .limit(100)
+    .all();
+
+  return res.json({ entries });
+});
+
+// The room's access policy and its live invite links (host only)
+app.get(`${apiBase}/rooms/:code/access`, roomAuthMiddleware, requireRoomHost, (req: RoomAuthenticatedRequest, res) =>
+  res.json(describeRoomAccess(req.room!.id))
+);
+
+// Change who may join without asking. Leaving out the password keeps the
+// current one when staying in password mode.
+app.put(`${apiBase}/rooms/:code/access`, roomAuthMiddleware, requireRoomHost, (req: RoomAuthenticatedRequest, res) => {
+  const room = req.room!;
+  const settings = parseAccessSettings(req.body, getRoomAccess(room.id).passwordHash !== null);
+  if (settings.success === false) {
+    return res.status(400).json({ error: settings.error });
+  }
+
+  saveRoomAccess(room.id, settings.value);
+  return res.json(describeRoomAccess(room.id));
+});
+
+// Create an invite link: single-use with maxUses 1, unlimited without it
+app.post(`${apiBase}/rooms/:code/invites`, roomAuthMiddleware, requireRoomHost, (req: RoomAuthenticatedRequest, res) => {
+  const room = req.room!;
+  const options = parseInviteOptions(req.body);
+  if (options.success === false) {
+    return res.status(400).json({ error: options.error });
+  }
+
+  const invite = {
+    id: randomUUID(),
+    roomId: room.id,
+    token: generateInviteToken(),
+    maxUses: options.value.maxUses,
+    useCount: 0,
+    expiresAt: options.value.expiresAt,
+    createdBy: req.roomToken!.userId,
+    createdAt: new Date(),
+    revokedAt: null,
+  };
+  db.insert(roomInvites).values(invite).run();
+
+  return res.status(201).json({ invite: toRoomInvite(invite) });
+});
+
+// Revoke an invite link; people already in the room stay
+app.delete(`${apiBase}/rooms/:code/invites/:inviteId`, roomAuthMiddleware, requireRoomHost, (req: RoomAuthenticatedRequest, res) => {
+  const room = req.room!;
+  const invite = db
+    .select()
+    .from(roomInvites)
+    .where(and(eq(roomInvites.id, req.params.inviteId), eq(roomInvites.roomId, room.id)))
+    .all()[0];
+
+  if (!invite || invite.revokedAt) {
+    return res.status(404).json({ error: "Invite not found" });
+  }
+
+  db.update(roomInvites).set({ revokedAt: new Date() }).where(eq(roomInvites.id, invite.id)).run();
+  return res.json({ message: "Invite revoked" });
+});
+
+// The title for a bare video URL, shared by queue entries and watch
+// parties: its file name
+const titleFromVideoUrl = (videoUrl: string) => {
+  const fileName = videoUrl.split("?")[0].split("/").pop() || videoUrl;
+  try {
+    return decodeURIComponent(fileName);
+  } catch {
+    return fileName;
+  }
+};
+
+// Rooms owned by the signed-in account, with their upcoming watch parties
+const findOwnedRoom = (req: AuthenticatedRequest) =>
+  db
+    .select()
+    .from(rooms)
+    .where(and(eq(rooms.code, req.params.code), eq(rooms.ownerId, req.userId!)))
+    .all()[0] ?? null;
+
+const accountDisplayName = (user: typeof users.$inferSelect) => user.username || user.email.split("@")[0];
+
+const toMyRoom = (room: typeof rooms.$inferSelect) => ({
+  id: room.id,
+  code: room.code,
+  name: room.name,
+  createdAt: room.createdAt,
+  online: roomConnections.get(room.code)?.size ?? 0,
+  watchParties: db
+    .select()
+    .from(watchParties)
+    .where(and(eq(watchParties.roomId, room.id), eq(watchParties.status, "scheduled")))
+    .orderBy(asc(watchParties.startsAt))
+    .all()
+    .map(toWatchParty),
+});
+
+app.get(`${apiBase}/my-rooms`, authMiddleware, (req: AuthenticatedRequest, res) => {
+  const owned = db
+    .select()
+    .from(rooms)
+    .where(eq(rooms.ownerId, req.userId!))
+    .orderBy(desc(rooms.createdAt))
+    .all();
+
+  return res.json({ rooms: owned.map(toMyRoom) });
+});
+
+// Create a named room that stays when everyone leaves; the owner is its host
+app.post(`${apiBase}/my-rooms`, authMiddleware, (req: AuthenticatedRequest, res) => {
+  const data = getUserWithRoles(req.userId!);
+  if (!data) return res.status(401).json({ error: "Unauthorized" });
+
+  const name = parseRoomName(req.body?.name);
+  if (name.success === false) {
+    return res.status(400).json({ error: name.error });
+  }
+
+  const { access } = req.body;
+  const accessSettings = access === undefined ? null : parseAccessSettings(access, false);
+  if (accessSettings?.success === false) {
+    return res.status(400).json({ error: accessSettings.error });
+  }
+
+  const created = createRoom({
+    username: accountDisplayName(data.user),
+    userId: randomUUID(),
+    access: accessSettings ? accessSettings.value : null,
+    name: name.value,
+    ownerId: data.user.id,
+  });
+  return res.status(201).json(created);
+});
+
+// Enter an owned room as its host, taking hosting back from whoever had it
+app.post(`${apiBase}/my-rooms/:code/open`, authMiddleware, (req: AuthenticatedRequest, res) => {
+  const data = getUserWithRoles(req.userId!);
+  if (!data) return res.status(401).json({ error: "Unauthorized" });
+
+  const room = findOwnedRoom(req);
+  if (!room) {
+    return res.status(404).json({ error: "Room not found" });
+  }
+
+  const now = new Date();
+  const existing = findAccountParticipant(room.id, data.user.id);
+  const userId = existing?.userId ?? randomUUID();
+  if (existing) {
+    db.update(roomParticipants)
+      .set({ status: "active", leftAt: null })
+      .where(eq(roomParticipants.id, existing.id))
+      .run();
+  } else {
+    db.insert(roomParticipants)
+      .values({
+        id: randomUUID(),
+        roomId: room.id,
+        userId,
+        username: accountDisplayName(data.user),
+        accountId: data.user.id,
+        role: "viewer",
+        joinedAt: now,
+      })
+      .run();
+  }
+
+  const participant = findRoomParticipant(room.id, userId)!;
+  if (participant.role !== "host") {
+    const result = transferRoomHost(room, participant.id);
+    if (result.success) broadcastRoles(room.code, result.value);
+  } else if (existing?.status !== "active") {
+    broadcastParticipantChanged(room.code, participant);
+  }
+
+  return res.json({
+    room,
+    code: room.code,
+    userId,
+    roomToken: generateRoomToken(room.id, userId, "host"),
+  });
+});
+
+app.delete(`${apiBase}/my-rooms/:code`, authMiddleware, (req: AuthenticatedRequest, res) => {
+  const room = findOwnedRoom(req);
+  if (!room) {
+    return res.status(404).json({ error: "Room not found" });
+  }
+
+  // Everyone still inside is sent away first
+  roomConnections.get(room.code)?.forEach((client) => client.close());
+  db.delete(rooms).where(eq(rooms.id, room.id)).run();
+  scheduleWatchParties();
+
+  return res.json({ message: "Room deleted" });
+});
+
+// Schedule a watch party: at `startsAt` the room switches to the video and
+// starts playing for everyone in it
+app.post(`${apiBase}/my-rooms/:code/watch-parties`, authMiddleware, (req: AuthenticatedRequest, res) => {
+  const room = findOwnedRoom(req);
+  if (!room) {
+    return res.status(404).json({ error: "Room not found" });
+  }
+
+  const input = parseWatchPartyInput(req.body);
+  if (input.success === false) {
+    return res.status(400).json({ error: input.error });
+  }
+
+  let videoUrl = input.value.videoUrl;
+  let title = input.value.title;
+  if (input.value.mediaId) {
+    const media =
+      db.select().from(mediaFiles).where(eq(mediaFiles.id, input.value.mediaId)).all()[0] ?? null;
+    if (!media) {
+      return res.status(404).json({ error: "Media not found" });
+    }
+    videoUrl = media.fileUrl;
+    title = title || media.title;
+  }
+
+  const row = {
+    id: randomUUID(),
+    roomId: room.id,
+    mediaId: input.value.mediaId,
+    videoUrl: videoUrl!,
+    title: title || titleFromVideoUrl(videoUrl!),
+    startsAt: input.value.startsAt,
+    status: "scheduled",
+    createdBy: req.userId!,
+    createdAt: new Date(),
+    startedAt: null,
+  };
+  db.insert(watchParties).values(row).run();
+
+  broadcastWatchParty(room);
+  scheduleWatchParties();
+
+  return res.status(201).json({ watchParty: toWatchParty(row) });
+});
+
+app.delete(`${apiBase}/my-rooms/:code/watch-parties/:partyId`, authMiddleware, (req: AuthenticatedRequest, res) => {
+  const room = findOwnedRoom(req);
+  if (!room) {
+    return res.status(404).json({ error: "Room not found" });
+  }
+
+  const party = db
+    .select()
+    .from(watchParties)
+    .where(and(eq(watchParties.id, req.params.partyId), eq(watchParties.roomId, room.id)))
+    .all()[0];
+  if (!party || party.status !== "scheduled") {
+    return res.status(404).json({ error: "Watch party not found" });
+  }
+
+  db.update(watchParties).set({ status: "cancelled" }).where(eq(watchParties.id, party.id)).run();
+  broadcastWatchParty(room);
+  scheduleWatchParties();
+
+  return res.json({ message: "Watch party cancelled" });
+});
+
+const CHAT_HISTORY_PAGE_SIZE = 50;
+const CHAT_HISTORY_MAX_PAGE_SIZE = 200;
+
+const toChatMessage = (row: typeof roomMessages.$inferSelect): ChatMessage => ({
+  id: row.id,
+  userId: row.userId,
+  username: row.username,
+  body: row.body,
+  created_at: row.createdAt.getTime(),
+});
+
+// Chat history, newest page first. Pass the `nextCursor` from a response as
+// `before` to page further back; messages within a page are oldest-first.
+app.get(`${apiBase}/rooms/:code/messages`, roomAuthMiddleware, requireRoomParticipant, (req: RoomAuthenticatedRequest, res) => {
+  const room = req.room!;
+
+  const requestedLimit = Number(req.query.limit) || CHAT_HISTORY_PAGE_SIZE;
+  const limit = Math.min(Math.max(1, requestedLimit), CHAT_HISTORY_MAX_PAGE_SIZE);
+
+  const before =
+    typeof req.query.before === "string"
+      ? db.select().from(roomMessages).where(eq(roomMessages.id, req.query.before)).all()[0] ?? null
+      : null;
+
+  if (typeof req.query.before === "string" && (!before || before.roomId !== room.id)) {
+    return res.status(400).json({ error: "Invalid cursor" });
+  }
+
+  const rows = db
+    .select()
+    .from(roomMessages)
+    .where(
+      before
+        ? and(
+            eq(roomMessages.roomId, room.id),
+            or(
+              lt(roomMessages.createdAt, before.createdAt),
+              and(eq(roomMessages.createdAt, before.createdAt), lt(roomMessages.id, before.id))
+            )
+          )
+        : eq(roomMessages.roomId, room.id)
+    )
+    .orderBy(desc(roomMessages.createdAt), desc(roomMessages.id))
+    .limit(limit + 1)
+    .all();
+
+  const page = rows.slice(0, limit);
+  const nextCursor = rows.length > limit ? page[page.length - 1].id : null;
+
+  return res.json({ messages: page.reverse().map(toChatMessage), nextCursor });
+});
+
 // Generic room endpoint - must come after specific routes
 app.get(`${apiBase}/rooms/:code`, (req, res) => {
   const { code } = req.params;
@@ -592,404 +1629,2397 @@ app.get(`${apiBase}/rooms/:code`, (req, res) => {
     return res.status(404).json({ error: "Room not found" });
   }
 
-  // Only return active participants
-  const participants = db
-    .select()
-    .from(roomParticipants)
-    .where(eq(roomParticipants.roomId, room.id))
+  // Only return active participants
+  const participants = db
+    .select()
+    .from(roomParticipants)
+    .where(eq(roomParticipants.roomId, room.id))
+    .all()
+    .filter((p) => p.status === "active")
+    .map(toParticipantRecord);
+
+  // Only the mode: enough for the join form to ask for a password
+  return res.json({
+    room,
+    participants,
+    access: { mode: getRoomAccess(room.id).mode },
+    watchParty: getNextWatchParty(room.id),
+  });
+});
+
+// Persist a host's playback change and move the room clock with it. Shared by
+// the REST route and the WebSocket handler so both store the same state.
+const applyRoomStateUpdate = (
+  room: typeof rooms.$inferSelect,
+  updates: RoomUpdatePayload,
+  options: { seek?: boolean } = {}
+) => {
+  const payload: Record<string, unknown> = {
+    updatedAt: new Date(),
+  };
+
+  if (typeof updates.video_url === "string") payload.videoUrl = updates.video_url;
+  if (typeof updates.playback_position === "number")
+    payload.playbackPosition = updates.playback_position;
+  if (typeof updates.is_playing === "boolean")
+    payload.isPlaying = updates.is_playing;
+  if (typeof updates.subtitle_enabled === "boolean")
+    payload.subtitleEnabled = updates.subtitle_enabled;
+
+  const videoChanged =
+    typeof updates.video_url === "string" && updates.video_url !== room.videoUrl;
+
+  if (typeof updates.subtitle_id === "string" || updates.subtitle_id === null) {
+    payload.subtitleId = updates.subtitle_id;
+  } else if (videoChanged) {
+    // Track ids belong to the previous video
+    payload.subtitleId = null;
+  }
+
+  db.update(rooms).set(payload).where(eq(rooms.id, room.id)).run();
+
+  const clockChanged = syncRoomClock(room.code, {
+    videoChanged,
+    seek: options.seek,
+    position: updates.playback_position,
+    isPlaying: updates.is_playing,
+  });
+
+  const refreshed =
+    db.select().from(rooms).where(eq(rooms.id, room.id)).all()[0] ?? null;
+
+  return { room: refreshed, clockChanged };
+};
+
+app.put(`${apiBase}/rooms/:id`, roomAuthMiddleware, requireRoomController, (req: RoomAuthenticatedRequest, res) => {
+  const updates = roomUpdatePayloadSchema.safeParse(req.body ?? {});
+  if (!updates.success) {
+    return res.status(400).json({ error: "Invalid room update" });
+  }
+
+  const { room: refreshed } = updateRoomPlayback(req.room!, updates.data);
+
+  return res.json({ room: refreshed });
+});
+
+const toQueueItem = (row: typeof roomQueueItems.$inferSelect): QueueItem => ({
+  id: row.id,
+  media_id: row.mediaId,
+  video_url: row.videoUrl,
+  title: row.title,
+  added_by: row.addedBy,
+});
+
+const getRoomQueue = (roomId: string) =>
+  db
+    .select()
+    .from(roomQueueItems)
+    .where(eq(roomQueueItems.roomId, roomId))
+    .orderBy(asc(roomQueueItems.position))
+    .all();
+
+// Persist `rows` as the room's play order, closing any gaps left by removals
+const writeQueueOrder = (rows: (typeof roomQueueItems.$inferSelect)[]) => {
+  db.transaction((tx) => {
+    rows.forEach((row, index) => {
+      if (row.position !== index) {
+        tx.update(roomQueueItems)
+          .set({ position: index })
+          .where(eq(roomQueueItems.id, row.id))
+          .run();
+      }
+    });
+  });
+};
+
+type QueueResult<T> =
+  | { success: true; value: T }
+  | { success: false; status: 400 | 404; error: string };
+
+// Queue operations shared by the REST routes and the WebSocket handlers.
+// Callers broadcast the new queue once the change has been stored.
+const addQueueItem = (
+  room: typeof rooms.$inferSelect,
+  addedBy: string,
+  entry: { media_id?: string; video_url?: string; title?: string }
+): QueueResult<QueueItem> => {
+  if (Boolean(entry.media_id) === Boolean(entry.video_url)) {
+    return { success: false, status: 400, error: "Provide exactly one of media_id or video_url" };
+  }
+
+  let videoUrl = entry.video_url;
+  let title = entry.title?.trim();
+
+  if (entry.media_id) {
+    const media =
+      db.select().from(mediaFiles).where(eq(mediaFiles.id, entry.media_id)).all()[0] ?? null;
+    if (!media) {
+      return { success: false, status: 404, error: "Media not found" };
+    }
+    videoUrl = media.fileUrl;
+    title = title || media.title;
+  }
+
+  const row = {
+    id: randomUUID(),
+    roomId: room.id,
+    mediaId: entry.media_id ?? null,
+    videoUrl: videoUrl!,
+    title: title || titleFromVideoUrl(videoUrl!),
+    position: getRoomQueue(room.id).length,
+    addedBy,
+    createdAt: new Date(),
+  };
+
+  db.insert(roomQueueItems).values(row).run();
+
+  return { success: true, value: toQueueItem(row) };
+};
+
+const removeQueueItem = (
+  room: typeof rooms.$inferSelect,
+  itemId: string
+): QueueResult<null> => {
+  const queue = getRoomQueue(room.id);
+  if (!queue.some((row) => row.id === itemId)) {
+    return { success: false, status: 404, error: "Queue item not found" };
+  }
+
+  db.delete(roomQueueItems).where(eq(roomQueueItems.id, itemId)).run();
+  writeQueueOrder(queue.filter((row) => row.id !== itemId));
+
+  return { success: true, value: null };
+};
+
+const moveQueueItem = (
+  room: typeof rooms.$inferSelect,
+  itemId: string,
+  index: number
+): QueueResult<null> => {
+  const queue = getRoomQueue(room.id);
+  const from = queue.findIndex((row) => row.id === itemId);
+  if (from === -1) {
+    return { success: false, status: 404, error: "Queue item not found" };
+  }
+
+  const [item] = queue.splice(from, 1);
+  queue.splice(Math.min(index, queue.length), 0, item);
+  writeQueueOrder(queue);
+
+  return { success: true, value: null };
+};
+
+// Start the next queued entry. When `endedVideoUrl` is given the queue only
+// advances if that is still the room's video, so repeated `ended` events
+// (or two tabs of the same host) can't skip entries.
+const advanceRoomQueue = (
+  room: typeof rooms.$inferSelect,
+  endedVideoUrl?: string
+) => {
+  if (endedVideoUrl !== undefined && endedVideoUrl !== room.videoUrl) {
+    return { advanced: false, room, clockChanged: false };
+  }
+
+  const [next, ...rest] = getRoomQueue(room.id);
+  if (!next) {
+    return { advanced: false, room, clockChanged: false };
+  }
+
+  const { room: refreshed, clockChanged } = applyRoomStateUpdate(room, {
+    video_url: next.videoUrl,
+    playback_position: 0,
+    is_playing: true,
+  });
+
+  db.delete(roomQueueItems).where(eq(roomQueueItems.id, next.id)).run();
+  writeQueueOrder(rest);
+
+  return { advanced: true, room: refreshed ?? room, clockChanged };
+};
+
+app.get(`${apiBase}/rooms/:code/queue`, roomAuthMiddleware, requireRoomParticipant, (req: RoomAuthenticatedRequest, res) => {
+  return res.json({ items: getRoomQueue(req.room!.id).map(toQueueItem) });
+});
+
+app.post(`${apiBase}/rooms/:code/queue`, roomAuthMiddleware, requireRoomController, (req: RoomAuthenticatedRequest, res) => {
+  const room = req.room!;
+  const { media_id, video_url, title } = req.body ?? {};
+
+  const result = addQueueItem(room, req.roomToken!.userId, {
+    media_id: typeof media_id === "string" ? media_id : undefined,
+    video_url: typeof video_url === "string" ? video_url : undefined,
+    title: typeof title === "string" ? title : undefined,
+  });
+  if (result.success === false) {
+    return res.status(result.status).json({ error: result.error });
+  }
+
+  broadcastQueue(room);
+  return res.status(201).json({ item: result.value, items: getRoomQueue(room.id).map(toQueueItem) });
+});
+
+app.delete(`${apiBase}/rooms/:code/queue/:itemId`, roomAuthMiddleware, requireRoomController, (req: RoomAuthenticatedRequest, res) => {
+  const room = req.room!;
+
+  const result = removeQueueItem(room, req.params.itemId);
+  if (result.success === false) {
+    return res.status(result.status).json({ error: result.error });
+  }
+
+  broadcastQueue(room);
+  return res.json({ items: getRoomQueue(room.id).map(toQueueItem) });
+});
+
+// Move an entry to a new 0-based index in the play order
+app.put(`${apiBase}/rooms/:code/queue/:itemId/position`, roomAuthMiddleware, requireRoomController, (req: RoomAuthenticatedRequest, res) => {
+  const room = req.room!;
+  const index = Number(req.body?.index);
+
+  if (!Number.isInteger(index) || index < 0) {
+    return res.status(400).json({ error: "index must be a non-negative integer" });
+  }
+
+  const result = moveQueueItem(room, req.params.itemId, index);
+  if (result.success === false) {
+    return res.status(result.status).json({ error: result.error });
+  }
+
+  broadcastQueue(room);
+  return res.json({ items: getRoomQueue(room.id).map(toQueueItem) });
+});
+
+app.post(`${apiBase}/rooms/:code/queue/advance`, roomAuthMiddleware, requireRoomController, (req: RoomAuthenticatedRequest, res) => {
+  const endedVideoUrl =
+    typeof req.body?.ended_video_url === "string" ? req.body.ended_video_url : undefined;
+
+  const result = advanceRoomQueue(req.room!, endedVideoUrl);
+  if (result.advanced) broadcastQueueAdvance(result.room, result.clockChanged);
+
+  return res.json({
+    advanced: result.advanced,
+    room: result.room,
+    items: getRoomQueue(result.room.id).map(toQueueItem),
+  });
+});
+
+app.get(`${apiBase}/rooms/:id/participants`, (req, res) => {
+  const { id } = req.params;
+
+  const participants = db
+    .select()
+    .from(roomParticipants)
+    .where(eq(roomParticipants.roomId, id))
+    .all();
+
+  return res.json({ participants: participants.map(toParticipantRecord) });
+});
+
+// Technical metadata columns, all cleared when the source file changes
+const EMPTY_PROBE = {
+  duration: null,
+  container: null,
+  videoCodec: null,
+  audioCodec: null,
+  width: null,
+  height: null,
+  bitRate: null,
+  audioStreams: null,
+  subtitleStreams: null,
+  probedAt: null,
+  probeError: null,
+};
+
+const runProbeJob = async (mediaId: string) => {
+  const file =
+    db.select().from(mediaFiles).where(eq(mediaFiles.id, mediaId)).all()[0] ?? null;
+  const inputPath = file ? mediaSourceFor(file) : null;
+  if (!inputPath) return;
+
+  try {
+    const probe = await probeMedia(inputPath);
+    db.update(mediaFiles)
+      .set({ ...probe, probedAt: new Date(), probeError: null })
+      .where(eq(mediaFiles.id, mediaId))
+      .run();
+  } catch (error) {
+    console.error(`Probing failed for media ${mediaId}:`, error);
+    db.update(mediaFiles)
+      .set({
+        probedAt: new Date(),
+        probeError: error instanceof Error ? error.message : String(error),
+      })
+      .where(eq(mediaFiles.id, mediaId))
+      .run();
+  }
+};
+
+const probeQueue = createJobQueue("probe", runProbeJob);
+
+const runThumbnailJob = async (mediaId: string) => {
+  const file =
+    db.select().from(mediaFiles).where(eq(mediaFiles.id, mediaId)).all()[0] ?? null;
+  const inputPath = file ? mediaSourceFor(file) : null;
+  if (!inputPath) return;
+
+  const outputDir = path.join(thumbnailDir, mediaId);
+  const publicDir = `/uploads/thumbnails/${mediaId}`;
+  fs.mkdirSync(outputDir, { recursive: true });
+
+  try {
+    const probe = await probeMedia(inputPath);
+    if (!probe.duration || !probe.width || !probe.height) {
+      throw new Error("No video stream to take frames from");
+    }
+    await generatePoster(inputPath, path.join(outputDir, POSTER_FILENAME), probe.duration);
+    await generatePreviewSprite(inputPath, outputDir, `${publicDir}/${SPRITE_FILENAME}`, {
+      duration: probe.duration,
+      width: probe.width,
+      height: probe.height,
+    });
+  } catch (error) {
+    console.error(`Thumbnail generation failed for media ${mediaId}:`, error);
+    fs.rmSync(outputDir, { recursive: true, force: true });
+    db.update(mediaFiles)
+      .set({
+        thumbnailUrl: null,
+        previewTrackUrl: null,
+        thumbnailError: error instanceof Error ? error.message : String(error),
+      })
+      .where(eq(mediaFiles.id, mediaId))
+      .run();
+    return;
+  }
+
+  const stillExists =
+    db.select().from(mediaFiles).where(eq(mediaFiles.id, mediaId)).all().length > 0;
+  if (!stillExists) {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+    return;
+  }
+
+  db.update(mediaFiles)
+    .set({
+      thumbnailUrl: `${publicDir}/${POSTER_FILENAME}`,
+      previewTrackUrl: `${publicDir}/${PREVIEW_TRACK_FILENAME}`,
+      thumbnailError: null,
+    })
+    .where(eq(mediaFiles.id, mediaId))
+    .run();
+};
+
+const thumbnailQueue = createJobQueue("thumbnails", runThumbnailJob);
+
+const runTranscodeJob = async (mediaId: string) => {
+  const file =
+    db.select().from(mediaFiles).where(eq(mediaFiles.id, mediaId)).all()[0] ?? null;
+  // Deleted while it was waiting in the queue
+  if (!file) return;
+
+  const inputPath = mediaSourceFor(file);
+  if (!inputPath) {
+    db.update(mediaFiles)
+      .set({ transcodeStatus: "failed", transcodeError: "Source file is not stored on this server" })
+      .where(eq(mediaFiles.id, mediaId))
+      .run();
+    return;
+  }
+
+  db.update(mediaFiles)
+    .set({ transcodeStatus: "processing", transcodeError: null })
+    .where(eq(mediaFiles.id, mediaId))
+    .run();
+
+  const outputDir = path.join(hlsDir, mediaId);
+
+  try {
+    await transcodeToHls(inputPath, outputDir);
+  } catch (error) {
+    console.error(`Transcoding failed for media ${mediaId}:`, error);
+    db.update(mediaFiles)
+      .set({
+        transcodeStatus: "failed",
+        transcodeError: error instanceof Error ? error.message : String(error),
+      })
+      .where(eq(mediaFiles.id, mediaId))
+      .run();
+    return;
+  }
+
+  const stillExists =
+    db.select().from(mediaFiles).where(eq(mediaFiles.id, mediaId)).all().length > 0;
+  if (!stillExists) {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+    return;
+  }
+
+  db.update(mediaFiles)
+    .set({
+      transcodeStatus: "ready",
+      hlsUrl: `/uploads/hls/${mediaId}/${HLS_MASTER_PLAYLIST}`,
+      transcodeError: null,
+    })
+    .where(eq(mediaFiles.id, mediaId))
+    .run();
+  console.log(`Transcoded media ${mediaId} to HLS`);
+};
+
+const transcodeQueue = createJobQueue("transcode", runTranscodeJob);
+
+const toSubtitleTrack = (row: typeof mediaSubtitles.$inferSelect) => ({
+  id: row.id,
+  language: row.language,
+  label: row.label,
+  url: row.fileUrl,
+  source: row.source,
+});
+
+const getMediaSubtitles = (mediaId: string) =>
+  db
+    .select()
+    .from(mediaSubtitles)
+    .where(eq(mediaSubtitles.mediaId, mediaId))
+    .orderBy(asc(mediaSubtitles.createdAt))
+    .all();
+
+// Replace the media's embedded tracks with whatever the container holds now.
+// Uploaded tracks are left alone.
+const runSubtitleExtractionJob = async (mediaId: string) => {
+  const file =
+    db.select().from(mediaFiles).where(eq(mediaFiles.id, mediaId)).all()[0] ?? null;
+  const inputPath = file ? mediaSourceFor(file) : null;
+  if (!inputPath) return;
+
+  const outputDir = path.join(subtitleDir, mediaId);
+  fs.mkdirSync(outputDir, { recursive: true });
+
+  let extracted;
+  try {
+    extracted = await extractEmbeddedSubtitles(inputPath, outputDir);
+  } catch (error) {
+    console.error(`Subtitle extraction failed for media ${mediaId}:`, error);
+    return;
+  }
+
+  db.delete(mediaSubtitles)
+    .where(and(eq(mediaSubtitles.mediaId, mediaId), eq(mediaSubtitles.source, "embedded")))
+    .run();
+
+  const now = new Date();
+  extracted.forEach((subtitle) => {
+    db.insert(mediaSubtitles)
+      .values({
+        id: randomUUID(),
+        mediaId,
+        language: subtitle.language,
+        label: subtitle.label,
+        fileUrl: `/uploads/subtitles/${mediaId}/${path.basename(subtitle.outputPath)}`,
+        source: "embedded",
+        createdAt: now,
+      })
+      .run();
+  });
+
+  if (extracted.length > 0) {
+    console.log(`Extracted ${extracted.length} subtitle track(s) from media ${mediaId}`);
+  }
+};
+
+const subtitleQueue = createJobQueue("subtitles", runSubtitleExtractionJob);
+
+const queueTranscode = (mediaId: string) => {
+  db.update(mediaFiles)
+    .set({ transcodeStatus: "pending", transcodeError: null })
+    .where(eq(mediaFiles.id, mediaId))
+    .run();
+  transcodeQueue.enqueue(mediaId);
+};
+
+// Everything a newly added file goes through. The original stays playable
+// while the HLS ladder is built.
+const queueMediaJobs = (mediaId: string) => {
+  probeQueue.enqueue(mediaId);
+  thumbnailQueue.enqueue(mediaId);
+  queueTranscode(mediaId);
+  subtitleQueue.enqueue(mediaId);
+};
+
+// Jobs live in memory only; pick up anything that was queued or running
+// when the server last stopped
+db.select()
+  .from(mediaFiles)
+  .where(inArray(mediaFiles.transcodeStatus, ["pending", "processing"]))
+  .all()
+  .forEach((file) => queueTranscode(file.id));
+
+// Backfill files uploaded before probing existed
+db.select()
+  .from(mediaFiles)
+  .where(isNull(mediaFiles.probedAt))
+  .all()
+  .filter(isServerMedia)
+  .forEach((file) => probeQueue.enqueue(file.id));
+
+db.select()
+  .from(mediaFiles)
+  .where(and(isNull(mediaFiles.thumbnailUrl), isNull(mediaFiles.thumbnailError)))
+  .all()
+  .filter(isServerMedia)
+  .forEach((file) => thumbnailQueue.enqueue(file.id));
+
+type MediaFileRow = typeof mediaFiles.$inferSelect;
+
+// An `episode` request field. Null or missing means the file is a movie.
+const parseEpisodeInput = (
+  value: unknown
+): { success: true; value: EpisodeInput | null } | { success: false; error: string } => {
+  if (value === undefined || value === null) {
+    return { success: true, value: null };
+  }
+  if (typeof value !== "object") {
+    return { success: false, error: "episode must be an object" };
+  }
+
+  const { seriesTitle, season, episode } = value as Record<string, unknown>;
+  if (typeof seriesTitle !== "string" || !seriesTitle.trim()) {
+    return { success: false, error: "episode.seriesTitle is required" };
+  }
+  // Season 0 is where OMDB keeps specials
+  const seasonNumber = Number(season);
+  const episodeNumber = Number(episode);
+  if (!Number.isInteger(seasonNumber) || seasonNumber < 0 || !Number.isInteger(episodeNumber) || episodeNumber < 0) {
+    return { success: false, error: "episode.season and episode.episode must be non-negative integers" };
+  }
+
+  return { success: true, value: { seriesTitle: seriesTitle.trim(), season: seasonNumber, episode: episodeNumber } };
+};
+
+// Drop a show once its last episode has been deleted or moved elsewhere
+const removeSeriesIfEmpty = (seriesId: string) => {
+  const remaining = db
+    .select({ id: mediaFiles.id })
+    .from(mediaFiles)
+    .where(eq(mediaFiles.seriesId, seriesId))
+    .limit(1)
+    .all();
+  if (remaining.length > 0) return;
+
+  const row = db.select().from(tvSeries).where(eq(tvSeries.id, seriesId)).all()[0] ?? null;
+  const poster = row?.posterUrl ? storedObjectForUrl(row.posterUrl) : null;
+  if (poster) {
+    poster.backend.delete(poster.key).catch((error) => console.error("Error deleting series poster:", error));
+  }
+
+  db.delete(tvSeries).where(eq(tvSeries.id, seriesId)).run();
+};
+
+// The episode after `file` in its show, moving on to the next season at the
+// end of one
+const findNextEpisode = (file: MediaFileRow) => {
+  if (!file.seriesId || file.seasonNumber === null || file.episodeNumber === null) return null;
+
+  return (
+    db
+      .select()
+      .from(mediaFiles)
+      .where(
+        and(
+          eq(mediaFiles.seriesId, file.seriesId),
+          or(
+            gt(mediaFiles.seasonNumber, file.seasonNumber),
+            and(eq(mediaFiles.seasonNumber, file.seasonNumber), gt(mediaFiles.episodeNumber, file.episodeNumber))
+          )
+        )
+      )
+      .orderBy(asc(mediaFiles.seasonNumber), asc(mediaFiles.episodeNumber))
+      .limit(1)
+      .all()[0] ?? null
+  );
+};
+
+// Move a finished upload from incomingDir into storage, add it to the library
+// and queue its background jobs; see createMediaRecord for how the title is
+// chosen
+const createUploadedMedia = async (
+  file: Omit<MediaRecordInput, "fileUrl" | "filePath" | "storageBackend" | "storageKey"> & {
+    tempPath: string;
+    filename: string;
+  }
+) => {
+  const { tempPath, filename, ...record } = file;
+  await storeFile(mediaStorage, filename, tempPath, file.fileType);
+
+  const fileUrl = mediaStorage.publicUrl(filename);
+  const { mediaId, metadata } = await createMediaRecord({
+    ...record,
+    fileUrl,
+    filePath: mediaStorage.localPath(filename),
+    storageBackend: mediaStorage.name,
+    storageKey: filename,
+  });
+  queueMediaJobs(mediaId);
+
+  return { fileUrl, metadata };
+};
+
+const MEDIA_PAGE_SIZE = 50;
+const MEDIA_MAX_PAGE_SIZE = 200;
+
+const MEDIA_SORTS = ["relevance", "newest", "oldest", "title", "year"] as const;
+type MediaSort = (typeof MEDIA_SORTS)[number];
+
+// Query parameters that may be repeated (?genre=Drama&genre=Comedy)
+const queryStrings = (value: unknown) =>
+  (Array.isArray(value) ? value : [value])
+    .filter((v): v is string => typeof v === "string")
+    .map((v) => v.trim())
+    .filter(Boolean);
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, (c) => `\\${c}`);
+
+// Expression to order by for each sort, and which way. Plain SQL rather than
+// columns so cursor values round-trip as raw database values.
+const mediaSortKey = (sort: MediaSort, ftsQuery: string | null): { expr: SQL; dir: "asc" | "desc" } => {
+  switch (sort) {
+    case "relevance":
+      // bm25 scores are lower for better matches. Column weights follow the
+      // index order: media_id, title, description, director, actors, genre.
+      return {
+        expr: sql`(SELECT bm25(media_search, 0.0, 10.0, 2.0, 4.0, 4.0, 3.0) FROM media_search
+          WHERE media_search MATCH ${ftsQuery} AND media_search.media_id = ${mediaFiles.id})`,
+        dir: "asc",
+      };
+    case "oldest":
+      return { expr: sql`${mediaFiles.createdAt}`, dir: "asc" };
+    case "title":
+      return { expr: sql`${mediaFiles.title} COLLATE NOCASE`, dir: "asc" };
+    case "year":
+      // Unknown years sort last
+      return { expr: sql`COALESCE(${mediaFiles.releaseYear}, 0)`, dir: "desc" };
+    default:
+      return { expr: sql`${mediaFiles.createdAt}`, dir: "desc" };
+  }
+};
+
+// Search, filter and sort the library, one page at a time. Pass the
+// `nextCursor` from a response as `cursor` (with the same filters) for the
+// next page.
+//   q         full-text search over title, description, director, cast, genre
+//   genre     repeatable; a file must have every genre given
+//   rating    repeatable; any of the given ratings
+//   yearFrom, yearTo  release year range, inclusive
+//   type      movie or episode; both when omitted
+//   sort      relevance (default when searching), newest (default), oldest, title, year
+app.get(`${apiBase}/media`, (req, res) => {
+  const ftsQuery = typeof req.query.q === "string" ? toFtsQuery(req.query.q) : null;
+
+  const requestedSort = typeof req.query.sort === "string" ? req.query.sort : null;
+  if (requestedSort && !MEDIA_SORTS.includes(requestedSort as MediaSort)) {
+    return res.status(400).json({ error: `sort must be one of ${MEDIA_SORTS.join(", ")}` });
+  }
+  // Relevance only means something while searching
+  const sort: MediaSort =
+    requestedSort === "relevance" && !ftsQuery
+      ? "newest"
+      : (requestedSort as MediaSort | null) ?? (ftsQuery ? "relevance" : "newest");
+
+  const years: Record<"yearFrom" | "yearTo", number | null> = { yearFrom: null, yearTo: null };
+  for (const key of ["yearFrom", "yearTo"] as const) {
+    const value = req.query[key];
+    if (value === undefined || value === "") continue;
+    const year = Number(value);
+    if (!Number.isInteger(year)) {
+      return res.status(400).json({ error: `${key} must be a year` });
+    }
+    years[key] = year;
+  }
+
+  const type = req.query.type;
+  if (type !== undefined && type !== "movie" && type !== "episode") {
+    return res.status(400).json({ error: "type must be movie or episode" });
+  }
+
+  const requestedLimit = Number(req.query.limit) || MEDIA_PAGE_SIZE;
+  const limit = Math.min(Math.max(1, requestedLimit), MEDIA_MAX_PAGE_SIZE);
+
+  const conditions: (SQL | undefined)[] = [];
+  if (ftsQuery) {
+    conditions.push(
+      sql`${mediaFiles.id} IN (SELECT media_id FROM media_search WHERE media_search MATCH ${ftsQuery})`
+    );
+  }
+  queryStrings(req.query.genre).forEach((genre) => {
+    conditions.push(
+      sql`(', ' || ${mediaFiles.genre} || ',') LIKE ${`%, ${escapeLike(genre)},%`} ESCAPE '\\'`
+    );
+  });
+  const ratings = queryStrings(req.query.rating);
+  if (ratings.length > 0) conditions.push(inArray(mediaFiles.rating, ratings));
+  if (years.yearFrom !== null) conditions.push(gte(mediaFiles.releaseYear, years.yearFrom));
+  if (years.yearTo !== null) conditions.push(lte(mediaFiles.releaseYear, years.yearTo));
+  if (type === "movie") conditions.push(isNull(mediaFiles.seriesId));
+  if (type === "episode") conditions.push(isNotNull(mediaFiles.seriesId));
+
+  const { expr, dir } = mediaSortKey(sort, ftsQuery);
+  const compare = dir === "desc" ? lt : gt;
+
+  const cursor = typeof req.query.cursor === "string" ? req.query.cursor : null;
+  if (cursor) {
+    const cursorRow =
+      db.select({ value: expr }).from(mediaFiles).where(eq(mediaFiles.id, cursor)).all()[0] ?? null;
+    if (!cursorRow || cursorRow.value === null) {
+      return res.status(400).json({ error: "Invalid cursor" });
+    }
+    conditions.push(
+      or(
+        compare(expr, cursorRow.value),
+        and(eq(expr, cursorRow.value), compare(mediaFiles.id, cursor))
+      )
+    );
+  }
+
+  const order = dir === "desc" ? desc : asc;
+  const rows = db
+    .select()
+    .from(mediaFiles)
+    .where(and(...conditions))
+    .orderBy(order(expr), order(mediaFiles.id))
+    .limit(limit + 1)
+    .all();
+
+  const page = rows.slice(0, limit);
+  const nextCursor = rows.length > limit ? page[page.length - 1].id : null;
+
+  return res.json({ media: page, nextCursor });
+});
+
+// Values to offer as filters: every genre and rating in the library and the
+// range of release years
+app.get(`${apiBase}/media/facets`, (_req, res) => {
+  const rows = db
+    .select({ genre: mediaFiles.genre, rating: mediaFiles.rating, releaseYear: mediaFiles.releaseYear })
+    .from(mediaFiles)
+    .all();
+
+  const genres = new Set(rows.flatMap((row) => splitGenres(row.genre)));
+  const ratings = new Set(rows.map((row) => row.rating).filter((r): r is string => Boolean(r)));
+  const years = rows.map((row) => row.releaseYear).filter((y): y is number => y !== null);
+
+  return res.json({
+    genres: [...genres].sort(),
+    ratings: [...ratings].sort(),
+    years: years.length > 0 ? { min: Math.min(...years), max: Math.max(...years) } : null,
+  });
+});
+
+// Every show in the library with how many seasons and episodes we have of it
+app.get(`${apiBase}/series`, (_req, res) => {
+  const rows = db
+    .select({
+      series: tvSeries,
+      seasonCount: sql<number>`COUNT(DISTINCT ${mediaFiles.seasonNumber})`,
+      episodeCount: sql<number>`COUNT(${mediaFiles.id})`,
+    })
+    .from(tvSeries)
+    .leftJoin(mediaFiles, eq(mediaFiles.seriesId, tvSeries.id))
+    .groupBy(tvSeries.id)
+    .orderBy(sql`${tvSeries.title} COLLATE NOCASE`)
+    .all();
+
+  return res.json({
+    series: rows.map((row) => ({ ...row.series, seasonCount: row.seasonCount, episodeCount: row.episodeCount })),
+  });
+});
+
+// A show with its episodes grouped by season, in episode order
+app.get(`${apiBase}/series/:id`, (req, res) => {
+  const row = db.select().from(tvSeries).where(eq(tvSeries.id, req.params.id)).all()[0] ?? null;
+  if (!row) {
+    return res.status(404).json({ error: "Series not found" });
+  }
+
+  const episodes = db
+    .select()
+    .from(mediaFiles)
+    .where(eq(mediaFiles.seriesId, row.id))
+    .orderBy(asc(mediaFiles.seasonNumber), asc(mediaFiles.episodeNumber), asc(mediaFiles.title))
+    .all();
+
+  const seasons = new Map<number, MediaFileRow[]>();
+  episodes.forEach((episode) => {
+    const number = episode.seasonNumber ?? 0;
+    seasons.set(number, [...(seasons.get(number) ?? []), episode]);
+  });
+
+  return res.json({
+    series: row,
+    seasons: [...seasons].map(([number, seasonEpisodes]) => ({ number, episodes: seasonEpisodes })),
+  });
+});
+
+app.post(
+  `${apiBase}/media`,
+  authMiddleware,
+  requireAdmin,
+  upload.single("file"),
+  async (req: AuthenticatedRequest, res) => {
+    if (!req.file) {
+      return res.status(400).json({ error: "File is required" });
+    }
+
+    // Without a title, one is parsed from the filename
+    const { title, description, externalApiUrl, seriesTitle, season, episode } = req.body;
+
+    // Multipart can't nest, so episodes come as flat fields
+    const parsedEpisode = parseEpisodeInput(seriesTitle ? { seriesTitle, season, episode } : null);
+    if (parsedEpisode.success === false) {
+      fs.rmSync(req.file.path, { force: true });
+      return res.status(400).json({ error: parsedEpisode.error });
+    }
+
+    try {
+      const result = await createUploadedMedia({
+        tempPath: req.file.path,
+        filename: req.file.filename,
+        // multer decodes the multipart filename as latin1
+        originalName: Buffer.from(req.file.originalname, "latin1").toString("utf8"),
+        fileType: req.file.mimetype || "unknown",
+        fileSize: req.file.size,
+        title,
+        description,
+        externalApiUrl,
+        episode: seriesTitle ? parsedEpisode.value : undefined,
+        uploadedBy: req.userId!,
+      });
+      return res.json(result);
+    } catch (error) {
+      console.error("Error storing upload:", error);
+      fs.rmSync(req.file.path, { force: true });
+      return res.status(500).json({ error: "Failed to store the upload" });
+    }
+  }
+);
+
+// Resumable uploads: create one, PATCH chunks at the current offset (GET it
+// again after a dropped connection), then complete it to add the media file.
+// The partial file's size on disk is the source of truth for the offset, so
+// bytes that reached disk before a disconnect are never resent.
+
+type MediaUploadRow = typeof mediaUploads.$inferSelect;
+
+const incomingPath = (uploadId: string) => path.join(incomingDir, uploadId);
+
+const getUploadOffset = (uploadId: string) => {
+  try {
+    return fs.statSync(incomingPath(uploadId)).size;
+  } catch {
+    return 0;
+  }
+};
+
+const toUploadStatus = (row: MediaUploadRow) => ({
+  id: row.id,
+  filename: row.filename,
+  fileType: row.fileType,
+  title: row.title,
+  description: row.description,
+  size: row.totalSize,
+  offset: getUploadOffset(row.id),
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt,
+});
+
+// Uploads with a PATCH still streaming to disk; chunks must arrive in order
+const activeUploadWrites = new Set<string>();
+
+const findOwnUpload = (req: AuthenticatedRequest) =>
+  db
+    .select()
+    .from(mediaUploads)
+    .where(and(eq(mediaUploads.id, req.params.id), eq(mediaUploads.uploadedBy, req.userId!)))
+    .all()[0] ?? null;
+
+const removeUpload = (uploadId: string) => {
+  fs.rmSync(incomingPath(uploadId), { force: true });
+  db.delete(mediaUploads).where(eq(mediaUploads.id, uploadId)).run();
+};
+
+const cleanupExpiredUploads = () => {
+  const cutoff = new Date(Date.now() - UPLOAD_EXPIRY_MS);
+  const expired = db
+    .select()
+    .from(mediaUploads)
+    .where(lt(mediaUploads.updatedAt, cutoff))
+    .all();
+  expired.forEach((row) => {
+    if (!activeUploadWrites.has(row.id)) removeUpload(row.id);
+  });
+  if (expired.length > 0) {
+    console.log(`Discarded ${expired.length} abandoned upload(s)`);
+  }
+};
+
+cleanupExpiredUploads();
+setInterval(cleanupExpiredUploads, UPLOAD_CLEANUP_INTERVAL_MS).unref();
+
+// The signed-in admin's unfinished uploads, so a reloaded page can offer to
+// resume them
+app.get(`${apiBase}/media/uploads`, authMiddleware, requireAdmin, (req: AuthenticatedRequest, res) => {
+  const rows = db
+    .select()
+    .from(mediaUploads)
+    .where(eq(mediaUploads.uploadedBy, req.userId!))
+    .orderBy(desc(mediaUploads.updatedAt))
+    .all();
+  return res.json({ uploads: rows.map(toUploadStatus) });
+});
+
+app.post(`${apiBase}/media/uploads`, authMiddleware, requireAdmin, (req: AuthenticatedRequest, res) => {
+  const { filename, fileType, size, title, description } = req.body ?? {};
+
+  if (typeof filename !== "string" || !filename.trim()) {
+    return res.status(400).json({ error: "Filename is required" });
+  }
+  if (title !== undefined && typeof title !== "string") {
+    return res.status(400).json({ error: "Title must be a string" });
+  }
+  if (!Number.isInteger(size) || size <= 0) {
+    return res.status(400).json({ error: "Size must be a positive integer" });
+  }
+  if (size > MAX_UPLOAD_BYTES) {
+    return res.status(413).json({ error: "File is too large" });
+  }
+
+  const now = new Date();
+  const row: MediaUploadRow = {
+    id: randomUUID(),
+    filename: path.basename(filename.trim()),
+    fileType: typeof fileType === "string" && fileType ? fileType : "unknown",
+    totalSize: size,
+    // The filename stands in for a missing title and is parsed on completion
+    title: title?.trim() || path.basename(filename.trim()),
+    description: typeof description === "string" ? description.trim() || null : null,
+    uploadedBy: req.userId!,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  db.insert(mediaUploads).values(row).run();
+  fs.writeFileSync(incomingPath(row.id), "");
+
+  return res.status(201).json({ upload: toUploadStatus(row) });
+});
+
+app.get(`${apiBase}/media/uploads/:id`, authMiddleware, requireAdmin, (req: AuthenticatedRequest, res) => {
+  const row = findOwnUpload(req);
+  if (!row) {
+    return res.status(404).json({ error: "Upload not found" });
+  }
+
+  return res.json({ upload: toUploadStatus(row) });
+});
+
+// Append one chunk. The body is the raw bytes (application/offset+octet-stream)
+// and Upload-Offset must match the current offset.
+app.patch(`${apiBase}/media/uploads/:id`, authMiddleware, requireAdmin, async (req: AuthenticatedRequest, res) => {
+  const row = findOwnUpload(req);
+  if (!row) {
+    return res.status(404).json({ error: "Upload not found" });
+  }
+
+  if (!req.is("application/offset+octet-stream")) {
+    return res.status(415).json({ error: "Chunks must be sent as application/offset+octet-stream" });
+  }
+
+  if (activeUploadWrites.has(row.id)) {
+    return res.status(423).json({ error: "Another chunk is still being written" });
+  }
+
+  const offset = Number(req.header("Upload-Offset"));
+  const length = Number(req.header("Content-Length"));
+  if (!Number.isInteger(offset) || !Number.isInteger(length)) {
+    return res.status(400).json({ error: "Upload-Offset and Content-Length are required" });
+  }
+
+  const currentOffset = getUploadOffset(row.id);
+  if (offset !== currentOffset) {
+    return res.status(409).json({ error: "Upload offset mismatch", offset: currentOffset });
+  }
+  if (offset + length > row.totalSize) {
+    return res.status(400).json({ error: "Chunk runs past the end of the file" });
+  }
+
+  activeUploadWrites.add(row.id);
+  try {
+    await pipeline(req, fs.createWriteStream(incomingPath(row.id), { flags: "a" }));
+  } catch (error) {
+    // Usually the client went away mid-chunk. Whatever reached disk counts
+    // and the client picks up from there.
+    console.warn(`Upload ${row.id} chunk interrupted:`, error instanceof Error ? error.message : error);
+    return res.status(500).json({ error: "Chunk was interrupted", offset: getUploadOffset(row.id) });
+  } finally {
+    activeUploadWrites.delete(row.id);
+  }
+
+  const now = new Date();
+  db.update(mediaUploads).set({ updatedAt: now }).where(eq(mediaUploads.id, row.id)).run();
+
+  return res.json({ upload: toUploadStatus({ ...row, updatedAt: now }) });
+});
+
+// Move the finished file into the library and create its media record
+app.post(`${apiBase}/media/uploads/:id/complete`, authMiddleware, requireAdmin, async (req: AuthenticatedRequest, res) => {
+  const row = findOwnUpload(req);
+  if (!row) {
+    return res.status(404).json({ error: "Upload not found" });
+  }
+
+  const offset = getUploadOffset(row.id);
+  if (activeUploadWrites.has(row.id) || offset !== row.totalSize) {
+    return res.status(409).json({ error: "Upload is not finished", offset });
+  }
+
+  // The form may have been edited since the upload was created
+  const { title, description, episode } = req.body ?? {};
+  const finalTitle = typeof title === "string" && title.trim() ? title : row.title;
+  const finalDescription = typeof description === "string" ? description : row.description;
+  const parsedEpisode = parseEpisodeInput(episode);
+  if (parsedEpisode.success === false) {
+    return res.status(400).json({ error: parsedEpisode.error });
+  }
+
+  // Held like a chunk write, so a second complete or a discard waits. If
+  // storing fails the upload stays and completing can be retried.
+  activeUploadWrites.add(row.id);
+  try {
+    const result = await createUploadedMedia({
+      tempPath: incomingPath(row.id),
+      filename: storedFilename(row.filename),
+      originalName: row.filename,
+      fileType: row.fileType,
+      fileSize: row.totalSize,
+      title: finalTitle,
+      description: finalDescription,
+      episode: episode === undefined ? undefined : parsedEpisode.value,
+      uploadedBy: req.userId!,
+    });
+    db.delete(mediaUploads).where(eq(mediaUploads.id, row.id)).run();
+    return res.status(201).json(result);
+  } catch (error) {
+    console.error("Error completing upload:", error);
+    return res.status(500).json({ error: "Failed to store the upload" });
+  } finally {
+    activeUploadWrites.delete(row.id);
+  }
+});
+
+app.delete(`${apiBase}/media/uploads/:id`, authMiddleware, requireAdmin, (req: AuthenticatedRequest, res) => {
+  const row = findOwnUpload(req);
+  if (!row) {
+    return res.status(404).json({ error: "Upload not found" });
+  }
+
+  if (activeUploadWrites.has(row.id)) {
+    return res.status(409).json({ error: "A chunk is still being written" });
+  }
+
+  removeUpload(row.id);
+  return res.json({ success: true });
+});
+
+// Bulk import of the server's own media folder (LIBRARY_DIR). One import at
+// a time: every new file gets a metadata lookup, so a big folder takes a while.
+let libraryImportRunning = false;
+
+app.get(`${apiBase}/media/library`, authMiddleware, requireAdmin, (_req, res) => {
+  return res.json({
+    configured: Boolean(LIBRARY_DIR),
+    importing: libraryImportRunning,
+    // Folders the server keeps in sync, relative to LIBRARY_DIR
+    watched: libraryRoots.map((root) => path.relative(LIBRARY_DIR, root) || "."),
+  });
+});
+
+// Register new files under LIBRARY_DIR, or under `path` inside it, and report
+// duplicates and unreadable files
+app.post(`${apiBase}/media/library/import`, authMiddleware, requireAdmin, async (req: AuthenticatedRequest, res) => {
+  const { path: subdirectory } = req.body ?? {};
+  if (subdirectory !== undefined && typeof subdirectory !== "string") {
+    return res.status(400).json({ error: "path must be a string" });
+  }
+  if (!LIBRARY_DIR) {
+    return res.status(400).json({ error: "LIBRARY_DIR is not configured" });
+  }
+  if (!libraryFolder(subdirectory)) {
+    return res.status(400).json({ error: "path must be inside the library folder" });
+  }
+  if (libraryImportRunning) {
+    return res.status(409).json({ error: "An import is already running" });
+  }
+
+  libraryImportRunning = true;
+  try {
+    const report = await importLibrary({ uploadedBy: req.userId!, subdirectory, onImported: queueMediaJobs });
+    console.log(
+      `Library import: ${report.imported.length} imported, ${report.moved.length} moved, ${report.missing.length} missing, ` +
+        `${report.duplicates.length} duplicate(s), ${report.unreadable.length} unreadable`
+    );
+    return res.json({ report });
+  } catch (error) {
+    console.error("Error importing library:", error);
+    return res.status(500).json({ error: "Failed to import library" });
+  } finally {
+    libraryImportRunning = false;
+  }
+});
+
+const RELEASE_YEAR_ERROR = "must be a year or null";
+
+// Body of PUT /media/:id; `episode` is checked by parseEpisodeInput
+const mediaUpdateSchema = z.object({
+  title: z.string().trim().min(1, "can't be empty").optional(),
+  description: z.string().nullable().optional(),
+  file_url: z.string().trim().min(1, "can't be empty").optional(),
+  episode: z.unknown().optional(),
+  release_year: z
+    .number({ invalid_type_error: RELEASE_YEAR_ERROR })
+    .int(RELEASE_YEAR_ERROR)
+    .gt(1800, RELEASE_YEAR_ERROR)
+    .lt(3000, RELEASE_YEAR_ERROR)
+    .nullable()
+    .optional(),
+  release_resolution: z.string().nullable().optional(),
+  release_source: z.string().nullable().optional(),
+});
+
+// Update media metadata. `episode` files the media under a show
+// ({ seriesTitle, season, episode }) or, when null, makes it a movie again.
+// The release_* fields correct what was parsed from the filename.
+app.put(`${apiBase}/media/:id`, authMiddleware, requireAdmin, async (req, res) => {
+  const { id } = req.params;
+  const body = mediaUpdateSchema.safeParse(req.body ?? {});
+  if (!body.success) {
+    const issue = body.error.issues[0];
+    const field = issue?.path.length ? `${issue.path.join(".")}: ` : "";
+    return res.status(400).json({ error: `${field}${issue?.message ?? "Invalid media update"}` });
+  }
+  const { title, description, file_url, episode, release_year, release_resolution, release_source } = body.data;
+
+  const file =
+    db.select().from(mediaFiles).where(eq(mediaFiles.id, id)).all()[0] ?? null;
+
+  if (!file) {
+    return res.status(404).json({ error: "Media not found" });
+  }
+
+  const updates: Partial<typeof mediaFiles.$inferInsert> = {};
+  if (title !== undefined) updates.title = title;
+  if (description !== undefined) updates.description = description?.trim() || null;
+  if (file_url !== undefined) updates.fileUrl = file_url;
+  if (release_resolution !== undefined) updates.releaseResolution = release_resolution?.trim() || null;
+  if (release_source !== undefined) updates.releaseSource = release_source?.trim() || null;
+  if (release_year !== undefined) updates.releaseYear = release_year;
+
+  if (episode !== undefined) {
+    const parsedEpisode = parseEpisodeInput(episode);
+    if (parsedEpisode.success === false) {
+      return res.status(400).json({ error: parsedEpisode.error });
+    }
+    const series = parsedEpisode.value
+      ? await findOrCreateSeries(parsedEpisode.value.seriesTitle, mediaPathFromUrl(file.fileUrl))
+      : null;
+    updates.seriesId = series?.id ?? null;
+    updates.seasonNumber = parsedEpisode.value?.season ?? null;
+    updates.episodeNumber = parsedEpisode.value?.episode ?? null;
+  }
+
+  // A new source invalidates the transcoded ladder
+  const sourceChanged = file_url !== undefined && file_url !== file.fileUrl;
+  if (sourceChanged) {
+    // The new URL may be another stored file's
+    const stored = storedObjectForUrl(file_url);
+    updates.storageBackend = stored?.backend.name ?? null;
+    updates.storageKey = stored?.key ?? null;
+    fs.rmSync(path.join(hlsDir, id), { recursive: true, force: true });
+    updates.transcodeStatus = "none";
+    updates.hlsUrl = null;
+    updates.transcodeError = null;
+    Object.assign(updates, EMPTY_PROBE);
+    fs.rmSync(path.join(thumbnailDir, id), { recursive: true, force: true });
+    updates.thumbnailUrl = null;
+    updates.previewTrackUrl = null;
+    updates.thumbnailError = null;
+  }
+
+  db.update(mediaFiles)
+    .set({ ...updates, updatedAt: new Date() })
+    .where(eq(mediaFiles.id, id))
+    .run();
+
+  if (sourceChanged && isServerMedia({ ...file, ...updates })) {
+    probeQueue.enqueue(id);
+    thumbnailQueue.enqueue(id);
+    queueTranscode(id);
+    subtitleQueue.enqueue(id);
+  }
+
+  if (file.seriesId && updates.seriesId !== undefined && updates.seriesId !== file.seriesId) {
+    removeSeriesIfEmpty(file.seriesId);
+  }
+
+  const updated = db.select().from(mediaFiles).where(eq(mediaFiles.id, id)).all()[0];
+  return res.json({ media: updated });
+});
+
+// Re-fetch metadata for a media file from the configured providers
+app.post(`${apiBase}/media/:id/resync-omdb`, authMiddleware, requireAdmin, async (req, res) => {
+  const { id } = req.params;
+
+  const file =
+    db.select().from(mediaFiles).where(eq(mediaFiles.id, id)).all()[0] ?? null;
+
+  if (!file) {
+    return res.status(404).json({ error: "Media not found" });
+  }
+
+  try {
+    // Episodes are looked up through their show
+    const series = file.seriesId
+      ? db.select().from(tvSeries).where(eq(tvSeries.id, file.seriesId)).all()[0] ?? null
+      : null;
+    const filePath = mediaPathFromUrl(file.fileUrl);
+    const metadata = series
+      ? await fetchMetadata({
+          kind: "episode",
+          series,
+          season: file.seasonNumber ?? 0,
+          episode: file.episodeNumber ?? 0,
+          filePath,
+        })
+      : await fetchMetadata({
+          kind: "movie",
+          title: file.title,
+          imdbId: file.imdbPinned ? file.imdbId : null,
+          filePath,
+        });
+
+    if (!metadata) {
+      return res.status(400).json({
+        error: series ? "No metadata found for this episode" : "No metadata found for this title",
+      });
+    }
+
+    // Cache new poster if available
+    let cachedPosterUrl = file.posterUrl;
+    if (metadata.posterUrl && metadata.posterUrl !== file.posterUrl) {
+      cachedPosterUrl = await cachePosterImage(metadata.posterUrl, id);
+    }
+
+    // Update media with new metadata
+    db.update(mediaFiles)
+      .set({
+        description: metadata.description || file.description,
+        externalApiUrl: metadata.externalApiUrl || file.externalApiUrl,
+        posterUrl: cachedPosterUrl || metadata.posterUrl,
+        imdbId: file.imdbPinned ? file.imdbId : metadata.imdbId || file.imdbId,
+        releaseYear: metadata.releaseYear || file.releaseYear,
+        rating: metadata.rating || file.rating,
+        genre: metadata.genre || file.genre,
+        director: metadata.director || file.director,
+        actors: metadata.actors || file.actors,
+        updatedAt: new Date(),
+      })
+      .where(eq(mediaFiles.id, id))
+      .run();
+
+    const updated = db.select().from(mediaFiles).where(eq(mediaFiles.id, id)).all()[0];
+    return res.json({ media: updated });
+  } catch (error) {
+    console.error("Error resyncing metadata:", error);
+    return res.status(500).json({ error: "Failed to resync metadata" });
+  }
+});
+
+// Candidate matches for a movie title, for an admin to pick the right one
+app.get(`${apiBase}/media/metadata-search`, authMiddleware, requireAdmin, async (req, res) => {
+  const title = typeof req.query.title === "string" ? req.query.title.trim() : "";
+  if (!title) {
+    return res.status(400).json({ error: "title is required" });
+  }
+
+  const year = typeof req.query.year === "string" && req.query.year ? Number(req.query.year) : null;
+  if (year !== null && !Number.isInteger(year)) {
+    return res.status(400).json({ error: "year must be a whole number" });
+  }
+
+  try {
+    const results = await searchMetadata(title, year);
+    return res.json({ results });
+  } catch (error) {
+    console.error("Error searching metadata:", error);
+    return res.status(500).json({ error: "Failed to search metadata" });
+  }
+});
+
+// Pin a movie to an IMDb title and replace its metadata with that title's.
+// A null imdbId unpins it, leaving the current metadata in place.
+app.put(`${apiBase}/media/:id/match`, authMiddleware, requireAdmin, async (req, res) => {
+  const { id } = req.params;
+  const { imdbId } = req.body as { imdbId?: unknown };
+
+  const file = db.select().from(mediaFiles).where(eq(mediaFiles.id, id)).all()[0] ?? null;
+  if (!file) {
+    return res.status(404).json({ error: "Media not found" });
+  }
+  if (file.seriesId) {
+    return res.status(400).json({ error: "Episodes are matched through their series" });
+  }
+
+  if (imdbId === null) {
+    db.update(mediaFiles).set({ imdbPinned: false, updatedAt: new Date() }).where(eq(mediaFiles.id, id)).run();
+    const updated = db.select().from(mediaFiles).where(eq(mediaFiles.id, id)).all()[0];
+    return res.json({ media: updated });
+  }
+
+  if (typeof imdbId !== "string" || !/^tt\d+$/.test(imdbId.trim())) {
+    return res.status(400).json({ error: "imdbId must be an IMDb title ID like tt0111161, or null" });
+  }
+
+  try {
+    const metadata = await fetchMetadata({
+      kind: "movie",
+      title: file.title,
+      imdbId: imdbId.trim(),
+      filePath: mediaPathFromUrl(file.fileUrl),
+    });
+    if (!metadata) {
+      return res.status(400).json({ error: "No metadata found for that IMDb ID" });
+    }
+
+    const cachedPosterUrl = metadata.posterUrl ? await cachePosterImage(metadata.posterUrl, id) : null;
+
+    // A different title: nothing from the old match carries over
+    db.update(mediaFiles)
+      .set({
+        description: metadata.description || file.description,
+        externalApiUrl: metadata.externalApiUrl,
+        posterUrl: cachedPosterUrl || metadata.posterUrl,
+        imdbId: imdbId.trim(),
+        imdbPinned: true,
+        releaseYear: metadata.releaseYear,
+        rating: metadata.rating,
+        genre: metadata.genre,
+        director: metadata.director,
+        actors: metadata.actors,
+        updatedAt: new Date(),
+      })
+      .where(eq(mediaFiles.id, id))
+      .run();
+
+    const updated = db.select().from(mediaFiles).where(eq(mediaFiles.id, id)).all()[0];
+    return res.json({ media: updated });
+  } catch (error) {
+    console.error("Error matching metadata:", error);
+    return res.status(500).json({ error: "Failed to match metadata" });
+  }
+});
+
+// Queue (or retry) the HLS transcode for an uploaded file
+app.post(`${apiBase}/media/:id/transcode`, authMiddleware, requireAdmin, (req, res) => {
+  const { id } = req.params;
+
+  const file =
+    db.select().from(mediaFiles).where(eq(mediaFiles.id, id)).all()[0] ?? null;
+
+  if (!file) {
+    return res.status(404).json({ error: "Media not found" });
+  }
+
+  if (!isServerMedia(file)) {
+    return res.status(400).json({ error: "Only uploaded files can be transcoded" });
+  }
+
+  if (file.transcodeStatus === "pending" || file.transcodeStatus === "processing") {
+    return res.status(409).json({ error: "Transcoding is already in progress" });
+  }
+
+  queueTranscode(id);
+
+  const updated = db.select().from(mediaFiles).where(eq(mediaFiles.id, id)).all()[0];
+  return res.status(202).json({ media: updated });
+});
+
+// Re-read technical metadata, e.g. after replacing the file on disk
+app.post(`${apiBase}/media/:id/probe`, authMiddleware, requireAdmin, (req, res) => {
+  const { id } = req.params;
+
+  const file =
+    db.select().from(mediaFiles).where(eq(mediaFiles.id, id)).all()[0] ?? null;
+
+  if (!file) {
+    return res.status(404).json({ error: "Media not found" });
+  }
+
+  if (!isServerMedia(file)) {
+    return res.status(400).json({ error: "Only uploaded files can be probed" });
+  }
+
+  probeQueue.enqueue(id);
+  return res.status(202).json({ message: "Probe queued" });
+});
+
+// Regenerate the poster frame and preview sprite
+app.post(`${apiBase}/media/:id/thumbnails`, authMiddleware, requireAdmin, (req, res) => {
+  const { id } = req.params;
+
+  const file =
+    db.select().from(mediaFiles).where(eq(mediaFiles.id, id)).all()[0] ?? null;
+
+  if (!file) {
+    return res.status(404).json({ error: "Media not found" });
+  }
+
+  if (!isServerMedia(file)) {
+    return res.status(400).json({ error: "Thumbnails can only be generated for uploaded files" });
+  }
+
+  thumbnailQueue.enqueue(id);
+  return res.status(202).json({ message: "Thumbnail generation queued" });
+});
+
+// Best playable source for a room's video URL: the HLS master when the file
+// has been transcoded, otherwise nothing and the original is played as is.
+// Also lists subtitle tracks, the scrub preview track and, for TV episodes,
+// the episode that follows.
+app.get(`${apiBase}/media/playback`, (req, res) => {
+  const url = typeof req.query.url === "string" ? req.query.url : "";
+
+  const file = url
+    ? db.select().from(mediaFiles).where(eq(mediaFiles.fileUrl, url)).all()[0] ?? null
+    : null;
+  const nextEpisode = file ? findNextEpisode(file) : null;
+
+  return res.json({
+    hlsUrl: file?.transcodeStatus === "ready" ? file.hlsUrl : null,
+    previewTrackUrl: file?.previewTrackUrl ?? null,
+    subtitles: file ? getMediaSubtitles(file.id).map(toSubtitleTrack) : [],
+    nextEpisode: nextEpisode
+      ? {
+          id: nextEpisode.id,
+          title: nextEpisode.title,
+          fileUrl: nextEpisode.fileUrl,
+          seasonNumber: nextEpisode.seasonNumber,
+          episodeNumber: nextEpisode.episodeNumber,
+        }
+      : null,
+  });
+});
+
+app.get(`${apiBase}/media/:id/subtitles`, (req, res) => {
+  return res.json({ subtitles: getMediaSubtitles(req.params.id).map(toSubtitleTrack) });
+});
+
+// Upload an .srt or .vtt track; SRT is converted to WebVTT on the way in
+app.post(
+  `${apiBase}/media/:id/subtitles`,
+  authMiddleware,
+  requireAdmin,
+  subtitleUpload.single("file"),
+  (req, res) => {
+    const { id } = req.params;
+
+    const file =
+      db.select().from(mediaFiles).where(eq(mediaFiles.id, id)).all()[0] ?? null;
+
+    if (!file) {
+      return res.status(404).json({ error: "Media not found" });
+    }
+
+    if (!req.file) {
+      return res.status(400).json({ error: "File is required" });
+    }
+
+    const language = String(req.body.language ?? "").trim();
+    if (!/^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/.test(language)) {
+      return res.status(400).json({ error: "A language code such as \"en\" or \"pt-BR\" is required" });
+    }
+
+    let vtt: string;
+    try {
+      vtt = toWebVtt(req.file.buffer.toString("utf8"), req.file.originalname);
+    } catch (error) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : "Invalid subtitle file" });
+    }
+
+    const subtitleId = randomUUID();
+    const outputDir = path.join(subtitleDir, id);
+    fs.mkdirSync(outputDir, { recursive: true });
+    fs.writeFileSync(path.join(outputDir, `${subtitleId}.vtt`), vtt);
+
+    const row = {
+      id: subtitleId,
+      mediaId: id,
+      language,
+      label: String(req.body.label ?? "").trim() || language.toUpperCase(),
+      fileUrl: `/uploads/subtitles/${id}/${subtitleId}.vtt`,
+      source: "upload",
+      createdAt: new Date(),
+    };
+    db.insert(mediaSubtitles).values(row).run();
+
+    return res.status(201).json({ subtitle: toSubtitleTrack(row) });
+  }
+);
+
+// Re-run embedded subtitle extraction for an uploaded file
+app.post(`${apiBase}/media/:id/subtitles/extract`, authMiddleware, requireAdmin, (req, res) => {
+  const { id } = req.params;
+
+  const file =
+    db.select().from(mediaFiles).where(eq(mediaFiles.id, id)).all()[0] ?? null;
+
+  if (!file) {
+    return res.status(404).json({ error: "Media not found" });
+  }
+
+  if (!isServerMedia(file)) {
+    return res.status(400).json({ error: "Only uploaded files contain embedded subtitles" });
+  }
+
+  subtitleQueue.enqueue(id);
+  return res.status(202).json({ message: "Subtitle extraction queued" });
+});
+
+app.delete(`${apiBase}/media/:id/subtitles/:subtitleId`, authMiddleware, requireAdmin, (req, res) => {
+  const { id, subtitleId } = req.params;
+
+  const subtitle =
+    db.select().from(mediaSubtitles).where(eq(mediaSubtitles.id, subtitleId)).all()[0] ?? null;
+
+  if (!subtitle || subtitle.mediaId !== id) {
+    return res.status(404).json({ error: "Subtitle not found" });
+  }
+
+  const filepath = mediaPathFromUrl(subtitle.fileUrl);
+  if (filepath) fs.rmSync(filepath, { force: true });
+
+  db.delete(mediaSubtitles).where(eq(mediaSubtitles.id, subtitleId)).run();
+
+  return res.json({ success: true });
+});
+
+app.delete(`${apiBase}/media/:id`, authMiddleware, requireAdmin, async (req, res) => {
+  const { id } = req.params;
+
+  const file =
+    db.select().from(mediaFiles).where(eq(mediaFiles.id, id)).all()[0] ?? null;
+
+  if (!file) {
+    return res.status(404).json({ error: "Media not found" });
+  }
+
+  // Library files and external links aren't ours to delete
+  const backend = file.storageBackend ? getStorageBackend(file.storageBackend) : null;
+  if (backend && file.storageKey) {
+    try {
+      await backend.delete(file.storageKey);
+    } catch (error) {
+      console.error("Error deleting media file:", error);
+      return res.status(500).json({ error: "Failed to delete the media file" });
+    }
+  }
+  fs.rmSync(path.join(hlsDir, id), { recursive: true, force: true });
+  fs.rmSync(path.join(subtitleDir, id), { recursive: true, force: true });
+  fs.rmSync(path.join(thumbnailDir, id), { recursive: true, force: true });
+
+  // Only posters cached by cachePosterImage resolve to a stored object;
+  // remote poster URLs are left alone
+  const poster = file.posterUrl ? storedObjectForUrl(file.posterUrl) : null;
+  if (poster) {
+    poster.backend.delete(poster.key).catch((error) => console.error("Error deleting poster:", error));
+  }
+
+  db.delete(mediaSubtitles).where(eq(mediaSubtitles.mediaId, id)).run();
+  db.delete(mediaFiles).where(eq(mediaFiles.id, id)).run();
+  if (file.seriesId) removeSeriesIfEmpty(file.seriesId);
+
+  return res.json({ success: true });
+});
+
+// WebSocket management
+interface RoomConnection {
+  ws: WebSocket;
+  roomCode: string;
+  userId: string;
+  username: string;
+  protocolVersion: number;
+  // Participant record this socket was verified against on join. Null until
+  // the user has been approved into the room.
+  participantId: string | null;
+}
+
+const connections = new Map<WebSocket, RoomConnection>();
+const roomConnections = new Map<string, Set<WebSocket>>();
+const roomCleanupTimers = new Map<string, ReturnType<typeof setTimeout>>();
+const roomClocks = new Map<string, RoomClock>();
+const hostHandoffTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+// How long a disconnected host has to come back before hosting passes to
+// someone who is still in the room
+const HOST_HANDOFF_GRACE_MS = Number(process.env.HOST_HANDOFF_GRACE_MS) || 30000;
+// Who takes over first when the host is gone; longest present wins a tie
+const HOST_SUCCESSION_ORDER = ["cohost", "viewer"];
+
+// How often every connected room receives an authoritative clock frame
+const CLOCK_BROADCAST_INTERVAL_MS = 5000;
+
+const getRoomClock = (roomCode: string): RoomClock | null => {
+  const existing = roomClocks.get(roomCode);
+  if (existing) return existing;
+
+  const room =
+    db.select().from(rooms).where(eq(rooms.code, roomCode)).all()[0] ?? null;
+  if (!room) return null;
+
+  const clock = createRoomClock(room.playbackPosition, room.isPlaying);
+  roomClocks.set(roomCode, clock);
+  return clock;
+};
+
+// Apply a host state change to the room clock. Returns true when the clock
+// actually changed so callers know whether to broadcast.
+const syncRoomClock = (roomCode: string, changes: ClockChanges): boolean => {
+  const clock = getRoomClock(roomCode);
+  if (!clock) return false;
+
+  const next = applyClockChanges(clock, changes);
+  if (!next) return false;
+
+  roomClocks.set(roomCode, next);
+  return true;
+};
+
+
+const sendMessage = (ws: WebSocket, message: ServerMessage) => {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(message));
+  }
+};
+
+const sendError = (
+  ws: WebSocket,
+  code: ProtocolErrorCode,
+  message: string,
+  requestType?: string
+) => {
+  sendMessage(ws, { type: "error", code, message, request_type: requestType });
+};
+
+// `only` narrows the recipients to the connections it accepts
+const broadcastToRoom = (
+  roomCode: string,
+  message: ServerMessage,
+  options: { exclude?: WebSocket } & BroadcastOptions<typeof roomParticipants.$inferSelect> = {}
+) => {
+  const clients = roomConnections.get(roomCode);
+  if (!clients) return;
+
+  const open = [...clients].flatMap((client) => {
+    const conn = connections.get(client);
+    return conn && client.readyState === WebSocket.OPEN && client !== options.exclude ? [conn] : [];
+  });
+  if (open.length === 0) return;
+
+  // Statuses are read as they are now, so approvals and removals apply to
+  // sockets already open
+  const participants = options.includeInactive
+    ? []
+    : db
+        .select({ participant: roomParticipants })
+        .from(roomParticipants)
+        .innerJoin(rooms, eq(rooms.id, roomParticipants.roomId))
+        .where(eq(rooms.code, roomCode))
+        .all()
+        .map((row) => row.participant);
+
+  const payload = JSON.stringify(message);
+  selectRecipients(open, participants, options).forEach((conn) => conn.ws.send(payload));
+};
+
+// Lobby updates go to the host and co-hosts, by the role they have now
+const broadcastToControllers = (roomCode: string, message: ServerMessage) => {
+  broadcastToRoom(roomCode, message, { only: (participant) => canControlRoom(participant.role) });
+};
+
+const broadcastJoinRequest = (roomCode: string, request: typeof roomJoinRequests.$inferSelect) => {
+  broadcastToControllers(roomCode, { type: "join_request_created", request: toJoinRequest(request) });
+};
+
+const broadcastJoinRequestResolved = (roomCode: string, requestId: string, status: "approved" | "rejected") => {
+  broadcastToControllers(roomCode, { type: "join_request_resolved", requestId, status });
+};
+
+const broadcastParticipantChanged = (roomCode: string, participant: typeof roomParticipants.$inferSelect) => {
+  broadcastToControllers(roomCode, { type: "participant_changed", participant: toParticipantRecord(participant) });
+};
+
+// Presence follows a participant's sockets: left once the last one closes,
+// active again on their next verified join
+const setParticipantPresence = (
+  roomCode: string,
+  participant: typeof roomParticipants.$inferSelect,
+  status: "active" | "left"
+) => {
+  const leftAt = status === "left" ? new Date() : null;
+  db.update(roomParticipants)
+    .set({ status, leftAt })
+    .where(eq(roomParticipants.id, participant.id))
+    .run();
+
+  const updated = { ...participant, status, leftAt };
+  broadcastParticipantChanged(roomCode, updated);
+  return updated;
+};
+
+const broadcastApprovalStatus = (roomCode: string, userId: string, status: ParticipantStatus) => {
+  broadcastToRoom(
+    roomCode,
+    {
+      type: "approval_status",
+      userId,
+      status,
+    },
+    { includeInactive: true }
+  );
+};
+
+const broadcastClock = (roomCode: string) => {
+  const clock = getRoomClock(roomCode);
+  if (!clock) return;
+
+  broadcastToRoom(roomCode, { type: "clock", payload: toClockFrame(clock) });
+};
+
+const broadcastQueue = (room: typeof rooms.$inferSelect) => {
+  broadcastToRoom(room.code, {
+    type: "queue",
+    items: getRoomQueue(room.id).map(toQueueItem),
+  });
+};
+
+// Everyone switches to the entry the queue just started, then picks up the
+// re-anchored clock and the shortened queue
+const broadcastQueueAdvance = (room: typeof rooms.$inferSelect, clockChanged: boolean) => {
+  broadcastToRoom(room.code, {
+    type: "room_update",
+    payload: {
+      video_url: room.videoUrl ?? undefined,
+      is_playing: room.isPlaying,
+      subtitle_id: room.subtitleId,
+    },
+  });
+  if (clockChanged) broadcastClock(room.code);
+  broadcastQueue(room);
+};
+
+const broadcastRoles = (roomCode: string, changed: (typeof roomParticipants.$inferSelect)[]) => {
+  changed.forEach((participant) => {
+    broadcastToRoom(roomCode, {
+      type: "role_update",
+      userId: participant.userId,
+      username: participant.username,
+      role: participant.role as ParticipantRole,
+    });
+    broadcastParticipantChanged(roomCode, participant);
+  });
+};
+
+// Tell everyone a participant was kicked or banned, then close their sockets
+const removeFromRoom = (roomCode: string, userId: string, status: ParticipantStatus) => {
+  broadcastApprovalStatus(roomCode, userId, status);
+  roomConnections.get(roomCode)?.forEach((client) => {
+    if (connections.get(client)?.userId === userId) client.close();
+  });
+};
+
+const connectedUserIds = (roomCode: string) =>
+  new Set(
+    Array.from(roomConnections.get(roomCode) ?? []).flatMap((ws) => {
+      const conn = connections.get(ws);
+      return conn ? [conn.userId] : [];
+    })
+  );
+
+const cancelHostHandoff = (roomCode: string) => {
+  const timer = hostHandoffTimers.get(roomCode);
+  if (timer) {
+    clearTimeout(timer);
+    hostHandoffTimers.delete(roomCode);
+  }
+};
+
+// Give hosting to the connected participant who has been in the room
+// longest, co-hosts first, unless the host made it back in the meantime
+const handOffHost = (roomCode: string) => {
+  const room =
+    db.select().from(rooms).where(eq(rooms.code, roomCode)).all()[0] ?? null;
+  if (!room) return;
+
+  const participants = db
+    .select()
+    .from(roomParticipants)
+    .where(eq(roomParticipants.roomId, room.id))
+    .all();
+  const connected = connectedUserIds(roomCode);
+  const host = participants.find((p) => p.role === "host");
+  if (host && connected.has(host.userId)) return;
+
+  const successor = participants
+    .filter((p) => p.status === "active" && p.role !== "host" && connected.has(p.userId))
+    .sort(
+      (a, b) =>
+        HOST_SUCCESSION_ORDER.indexOf(a.role) - HOST_SUCCESSION_ORDER.indexOf(b.role) ||
+        a.joinedAt.getTime() - b.joinedAt.getTime()
+    )[0];
+  if (!successor) return;
+
+  const result = transferRoomHost(room, successor.id);
+  if (result.success) {
+    broadcastRoles(roomCode, result.value);
+    console.log(`Room ${roomCode}: host handed to ${successor.username}`);
+  }
+};
+
+// Start the grace period if the room's host has no socket open. Runs when
+// sockets close and when participants join, so a room the host left while
+// nobody else was there gets a new host once someone arrives.
+const scheduleHostHandoff = (roomCode: string) => {
+  if (hostHandoffTimers.has(roomCode)) return;
+
+  const room =
+    db.select().from(rooms).where(eq(rooms.code, roomCode)).all()[0] ?? null;
+  if (!room) return;
+
+  const host = db
+    .select()
+    .from(roomParticipants)
+    .where(and(eq(roomParticipants.roomId, room.id), eq(roomParticipants.role, "host")))
+    .all()[0];
+  if (host && connectedUserIds(roomCode).has(host.userId)) return;
+
+  hostHandoffTimers.set(
+    roomCode,
+    setTimeout(() => {
+      hostHandoffTimers.delete(roomCode);
+      handOffHost(roomCode);
+    }, HOST_HANDOFF_GRACE_MS)
+  );
+};
+
+// Periodic authoritative clock frames let clients correct drift continuously
+// without anyone streaming their local position.
+setInterval(() => {
+  roomConnections.forEach((clients, roomCode) => {
+    if (clients.size > 0) broadcastClock(roomCode);
+  });
+}, CLOCK_BROADCAST_INTERVAL_MS);
+
+// Create HTTP server
+const toWatchParty = (row: typeof watchParties.$inferSelect): WatchParty => ({
+  id: row.id,
+  title: row.title,
+  video_url: row.videoUrl,
+  starts_at: row.startsAt.getTime(),
+});
+
+const getNextWatchParty = (roomId: string) => {
+  const row = db
+    .select()
+    .from(watchParties)
+    .where(and(eq(watchParties.roomId, roomId), eq(watchParties.status, "scheduled")))
+    .orderBy(asc(watchParties.startsAt))
+    .limit(1)
+    .all()[0];
+  return row ? toWatchParty(row) : null;
+};
+
+const broadcastWatchParty = (room: typeof rooms.$inferSelect) => {
+  broadcastToRoom(room.code, { type: "watch_party", party: getNextWatchParty(room.id) });
+};
+
+// A party is still started this late (e.g. the server was down at its start
+// time); later than that it's marked missed instead of surprising the room
+const WATCH_PARTY_LATE_START_MS = Number(process.env.WATCH_PARTY_LATE_START_MS) || 1000 * 60 * 30;
+
+let watchPartyTimer: ReturnType<typeof setTimeout> | null = null;
+
+const startWatchParty = (party: typeof watchParties.$inferSelect) => {
+  const now = new Date();
+  const late = isWatchPartyMissed(party.startsAt, WATCH_PARTY_LATE_START_MS, now);
+  db.update(watchParties)
+    .set(late ? { status: "missed" } : { status: "started", startedAt: now })
+    .where(eq(watchParties.id, party.id))
+    .run();
+
+  const room = db.select().from(rooms).where(eq(rooms.id, party.roomId)).all()[0] ?? null;
+  if (!room) return;
+
+  if (!late) {
+    const { room: refreshed, clockChanged } = applyRoomStateUpdate(
+      room,
+      { video_url: party.videoUrl, playback_position: 0, is_playing: true },
+      { seek: true }
+    );
+    broadcastToRoom(room.code, {
+      type: "room_update",
+      payload: { video_url: party.videoUrl, is_playing: true, subtitle_id: refreshed?.subtitleId ?? null },
+    });
+    if (clockChanged) broadcastClock(room.code);
+    console.log(`Started watch party "${party.title}" in room ${room.code}`);
+  }
+  broadcastWatchParty(room);
+};
+
+// Start every party that is due, then sleep until the next one
+const scheduleWatchParties = () => {
+  if (watchPartyTimer) clearTimeout(watchPartyTimer);
+  watchPartyTimer = null;
+
+  db.select()
+    .from(watchParties)
+    .where(and(eq(watchParties.status, "scheduled"), lte(watchParties.startsAt, new Date())))
     .all()
-    .filter((p) => p.status === "active");
+    .forEach(startWatchParty);
 
-  return res.json({ room, participants });
-});
+  const next = db
+    .select()
+    .from(watchParties)
+    .where(eq(watchParties.status, "scheduled"))
+    .orderBy(asc(watchParties.startsAt))
+    .limit(1)
+    .all()[0];
+  if (!next) return;
 
-app.put(`${apiBase}/rooms/:id`, (req, res) => {
-  const { id } = req.params;
-  const { username, userId } = req.body as { username?: string; userId?: string };
-  const updates: {
-    video_url?: string;
-    playback_position?: number;
-    is_playing?: boolean;
-    subtitle_enabled?: boolean;
-  } = req.body ?? {};
-
-  // Look up room by code (id parameter is the room code)
-  const room =
-    db.select().from(rooms).where(eq(rooms.code, id)).all()[0] ?? null;
+  watchPartyTimer = setTimeout(scheduleWatchParties, watchPartyDelay(next.startsAt));
+};
 
-  if (!room) return res.status(404).json({ error: "Room not found" });
+const server = createServer(app);
 
-  // Check if user is host. Prefer matching by userId when provided, but fall back
-  // to username so existing clients keep working.
-  const participants = db
-    .select()
-    .from(roomParticipants)
-    .where(eq(roomParticipants.roomId, room.id))
-    .all();
+// Create WebSocket server with noServer option to handle upgrade manually
+const wss = new WebSocketServer({ noServer: true });
 
-  const participant = participants.find((p) => {
-    const isHost = Boolean(p.isHost);
-    if (!isHost) return false;
+// Handle WebSocket upgrade
+server.on("upgrade", (request, socket, head) => {
+  if (request.url === "/ws") {
+    wss.handleUpgrade(request, socket, head, (ws) => {
+      wss.emit("connection", ws, request);
+    });
+  } else {
+    socket.destroy();
+  }
+});
 
-    if (userId && p.userId === userId) return true;
-    if (username && p.username === username) return true;
+const handleJoin = (ws: WebSocket, message: Extract<ClientMessage, { type: "join" }>) => {
+  const { roomCode } = message;
 
-    return false;
-  });
+  const protocolVersion = negotiateProtocolVersion(message.protocolVersion);
+  if (protocolVersion === null) {
+    sendError(
+      ws,
+      "unsupported_protocol",
+      `Protocol version ${message.protocolVersion} is not supported`,
+      message.type
+    );
+    ws.close();
+    return;
+  }
 
-  if (!participant) {
-    return res.status(403).json({ error: "Only the host can update room state" });
+  const room =
+    db.select().from(rooms).where(eq(rooms.code, roomCode)).all()[0] ?? null;
+  const claims = verifyRoomToken(message.token);
+
+  if (!room || !claims || claims.roomId !== room.id) {
+    sendError(ws, "unauthorized", "Invalid room token", message.type);
+    ws.close();
+    return;
   }
 
-  const payload: Record<string, unknown> = {
-    updatedAt: new Date(),
-  };
+  const { userId } = claims;
+  let participant = findRoomParticipant(room.id, userId);
 
-  if (typeof updates.video_url === "string") payload.videoUrl = updates.video_url;
-  if (typeof updates.playback_position === "number")
-    payload.playbackPosition = updates.playback_position;
-  if (typeof updates.is_playing === "boolean")
-    payload.isPlaying = updates.is_playing;
-  if (typeof updates.subtitle_enabled === "boolean")
-    payload.subtitleEnabled = updates.subtitle_enabled;
+  // Kicked and banned users only learn that they were removed
+  if (participant && isRemovedStatus(participant.status)) {
+    sendMessage(ws, { type: "approval_status", status: participant.status as ParticipantStatus, userId });
+    ws.close();
+    return;
+  }
 
-  db.update(rooms).set(payload).where(eq(rooms.id, room.id)).run();
+  // Back after a dropped connection or a reload
+  if (participant?.status === "left") {
+    participant = setParticipantPresence(roomCode, participant, "active");
+  }
 
-  const refreshed =
-    db.select().from(rooms).where(eq(rooms.id, room.id)).all()[0] ?? null;
+  // Announce the name on record for the token's participant (or their join
+  // request while pending), not whatever the join frame claims
+  const joinRequest = participant
+    ? null
+    : db
+        .select()
+        .from(roomJoinRequests)
+        .where(and(eq(roomJoinRequests.roomId, room.id), eq(roomJoinRequests.userId, userId)))
+        .all()[0];
+  const username = participant?.username ?? joinRequest?.username ?? message.username;
+
+  const conn: RoomConnection = {
+    ws,
+    roomCode,
+    userId,
+    username,
+    protocolVersion,
+    participantId: participant?.id ?? null,
+  };
+  connections.set(ws, conn);
 
-  return res.json({ room: refreshed });
-});
+  if (!roomConnections.has(roomCode)) {
+    roomConnections.set(roomCode, new Set());
+  }
+  roomConnections.get(roomCode)!.add(ws);
+
+  // If there was a pending cleanup timer for this room, cancel it because
+  // someone just (re)joined.
+  const existingTimer = roomCleanupTimers.get(roomCode);
+  if (existingTimer) {
+    clearTimeout(existingTimer);
+    roomCleanupTimers.delete(roomCode);
+  }
 
-app.get(`${apiBase}/rooms/:id/participants`, (req, res) => {
-  const { id } = req.params;
+  sendMessage(ws, { type: "welcome", protocolVersion, server_time: Date.now() });
 
-  const participants = db
-    .select()
-    .from(roomParticipants)
-    .where(eq(roomParticipants.roomId, id))
-    .all();
+  // Check user's approval status
+  const userStatus: ParticipantStatus = participant
+    ? (participant.status as ParticipantStatus)
+    : "pending";
 
-  return res.json({ participants });
-});
+  // Send approval status to the user
+  sendMessage(ws, {
+    type: "approval_status",
+    status: userStatus,
+    userId,
+  });
 
-app.get(`${apiBase}/media`, (_req, res) => {
-  const files = db.select().from(mediaFiles).orderBy(desc(mediaFiles.createdAt)).all();
-  return res.json({ media: files });
-});
+  // Send current room state to the new user if approved
+  if (userStatus === "active") {
+    const clock = getRoomClock(roomCode);
+    sendMessage(ws, {
+      type: "room_state",
+      payload: {
+        video_url: room.videoUrl,
+        playback_position: clock ? getClockPosition(clock) : room.playbackPosition,
+        is_playing: clock ? clock.isPlaying : room.isPlaying,
+        subtitle_enabled: room.subtitleEnabled,
+        subtitle_id: room.subtitleId,
+      },
+    });
 
-app.post(
-  `${apiBase}/media`,
-  authMiddleware,
-  requireAdmin,
-  upload.single("file"),
-  async (req: AuthenticatedRequest, res) => {
-    if (!req.file) {
-      return res.status(400).json({ error: "File is required" });
+    if (clock) {
+      sendMessage(ws, { type: "clock", payload: toClockFrame(clock) });
     }
 
-    const { title, description, externalApiUrl } = req.body;
-    if (!title?.trim()) {
-      return res.status(400).json({ error: "Title is required" });
-    }
+    sendMessage(ws, { type: "queue", items: getRoomQueue(room.id).map(toQueueItem) });
+    sendMessage(ws, { type: "watch_party", party: getNextWatchParty(room.id) });
 
-    const fileUrl = `/uploads/${req.file.filename}`;
-    const now = new Date();
-    const mediaId = randomUUID();
+    // Broadcast user joined
+    broadcastToRoom(roomCode, {
+      type: "user_joined",
+      username,
+      userId,
+    });
 
-    // Fetch metadata from OMDB if title is provided
-    let metadata = null;
-    if (title?.trim()) {
-      metadata = await fetchOmdbMetadata(title.trim());
+    if (participant?.role === "host") {
+      cancelHostHandoff(roomCode);
+    } else {
+      scheduleHostHandoff(roomCode);
     }
+  }
+};
 
-    // Cache poster image locally if available
-    let cachedPosterUrl = null;
-    if (metadata?.posterUrl) {
-      cachedPosterUrl = await cachePosterImage(metadata.posterUrl, mediaId);
-    }
+// Resolve the room and the participant a socket speaks for, but only if that
+// participant is active. The record is re-read on every call so approvals,
+// rejections and status changes apply to sockets already open.
+const requireActiveConnection = (
+  conn: RoomConnection,
+  requestType: string
+) => {
+  const room =
+    db.select().from(rooms).where(eq(rooms.code, conn.roomCode)).all()[0] ?? null;
 
-    db.insert(mediaFiles)
-      .values({
-        id: mediaId,
-        title: title.trim(),
-        description: description?.trim() || metadata?.description || null,
-        fileUrl,
-        fileType: req.file.mimetype || "unknown",
-        fileSize: req.file.size,
-        uploadedBy: req.userId!,
-        externalApiUrl: externalApiUrl || metadata?.externalApiUrl || null,
-        posterUrl: cachedPosterUrl || metadata?.posterUrl || null,
-        imdbId: metadata?.imdbId || null,
-        releaseYear: metadata?.releaseYear || null,
-        rating: metadata?.rating || null,
-        genre: metadata?.genre || null,
-        director: metadata?.director || null,
-        actors: metadata?.actors || null,
-        createdAt: now,
-        updatedAt: now,
-      })
-      .run();
+  if (!room) {
+    sendError(conn.ws, "forbidden", "Room not found", requestType);
+    return null;
+  }
 
-    return res.json({ fileUrl, metadata });
+  if (!conn.participantId) {
+    conn.participantId = findRoomParticipant(room.id, conn.userId)?.id ?? null;
   }
-);
 
-// Update media metadata
-app.put(`${apiBase}/media/:id`, authMiddleware, requireAdmin, (req, res) => {
-  const { id } = req.params;
-  const { title, description, file_url } = req.body;
+  const participant = conn.participantId
+    ? db
+        .select()
+        .from(roomParticipants)
+        .where(eq(roomParticipants.id, conn.participantId))
+        .all()[0] ?? null
+    : null;
+
+  if (!participant || participant.roomId !== room.id || participant.status !== "active") {
+    sendError(conn.ws, "forbidden", "Only active participants can do that", requestType);
+    return null;
+  }
 
-  const file =
-    db.select().from(mediaFiles).where(eq(mediaFiles.id, id)).all()[0] ?? null;
+  return { room, participant };
+};
 
-  if (!file) {
-    return res.status(404).json({ error: "Media not found" });
+const requireRoleConnection = (
+  conn: RoomConnection,
+  requestType: string,
+  allowed: (role: string) => boolean,
+  error: string
+) => {
+  const authorized = requireActiveConnection(conn, requestType);
+  if (!authorized) return null;
+
+  if (!allowed(authorized.participant.role)) {
+    sendError(conn.ws, "forbidden", error, requestType);
+    return null;
   }
 
-  const updates: any = {};
-  if (title !== undefined) updates.title = title.trim();
-  if (description !== undefined) updates.description = description?.trim() || null;
-  if (file_url !== undefined) updates.fileUrl = file_url.trim();
+  return authorized;
+};
 
-  db.update(mediaFiles)
-    .set({ ...updates, updatedAt: new Date() })
-    .where(eq(mediaFiles.id, id))
-    .run();
+const requireControllerConnection = (conn: RoomConnection, requestType: string) =>
+  requireRoleConnection(conn, requestType, canControlRoom, "Only the host or a co-host can control playback");
 
-  const updated = db.select().from(mediaFiles).where(eq(mediaFiles.id, id)).all()[0];
-  return res.json({ media: updated });
-});
+const requireHostConnection = (conn: RoomConnection, requestType: string) =>
+  requireRoleConnection(conn, requestType, (role) => role === "host", "Only the host can change roles");
 
-// Resync OMDB metadata for a media file
-app.post(`${apiBase}/media/:id/resync-omdb`, authMiddleware, requireAdmin, async (req, res) => {
-  const { id } = req.params;
+const handleRoomUpdate = (
+  conn: RoomConnection,
+  message: Extract<ClientMessage, { type: "room_update" }>
+) => {
+  const authorized = requireControllerConnection(conn, message.type);
+  if (!authorized) return;
 
-  const file =
-    db.select().from(mediaFiles).where(eq(mediaFiles.id, id)).all()[0] ?? null;
+  updateRoomPlayback(authorized.room, message.payload);
+};
 
-  if (!file) {
-    return res.status(404).json({ error: "Media not found" });
+// A host's playback change, from the REST route or a room_update frame:
+// persist it, then tell everyone in the room
+const updateRoomPlayback = (room: typeof rooms.$inferSelect, payload: RoomUpdatePayload) => {
+  const result = applyRoomStateUpdate(room, payload);
+
+  // Positions travel through clock frames only; forward the rest of
+  // the state change to everyone in the room.
+  const { playback_position: _position, ...stateChanges } = payload;
+  if (Object.values(stateChanges).some((value) => value !== undefined)) {
+    broadcastToRoom(room.code, {
+      type: "room_update",
+      payload: stateChanges,
+    });
   }
 
-  try {
-    // Fetch fresh metadata from OMDB
-    const metadata = await fetchOmdbMetadata(file.title);
+  if (result.clockChanged) broadcastClock(room.code);
+  return result;
+};
 
-    if (!metadata) {
-      return res.status(400).json({ error: "Could not fetch OMDB data for this title" });
-    }
+const handleSeek = (
+  conn: RoomConnection,
+  message: Extract<ClientMessage, { type: "seek" }>
+) => {
+  const authorized = requireControllerConnection(conn, message.type);
+  if (!authorized) return;
 
-    // Cache new poster if available
-    let cachedPosterUrl = file.posterUrl;
-    if (metadata.posterUrl && metadata.posterUrl !== file.posterUrl) {
-      cachedPosterUrl = await cachePosterImage(metadata.posterUrl, id);
-    }
+  const { clockChanged } = applyRoomStateUpdate(
+    authorized.room,
+    { playback_position: message.payload.position },
+    { seek: true }
+  );
 
-    // Update media with new metadata
-    db.update(mediaFiles)
-      .set({
-        description: metadata.description || file.description,
-        externalApiUrl: metadata.externalApiUrl || file.externalApiUrl,
-        posterUrl: cachedPosterUrl || metadata.posterUrl,
-        imdbId: metadata.imdbId || file.imdbId,
-        releaseYear: metadata.releaseYear || file.releaseYear,
-        rating: metadata.rating || file.rating,
-        genre: metadata.genre || file.genre,
-        director: metadata.director || file.director,
-        actors: metadata.actors || file.actors,
-        updatedAt: new Date(),
-      })
-      .where(eq(mediaFiles.id, id))
-      .run();
+  if (clockChanged) broadcastClock(conn.roomCode);
+};
 
-    const updated = db.select().from(mediaFiles).where(eq(mediaFiles.id, id)).all()[0];
-    return res.json({ media: updated });
-  } catch (error) {
-    console.error("Error resyncing OMDB metadata:", error);
-    return res.status(500).json({ error: "Failed to resync OMDB metadata" });
+const handleChat = (
+  conn: RoomConnection,
+  message: Extract<ClientMessage, { type: "chat" }>
+) => {
+  const authorized = requireActiveConnection(conn, message.type);
+  if (!authorized) return;
+
+  const { room, participant } = authorized;
+  if (participant.muted) {
+    sendError(conn.ws, "forbidden", "You are muted in this room", message.type);
+    return;
   }
-});
 
-app.delete(`${apiBase}/media/:id`, authMiddleware, requireAdmin, (req, res) => {
-  const { id } = req.params;
+  const row = {
+    id: randomUUID(),
+    roomId: room.id,
+    userId: participant.userId,
+    username: participant.username,
+    body: message.body,
+    createdAt: new Date(),
+  };
 
-  const file =
-    db.select().from(mediaFiles).where(eq(mediaFiles.id, id)).all()[0] ?? null;
+  db.insert(roomMessages).values(row).run();
 
-  if (!file) {
-    return res.status(404).json({ error: "Media not found" });
-  }
+  broadcastToRoom(conn.roomCode, { type: "chat", message: toChatMessage(row) });
+};
 
-  if (file.fileUrl.startsWith("/uploads/")) {
-    const filepath = path.join(process.cwd(), "server", file.fileUrl.replace("/uploads/", "uploads/"));
-    if (fs.existsSync(filepath)) {
-      fs.unlinkSync(filepath);
-    }
+const handleQueueAdd = (
+  conn: RoomConnection,
+  message: Extract<ClientMessage, { type: "queue_add" }>
+) => {
+  const authorized = requireControllerConnection(conn, message.type);
+  if (!authorized) return;
+
+  const result = addQueueItem(authorized.room, conn.userId, message);
+  if (result.success === false) {
+    sendError(conn.ws, result.status === 404 ? "not_found" : "invalid_message", result.error, message.type);
+    return;
   }
 
-  db.delete(mediaFiles).where(eq(mediaFiles.id, id)).run();
+  broadcastQueue(authorized.room);
+};
 
-  return res.json({ success: true });
-});
+const handleQueueRemove = (
+  conn: RoomConnection,
+  message: Extract<ClientMessage, { type: "queue_remove" }>
+) => {
+  const authorized = requireControllerConnection(conn, message.type);
+  if (!authorized) return;
 
-// WebSocket management
-interface RoomConnection {
-  ws: WebSocket;
-  roomCode: string;
-  userId: string;
-  username: string;
-}
+  const result = removeQueueItem(authorized.room, message.item_id);
+  if (result.success === false) {
+    sendError(conn.ws, "not_found", result.error, message.type);
+    return;
+  }
 
-const connections = new Map<WebSocket, RoomConnection>();
-const roomConnections = new Map<string, Set<WebSocket>>();
-const roomCleanupTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  broadcastQueue(authorized.room);
+};
 
+const handleQueueMove = (
+  conn: RoomConnection,
+  message: Extract<ClientMessage, { type: "queue_move" }>
+) => {
+  const authorized = requireControllerConnection(conn, message.type);
+  if (!authorized) return;
 
-const broadcastToRoom = (roomCode: string, message: unknown, excludeWs?: WebSocket) => {
-  const clients = roomConnections.get(roomCode);
-  if (!clients) return;
+  const result = moveQueueItem(authorized.room, message.item_id, message.index);
+  if (result.success === false) {
+    sendError(conn.ws, "not_found", result.error, message.type);
+    return;
+  }
 
-  const payload = JSON.stringify(message);
-  clients.forEach((client) => {
-    if (client.readyState === WebSocket.OPEN && client !== excludeWs) {
-      client.send(payload);
-    }
-  });
+  broadcastQueue(authorized.room);
 };
 
-const broadcastApprovalStatus = (roomCode: string, userId: string, status: "approved" | "rejected" | "active") => {
-  const clients = roomConnections.get(roomCode);
-  if (!clients) return;
-
-  const payload = JSON.stringify({
-    type: "approval_status",
-    userId,
-    status,
-  });
+const handleQueueAdvance = (
+  conn: RoomConnection,
+  message: Extract<ClientMessage, { type: "queue_advance" }>
+) => {
+  const authorized = requireControllerConnection(conn, message.type);
+  if (!authorized) return;
 
-  clients.forEach((client) => {
-    if (client.readyState === WebSocket.OPEN) {
-      client.send(payload);
-    }
-  });
+  const result = advanceRoomQueue(authorized.room, message.ended_video_url);
+  if (result.advanced) broadcastQueueAdvance(result.room, result.clockChanged);
 };
 
-// Create HTTP server
-const server = createServer(app);
-
-// Create WebSocket server with noServer option to handle upgrade manually
-const wss = new WebSocketServer({ noServer: true });
+const handleSetRole = (
+  conn: RoomConnection,
+  message: Extract<ClientMessage, { type: "set_role" }>
+) => {
+  const authorized = requireHostConnection(conn, message.type);
+  if (!authorized) return;
 
-// Handle WebSocket upgrade
-server.on("upgrade", (request, socket, head) => {
-  if (request.url === "/ws") {
-    wss.handleUpgrade(request, socket, head, (ws) => {
-      wss.emit("connection", ws, request);
-    });
-  } else {
-    socket.destroy();
+  const result = setParticipantRole(authorized.room, message.participant_id, message.role);
+  if (result.success === false) {
+    sendError(conn.ws, result.status === 404 ? "not_found" : "invalid_message", result.error, message.type);
+    return;
   }
-});
 
-wss.on("connection", (ws: WebSocket) => {
-  ws.on("message", (data: string) => {
-    try {
-      const message = JSON.parse(data);
-      const { type, roomCode, userId, username, payload } = message;
+  broadcastRoles(conn.roomCode, [result.value]);
+};
+
+const handleTransferHost = (
+  conn: RoomConnection,
+  message: Extract<ClientMessage, { type: "transfer_host" }>
+) => {
+  const authorized = requireHostConnection(conn, message.type);
+  if (!authorized) return;
 
-      if (type === "join") {
-        const conn: RoomConnection = { ws, roomCode, userId, username };
-        connections.set(ws, conn);
+  const result = transferRoomHost(authorized.room, message.participant_id);
+  if (result.success === false) {
+    sendError(conn.ws, result.status === 404 ? "not_found" : "invalid_message", result.error, message.type);
+    return;
+  }
 
-        if (!roomConnections.has(roomCode)) {
-          roomConnections.set(roomCode, new Set());
-        }
-        roomConnections.get(roomCode)!.add(ws);
-
-        // If there was a pending cleanup timer for this room, cancel it because
-        // someone just (re)joined.
-        const existingTimer = roomCleanupTimers.get(roomCode);
-        if (existingTimer) {
-          clearTimeout(existingTimer);
-          roomCleanupTimers.delete(roomCode);
-        }
+  broadcastRoles(conn.roomCode, result.value);
+};
 
-        // Check user's approval status
-        let userStatus = "pending" as "pending" | "approved" | "rejected" | "active";
+wss.on("connection", (ws: WebSocket) => {
+  ws.on("message", (data: string) => {
+    const parsed = parseClientMessage(data.toString());
+    if (!parsed.success) {
+      sendError(ws, "invalid_message", parsed.error, parsed.type);
+      return;
+    }
 
-        const room =
-          db.select().from(rooms).where(eq(rooms.code, roomCode)).all()[0] ?? null;
+    const message = parsed.message;
 
-        if (room) {
-          const participant = db
-            .select()
-            .from(roomParticipants)
-            .where(eq(roomParticipants.roomId, room.id))
-            .all()
-            .find((p) => p.userId === userId);
+    try {
+      if (message.type === "ping") {
+        // NTP-style time sync: echo the client's send time alongside our
+        // receive/send times so it can estimate offset and round-trip delay.
+        const receivedAt = Date.now();
+        sendMessage(ws, {
+          type: "pong",
+          client_time: message.client_time,
+          server_received: receivedAt,
+          server_sent: Date.now(),
+        });
+        return;
+      }
 
-          if (participant) {
-            userStatus = participant.status as typeof userStatus;
-          }
-        }
+      if (message.type === "join") {
+        handleJoin(ws, message);
+        return;
+      }
 
-        // Send approval status to the user
-        ws.send(JSON.stringify({
-          type: "approval_status",
-          status: userStatus,
-          userId,
-        }));
-
-        // Send current room state to the new user if approved
-        if (userStatus === "active") {
-          const room = db
-            .select()
-            .from(rooms)
-            .where(eq(rooms.code, roomCode))
-            .all()[0];
-
-          if (room) {
-            ws.send(JSON.stringify({
-              type: "room_state",
-              payload: {
-                video_url: room.videoUrl,
-                playback_position: room.playbackPosition,
-                is_playing: room.isPlaying,
-                subtitle_enabled: room.subtitleEnabled,
-              },
-            }));
-          }
+      const conn = connections.get(ws);
+      if (!conn) {
+        sendError(ws, "not_joined", "Send a join message before room messages", message.type);
+        return;
+      }
 
-          // Broadcast user joined
-          broadcastToRoom(roomCode, {
-            type: "user_joined",
-            username,
-            userId,
-          });
-        }
-      } else if (type === "room_update") {
-        const conn = connections.get(ws);
-        if (conn) {
-          // Broadcast room state update to all users in the room
-          broadcastToRoom(conn.roomCode, {
-            type: "room_update",
-            payload,
-          });
-        }
-      } else if (type === "seek") {
-        const conn = connections.get(ws);
-        if (conn) {
-          // Broadcast seek event to all users in the room
-          broadcastToRoom(conn.roomCode, {
-            type: "seek",
-            position: payload.position,
-            username,
-          });
-        }
+      if (message.type === "room_update") {
+        handleRoomUpdate(conn, message);
+      } else if (message.type === "seek") {
+        handleSeek(conn, message);
+      } else if (message.type === "chat") {
+        handleChat(conn, message);
+      } else if (message.type === "queue_add") {
+        handleQueueAdd(conn, message);
+      } else if (message.type === "queue_remove") {
+        handleQueueRemove(conn, message);
+      } else if (message.type === "queue_move") {
+        handleQueueMove(conn, message);
+      } else if (message.type === "queue_advance") {
+        handleQueueAdvance(conn, message);
+      } else if (message.type === "set_role") {
+        handleSetRole(conn, message);
+      } else if (message.type === "transfer_host") {
+        handleTransferHost(conn, message);
       }
     } catch (error) {
       console.error("WebSocket message error:", error);
+      sendError(ws, "internal_error", "Failed to process message", message.type);
     }
   });
 
@@ -1015,15 +4045,30 @@ wss.on("connection", (ws: WebSocket) => {
               return;
             }
 
+            const room =
+              db.select().from(rooms).where(eq(rooms.code, roomCode)).all()[0] ?? null;
+            const clock = roomClocks.get(roomCode);
+
             // Remove tracking for this room
             roomConnections.delete(roomCode);
             roomCleanupTimers.delete(roomCode);
-
-            // Delete the room itself (participants and join requests are
-            // configured with ON DELETE CASCADE in the schema).
-            const room =
-              db.select().from(rooms).where(eq(rooms.code, roomCode)).all()[0] ?? null;
-            if (room) {
+            roomClocks.delete(roomCode);
+            cancelHostHandoff(roomCode);
+
+            if (room?.ownerId) {
+              // Owned rooms stay; pause where playback got to so the next
+              // visit picks up from there
+              db.update(rooms)
+                .set({
+                  isPlaying: false,
+                  playbackPosition: clock ? getClockPosition(clock) : room.playbackPosition,
+                  updatedAt: new Date(),
+                })
+                .where(eq(rooms.id, room.id))
+                .run();
+            } else if (room) {
+              // Delete the room itself (participants and join requests are
+              // configured with ON DELETE CASCADE in the schema).
               db.delete(rooms).where(eq(rooms.id, room.id)).run();
               console.log(`Deleted empty room with code ${roomCode}`);
             }
@@ -1034,11 +4079,23 @@ wss.on("connection", (ws: WebSocket) => {
       }
       connections.delete(ws);
 
-      // Broadcast user left
-      broadcastToRoom(roomCode, {
-        type: "user_left",
-        username,
-      });
+      // Other sockets of the same user (another tab, or a reconnect that
+      // beat this close) keep them in the room
+      if (!connectedUserIds(roomCode).has(conn.userId)) {
+        const room =
+          db.select().from(rooms).where(eq(rooms.code, roomCode)).all()[0] ?? null;
+        const participant = room ? findRoomParticipant(room.id, conn.userId) : null;
+        if (participant?.status === "active") {
+          setParticipantPresence(roomCode, participant, "left");
+        }
+
+        broadcastToRoom(roomCode, {
+          type: "user_left",
+          username,
+        });
+      }
+
+      if (clients && clients.size > 0) scheduleHostHandoff(roomCode);
     }
   });
 
@@ -1049,4 +4106,13 @@ wss.on("connection", (ws: WebSocket) => {
 
 server.listen(port, () => {
   console.log(`API server listening on http://localhost:${port}`);
+  console.log(`Metadata providers: ${describeMetadataProviders()}`);
+  console.log(`Storing uploads in: ${mediaStorage.name}`);
+
+  scheduleWatchParties();
+
+  const watched = watchLibraryRoots(queueMediaJobs);
+  if (watched.length > 0) {
+    console.log(`Watching library folders: ${watched.join(", ")}`);
+  }
 });
@@ -0,0 +1,17 @@
+import type { Request } from "express";
+
+/**
+ * Extract client IP address from request.
+ * Forwarded headers are the client's to set, so they only count when
+ * TRUST_PROXY says which proxies in front of the server to believe (see
+ * Express's "trust proxy" setting); otherwise this is the socket's address.
+ */
+export const getClientIp = (req: Request): string => req.ip || req.socket?.remoteAddress || "unknown";
+
+// TRUST_PROXY as Express takes it: "true", a hop count, or addresses/subnets
+// such as "loopback" or "10.0.0.1, 10.0.0.2". Unset trusts no proxy.
+export const trustProxySetting = (value = process.env.TRUST_PROXY): boolean | number | string => {
+  if (!value?.trim()) return false;
+  if (value === "true" || value === "false") return value === "true";
+  return /^\d+$/.test(value) ? Number(value) : value;
+};
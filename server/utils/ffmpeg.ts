@@ -0,0 +1,129 @@
+/**
+ * Process helpers for the ffmpeg/ffprobe binaries.
+ * Paths default to the PATH lookup and can be overridden with FFMPEG_PATH and
+ * FFPROBE_PATH.
+ */
+import { spawn } from "child_process";
+import path from "path";
+import type { MediaProbe } from "../../shared/mediaInfo";
+
+export const FFMPEG_PATH = process.env.FFMPEG_PATH || "ffmpeg";
+export const FFPROBE_PATH = process.env.FFPROBE_PATH || "ffprobe";
+
+// Attached pictures (cover art) show up as single-frame video streams
+const IMAGE_CODECS = new Set(["mjpeg", "png", "bmp", "gif"]);
+
+// Lines of stderr kept for the error message on failure
+const STDERR_TAIL_LINES = 20;
+
+/**
+ * Run a command to completion, resolving with its stdout. Rejects with the
+ * tail of stderr when it exits non-zero.
+ */
+export const runCommand = (command: string, args: string[]): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ["ignore", "pipe", "pipe"] });
+    let stdout = "";
+    let stderr = "";
+
+    child.stdout.on("data", (chunk) => {
+      stdout += chunk;
+    });
+    child.stderr.on("data", (chunk) => {
+      // Only the tail is ever reported; don't hold hours of progress output
+      stderr = (stderr + chunk).slice(-16384);
+    });
+
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      reject(
+        error.code === "ENOENT"
+          ? new Error(`${command} is not installed or not on the PATH`)
+          : error
+      );
+    });
+
+    child.on("close", (code) => {
+      if (code === 0) {
+        resolve(stdout);
+        return;
+      }
+      const tail = stderr.trim().split("\n").slice(-STDERR_TAIL_LINES).join("\n");
+      reject(new Error(`${path.basename(command)} exited with code ${code}${tail ? `:\n${tail}` : ""}`));
+    });
+  });
+
+export interface ProbeStream {
+  index: number;
+  codec_type?: string;
+  codec_name?: string;
+  tags?: Record<string, string>;
+}
+
+/**
+ * Streams in a container as reported by `ffprobe -show_streams`
+ */
+export const probeStreams = async (inputPath: string): Promise<ProbeStream[]> => {
+  const output = await runCommand(FFPROBE_PATH, [
+    "-v", "error",
+    "-show_entries", "stream=index,codec_type,codec_name:stream_tags=language,title",
+    "-of", "json",
+    inputPath,
+  ]);
+  const parsed = JSON.parse(output) as { streams?: ProbeStream[] };
+  return parsed.streams ?? [];
+};
+
+interface FfprobeOutput {
+  format?: { format_name?: string; duration?: string; bit_rate?: string };
+  streams?: (ProbeStream & { width?: number; height?: number; channels?: number })[];
+}
+
+const toNumber = (value: string | number | undefined) => {
+  const parsed = Number(value);
+  return value !== undefined && Number.isFinite(parsed) ? parsed : null;
+};
+
+/**
+ * Container, duration, codecs and stream lists for a media file
+ */
+export const probeMedia = async (inputPath: string): Promise<MediaProbe> => {
+  const output = await runCommand(FFPROBE_PATH, [
+    "-v", "error",
+    "-show_entries",
+    "format=format_name,duration,bit_rate" +
+      ":stream=index,codec_type,codec_name,width,height,channels" +
+      ":stream_tags=language,title",
+    "-of", "json",
+    inputPath,
+  ]);
+  const { format = {}, streams = [] } = JSON.parse(output) as FfprobeOutput;
+
+  // Skip cover art so the resolution and codec are the movie's
+  const video =
+    streams.find((s) => s.codec_type === "video" && !IMAGE_CODECS.has(s.codec_name ?? "")) ?? null;
+  const audio = streams.filter((s) => s.codec_type === "audio");
+  const subtitles = streams.filter((s) => s.codec_type === "subtitle");
+
+  return {
+    duration: toNumber(format.duration),
+    container: format.format_name ?? null,
+    videoCodec: video?.codec_name ?? null,
+    audioCodec: audio[0]?.codec_name ?? null,
+    width: video?.width ?? null,
+    height: video?.height ?? null,
+    bitRate: toNumber(format.bit_rate),
+    audioStreams: audio.map((s) => ({
+      index: s.index,
+      codec: s.codec_name ?? null,
+      language: s.tags?.language ?? null,
+      title: s.tags?.title ?? null,
+      channels: s.channels ?? null,
+    })),
+    subtitleStreams: subtitles.map((s) => ({
+      index: s.index,
+      codec: s.codec_name ?? null,
+      language: s.tags?.language ?? null,
+      title: s.tags?.title ?? null,
+    })),
+  };
+};
@@ -0,0 +1,45 @@
+/**
+ * Minimal in-process background job queue.
+ * Jobs run in the order they were enqueued with bounded concurrency, so heavy
+ * work (ffmpeg and friends) never competes with itself for the CPU. Workers
+ * record their own outcome; the queue only logs unexpected failures.
+ */
+
+export interface JobQueue<T> {
+  enqueue: (job: T) => void;
+  // Jobs waiting or running
+  size: () => number;
+}
+
+export const createJobQueue = <T>(
+  name: string,
+  worker: (job: T) => Promise<void>,
+  concurrency = 1
+): JobQueue<T> => {
+  const pending: T[] = [];
+  let running = 0;
+
+  const next = () => {
+    while (running < concurrency && pending.length > 0) {
+      const job = pending.shift()!;
+      running += 1;
+
+      worker(job)
+        .catch((error) => {
+          console.error(`[${name}] job failed:`, error);
+        })
+        .finally(() => {
+          running -= 1;
+          next();
+        });
+    }
+  };
+
+  return {
+    enqueue: (job: T) => {
+      pending.push(job);
+      next();
+    },
+    size: () => pending.length + running,
+  };
+};
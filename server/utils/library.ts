@@ -0,0 +1,374 @@
+/**
+ * Where media files live on disk, and importing a folder that is already on
+ * the server instead of uploading it again.
+ *
+ * LIBRARY_DIR is that folder. Imported files are registered where they are
+ * and served under /library; they are never copied, moved or deleted. Each
+ * import also catches up with what happened on disk since the last one:
+ * files that disappeared are marked missing, and files that were moved or
+ * renamed keep their record.
+ */
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { asc, eq } from "drizzle-orm";
+import { db } from "../db/client";
+import { mediaFiles, roomQueueItems, rooms, userRoles, users } from "../db/schema";
+import { createMediaRecord } from "./mediaRecords";
+import { UPLOAD_DIR } from "./localStorage";
+import { getStorageBackend } from "./storage";
+
+export const LIBRARY_DIR = process.env.LIBRARY_DIR ? path.resolve(process.env.LIBRARY_DIR) : "";
+
+// Content types for files served from /uploads and /library
+export const MEDIA_MIME_TYPES: Record<string, string> = {
+  ".mp4": "video/mp4",
+  ".mkv": "video/x-matroska",
+  ".webm": "video/webm",
+  ".avi": "video/x-msvideo",
+  ".mov": "video/quicktime",
+  ".flv": "video/x-flv",
+  ".wmv": "video/x-ms-wmv",
+  ".m4v": "video/x-m4v",
+  ".m3u8": "application/vnd.apple.mpegurl",
+  ".vtt": "text/vtt",
+  ".ts": "video/mp2t",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".gif": "image/gif",
+};
+
+// The import picks up the video types above and nothing else
+const VIDEO_EXTENSIONS = Object.keys(MEDIA_MIME_TYPES).filter((ext) => MEDIA_MIME_TYPES[ext].startsWith("video/"));
+
+const isWithin = (root: string, filePath: string) => filePath === root || filePath.startsWith(root + path.sep);
+
+// Resolve `relative` inside `root`, or null if it would escape it
+const pathWithin = (root: string, relative: string) => {
+  const resolved = path.resolve(root, relative);
+  return isWithin(root, resolved) ? resolved : null;
+};
+
+// Path on disk for an /uploads or /library URL; null for external URLs
+export const mediaPathFromUrl = (fileUrl: string) => {
+  if (fileUrl.startsWith("/uploads/")) {
+    return path.join(UPLOAD_DIR, fileUrl.slice("/uploads/".length));
+  }
+  if (LIBRARY_DIR && fileUrl.startsWith("/library/")) {
+    try {
+      return pathWithin(LIBRARY_DIR, decodeURIComponent(fileUrl.slice("/library/".length)));
+    } catch {
+      return null; // malformed escape
+    }
+  }
+  return null;
+};
+
+type MediaLocation = Pick<typeof mediaFiles.$inferSelect, "fileUrl" | "storageBackend" | "storageKey">;
+
+// Whether the server holds the file itself, in storage or the library
+// folder, rather than just linking to it
+export const isServerMedia = (file: MediaLocation) => Boolean(file.storageBackend) || mediaPathFromUrl(file.fileUrl) !== null;
+
+// How long ffmpeg gets to read a file from remote storage
+const SOURCE_URL_TTL_SECONDS = 6 * 60 * 60;
+
+// Where ffmpeg should read a media file from: its path on disk, or a signed
+// URL for remote storage. Null when the file isn't there to read.
+export const mediaSourceFor = (file: MediaLocation) => {
+  const backend = file.storageBackend ? getStorageBackend(file.storageBackend) : null;
+  if (backend && file.storageKey) {
+    const filePath = backend.localPath(file.storageKey);
+    if (filePath) return fs.existsSync(filePath) ? filePath : null;
+    return backend.isAvailable() ? backend.signedUrl(file.storageKey, SOURCE_URL_TTL_SECONDS) : null;
+  }
+
+  const filePath = mediaPathFromUrl(file.fileUrl);
+  return filePath && fs.existsSync(filePath) ? filePath : null;
+};
+
+// A folder inside LIBRARY_DIR, or null if there's no library or the folder
+// would be outside it
+export const libraryFolder = (subdirectory = "") => (LIBRARY_DIR ? pathWithin(LIBRARY_DIR, subdirectory) : null);
+
+const libraryUrlFor = (filePath: string) =>
+  "/library/" + path.relative(LIBRARY_DIR, filePath).split(path.sep).map(encodeURIComponent).join("/");
+
+// Library files are registered as uploaded by the first admin when nobody
+// in particular asked for them (the CLI and the watcher)
+export const findLibraryOwner = () =>
+  db
+    .select({ id: users.id, email: users.email })
+    .from(users)
+    .innerJoin(userRoles, eq(userRoles.userId, users.id))
+    .where(eq(userRoles.role, "admin"))
+    .orderBy(asc(users.createdAt))
+    .limit(1)
+    .all()[0] ?? null;
+
+export interface LibraryImportReport {
+  root: string;
+  imported: { path: string; mediaId: string; title: string }[];
+  // Already in the library under the same path; skipped quietly
+  alreadyImported: number;
+  // Files that were missing and are back where they were
+  restored: { path: string; mediaId: string }[];
+  // Records whose file turned up under a new name; `from` is the old path
+  moved: { path: string; from: string; mediaId: string }[];
+  // Records under the imported folder whose file is gone
+  missing: { path: string; mediaId: string }[];
+  // Same content as a file in the library, or as one imported earlier in
+  // this run; not imported
+  duplicates: { path: string; duplicateOf: string }[];
+  unreadable: { path: string; error: string }[];
+}
+
+interface FoundFile {
+  filePath: string;
+  size: number;
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Every video file under `dir` in name order, each folder's own files before
+// its subfolders', so the copy nearer the top is the one imported. Dotfiles
+// are skipped; anything that can't be listed, stat'ed or read is reported.
+async function findVideoFiles(dir: string, unreadable: LibraryImportReport["unreadable"]): Promise<FoundFile[]> {
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  } catch (error) {
+    unreadable.push({ path: dir, error: errorMessage(error) });
+    return [];
+  }
+
+  const found: FoundFile[] = [];
+  const subdirectories: string[] = [];
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    if (entry.name.startsWith(".")) continue;
+    const entryPath = path.join(dir, entry.name);
+
+    if (entry.isDirectory()) {
+      subdirectories.push(entryPath);
+      continue;
+    }
+    if (!VIDEO_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) continue;
+
+    try {
+      // Follows symlinks, so a dangling link is unreadable rather than skipped
+      const stat = await fs.promises.stat(entryPath);
+      if (!stat.isFile()) continue;
+      if (stat.size === 0) {
+        unreadable.push({ path: entryPath, error: "File is empty" });
+        continue;
+      }
+
+      const handle = await fs.promises.open(entryPath, "r");
+      await handle.read(Buffer.alloc(1), 0, 1, 0).finally(() => handle.close());
+      found.push({ filePath: entryPath, size: stat.size });
+    } catch (error) {
+      unreadable.push({ path: entryPath, error: errorMessage(error) });
+    }
+  }
+
+  for (const subdirectory of subdirectories) {
+    found.push(...(await findVideoFiles(subdirectory, unreadable)));
+  }
+  return found;
+}
+
+// Hashing whole video files is far too slow; the size plus the first and
+// last megabyte tell copies apart well enough
+const FINGERPRINT_BYTES = 1024 * 1024;
+
+async function fingerprint(filePath: string, size: number) {
+  const handle = await fs.promises.open(filePath, "r");
+  try {
+    const hash = createHash("sha1").update(String(size));
+    const head = Buffer.alloc(Math.min(FINGERPRINT_BYTES, size));
+    await handle.read(head, 0, head.length, 0);
+    hash.update(head);
+    if (size > FINGERPRINT_BYTES) {
+      const tail = Buffer.alloc(Math.min(FINGERPRINT_BYTES, size - FINGERPRINT_BYTES));
+      await handle.read(tail, 0, tail.length, size - tail.length);
+      hash.update(tail);
+    }
+    return hash.digest("hex");
+  } finally {
+    await handle.close();
+  }
+}
+
+// Point a record, and the rooms that were playing it, at the file's new
+// location. Everything else hangs off the media id, so it stays put.
+const relocateMedia = (mediaId: string, fromUrl: string, fileUrl: string) => {
+  db.transaction((tx) => {
+    tx.update(mediaFiles)
+      .set({ fileUrl, missingAt: null, updatedAt: new Date() })
+      .where(eq(mediaFiles.id, mediaId))
+      .run();
+    tx.update(rooms).set({ videoUrl: fileUrl }).where(eq(rooms.videoUrl, fromUrl)).run();
+    tx.update(roomQueueItems).set({ videoUrl: fileUrl }).where(eq(roomQueueItems.videoUrl, fromUrl)).run();
+  });
+};
+
+async function syncLibraryFolder(options: {
+  uploadedBy: string;
+  subdirectory?: string;
+  onImported?: (mediaId: string) => void;
+}): Promise<LibraryImportReport> {
+  const root = libraryFolder(options.subdirectory);
+  if (!root) {
+    throw new Error(LIBRARY_DIR ? "The folder to import must be inside LIBRARY_DIR" : "LIBRARY_DIR is not configured");
+  }
+
+  const report: LibraryImportReport = {
+    root,
+    imported: [],
+    alreadyImported: 0,
+    restored: [],
+    moved: [],
+    missing: [],
+    duplicates: [],
+    unreadable: [],
+  };
+  const found = await findVideoFiles(root, report.unreadable);
+  const foundPaths = new Set(found.map((file) => file.filePath));
+
+  // Files already in the library, by path and by size for duplicate checks.
+  // `label` is what a duplicate report points at.
+  const existing = db
+    .select({
+      id: mediaFiles.id,
+      fileUrl: mediaFiles.fileUrl,
+      fileSize: mediaFiles.fileSize,
+      contentHash: mediaFiles.contentHash,
+      missingAt: mediaFiles.missingAt,
+    })
+    .from(mediaFiles)
+    .all()
+    .flatMap((row) => {
+      const filePath = mediaPathFromUrl(row.fileUrl);
+      return filePath ? [{ ...row, filePath, label: row.fileUrl }] : [];
+    });
+  const byPath = new Map(existing.map((file) => [file.filePath, file]));
+  const bySize = new Map<number, { filePath: string; label: string }[]>();
+  const remember = (size: number, file: { filePath: string; label: string }) =>
+    bySize.set(size, [...(bySize.get(size) ?? []), file]);
+  existing.forEach((file) => file.fileSize !== null && remember(file.fileSize, file));
+
+  // Library files that are no longer on disk, anywhere in LIBRARY_DIR: each
+  // may turn up again under a new name
+  const gone = existing.filter(
+    (file) => file.fileUrl.startsWith("/library/") && !foundPaths.has(file.filePath) && !fs.existsSync(file.filePath)
+  );
+  const movedIds = new Set<string>();
+
+  // Only files whose size matches another are hashed for duplicate checks;
+  // new files are hashed anyway, to recognise them if they move later
+  const fingerprints = new Map<string, Promise<string | null>>();
+  const fingerprintOf = (filePath: string, size: number) => {
+    let pending = fingerprints.get(filePath);
+    if (!pending) {
+      pending = fingerprint(filePath, size).catch(() => null);
+      fingerprints.set(filePath, pending);
+    }
+    return pending;
+  };
+
+  for (const file of found) {
+    const known = byPath.get(file.filePath);
+    if (known) {
+      // Records from before fingerprints, or whose file changed since
+      const changes: Partial<typeof mediaFiles.$inferInsert> = {};
+      if (!known.contentHash || known.fileSize !== file.size) {
+        changes.contentHash = await fingerprintOf(file.filePath, file.size);
+        changes.fileSize = file.size;
+      }
+      if (known.missingAt) {
+        changes.missingAt = null;
+        report.restored.push({ path: file.filePath, mediaId: known.id });
+      } else {
+        report.alreadyImported += 1;
+      }
+      if (Object.keys(changes).length > 0) {
+        db.update(mediaFiles).set(changes).where(eq(mediaFiles.id, known.id)).run();
+      }
+      continue;
+    }
+
+    const contentHash = await fingerprintOf(file.filePath, file.size);
+    const movedFrom = contentHash
+      ? gone.find((peer) => peer.contentHash === contentHash && !movedIds.has(peer.id))
+      : undefined;
+    if (movedFrom) {
+      const fileUrl = libraryUrlFor(file.filePath);
+      relocateMedia(movedFrom.id, movedFrom.fileUrl, fileUrl);
+      movedIds.add(movedFrom.id);
+      report.moved.push({ path: file.filePath, from: movedFrom.filePath, mediaId: movedFrom.id });
+      remember(file.size, { filePath: file.filePath, label: fileUrl });
+      continue;
+    }
+
+    let duplicateOf: string | null = null;
+    for (const peer of bySize.get(file.size) ?? []) {
+      const theirs = await fingerprintOf(peer.filePath, file.size);
+      if (contentHash && contentHash === theirs) {
+        duplicateOf = peer.label;
+        break;
+      }
+    }
+    if (duplicateOf) {
+      report.duplicates.push({ path: file.filePath, duplicateOf });
+      continue;
+    }
+
+    const fileUrl = libraryUrlFor(file.filePath);
+    const { mediaId, title } = await createMediaRecord({
+      fileUrl,
+      filePath: file.filePath,
+      originalName: path.basename(file.filePath),
+      fileType: MEDIA_MIME_TYPES[path.extname(file.filePath).toLowerCase()],
+      fileSize: file.size,
+      contentHash,
+      uploadedBy: options.uploadedBy,
+    });
+    options.onImported?.(mediaId);
+
+    report.imported.push({ path: file.filePath, mediaId, title });
+    remember(file.size, { filePath: file.filePath, label: fileUrl });
+  }
+
+  // Records are kept when their file goes, so metadata and room history
+  // survive the drive being unplugged
+  const now = new Date();
+  for (const file of gone) {
+    if (movedIds.has(file.id) || !isWithin(root, file.filePath)) continue;
+    if (!file.missingAt) {
+      db.update(mediaFiles).set({ missingAt: now }).where(eq(mediaFiles.id, file.id)).run();
+    }
+    report.missing.push({ path: file.filePath, mediaId: file.id });
+  }
+
+  return report;
+}
+
+// Imports read the library and then write to it, so they take turns
+let libraryLock: Promise<unknown> = Promise.resolve();
+
+/**
+ * Register every new video file under LIBRARY_DIR (or `subdirectory` of it)
+ * as media uploaded by `uploadedBy`, with metadata looked up as for uploads,
+ * and bring existing records up to date with the files on disk.
+ * `onImported` runs for each new media id, e.g. to queue its jobs.
+ */
+export const importLibrary = (options: {
+  uploadedBy: string;
+  subdirectory?: string;
+  onImported?: (mediaId: string) => void;
+}): Promise<LibraryImportReport> => {
+  const run = libraryLock.then(() => syncLibraryFolder(options));
+  libraryLock = run.catch(() => undefined);
+  return run;
+};
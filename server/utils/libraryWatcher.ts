@@ -0,0 +1,83 @@
+/**
+ * Keeps the library in step with the folders listed in LIBRARY_ROOTS, so
+ * files added, renamed or deleted on disk show up without an import.
+ *
+ * LIBRARY_ROOTS is a comma-separated list of folders inside LIBRARY_DIR
+ * ("Movies,TV", or "." for all of it). Every change under a root re-runs the
+ * import for that root once things have been quiet for a moment, which also
+ * handles moves and missing files.
+ */
+import fs from "fs";
+import path from "path";
+import { LIBRARY_DIR, findLibraryOwner, importLibrary, libraryFolder } from "./library";
+
+const LIBRARY_ROOTS = (process.env.LIBRARY_ROOTS || "")
+  .split(",")
+  .map((root) => root.trim())
+  .filter(Boolean);
+
+// Copying a big file into a root fires events for as long as it takes, so
+// wait for them to stop before importing
+const LIBRARY_WATCH_DELAY_MS = Number(process.env.LIBRARY_WATCH_DELAY_MS) || 5000;
+
+// LIBRARY_ROOTS resolved inside LIBRARY_DIR; entries that aren't are dropped
+export const libraryRoots = LIBRARY_ROOTS.flatMap((root) => {
+  const folder = libraryFolder(root);
+  return folder ? [folder] : [];
+});
+
+const syncRoot = async (root: string, onImported: (mediaId: string) => void) => {
+  const owner = findLibraryOwner();
+  if (!owner) {
+    console.warn(`Not syncing ${root}: there is no admin account yet`);
+    return;
+  }
+
+  const report = await importLibrary({
+    uploadedBy: owner.id,
+    subdirectory: path.relative(LIBRARY_DIR, root),
+    onImported,
+  });
+  const changes = [
+    [report.imported.length, "imported"],
+    [report.moved.length, "moved"],
+    [report.restored.length, "restored"],
+    [report.missing.length, "missing"],
+  ] as const;
+  if (changes.some(([count]) => count > 0)) {
+    console.log(`Library sync of ${root}: ${changes.map(([count, label]) => `${count} ${label}`).join(", ")}`);
+  }
+};
+
+/**
+ * Watch every library root and sync it on changes, plus once now to catch
+ * up with anything that changed while the server was down. `onImported`
+ * runs for each new media id. Returns the roots being watched.
+ */
+export const watchLibraryRoots = (onImported: (mediaId: string) => void) => {
+  LIBRARY_ROOTS.filter((root) => !libraryFolder(root)).forEach((root) =>
+    console.warn(`Ignoring library root ${root}: it must be a folder inside LIBRARY_DIR`)
+  );
+
+  return libraryRoots.filter((root) => {
+    let timer: NodeJS.Timeout | null = null;
+    const scheduleSync = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = null;
+        syncRoot(root, onImported).catch((error) => console.error(`Library sync of ${root} failed:`, error));
+      }, LIBRARY_WATCH_DELAY_MS);
+    };
+
+    try {
+      fs.watch(root, { recursive: true }, scheduleSync).on("error", (error) => {
+        console.error(`Stopped watching ${root}:`, error);
+      });
+    } catch (error) {
+      console.error(`Can't watch ${root}:`, error);
+      return false;
+    }
+    scheduleSync();
+    return true;
+  });
+};
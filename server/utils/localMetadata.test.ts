@@ -0,0 +1,128 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { localMetadataProvider } from "./localMetadata";
+
+let libraryDir: string;
+
+const writeFile = (relativePath: string, contents: string) => {
+  const filePath = path.join(libraryDir, relativePath);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, contents);
+  return filePath;
+};
+
+beforeEach(() => {
+  libraryDir = fs.mkdtempSync(path.join(os.tmpdir(), "local-metadata-"));
+});
+
+afterEach(() => {
+  fs.rmSync(libraryDir, { recursive: true, force: true });
+  vi.restoreAllMocks();
+});
+
+describe("localMetadataProvider", () => {
+  it("reads a JSON sidecar, joining lists and accepting aliases", async () => {
+    writeFile(
+      "Heat.json",
+      JSON.stringify({
+        title: "Heat",
+        plot: "A heist goes wrong.",
+        year: "1995",
+        imdbId: "tt0113277",
+        genre: ["Crime", "Drama"],
+        director: "Michael Mann",
+        actors: ["Al Pacino", "Robert De Niro", "Val Kilmer", "Jon Voight", "Tom Sizemore"],
+      })
+    );
+
+    const metadata = await localMetadataProvider.lookup({
+      kind: "movie",
+      title: "Heat",
+      filePath: path.join(libraryDir, "Heat.mkv"),
+    });
+
+    expect(metadata).toMatchObject({
+      title: "Heat",
+      description: "A heist goes wrong.",
+      releaseYear: 1995,
+      genre: "Crime, Drama",
+      director: "Michael Mann",
+      actors: "Al Pacino, Robert De Niro, Val Kilmer, Jon Voight",
+      externalApiUrl: "https://www.imdb.com/title/tt0113277/",
+    });
+  });
+
+  it("reads a Kodi NFO", async () => {
+    writeFile(
+      "Heat.nfo",
+      `<?xml version="1.0" encoding="UTF-8"?>
+<movie>
+  <title>Heat</title>
+  <plot><![CDATA[Cops & robbers.]]></plot>
+  <premiered>1995-12-15</premiered>
+  <mpaa>Rated R</mpaa>
+  <uniqueid type="tmdb">949</uniqueid>
+  <uniqueid type="imdb" default="true">tt0113277</uniqueid>
+  <genre>Crime</genre>
+  <genre>Thriller</genre>
+  <thumb aspect="landscape">https://example.com/fanart.jpg</thumb>
+  <thumb aspect="poster">https://example.com/poster.jpg</thumb>
+  <actor><name>Al Pacino</name><role>Hanna</role></actor>
+  <actor><name>Robert De Niro</name><role>McCauley</role></actor>
+</movie>`
+    );
+
+    const metadata = await localMetadataProvider.lookup({
+      kind: "movie",
+      title: "Heat",
+      filePath: path.join(libraryDir, "Heat.mp4"),
+    });
+
+    expect(metadata).toMatchObject({
+      title: "Heat",
+      description: "Cops & robbers.",
+      releaseYear: 1995,
+      rating: "R",
+      imdbId: "tt0113277",
+      genre: "Crime, Thriller",
+      posterUrl: "https://example.com/poster.jpg",
+      actors: "Al Pacino, Robert De Niro",
+    });
+  });
+
+  it("prefers the JSON sidecar and falls back to the NFO when it is unreadable", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    writeFile("Heat.json", "{ not json");
+    writeFile("Heat.nfo", "<movie><title>Heat from NFO</title></movie>");
+
+    const metadata = await localMetadataProvider.lookup({
+      kind: "movie",
+      title: "Heat",
+      filePath: path.join(libraryDir, "Heat.mkv"),
+    });
+
+    expect(metadata?.title).toBe("Heat from NFO");
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  it("finds tvshow.nfo in the folder above a season folder", async () => {
+    writeFile("The Wire/tvshow.nfo", "<tvshow><title>The Wire</title><season>5</season></tvshow>");
+
+    const metadata = await localMetadataProvider.lookup({
+      kind: "series",
+      title: "The Wire",
+      filePath: path.join(libraryDir, "The Wire", "Season 1", "The.Wire.S01E01.mkv"),
+    });
+
+    expect(metadata).toMatchObject({ title: "The Wire", totalSeasons: 5 });
+  });
+
+  it("finds nothing without a sidecar or a file path", async () => {
+    expect(
+      await localMetadataProvider.lookup({ kind: "movie", title: "Heat", filePath: path.join(libraryDir, "Heat.mkv") })
+    ).toBeNull();
+    expect(await localMetadataProvider.lookup({ kind: "movie", title: "Heat" })).toBeNull();
+  });
+});
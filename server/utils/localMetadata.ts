@@ -0,0 +1,148 @@
+/**
+ * Local metadata provider: sidecar files next to the video, so a library can
+ * be described without network access (and tests get fixed answers).
+ * For `Movie.mkv` it reads the first of:
+ *   Movie.json  fields named as in MediaMetadata; genre, director and actors
+ *               may be arrays, and "year" / "plot" are accepted as aliases
+ *   Movie.nfo   Kodi-style XML (<movie>, <episodedetails>)
+ * A series is described by tvshow.json or tvshow.nfo in the episode's folder
+ * or the one above it, for Show/Season 1/episode.mkv layouts.
+ */
+import fs from "fs";
+import path from "path";
+import type { MediaMetadata, MetadataLookup, MetadataProvider } from "./metadata";
+
+const MAX_ACTORS = 4;
+
+const sidecarPaths = (query: MetadataLookup) => {
+  if (!query.filePath) return [];
+
+  if (query.kind === "series") {
+    const folder = path.dirname(query.filePath);
+    return [folder, path.dirname(folder)].flatMap((dir) => [
+      path.join(dir, "tvshow.json"),
+      path.join(dir, "tvshow.nfo"),
+    ]);
+  }
+
+  const base = query.filePath.slice(0, query.filePath.length - path.extname(query.filePath).length);
+  return [`${base}.json`, `${base}.nfo`];
+};
+
+const text = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : null);
+
+const list = (value: unknown) =>
+  Array.isArray(value)
+    ? value.map(text).filter((item): item is string => Boolean(item)).join(", ") || null
+    : text(value);
+
+const integer = (value: unknown) => {
+  const number = typeof value === "number" ? value : parseInt(String(value ?? ""));
+  return Number.isInteger(number) ? number : null;
+};
+
+const imdbUrl = (imdbId: string | null) => (imdbId ? `https://www.imdb.com/title/${imdbId}/` : null);
+
+const fromJson = (data: Record<string, unknown>): Partial<MediaMetadata> => {
+  const imdbId = text(data.imdbId);
+  return {
+    title: text(data.title),
+    description: text(data.description) ?? text(data.plot),
+    posterUrl: text(data.posterUrl),
+    imdbId,
+    releaseYear: integer(data.releaseYear ?? data.year),
+    rating: text(data.rating),
+    genre: list(data.genre),
+    director: list(data.director),
+    actors: list(Array.isArray(data.actors) ? data.actors.slice(0, MAX_ACTORS) : data.actors),
+    externalApiUrl: text(data.externalApiUrl) ?? imdbUrl(imdbId),
+    totalSeasons: integer(data.totalSeasons),
+  };
+};
+
+const XML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+const decodeXml = (value: string) =>
+  value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&(amp|lt|gt|quot|apos);/g, (_, entity: string) => XML_ENTITIES[entity])
+    .trim();
+
+// Every <tag ...>...</tag> in the document, with its attributes and body.
+// NFO files are flat enough that this beats pulling in an XML parser.
+const elements = (xml: string, tag: string) =>
+  [...xml.matchAll(new RegExp(`<${tag}(\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "gi"))].map((match) => ({
+    attributes: match[1] ?? "",
+    body: match[2],
+  }));
+
+const firstText = (xml: string, ...tags: string[]) => {
+  for (const tag of tags) {
+    const value = elements(xml, tag).map((element) => decodeXml(element.body)).find(Boolean);
+    if (value) return value;
+  }
+  return null;
+};
+
+const allText = (xml: string, tag: string) =>
+  elements(xml, tag)
+    .map((element) => decodeXml(element.body))
+    .filter(Boolean);
+
+const fromNfo = (xml: string, kind: MetadataLookup["kind"]): Partial<MediaMetadata> => {
+  const imdbId =
+    elements(xml, "uniqueid")
+      .filter((element) => /type\s*=\s*["']imdb["']/i.test(element.attributes))
+      .map((element) => decodeXml(element.body))[0] ??
+    [firstText(xml, "imdbid"), firstText(xml, "id")].find((id) => id && /^tt\d+$/.test(id)) ??
+    null;
+
+  const posters = elements(xml, "thumb").filter((element) => /^https?:\/\//.test(decodeXml(element.body)));
+  const poster = posters.find((element) => /aspect\s*=\s*["']poster["']/i.test(element.attributes)) ?? posters[0];
+
+  // <season> in tvshow.nfo is the season count (-1 when unknown)
+  const seasons = kind === "series" ? integer(firstText(xml, "season")) : null;
+
+  return {
+    title: firstText(xml, "title"),
+    description: firstText(xml, "plot", "outline"),
+    posterUrl: poster ? decodeXml(poster.body) : null,
+    imdbId,
+    releaseYear: integer(firstText(xml, "year", "premiered", "aired")?.slice(0, 4)),
+    // Kodi writes "Rated PG-13" or "US:PG-13"
+    rating: firstText(xml, "mpaa")?.replace(/^Rated\s+/i, "").replace(/^[A-Z]{2}:/, "") || null,
+    genre: allText(xml, "genre").join(", ") || null,
+    director: allText(xml, "director").join(", ") || null,
+    actors:
+      elements(xml, "actor")
+        .map((actor) => firstText(actor.body, "name"))
+        .filter(Boolean)
+        .slice(0, MAX_ACTORS)
+        .join(", ") || null,
+    externalApiUrl: imdbUrl(imdbId),
+    totalSeasons: seasons && seasons > 0 ? seasons : null,
+  };
+};
+
+export const localMetadataProvider: MetadataProvider = {
+  name: "local",
+  isAvailable: () => true,
+  lookup: async (query) => {
+    for (const sidecar of sidecarPaths(query)) {
+      let contents: string;
+      try {
+        contents = await fs.promises.readFile(sidecar, "utf8");
+      } catch {
+        continue;
+      }
+
+      try {
+        return sidecar.endsWith(".json") ? fromJson(JSON.parse(contents)) : fromNfo(contents, query.kind);
+      } catch (error) {
+        console.error(`Ignoring unreadable metadata sidecar ${sidecar}:`, error);
+      }
+    }
+
+    return null;
+  },
+};
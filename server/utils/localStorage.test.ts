@@ -0,0 +1,23 @@
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { UPLOAD_DIR, localDiskStorage } from "./localStorage";
+
+describe("localDiskStorage.keyFromUrl", () => {
+  it("maps upload URLs back to keys", () => {
+    expect(localDiskStorage.keyFromUrl(localDiskStorage.publicUrl("video_1.mp4"))).toBe("video_1.mp4");
+    expect(localDiskStorage.keyFromUrl("/uploads/posters/./poster_1.jpg")).toBe("posters/poster_1.jpg");
+    expect(localDiskStorage.keyFromUrl("/library/movie.mkv")).toBeNull();
+  });
+
+  it("rejects keys that resolve outside the upload folder", () => {
+    expect(localDiskStorage.keyFromUrl("/uploads/../data.sqlite")).toBeNull();
+    expect(localDiskStorage.keyFromUrl("/uploads/posters/../../index.ts")).toBeNull();
+    expect(localDiskStorage.keyFromUrl("/uploads//etc/passwd")).toBeNull();
+    expect(localDiskStorage.keyFromUrl("/uploads/")).toBeNull();
+  });
+
+  it("keeps files under the upload folder", () => {
+    const key = localDiskStorage.keyFromUrl("/uploads/a/../b/video.mp4")!;
+    expect(localDiskStorage.localPath(key)).toBe(path.join(UPLOAD_DIR, "b", "video.mp4"));
+  });
+});
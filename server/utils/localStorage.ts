@@ -0,0 +1,66 @@
+/**
+ * Local disk storage backend: files under server/uploads, served as
+ * /uploads/<key> by express.static.
+ */
+import fs from "fs";
+import path from "path";
+import { pipeline } from "stream/promises";
+import type { StorageBackend } from "./storage";
+
+export const UPLOAD_DIR = path.join(process.cwd(), "server", "uploads");
+
+const filePathFor = (key: string) => path.join(UPLOAD_DIR, key);
+
+// The key for a path under /uploads, or null when it would resolve outside
+// the upload folder ("../", absolute paths)
+const keyForUploadPath = (relativePath: string) => {
+  const filePath = path.resolve(UPLOAD_DIR, relativePath);
+  if (!filePath.startsWith(UPLOAD_DIR + path.sep)) return null;
+  return path.relative(UPLOAD_DIR, filePath).split(path.sep).join("/");
+};
+
+export const localDiskStorage: StorageBackend = {
+  name: "local",
+  isAvailable: () => true,
+
+  put: async (key, body) => {
+    const filePath = filePathFor(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    if (Buffer.isBuffer(body)) {
+      await fs.promises.writeFile(filePath, body);
+    } else {
+      await pipeline(body, fs.createWriteStream(filePath));
+    }
+  },
+
+  get: async (key, range) => {
+    const filePath = filePathFor(key);
+    let size: number;
+    try {
+      ({ size } = await fs.promises.stat(filePath));
+    } catch {
+      return null;
+    }
+
+    if (!range || range.start >= size) {
+      return { body: fs.createReadStream(filePath), size, range: null, contentType: null };
+    }
+    const end = Math.min(range.end ?? size - 1, size - 1);
+    return {
+      body: fs.createReadStream(filePath, { start: range.start, end }),
+      size,
+      range: { start: range.start, end },
+      contentType: null,
+    };
+  },
+
+  delete: async (key) => {
+    await fs.promises.rm(filePathFor(key), { force: true });
+  },
+
+  // /uploads is public, so there is nothing to sign
+  signedUrl: (key) => `/uploads/${key}`,
+  publicUrl: (key) => `/uploads/${key}`,
+  keyFromUrl: (url) => (url.startsWith("/uploads/") ? keyForUploadPath(url.slice("/uploads/".length)) : null),
+  localPath: (key) => filePathFor(key),
+};
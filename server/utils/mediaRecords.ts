@@ -0,0 +1,167 @@
+/**
+ * Creating library records: media files and the TV series they belong to.
+ * Shared by the API server and the library import CLI.
+ */
+import { randomUUID } from "crypto";
+import { eq, sql } from "drizzle-orm";
+import { db } from "../db/client";
+import { mediaFiles, tvSeries } from "../db/schema";
+import { cachePosterImage, fetchMetadata } from "./metadata";
+import { parseReleaseName } from "./releaseName";
+
+type SeriesRow = typeof tvSeries.$inferSelect;
+
+// Where a file sits in a TV show, as sent by the library UI
+export interface EpisodeInput {
+  seriesTitle: string;
+  season: number;
+  episode: number;
+}
+
+const findSeriesByTitle = (title: string) =>
+  db.select().from(tvSeries).where(sql`${tvSeries.title} = ${title} COLLATE NOCASE`).all()[0] ?? null;
+
+// Reuse the show if we already have it under the typed title, the
+// metadata's title or its IMDB ID, so "the office" and "The Office" end up as
+// one series. Otherwise create it with show-level metadata. `filePath` is one
+// of its episodes on disk, for sidecar files.
+export const findOrCreateSeries = async (title: string, filePath?: string | null): Promise<SeriesRow> => {
+  const existing = findSeriesByTitle(title);
+  if (existing) return existing;
+
+  const metadata = await fetchMetadata({ kind: "series", title, filePath });
+  const known =
+    (metadata?.imdbId
+      ? db.select().from(tvSeries).where(eq(tvSeries.imdbId, metadata.imdbId)).all()[0]
+      : null) ?? (metadata?.title ? findSeriesByTitle(metadata.title) : null);
+  if (known) return known;
+
+  const id = randomUUID();
+  const now = new Date();
+  const cachedPosterUrl = metadata?.posterUrl
+    ? await cachePosterImage(metadata.posterUrl, `series_${id}`)
+    : null;
+
+  const row: SeriesRow = {
+    id,
+    title: metadata?.title || title,
+    description: metadata?.description || null,
+    posterUrl: cachedPosterUrl || metadata?.posterUrl || null,
+    imdbId: metadata?.imdbId || null,
+    releaseYear: metadata?.releaseYear || null,
+    rating: metadata?.rating || null,
+    genre: metadata?.genre || null,
+    actors: metadata?.actors || null,
+    totalSeasons: metadata?.totalSeasons || null,
+    externalApiUrl: metadata?.externalApiUrl || null,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  db.insert(tvSeries).values(row).run();
+  return row;
+};
+
+export interface MediaRecordInput {
+  fileUrl: string;
+  filePath: string | null; // the file on disk, for sidecar metadata
+  // Where uploads were stored; library files have neither
+  storageBackend?: string | null;
+  storageKey?: string | null;
+  originalName: string;
+  fileType: string;
+  fileSize: number;
+  title?: string | null;
+  description?: string | null;
+  externalApiUrl?: string | null;
+  episode?: EpisodeInput | null;
+  contentHash?: string | null;
+  uploadedBy: string;
+}
+
+/**
+ * Add a file on disk to the library: look up its metadata (for the episode,
+ * if it is one) and insert the record. The caller queues background jobs.
+ *
+ * `originalName` is the file's own name (the client's, for uploads). When no
+ * title was given, or the title is just that name, the title, year and
+ * episode come from parsing it as a release name; an explicit title or
+ * `episode` (null for a movie) overrides what the filename says.
+ */
+export const createMediaRecord = async (file: MediaRecordInput) => {
+  const now = new Date();
+  const mediaId = randomUUID();
+
+  const release = parseReleaseName(file.originalName);
+  const typedTitle = file.title?.trim() ?? "";
+  const fromFilename = !typedTitle || typedTitle === file.originalName.trim();
+  const episode =
+    file.episode !== undefined
+      ? file.episode
+      : fromFilename && release.season !== null && release.episode !== null
+        ? { seriesTitle: release.title, season: release.season, episode: release.episode }
+        : null;
+
+  const series = episode ? await findOrCreateSeries(episode.seriesTitle, file.filePath) : null;
+  const metadata =
+    series && episode
+      ? await fetchMetadata({
+          kind: "episode",
+          series,
+          season: episode.season,
+          episode: episode.episode,
+          filePath: file.filePath,
+        })
+      : await fetchMetadata({
+          kind: "movie",
+          title: fromFilename ? release.title : typedTitle,
+          year: fromFilename ? release.year : null,
+          filePath: file.filePath,
+        });
+
+  // An episode named after its file takes the episode's own title
+  const title = !fromFilename
+    ? typedTitle
+    : episode
+      ? metadata?.title ||
+        `${episode.seriesTitle} S${String(episode.season).padStart(2, "0")}E${String(episode.episode).padStart(2, "0")}`
+      : release.title;
+
+  // Cache poster image locally if available
+  let cachedPosterUrl = null;
+  if (metadata?.posterUrl) {
+    cachedPosterUrl = await cachePosterImage(metadata.posterUrl, mediaId);
+  }
+
+  db.insert(mediaFiles)
+    .values({
+      id: mediaId,
+      title,
+      description: file.description?.trim() || metadata?.description || null,
+      fileUrl: file.fileUrl,
+      storageBackend: file.storageBackend ?? null,
+      storageKey: file.storageKey ?? null,
+      fileType: file.fileType,
+      fileSize: file.fileSize,
+      uploadedBy: file.uploadedBy,
+      externalApiUrl: file.externalApiUrl || metadata?.externalApiUrl || null,
+      posterUrl: cachedPosterUrl || metadata?.posterUrl || null,
+      imdbId: metadata?.imdbId || null,
+      releaseYear: metadata?.releaseYear || (fromFilename ? release.year : null),
+      rating: metadata?.rating || null,
+      genre: metadata?.genre || null,
+      director: metadata?.director || null,
+      actors: metadata?.actors || null,
+      releaseResolution: release.resolution,
+      releaseSource: release.source,
+      seriesId: series?.id ?? null,
+      seasonNumber: episode?.season ?? null,
+      episodeNumber: episode?.episode ?? null,
+      contentHash: file.contentHash ?? null,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .run();
+
+  return { mediaId, title, metadata };
+};
@@ -0,0 +1,64 @@
+import Database from "better-sqlite3";
+import { afterAll, describe, expect, it } from "vitest";
+import { toFtsQuery } from "./mediaSearch";
+
+// The same index the media_search migration creates
+const sqlite = new Database(":memory:");
+sqlite.exec(`
+  CREATE VIRTUAL TABLE media_search USING fts5(
+    media_id UNINDEXED, title, description, director, actors, genre,
+    tokenize = 'unicode61 remove_diacritics 2'
+  );
+  INSERT INTO media_search (media_id, title, director) VALUES
+    ('heat', 'Heat', 'Michael Mann'),
+    ('spider', 'Spider-Man: No Way Home', 'Jon Watts'),
+    ('near', 'Near Dark', 'Kathryn Bigelow');
+`);
+
+const search = (text: string) => {
+  const query = toFtsQuery(text);
+  if (query === null) return [];
+  const rows = sqlite
+    .prepare("SELECT media_id FROM media_search WHERE media_search MATCH ? ORDER BY media_id")
+    .all(query) as { media_id: string }[];
+  return rows.map((row) => row.media_id);
+};
+
+afterAll(() => {
+  sqlite.close();
+});
+
+describe("toFtsQuery", () => {
+  it("is null when there's nothing to search for", () => {
+    expect(toFtsQuery("")).toBeNull();
+    expect(toFtsQuery("   \t\n")).toBeNull();
+    expect(toFtsQuery('" ""')).toBeNull();
+  });
+
+  it("requires every word and matches the last as a prefix", () => {
+    expect(toFtsQuery("michael ma")).toBe('"michael" "ma"*');
+    expect(search("michael ma")).toEqual(["heat"]);
+    expect(search("he")).toEqual(["heat"]);
+  });
+
+  it("takes FTS5 operators and syntax characters literally", () => {
+    expect(toFtsQuery('heat OR "dark')).toBe('"heat" "OR" "dark"*');
+    expect(search("heat OR dark")).toEqual([]);
+    expect(search("near")).toEqual(["near"]);
+    expect(search("NEAR(heat dark)")).toEqual([]);
+    expect(search("NOT heat")).toEqual([]);
+  });
+
+  it("never produces a query FTS5 rejects", () => {
+    const crafted = [
+      '"', '"heat', 'he"at', "*", "heat*", "-", "-heat", "spider-man", "title:heat",
+      "^heat", "(heat", "heat)", "a + b", "{title}: x", "AND", "heat AND", "NEAR",
+    ];
+
+    for (const text of crafted) {
+      expect(() => search(text), text).not.toThrow();
+    }
+    expect(search("spider-man")).toEqual(["spider"]);
+    expect(search('"heat')).toEqual(["heat"]);
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * Helpers for the media library search
+ */
+
+/**
+ * Every word must match, and the last one also matches as a prefix so
+ * results update while typing. Words are quoted so FTS5 syntax characters
+ * (quotes, colons, AND/OR/NOT, ...) are taken literally. Null when there's
+ * nothing to search for.
+ */
+export const toFtsQuery = (text: string): string | null => {
+  const words = text
+    .split(/\s+/)
+    .map((word) => word.replace(/"/g, "").trim())
+    .filter(Boolean);
+  if (words.length === 0) return null;
+
+  return words
+    .map((word, i) => (i === words.length - 1 ? `"${word}"*` : `"${word}"`))
+    .join(" ");
+};
+
+// Comma-separated genre strings from OMDB ("Action, Adventure, Sci-Fi")
+export const splitGenres = (genre: string | null) =>
+  genre
+    ?.split(",")
+    .map((g) => g.trim())
+    .filter(Boolean) ?? [];
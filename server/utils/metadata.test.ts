@@ -0,0 +1,155 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { MetadataProvider, fetchMetadata, mergeMetadata, searchMetadata } from "./metadata";
+
+const stubProvider = (
+  name: string,
+  lookup: MetadataProvider["lookup"],
+  options: Partial<MetadataProvider> = {}
+): MetadataProvider => ({ name, isAvailable: () => true, lookup, ...options });
+
+const movie = { kind: "movie" as const, title: "Heat", year: 1995 };
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("mergeMetadata", () => {
+  it("is null when no provider found anything", () => {
+    expect(mergeMetadata([])).toBeNull();
+    expect(mergeMetadata([null, null])).toBeNull();
+  });
+
+  it("takes each field from the first result that has it", () => {
+    const merged = mergeMetadata([
+      { title: "Heat", genre: null },
+      { title: "Heat (1995)", genre: "Crime, Drama", releaseYear: 1995 },
+      { director: "Michael Mann", releaseYear: 1996 },
+    ]);
+
+    expect(merged).toMatchObject({
+      title: "Heat",
+      genre: "Crime, Drama",
+      releaseYear: 1995,
+      director: "Michael Mann",
+    });
+  });
+
+  it("skips blank strings but keeps zero", () => {
+    const merged = mergeMetadata([
+      { description: "   ", totalSeasons: 0 },
+      { description: "A heist goes wrong.", totalSeasons: 3 },
+    ]);
+
+    expect(merged?.description).toBe("A heist goes wrong.");
+    expect(merged?.totalSeasons).toBe(0);
+  });
+
+  it("fills every field, with null for anything nobody had", () => {
+    const merged = mergeMetadata([{ title: "Heat" }]);
+
+    expect(merged).toEqual({
+      title: "Heat",
+      description: null,
+      posterUrl: null,
+      imdbId: null,
+      releaseYear: null,
+      rating: null,
+      genre: null,
+      director: null,
+      actors: null,
+      externalApiUrl: null,
+      totalSeasons: null,
+    });
+  });
+});
+
+describe("fetchMetadata", () => {
+  it("merges providers in the order given", async () => {
+    const metadata = await fetchMetadata(movie, [
+      stubProvider("local", async () => ({ title: "Heat", rating: null })),
+      stubProvider("remote", async () => ({ title: "HEAT", rating: "R" })),
+    ]);
+
+    expect(metadata).toMatchObject({ title: "Heat", rating: "R" });
+  });
+
+  it("passes the lookup to each provider", async () => {
+    const lookup = vi.fn(async () => null);
+    await fetchMetadata(movie, [stubProvider("local", lookup)]);
+
+    expect(lookup).toHaveBeenCalledWith(movie);
+  });
+
+  it("skips unavailable providers", async () => {
+    const lookup = vi.fn(async () => ({ title: "Unreachable" }));
+    const metadata = await fetchMetadata(movie, [
+      stubProvider("remote", lookup, { isAvailable: () => false }),
+      stubProvider("local", async () => ({ title: "Heat" })),
+    ]);
+
+    expect(lookup).not.toHaveBeenCalled();
+    expect(metadata?.title).toBe("Heat");
+  });
+
+  it("treats a failing provider as having found nothing", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const metadata = await fetchMetadata(movie, [
+      stubProvider("broken", async () => {
+        throw new Error("rate limited");
+      }),
+      stubProvider("local", async () => ({ title: "Heat", director: "Michael Mann" })),
+    ]);
+
+    expect(metadata).toMatchObject({ title: "Heat", director: "Michael Mann" });
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  it("is null when every provider fails or misses", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const metadata = await fetchMetadata(movie, [
+      stubProvider("broken", () => Promise.reject(new Error("offline"))),
+      stubProvider("empty", async () => null),
+    ]);
+
+    expect(metadata).toBeNull();
+  });
+});
+
+describe("searchMetadata", () => {
+  const candidate = (imdbId: string, provider: string, extra: object = {}) => ({
+    imdbId,
+    title: "Heat",
+    releaseYear: null,
+    posterUrl: null,
+    provider,
+    ...extra,
+  });
+
+  it("keeps one candidate per IMDb ID, filling gaps from later providers", async () => {
+    const results = await searchMetadata("Heat", null, [
+      stubProvider("first", async () => null, { search: async () => [candidate("tt0113277", "first")] }),
+      stubProvider("second", async () => null, {
+        search: async () => [
+          candidate("tt0113277", "second", { releaseYear: 1995, posterUrl: "https://example.com/heat.jpg" }),
+          candidate("tt0095296", "second", { releaseYear: 1986 }),
+        ],
+      }),
+    ]);
+
+    expect(results).toEqual([
+      candidate("tt0113277", "first", { releaseYear: 1995, posterUrl: "https://example.com/heat.jpg" }),
+      candidate("tt0095296", "second", { releaseYear: 1986 }),
+    ]);
+  });
+
+  it("ignores providers that can't search or fail", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const results = await searchMetadata("Heat", 1995, [
+      stubProvider("lookup-only", async () => null),
+      stubProvider("broken", async () => null, { search: () => Promise.reject(new Error("offline")) }),
+      stubProvider("working", async () => null, { search: async () => [candidate("tt0113277", "working")] }),
+    ]);
+
+    expect(results.map((result) => result.provider)).toEqual(["working"]);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Descriptive metadata (plot, cast, poster, ...) for library items, from
+ * whichever providers are configured.
+ *
+ * METADATA_PROVIDERS lists provider names in priority order, default
+ * "local,omdb,tmdb". Every available provider is asked; their answers are
+ * merged field by field, each field taken from the highest-priority provider
+ * that had a value for it. Remote providers without an API key are skipped.
+ */
+import { localMetadataProvider } from "./localMetadata";
+import { omdbProvider } from "./omdb";
+import { tmdbProvider } from "./tmdb";
+import { defaultStorage } from "./storage";
+
+export interface MediaMetadata {
+  title: string | null;
+  description: string | null;
+  posterUrl: string | null;
+  imdbId: string | null;
+  releaseYear: number | null;
+  rating: string | null; // e.g. "PG-13", "TV-MA"
+  genre: string | null; // comma-separated
+  director: string | null;
+  actors: string | null; // comma-separated
+  externalApiUrl: string | null;
+  totalSeasons: number | null; // series only
+}
+
+// What to look up. `filePath` is the video on disk, when there is one; the
+// local provider reads sidecar files next to it. A movie with an `imdbId` has
+// been pinned to that title, so providers look it up by ID instead; `year`
+// narrows a title search.
+export type MetadataLookup = (
+  | { kind: "movie"; title: string; year?: number | null; imdbId?: string | null }
+  | { kind: "series"; title: string }
+  | {
+      kind: "episode";
+      series: { title: string; imdbId: string | null };
+      season: number;
+      episode: number;
+    }
+) & { filePath?: string | null };
+
+// One possible match for a title, offered to an admin to pick from
+export interface MetadataCandidate {
+  imdbId: string;
+  title: string;
+  releaseYear: number | null;
+  posterUrl: string | null;
+  provider: string;
+}
+
+export interface MetadataProvider {
+  name: string;
+  // False when the provider can't be used here, e.g. no API key
+  isAvailable: () => boolean;
+  // Whatever the provider knows, or null for no match. Should not throw.
+  lookup: (query: MetadataLookup) => Promise<Partial<MediaMetadata> | null>;
+  // Movies matching a title, best first. Optional; should not throw.
+  search?: (title: string, year: number | null) => Promise<MetadataCandidate[]>;
+}
+
+const METADATA_FIELDS: (keyof MediaMetadata)[] = [
+  "title",
+  "description",
+  "posterUrl",
+  "imdbId",
+  "releaseYear",
+  "rating",
+  "genre",
+  "director",
+  "actors",
+  "externalApiUrl",
+  "totalSeasons",
+];
+
+const knownProviders = [localMetadataProvider, omdbProvider, tmdbProvider];
+
+const configuredProviders = (process.env.METADATA_PROVIDERS || "local,omdb,tmdb")
+  .split(",")
+  .map((name) => name.trim().toLowerCase())
+  .filter(Boolean)
+  .flatMap((name) => {
+    const provider = knownProviders.find((p) => p.name === name);
+    if (!provider) console.warn(`Unknown metadata provider "${name}" in METADATA_PROVIDERS`);
+    return provider ? [provider] : [];
+  });
+
+export const describeMetadataProviders = () =>
+  configuredProviders.map((p) => `${p.name}${p.isAvailable() ? "" : " (unavailable)"}`).join(", ") ||
+  "none";
+
+const isPresent = (value: unknown) =>
+  value !== null && value !== undefined && !(typeof value === "string" && !value.trim());
+
+/**
+ * Combine provider results, earlier ones winning field by field. Null when
+ * none of them had anything.
+ */
+export const mergeMetadata = (results: (Partial<MediaMetadata> | null)[]): MediaMetadata | null => {
+  const found = results.filter((result): result is Partial<MediaMetadata> => Boolean(result));
+  if (found.length === 0) return null;
+
+  const merged = Object.fromEntries(METADATA_FIELDS.map((field) => [field, null])) as Record<
+    keyof MediaMetadata,
+    unknown
+  >;
+  for (const field of METADATA_FIELDS) {
+    const source = found.find((result) => isPresent(result[field]));
+    if (source) merged[field] = source[field];
+  }
+
+  return merged as MediaMetadata;
+};
+
+/**
+ * Ask every available provider at once and merge the answers by priority.
+ * A failing provider counts as having found nothing. `providers` defaults to
+ * METADATA_PROVIDERS.
+ */
+export const fetchMetadata = async (
+  query: MetadataLookup,
+  providers: MetadataProvider[] = configuredProviders
+): Promise<MediaMetadata | null> => {
+  const available = providers.filter((provider) => provider.isAvailable());
+
+  const results = await Promise.all(
+    available.map((provider) =>
+      provider.lookup(query).catch((error) => {
+        console.error(`Metadata provider ${provider.name} failed:`, error);
+        return null;
+      })
+    )
+  );
+
+  return mergeMetadata(results);
+};
+
+/**
+ * Candidate movies for a title from every available provider that can
+ * search, one entry per IMDb ID. Higher-priority providers' entries come
+ * first; later ones fill in a missing year or poster.
+ */
+export const searchMetadata = async (
+  title: string,
+  year: number | null,
+  providers: MetadataProvider[] = configuredProviders
+): Promise<MetadataCandidate[]> => {
+  const available = providers.filter((provider) => provider.isAvailable());
+
+  const results = await Promise.all(
+    available.map(
+      (provider) =>
+        provider.search?.(title, year).catch((error) => {
+          console.error(`Metadata provider ${provider.name} search failed:`, error);
+          return [];
+        }) ?? []
+    )
+  );
+
+  const candidates = new Map<string, MetadataCandidate>();
+  for (const candidate of results.flat()) {
+    const existing = candidates.get(candidate.imdbId);
+    if (!existing) {
+      candidates.set(candidate.imdbId, candidate);
+      continue;
+    }
+    existing.releaseYear ??= candidate.releaseYear;
+    existing.posterUrl ??= candidate.posterUrl;
+  }
+
+  return [...candidates.values()];
+};
+
+/**
+ * Download and cache poster image in storage
+ * Returns its URL if successful
+ */
+export async function cachePosterImage(
+  posterUrl: string,
+  mediaId: string
+): Promise<string | null> {
+  if (!posterUrl) return null;
+
+  try {
+    const response = await fetch(posterUrl);
+    if (!response.ok) return null;
+
+    const buffer = Buffer.from(await response.arrayBuffer());
+    const storage = defaultStorage();
+    const key = `poster_${mediaId}.jpg`;
+
+    await storage.put(key, buffer, {
+      contentType: response.headers.get("content-type") || "image/jpeg",
+      contentLength: buffer.length,
+    });
+    return storage.publicUrl(key);
+  } catch (error) {
+    console.error("Error caching poster image:", error);
+    return null;
+  }
+}
@@ -1,104 +1,122 @@
 /**
- * OMDB API utility for fetching movie/show metadata
- * Uses the free OMDB API (requires API key)
+ * OMDB metadata provider
+ * Uses the free OMDB API (requires OMDB_API_KEY)
  * Falls back gracefully if API is unavailable
  */
+import type { MediaMetadata, MetadataCandidate, MetadataLookup, MetadataProvider } from "./metadata";
 
-export interface OmdbMetadata {
-  title: string;
-  description: string;
-  posterUrl: string | null;
-  imdbId: string | null;
-  releaseYear: number | null;
-  rating: string | null;
-  genre: string | null;
-  director: string | null;
-  actors: string | null;
-  externalApiUrl: string | null;
+// Raw OMDB response fields (Title, Year, Plot, ...), all strings
+type OmdbResponse = Record<string, string | undefined>;
+
+// Title search (s=) responses list brief results instead
+interface OmdbSearchResponse {
+  Response?: string;
+  Search?: OmdbResponse[];
 }
 
 const OMDB_API_KEY = process.env.OMDB_API_KEY || "";
 const OMDB_BASE_URL = "https://www.omdbapi.com/";
 
+// OMDB fills missing fields with "N/A"
+const present = (value: unknown) =>
+  typeof value === "string" && value && value !== "N/A" ? value : null;
+
 /**
- * Fetch metadata from OMDB API by title
- * Returns null if API key is not set or request fails
+ * Run one OMDB query. Returns the raw response, or null if the request
+ * fails or nothing matched.
  */
-export async function fetchOmdbMetadata(
-  title: string
-): Promise<OmdbMetadata | null> {
-  if (!OMDB_API_KEY) {
-    console.log("OMDB_API_KEY not set, skipping metadata fetch");
-    return null;
-  }
-
+async function queryOmdb<T extends { Response?: string } = OmdbResponse>(
+  params: Record<string, string>,
+  label: string
+): Promise<T | null> {
   try {
-    const params = new URLSearchParams({
-      apikey: OMDB_API_KEY,
-      t: title,
-      type: "movie",
-    });
-
-    const response = await fetch(`${OMDB_BASE_URL}?${params}`);
+    const response = await fetch(
+      `${OMDB_BASE_URL}?${new URLSearchParams({ apikey: OMDB_API_KEY, ...params })}`
+    );
     if (!response.ok) {
       console.error("OMDB API error:", response.statusText);
       return null;
     }
 
-    const data = await response.json();
+    const data = (await response.json()) as T;
 
     if (data.Response === "False") {
-      console.log(`Movie not found in OMDB: ${title}`);
+      console.log(`Not found in OMDB: ${label}`);
       return null;
     }
 
-    return {
-      title: data.Title || title,
-      description: data.Plot || "",
-      posterUrl: data.Poster && data.Poster !== "N/A" ? data.Poster : null,
-      imdbId: data.imdbID || null,
-      releaseYear: data.Year ? parseInt(data.Year) : null,
-      rating: data.Rated && data.Rated !== "N/A" ? data.Rated : null,
-      genre: data.Genre || null,
-      director: data.Director && data.Director !== "N/A" ? data.Director : null,
-      actors: data.Actors && data.Actors !== "N/A" ? data.Actors : null,
-      externalApiUrl: data.imdbID
-        ? `https://www.imdb.com/title/${data.imdbID}/`
-        : null,
-    };
+    return data;
   } catch (error) {
     console.error("Error fetching OMDB metadata:", error);
     return null;
   }
 }
 
-/**
- * Download and cache poster image locally
- * Returns the local file path if successful
- */
-export async function cachePosterImage(
-  posterUrl: string,
-  mediaId: string
-): Promise<string | null> {
-  if (!posterUrl) return null;
+const toMetadata = (data: OmdbResponse): Partial<MediaMetadata> => ({
+  title: present(data.Title),
+  description: present(data.Plot),
+  posterUrl: present(data.Poster),
+  imdbId: data.imdbID || null,
+  // Series years look like "2008–2013"; keep the first
+  releaseYear: data.Year ? parseInt(data.Year) || null : null,
+  rating: present(data.Rated),
+  genre: present(data.Genre),
+  director: present(data.Director),
+  actors: present(data.Actors),
+  externalApiUrl: data.imdbID
+    ? `https://www.imdb.com/title/${data.imdbID}/`
+    : null,
+  totalSeasons: data.totalSeasons ? parseInt(data.totalSeasons) || null : null,
+});
 
-  try {
-    const response = await fetch(posterUrl);
-    if (!response.ok) return null;
-
-    const buffer = await response.arrayBuffer();
-    const fs = await import("fs").then((m) => m.promises);
-    const path = await import("path");
+// Episodes are looked up through their series' IMDB ID when we have one,
+// since titles are ambiguous across remakes; pinned movies likewise
+const toParams = (query: MetadataLookup): Record<string, string> => {
+  switch (query.kind) {
+    case "movie":
+      if (query.imdbId) return { i: query.imdbId };
+      return { t: query.title, type: "movie", ...(query.year ? { y: String(query.year) } : {}) };
+    case "episode":
+      return {
+        ...(query.series.imdbId ? { i: query.series.imdbId } : { t: query.series.title }),
+        Season: String(query.season),
+        Episode: String(query.episode),
+      };
+    case "series":
+      return { t: query.title, type: "series" };
+  }
+};
 
-    const uploadsDir = path.join(process.cwd(), "server", "uploads");
-    const posterFilename = `poster_${mediaId}.jpg`;
-    const posterPath = path.join(uploadsDir, posterFilename);
+const describe = (query: MetadataLookup) =>
+  query.kind === "episode"
+    ? `${query.series.title} season ${query.season} episode ${query.episode}`
+    : `${query.kind} "${query.title}"`;
 
-    await fs.writeFile(posterPath, Buffer.from(buffer));
-    return `/uploads/${posterFilename}`;
-  } catch (error) {
-    console.error("Error caching poster image:", error);
-    return null;
-  }
-}
+export const omdbProvider: MetadataProvider = {
+  name: "omdb",
+  isAvailable: () => Boolean(OMDB_API_KEY),
+  lookup: async (query) => {
+    const data = await queryOmdb(toParams(query), describe(query));
+    return data ? toMetadata(data) : null;
+  },
+  search: async (title, year) => {
+    const data = await queryOmdb<OmdbSearchResponse>(
+      { s: title, type: "movie", ...(year ? { y: String(year) } : {}) },
+      `search "${title}"`
+    );
 
+    return (data?.Search ?? []).flatMap((result): MetadataCandidate[] =>
+      result.imdbID
+        ? [
+            {
+              imdbId: result.imdbID,
+              title: result.Title || title,
+              releaseYear: result.Year ? parseInt(result.Year) || null : null,
+              posterUrl: present(result.Poster),
+              provider: "omdb",
+            },
+          ]
+        : []
+    );
+  },
+};
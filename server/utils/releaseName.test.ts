@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { parseReleaseName } from "./releaseName";
+
+describe("parseReleaseName", () => {
+  it("splits Title.Year.Resolution.Source", () => {
+    expect(parseReleaseName("The.Matrix.1999.1080p.BluRay.x264.mkv")).toEqual({
+      title: "The Matrix",
+      year: 1999,
+      season: null,
+      episode: null,
+      resolution: "1080p",
+      source: "BluRay",
+    });
+    expect(parseReleaseName("Heat (1995) [2160p] WEB-DL.mp4")).toMatchObject({
+      title: "Heat",
+      year: 1995,
+      resolution: "2160p",
+      source: "WEB-DL",
+    });
+  });
+
+  it("reads S01E02 episode markers", () => {
+    expect(parseReleaseName("Breaking.Bad.S01E02.720p.HDTV.x264-GROUP.mkv")).toEqual({
+      title: "Breaking Bad",
+      year: null,
+      season: 1,
+      episode: 2,
+      resolution: "720p",
+      source: "HDTV",
+    });
+    expect(parseReleaseName("the_office_s09e23.mp4")).toMatchObject({ title: "the office", season: 9, episode: 23 });
+  });
+
+  it("reads 1x02 and spelled-out episode markers", () => {
+    expect(parseReleaseName("Friends 1x02 The One with the Sonogram.avi")).toMatchObject({
+      title: "Friends",
+      season: 1,
+      episode: 2,
+    });
+    expect(parseReleaseName("Cosmos Season 1 Episode 13.mkv")).toMatchObject({
+      title: "Cosmos",
+      season: 1,
+      episode: 13,
+    });
+  });
+
+  it("doesn't take an episode number without a season for an episode", () => {
+    expect(parseReleaseName("Band.of.Brothers.E01.mkv")).toMatchObject({
+      title: "Band of Brothers E01",
+      season: null,
+      episode: null,
+    });
+    expect(parseReleaseName("Movie.1920x1080.mkv")).toMatchObject({ season: null, episode: null });
+  });
+
+  it("keeps a year at the start or inside the title", () => {
+    expect(parseReleaseName("2001.A.Space.Odyssey.1968.mkv")).toMatchObject({
+      title: "2001 A Space Odyssey",
+      year: 1968,
+    });
+    expect(parseReleaseName("Blade.Runner.2049.2017.WEBRip.mkv")).toMatchObject({
+      title: "Blade Runner 2049",
+      year: 2017,
+      source: "WEBRip",
+    });
+    expect(parseReleaseName("1917.mp4")).toMatchObject({ title: "1917", year: null });
+  });
+
+  it("drops a [Group] prefix and leaves plain names alone", () => {
+    expect(parseReleaseName("[RARBG] Alien.1979.REMUX.mkv")).toMatchObject({
+      title: "Alien",
+      year: 1979,
+      source: "Remux",
+    });
+    expect(parseReleaseName("Home Movie.mp4")).toEqual({
+      title: "Home Movie",
+      year: null,
+      season: null,
+      episode: null,
+      resolution: null,
+      source: null,
+    });
+  });
+});
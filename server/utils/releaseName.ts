@@ -0,0 +1,107 @@
+/**
+ * Scene-style release name parsing, for uploads whose only title is their
+ * filename: "The.Matrix.1999.1080p.BluRay.x264.mkv" is The Matrix (1999),
+ * a 1080p Blu-ray rip.
+ */
+
+export interface ReleaseInfo {
+  title: string;
+  year: number | null;
+  // Both set when the name has an episode marker like S01E02 or 1x02
+  season: number | null;
+  episode: number | null;
+  resolution: string | null; // "2160p", "1080p", ...
+  source: string | null; // "BluRay", "WEB-DL", "HDTV", ...
+}
+
+const VIDEO_EXTENSIONS = /\.(mkv|mp4|m4v|avi|mov|wmv|webm|mpg|mpeg|ts|m2ts|flv|ogv)$/i;
+
+const EPISODE_PATTERNS = [
+  /\bS(\d{1,2}) ?E(\d{1,3})\b/i,
+  /\b(\d{1,2})x(\d{2,3})\b/,
+  /\bSeason (\d{1,2}) Episode (\d{1,3})\b/i,
+];
+
+const RESOLUTIONS: [RegExp, string][] = [
+  [/\b(2160p|4k|uhd)\b/i, "2160p"],
+  [/\b1080[pi]\b/i, "1080p"],
+  [/\b720p\b/i, "720p"],
+  [/\b576p\b/i, "576p"],
+  [/\b480p\b/i, "480p"],
+];
+
+// First match wins, so the more specific names come first
+const SOURCES: [RegExp, string][] = [
+  [/\bremux\b/i, "Remux"],
+  [/\b(blu-?ray|bdrip|brrip|bdremux)\b/i, "BluRay"],
+  [/\bweb-?dl\b/i, "WEB-DL"],
+  [/\bwebrip\b/i, "WEBRip"],
+  [/\bweb\b/i, "WEB"],
+  [/\bhdtv\b/i, "HDTV"],
+  [/\b(dvdrip|dvd)\b/i, "DVD"],
+  [/\bhdrip\b/i, "HDRip"],
+  [/\b(cam|hdcam)\b/i, "CAM"],
+];
+
+// Tags that only ever follow the title; the title ends before any of them
+const OTHER_TAGS = /\b(x264|x265|h ?264|h ?265|hevc|avc|xvid|divx|10bit|hdr|hdr10|dv|repack|proper|aac|ac3|dts|ddp?5 1)\b/i;
+
+const YEAR = /\b(19\d{2}|20\d{2})\b/g;
+
+/**
+ * Pull the title, year, episode marker, resolution and source out of a
+ * release name. Anything unrecognised is left in the title, so a plain
+ * "Home Movie.mp4" comes back as just "Home Movie".
+ */
+export const parseReleaseName = (filename: string): ReleaseInfo => {
+  const name = filename
+    .replace(VIDEO_EXTENSIONS, "")
+    .replace(/^\[[^\]]*\]\s*/, "") // [Group] prefix
+    .replace(/[._\s]+/g, " ")
+    .trim();
+
+  // Where each recognised tag starts; the title is whatever comes first
+  const tagStarts: number[] = [];
+
+  let season: number | null = null;
+  let episode: number | null = null;
+  for (const pattern of EPISODE_PATTERNS) {
+    const match = pattern.exec(name);
+    if (match) {
+      season = parseInt(match[1]);
+      episode = parseInt(match[2]);
+      tagStarts.push(match.index);
+      break;
+    }
+  }
+
+  // The last year-like number is the release year; one at the very start
+  // is part of the title ("2001 A Space Odyssey 1968", "1917 2019")
+  const years = [...name.matchAll(YEAR)].filter((match) => match.index > 0);
+  const yearMatch = years[years.length - 1];
+  const year = yearMatch ? parseInt(yearMatch[1]) : null;
+  if (yearMatch) tagStarts.push(yearMatch.index);
+
+  const findTag = (tags: [RegExp, string][]) => {
+    for (const [pattern, label] of tags) {
+      const match = pattern.exec(name);
+      if (match && match.index > 0) {
+        tagStarts.push(match.index);
+        return label;
+      }
+    }
+    return null;
+  };
+  const resolution = findTag(RESOLUTIONS);
+  const source = findTag(SOURCES);
+
+  const other = OTHER_TAGS.exec(name);
+  if (other && other.index > 0) tagStarts.push(other.index);
+
+  const title = name
+    .slice(0, tagStarts.length > 0 ? Math.min(...tagStarts) : undefined)
+    .replace(/[\s\-([{]+$/, "")
+    .trim();
+
+  return { title: title || name, year, season, episode, resolution, source };
+};
@@ -0,0 +1,112 @@
+import bcrypt from "bcryptjs";
+import { describe, expect, it, vi } from "vitest";
+import { RoomAccessPolicy, checkRoomAccess, parseAccessSettings, parseInviteOptions } from "./roomAccess";
+
+describe("parseAccessSettings", () => {
+  it("accepts the modes that don't use a password, dropping any password given", () => {
+    for (const mode of ["open", "approval", "invite"]) {
+      expect(parseAccessSettings({ mode, password: "secret" }, false)).toEqual({
+        success: true,
+        value: { mode, password: null },
+      });
+    }
+  });
+
+  it("rejects unknown modes and non-string passwords", () => {
+    expect(parseAccessSettings({ mode: "private" }, false).success).toBe(false);
+    expect(parseAccessSettings(undefined, false).success).toBe(false);
+    expect(parseAccessSettings({ mode: "password", password: 1234 }, false)).toEqual({
+      success: false,
+      error: "password must be a string",
+    });
+  });
+
+  it("needs a password to switch to password mode, unless the room has one", () => {
+    expect(parseAccessSettings({ mode: "password" }, false)).toEqual({
+      success: false,
+      error: "A password or PIN is required",
+    });
+    expect(parseAccessSettings({ mode: "password", password: "" }, true)).toEqual({
+      success: true,
+      value: { mode: "password", password: null },
+    });
+    expect(parseAccessSettings({ mode: "password", password: "1234" }, true)).toEqual({
+      success: true,
+      value: { mode: "password", password: "1234" },
+    });
+  });
+
+  it("bounds the password length", () => {
+    expect(parseAccessSettings({ mode: "password", password: "123" }, false).success).toBe(false);
+    expect(parseAccessSettings({ mode: "password", password: "x".repeat(129) }, false).success).toBe(false);
+  });
+});
+
+describe("checkRoomAccess", () => {
+  const passwordHash = bcrypt.hashSync("hunter2", 4);
+  const policy = (mode: RoomAccessPolicy["mode"]): RoomAccessPolicy => ({
+    mode,
+    passwordHash: mode === "password" ? passwordHash : null,
+  });
+  const validInvite = (token: string) => token === "good";
+
+  it("lets anyone into an open room, ignoring a bad invite", () => {
+    const redeem = vi.fn(validInvite);
+
+    expect(checkRoomAccess(policy("open"), {}, redeem)).toBeNull();
+    expect(checkRoomAccess(policy("open"), { invite: "expired" }, redeem)).toBeNull();
+    expect(redeem).not.toHaveBeenCalled();
+  });
+
+  it("leaves approval rooms to the host", () => {
+    expect(checkRoomAccess(policy("approval"), { password: "hunter2" }, validInvite)).toBe("pending");
+  });
+
+  it("checks the password in password rooms", () => {
+    expect(checkRoomAccess(policy("password"), { password: "hunter2" }, validInvite)).toBeNull();
+    expect(checkRoomAccess(policy("password"), { password: "hunter3" }, validInvite)).toEqual({
+      status: 403,
+      error: "Wrong room password",
+    });
+    expect(checkRoomAccess(policy("password"), { password: 42 }, validInvite)).toEqual({
+      status: 403,
+      error: "This room needs a password",
+    });
+  });
+
+  it("only lets invite holders into invite-only rooms", () => {
+    expect(checkRoomAccess(policy("invite"), {}, validInvite)).toEqual({
+      status: 403,
+      error: "This room is invite-only",
+    });
+    expect(checkRoomAccess(policy("invite"), { invite: "good" }, validInvite)).toBeNull();
+  });
+
+  it("lets a valid invite skip the password and the host, and refuses a bad one", () => {
+    for (const mode of ["approval", "password", "invite"] as const) {
+      expect(checkRoomAccess(policy(mode), { invite: "good" }, validInvite)).toBeNull();
+      expect(checkRoomAccess(policy(mode), { invite: "expired" }, validInvite)).toEqual({
+        status: 403,
+        error: "This invite link is invalid or has expired",
+      });
+    }
+  });
+});
+
+describe("parseInviteOptions", () => {
+  const now = new Date("2026-01-01T00:00:00Z");
+
+  it("defaults to unlimited uses for a day", () => {
+    expect(parseInviteOptions({}, now)).toEqual({
+      success: true,
+      value: { maxUses: null, expiresAt: new Date("2026-01-02T00:00:00Z") },
+    });
+  });
+
+  it("rejects bad use counts and lifetimes", () => {
+    expect(parseInviteOptions({ maxUses: 0 }, now).success).toBe(false);
+    expect(parseInviteOptions({ maxUses: 1.5 }, now).success).toBe(false);
+    expect(parseInviteOptions({ expiresInHours: 0 }, now).success).toBe(false);
+    expect(parseInviteOptions({ expiresInHours: 24 * 31 }, now).success).toBe(false);
+  });
+});
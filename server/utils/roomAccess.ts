@@ -0,0 +1,136 @@
+/**
+ * Room access policies: who may join a room without waiting for the host.
+ *
+ *   open      anyone with the room code
+ *   approval  the host approves every request (the default)
+ *   password  anyone who knows the room's password or PIN
+ *   invite    only people holding an invite link
+ *
+ * Invite links let their holder in whatever the mode is.
+ */
+import bcrypt from "bcryptjs";
+import { randomBytes } from "crypto";
+
+export const ROOM_ACCESS_MODES = ["open", "approval", "password", "invite"] as const;
+export type RoomAccessMode = (typeof ROOM_ACCESS_MODES)[number];
+
+export const isRoomAccessMode = (value: unknown): value is RoomAccessMode =>
+  ROOM_ACCESS_MODES.some((mode) => mode === value);
+
+// Short enough for a numeric PIN
+const MIN_PASSWORD_LENGTH = 4;
+const MAX_PASSWORD_LENGTH = 128;
+
+export interface RoomAccessSettings {
+  mode: RoomAccessMode;
+  // New password to set; null keeps the current one (or none)
+  password: string | null;
+}
+
+/**
+ * Validate access settings from a request body. Switching to password mode
+ * needs a password unless the room already has one.
+ */
+export const parseAccessSettings = (
+  input: unknown,
+  hasPassword: boolean
+): { success: true; value: RoomAccessSettings } | { success: false; error: string } => {
+  const { mode, password } = (input ?? {}) as { mode?: unknown; password?: unknown };
+
+  if (!isRoomAccessMode(mode)) {
+    return { success: false, error: `mode must be one of ${ROOM_ACCESS_MODES.join(", ")}` };
+  }
+  if (password !== undefined && password !== null && typeof password !== "string") {
+    return { success: false, error: "password must be a string" };
+  }
+  if (mode !== "password") {
+    return { success: true, value: { mode, password: null } };
+  }
+
+  if (!password) {
+    return hasPassword
+      ? { success: true, value: { mode, password: null } }
+      : { success: false, error: "A password or PIN is required" };
+  }
+  if (password.length < MIN_PASSWORD_LENGTH || password.length > MAX_PASSWORD_LENGTH) {
+    return {
+      success: false,
+      error: `The password must be ${MIN_PASSWORD_LENGTH} to ${MAX_PASSWORD_LENGTH} characters`,
+    };
+  }
+  return { success: true, value: { mode, password } };
+};
+
+// A room's stored policy
+export interface RoomAccessPolicy {
+  mode: RoomAccessMode;
+  passwordHash: string | null; // only kept in password mode
+}
+
+/**
+ * Why a join request can't be let in straight away under the room's policy;
+ * null when it can, "pending" when the host has to decide. `redeemInvite`
+ * counts one use of an invite link, and is false when the link can't be used.
+ */
+export const checkRoomAccess = (
+  access: RoomAccessPolicy,
+  credentials: { password?: unknown; invite?: unknown },
+  redeemInvite: (token: string) => boolean
+): { status: 403; error: string } | "pending" | null => {
+  // Anyone may join an open room, so an invite has nothing to add there
+  if (access.mode === "open") return null;
+
+  if (typeof credentials.invite === "string" && credentials.invite) {
+    return redeemInvite(credentials.invite)
+      ? null
+      : { status: 403, error: "This invite link is invalid or has expired" };
+  }
+
+  switch (access.mode) {
+    case "password":
+      if (typeof credentials.password !== "string" || !credentials.password) {
+        return { status: 403, error: "This room needs a password" };
+      }
+      return access.passwordHash && bcrypt.compareSync(credentials.password, access.passwordHash)
+        ? null
+        : { status: 403, error: "Wrong room password" };
+    case "invite":
+      return { status: 403, error: "This room is invite-only" };
+    case "approval":
+      return "pending";
+  }
+};
+
+export const INVITE_DEFAULT_TTL_HOURS = 24;
+const INVITE_MAX_TTL_HOURS = 24 * 30;
+
+/**
+ * Validate new invite options: `maxUses` (1 for single-use, null or absent for
+ * unlimited) and `expiresInHours`.
+ */
+export const parseInviteOptions = (
+  input: unknown,
+  now = new Date()
+): { success: true; value: { maxUses: number | null; expiresAt: Date } } | { success: false; error: string } => {
+  const { maxUses, expiresInHours } = (input ?? {}) as { maxUses?: unknown; expiresInHours?: unknown };
+
+  if (maxUses !== undefined && maxUses !== null && (!Number.isInteger(maxUses) || Number(maxUses) < 1)) {
+    return { success: false, error: "maxUses must be a positive whole number" };
+  }
+
+  const hours = expiresInHours ?? INVITE_DEFAULT_TTL_HOURS;
+  if (typeof hours !== "number" || !(hours > 0) || hours > INVITE_MAX_TTL_HOURS) {
+    return { success: false, error: `expiresInHours must be between 0 and ${INVITE_MAX_TTL_HOURS}` };
+  }
+
+  return {
+    success: true,
+    value: {
+      maxUses: typeof maxUses === "number" ? maxUses : null,
+      expiresAt: new Date(now.getTime() + hours * 60 * 60 * 1000),
+    },
+  };
+};
+
+// Unguessable, URL-safe
+export const generateInviteToken = () => randomBytes(18).toString("base64url");
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { selectRecipients } from "./roomBroadcast";
+
+const participants = [
+  { userId: "host", status: "active", role: "host" },
+  { userId: "viewer", status: "active", role: "viewer" },
+  { userId: "rejected", status: "rejected", role: "viewer" },
+  { userId: "kicked", status: "kicked", role: "viewer" },
+];
+
+// One socket each, plus one whose user is still waiting for approval and has
+// no participant record yet
+const connections = [...participants.map(({ userId }) => ({ userId })), { userId: "pending" }];
+
+const userIds = (recipients: { userId: string }[]) => recipients.map((conn) => conn.userId);
+
+describe("selectRecipients", () => {
+  it("reaches active participants only", () => {
+    expect(userIds(selectRecipients(connections, participants))).toEqual(["host", "viewer"]);
+  });
+
+  it("skips a pending socket even with a pending participant record", () => {
+    const withPending = [...participants, { userId: "pending", status: "pending", role: "viewer" }];
+    expect(userIds(selectRecipients(connections, withPending))).not.toContain("pending");
+  });
+
+  it("narrows active participants with `only`", () => {
+    const recipients = selectRecipients(connections, participants, {
+      only: (participant) => participant.role === "host",
+    });
+    expect(userIds(recipients)).toEqual(["host"]);
+  });
+
+  it("reaches every socket for approval frames", () => {
+    expect(userIds(selectRecipients(connections, participants, { includeInactive: true }))).toEqual([
+      "host",
+      "viewer",
+      "rejected",
+      "kicked",
+      "pending",
+    ]);
+  });
+});
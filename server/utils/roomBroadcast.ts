@@ -0,0 +1,30 @@
+/**
+ * Who a room broadcast reaches.
+ *
+ * Room state, chat and clock frames are for active participants only: a
+ * socket whose user is still waiting for approval, or was rejected, kicked or
+ * banned, stays connected to hear its own approval status and nothing else.
+ */
+
+export interface BroadcastOptions<P> {
+  // Narrow the audience further, by the recipient's participant record
+  only?: (participant: P) => boolean;
+  // Reach every socket in the room, whatever its status; for approval frames
+  includeInactive?: boolean;
+}
+
+export const selectRecipients = <C extends { userId: string }, P extends { userId: string; status: string }>(
+  connections: C[],
+  participants: P[],
+  options: BroadcastOptions<P> = {}
+) => {
+  if (options.includeInactive) return connections;
+
+  const active = new Map(
+    participants.filter((participant) => participant.status === "active").map((participant) => [participant.userId, participant])
+  );
+  return connections.filter((conn) => {
+    const participant = active.get(conn.userId);
+    return participant !== undefined && (!options.only || options.only(participant));
+  });
+};
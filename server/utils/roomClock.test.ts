@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyClockChanges,
+  createRoomClock,
+  getClockPosition,
+  toClockFrame,
+  updateRoomClock,
+} from "./roomClock";
+
+const T0 = 1_700_000_000_000;
+
+describe("room clock", () => {
+  it("starts at the given position, never before zero", () => {
+    expect(createRoomClock(12, false, T0)).toEqual({ position: 12, anchor: T0, isPlaying: false, rate: 1 });
+    expect(createRoomClock(-3, true, T0).position).toBe(0);
+  });
+
+  it("advances only while playing", () => {
+    expect(getClockPosition(createRoomClock(10, true, T0), T0 + 2500)).toBe(12.5);
+    expect(getClockPosition(createRoomClock(10, false, T0), T0 + 2500)).toBe(10);
+  });
+
+  it("re-anchors at the current position when only the play state changes", () => {
+    const paused = updateRoomClock(createRoomClock(10, true, T0), { isPlaying: false }, T0 + 4000);
+
+    expect(paused).toEqual({ position: 14, anchor: T0 + 4000, isPlaying: false, rate: 1 });
+  });
+
+  it("captures the frame position at its server time", () => {
+    expect(toClockFrame(createRoomClock(10, true, T0), T0 + 1000)).toEqual({
+      position: 11,
+      server_time: T0 + 1000,
+      is_playing: true,
+      rate: 1,
+    });
+  });
+});
+
+describe("applyClockChanges", () => {
+  const playing = createRoomClock(100, true, T0);
+  // The clock is at 102s two seconds later
+  const now = T0 + 2000;
+
+  it("treats a position report within the tolerance as an echo", () => {
+    expect(applyClockChanges(playing, { position: 102.8 }, now)).toBeNull();
+    expect(applyClockChanges(playing, { position: 101.2, isPlaying: true }, now)).toBeNull();
+  });
+
+  it("jumps for a position report beyond the tolerance", () => {
+    expect(applyClockChanges(playing, { position: 110 }, now)).toMatchObject({ position: 110, anchor: now });
+  });
+
+  it("jumps for an explicit seek however small", () => {
+    expect(applyClockChanges(playing, { seek: true, position: 102.3 }, now)?.position).toBe(102.3);
+  });
+
+  it("takes the reported position with a play or pause, even inside the tolerance", () => {
+    expect(applyClockChanges(playing, { isPlaying: false, position: 101.5 }, now)).toMatchObject({
+      position: 101.5,
+      isPlaying: false,
+    });
+    expect(applyClockChanges(playing, { isPlaying: false }, now)).toMatchObject({ position: 102, isPlaying: false });
+  });
+
+  it("restarts from the given position, or zero, for a new video", () => {
+    expect(applyClockChanges(playing, { videoChanged: true }, now)?.position).toBe(0);
+    expect(applyClockChanges(playing, { videoChanged: true, position: 30 }, now)?.position).toBe(30);
+  });
+
+  it("changes nothing for an empty update", () => {
+    expect(applyClockChanges(playing, {}, now)).toBeNull();
+    expect(applyClockChanges(playing, { seek: true }, now)).toBeNull();
+  });
+});
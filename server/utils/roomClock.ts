@@ -0,0 +1,103 @@
+/**
+ * Server-authoritative playback clock for a room.
+ * The clock stores the media position at a wall-clock anchor, so the current
+ * position can be derived at any time without clients reporting it.
+ */
+import type { ClockFrame } from "../../shared/roomProtocol";
+
+export interface RoomClock {
+  position: number; // Media position (seconds) at the anchor
+  anchor: number; // Server wall-clock time (ms) the position was captured at
+  isPlaying: boolean;
+  rate: number;
+}
+
+export const createRoomClock = (
+  position: number,
+  isPlaying: boolean,
+  now = Date.now()
+): RoomClock => ({
+  position: Math.max(0, position),
+  anchor: now,
+  isPlaying,
+  rate: 1,
+});
+
+/**
+ * Current media position derived from the anchor
+ */
+export const getClockPosition = (clock: RoomClock, now = Date.now()): number => {
+  if (!clock.isPlaying) return clock.position;
+  return clock.position + ((now - clock.anchor) / 1000) * clock.rate;
+};
+
+/**
+ * Re-anchor the clock at `now`, optionally jumping to a new position and/or
+ * changing the play state
+ */
+export const updateRoomClock = (
+  clock: RoomClock,
+  changes: { position?: number; isPlaying?: boolean },
+  now = Date.now()
+): RoomClock => ({
+  ...clock,
+  position: Math.max(0, changes.position ?? getClockPosition(clock, now)),
+  anchor: now,
+  isPlaying: changes.isPlaying ?? clock.isPlaying,
+});
+
+// Position reports closer than this to the clock are treated as echoes of the
+// current state rather than seeks
+export const CLOCK_SEEK_TOLERANCE_S = 1;
+
+export interface ClockChanges {
+  videoChanged?: boolean;
+  seek?: boolean;
+  position?: number;
+  isPlaying?: boolean;
+}
+
+/**
+ * Apply a host state change to the clock. Returns the re-anchored clock, or
+ * null when nothing about the clock changed.
+ */
+export const applyClockChanges = (
+  clock: RoomClock,
+  changes: ClockChanges,
+  now = Date.now()
+): RoomClock | null => {
+  const next: { position?: number; isPlaying?: boolean } = {};
+
+  if (changes.videoChanged) {
+    next.position = changes.position ?? 0;
+  } else if (changes.seek && typeof changes.position === "number") {
+    next.position = changes.position;
+  } else if (
+    typeof changes.position === "number" &&
+    Math.abs(changes.position - getClockPosition(clock, now)) > CLOCK_SEEK_TOLERANCE_S
+  ) {
+    next.position = changes.position;
+  }
+
+  if (typeof changes.isPlaying === "boolean" && changes.isPlaying !== clock.isPlaying) {
+    next.isPlaying = changes.isPlaying;
+    // A play/pause carries the host's exact position; honour it even inside
+    // the seek tolerance so everybody stops on the same frame.
+    if (typeof changes.position === "number") next.position = changes.position;
+  }
+
+  if (next.position === undefined && next.isPlaying === undefined) return null;
+
+  return updateRoomClock(clock, next, now);
+};
+
+/**
+ * Snapshot sent to clients. The position is captured at `server_time` so the
+ * client can extrapolate with its own estimate of the server clock.
+ */
+export const toClockFrame = (clock: RoomClock, now = Date.now()): ClockFrame => ({
+  position: getClockPosition(clock, now),
+  server_time: now,
+  is_playing: clock.isPlaying,
+  rate: clock.rate,
+});
@@ -0,0 +1,201 @@
+/**
+ * S3-compatible storage backend (AWS S3, MinIO, R2, ...), talking to the
+ * bucket over its REST API with Signature Version 4.
+ *
+ * Configured with S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and
+ * S3_SECRET_ACCESS_KEY, plus S3_REGION (default us-east-1). Buckets are
+ * addressed by path (endpoint/bucket/key), which every S3-compatible server
+ * understands; set S3_FORCE_PATH_STYLE=false for virtual-hosted buckets
+ * (bucket.endpoint/key). Objects are served by the API as /storage/s3/<key>.
+ */
+import { createHash, createHmac } from "crypto";
+import { Readable } from "stream";
+import type { ReadableStream as WebReadableStream } from "stream/web";
+import type { StorageBackend } from "./storage";
+
+const S3_ENDPOINT = process.env.S3_ENDPOINT || "";
+const S3_BUCKET = process.env.S3_BUCKET || "";
+const S3_REGION = process.env.S3_REGION || "us-east-1";
+const S3_ACCESS_KEY_ID = process.env.S3_ACCESS_KEY_ID || "";
+const S3_SECRET_ACCESS_KEY = process.env.S3_SECRET_ACCESS_KEY || "";
+const S3_FORCE_PATH_STYLE = process.env.S3_FORCE_PATH_STYLE !== "false";
+
+const PUBLIC_PREFIX = "/storage/s3/";
+
+// Streamed uploads aren't hashed up front, so their signature covers the
+// headers only
+const UNSIGNED_PAYLOAD = "UNSIGNED-PAYLOAD";
+const EMPTY_PAYLOAD_HASH = createHash("sha256").update("").digest("hex");
+
+// encodeURIComponent leaves !'()* alone; SigV4 wants them escaped
+const encodeRfc3986 = (value: string) =>
+  encodeURIComponent(value).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const encodeKey = (key: string) => key.split("/").map(encodeRfc3986).join("/");
+
+const objectUrl = (key: string) => {
+  const endpoint = new URL(S3_ENDPOINT);
+  if (S3_FORCE_PATH_STYLE) {
+    return new URL(`/${encodeRfc3986(S3_BUCKET)}/${encodeKey(key)}`, endpoint);
+  }
+  return new URL(`${endpoint.protocol}//${S3_BUCKET}.${endpoint.host}/${encodeKey(key)}`);
+};
+
+const hmac = (key: Buffer | string, data: string) => createHmac("sha256", key).update(data).digest();
+
+// 20130524T000000Z
+const amzDateTime = (date: Date) => date.toISOString().replace(/[-:]|\.\d{3}/g, "");
+
+/**
+ * SigV4 signature for a request to `url`. `headers` are the lowercase headers
+ * to sign (host is added); `query` is signed with them.
+ */
+const sign = (options: {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  query: Record<string, string>;
+  payloadHash: string;
+  dateTime: string;
+}) => {
+  const date = options.dateTime.slice(0, 8);
+  const scope = `${date}/${S3_REGION}/s3/aws4_request`;
+
+  const headers: Record<string, string> = { ...options.headers, host: options.url.host };
+  const signedHeaders = Object.keys(headers).sort();
+  const canonicalQuery = Object.keys(options.query)
+    .sort()
+    .map((name) => `${encodeRfc3986(name)}=${encodeRfc3986(options.query[name])}`)
+    .join("&");
+  const canonicalRequest = [
+    options.method,
+    options.url.pathname,
+    canonicalQuery,
+    signedHeaders.map((name) => `${name}:${headers[name].trim()}\n`).join(""),
+    signedHeaders.join(";"),
+    options.payloadHash,
+  ].join("\n");
+
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    options.dateTime,
+    scope,
+    createHash("sha256").update(canonicalRequest).digest("hex"),
+  ].join("\n");
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${S3_SECRET_ACCESS_KEY}`, date), S3_REGION), "s3"), "aws4_request");
+
+  return {
+    credential: `${S3_ACCESS_KEY_ID}/${scope}`,
+    signedHeaders: signedHeaders.join(";"),
+    signature: hmac(signingKey, stringToSign).toString("hex"),
+  };
+};
+
+// Send a request signed in the Authorization header
+const s3Request = (
+  method: string,
+  key: string,
+  options: { headers?: Record<string, string>; body?: Buffer | Readable; payloadHash?: string } = {}
+) => {
+  const url = objectUrl(key);
+  const dateTime = amzDateTime(new Date());
+  const payloadHash = options.payloadHash ?? EMPTY_PAYLOAD_HASH;
+  const headers: Record<string, string> = {
+    ...options.headers,
+    "x-amz-content-sha256": payloadHash,
+    "x-amz-date": dateTime,
+  };
+  const { credential, signedHeaders, signature } = sign({ method, url, headers, query: {}, payloadHash, dateTime });
+
+  const body = options.body instanceof Readable ? (Readable.toWeb(options.body) as ReadableStream) : options.body;
+  return fetch(url, {
+    method,
+    headers: {
+      ...headers,
+      authorization: `AWS4-HMAC-SHA256 Credential=${credential}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    },
+    body,
+    // Required by fetch for streamed request bodies
+    duplex: "half",
+  });
+};
+
+const failed = async (action: string, key: string, response: Response) =>
+  new Error(`S3 ${action} of ${key} failed: ${response.status} ${(await response.text()).slice(0, 200)}`);
+
+// Total object size from "bytes 0-99/1234"
+const sizeFromContentRange = (contentRange: string | null) => Number(contentRange?.split("/")[1]) || null;
+
+export const s3Storage: StorageBackend = {
+  name: "s3",
+  isAvailable: () => Boolean(S3_ENDPOINT && S3_BUCKET && S3_ACCESS_KEY_ID && S3_SECRET_ACCESS_KEY),
+
+  put: async (key, body, options) => {
+    const response = await s3Request("PUT", key, {
+      headers: { "content-type": options.contentType, "content-length": String(options.contentLength) },
+      body,
+      payloadHash: UNSIGNED_PAYLOAD,
+    });
+    if (!response.ok) throw await failed("upload", key, response);
+  },
+
+  get: async (key, range) => {
+    let response = await s3Request("GET", key, {
+      headers: range ? { range: `bytes=${range.start}-${range.end ?? ""}` } : {},
+    });
+    if (response.status === 416) {
+      await response.body?.cancel();
+      response = await s3Request("GET", key);
+    }
+    if (response.status === 404) {
+      await response.body?.cancel();
+      return null;
+    }
+    if (!response.ok || !response.body) throw await failed("download", key, response);
+
+    const contentLength = Number(response.headers.get("content-length"));
+    const partial = response.status === 206;
+    const contentRange = response.headers.get("content-range");
+    const [start, end] = (contentRange?.match(/bytes (\d+)-(\d+)/) ?? []).slice(1).map(Number);
+    return {
+      body: Readable.fromWeb(response.body as WebReadableStream),
+      size: partial ? sizeFromContentRange(contentRange) ?? contentLength : contentLength,
+      range: partial && end !== undefined ? { start, end } : null,
+      contentType: response.headers.get("content-type"),
+    };
+  },
+
+  delete: async (key) => {
+    const response = await s3Request("DELETE", key);
+    if (!response.ok && response.status !== 404) throw await failed("delete", key, response);
+  },
+
+  // Query-string signed GET URL
+  signedUrl: (key, expiresInSeconds) => {
+    const url = objectUrl(key);
+    const dateTime = amzDateTime(new Date());
+    const query: Record<string, string> = {
+      "X-Amz-Algorithm": "AWS4-HMAC-SHA256",
+      "X-Amz-Credential": `${S3_ACCESS_KEY_ID}/${dateTime.slice(0, 8)}/${S3_REGION}/s3/aws4_request`,
+      "X-Amz-Date": dateTime,
+      "X-Amz-Expires": String(expiresInSeconds),
+      "X-Amz-SignedHeaders": "host",
+    };
+    const { signature } = sign({ method: "GET", url, headers: {}, query, payloadHash: UNSIGNED_PAYLOAD, dateTime });
+
+    Object.entries(query).forEach(([name, value]) => url.searchParams.set(name, value));
+    url.searchParams.set("X-Amz-Signature", signature);
+    return url.toString();
+  },
+
+  publicUrl: (key) => PUBLIC_PREFIX + encodeKey(key),
+  keyFromUrl: (url) => {
+    if (!url.startsWith(PUBLIC_PREFIX)) return null;
+    try {
+      return decodeURIComponent(url.slice(PUBLIC_PREFIX.length));
+    } catch {
+      return null; // malformed escape
+    }
+  },
+  localPath: () => null,
+};
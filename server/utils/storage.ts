@@ -0,0 +1,91 @@
+/**
+ * Where uploaded media and cached posters are kept.
+ *
+ * STORAGE_BACKEND picks the backend new files go to: "local" (server/uploads,
+ * the default) or "s3" (an S3-compatible bucket). Media rows record the
+ * backend and key their file was stored under, so files already stored stay
+ * readable after switching.
+ */
+import fs from "fs";
+import path from "path";
+import type { Readable } from "stream";
+import { localDiskStorage } from "./localStorage";
+import { s3Storage } from "./s3Storage";
+
+// Inclusive byte offsets, as in an HTTP Range header; no `end` reads to the
+// end of the object
+export interface ByteRange {
+  start: number;
+  end?: number;
+}
+
+export interface StoredObject {
+  body: Readable;
+  size: number; // of the whole object
+  // The bytes in `body` when a range was read, else null
+  range: { start: number; end: number } | null;
+  contentType: string | null;
+}
+
+export interface StorageBackend {
+  name: string;
+  // False when the backend can't be used here, e.g. no bucket configured
+  isAvailable: () => boolean;
+  put: (key: string, body: Buffer | Readable, options: { contentType: string; contentLength: number }) => Promise<void>;
+  // Null when there's no such object. A range past the end is ignored and
+  // the whole object returned, as HTTP allows.
+  get: (key: string, range?: ByteRange) => Promise<StoredObject | null>;
+  // Deleting an object that isn't there is not an error
+  delete: (key: string) => Promise<void>;
+  // A URL anyone can read the object from until it expires
+  signedUrl: (key: string, expiresInSeconds: number) => string;
+  // The URL the app stores and serves the object under, and back
+  publicUrl: (key: string) => string;
+  keyFromUrl: (url: string) => string | null;
+  // The object's file on disk, for backends that keep one
+  localPath: (key: string) => string | null;
+}
+
+const knownBackends: StorageBackend[] = [localDiskStorage, s3Storage];
+
+const STORAGE_BACKEND = process.env.STORAGE_BACKEND || "local";
+
+export const getStorageBackend = (name: string) => knownBackends.find((backend) => backend.name === name) ?? null;
+
+// The backend new files go to; throws when it isn't usable, so a
+// misconfigured server fails at startup rather than on the first upload
+export const defaultStorage = () => {
+  const backend = getStorageBackend(STORAGE_BACKEND);
+  if (!backend) {
+    throw new Error(`Unknown STORAGE_BACKEND "${STORAGE_BACKEND}"`);
+  }
+  if (!backend.isAvailable()) {
+    throw new Error(`Storage backend "${backend.name}" is not configured`);
+  }
+  return backend;
+};
+
+// The backend and key behind an /uploads or /storage URL; null for anything
+// else (library files, external links)
+export const storedObjectForUrl = (url: string) => {
+  for (const backend of knownBackends) {
+    const key = backend.keyFromUrl(url);
+    if (key !== null) return { backend, key };
+  }
+  return null;
+};
+
+// Move a finished file from local disk into `backend`: a rename when the
+// backend is local disk too, otherwise an upload followed by removing the file
+export const storeFile = async (backend: StorageBackend, key: string, filePath: string, contentType: string) => {
+  const target = backend.localPath(key);
+  if (target) {
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await fs.promises.rename(filePath, target);
+    return;
+  }
+
+  const { size } = await fs.promises.stat(filePath);
+  await backend.put(key, fs.createReadStream(filePath), { contentType, contentLength: size });
+  await fs.promises.rm(filePath, { force: true });
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { srtToVtt, toWebVtt } from "./subtitles";
+
+const srt = [
+  "1",
+  "00:00:01,000 --> 00:00:03,500",
+  "Hello there.",
+  "",
+  "2",
+  "00:00:04,250 --> 00:00:06,000",
+  "General Kenobi,",
+  "you are a bold one.",
+].join("\r\n");
+
+describe("srtToVtt", () => {
+  it("adds the header and switches the millisecond separator", () => {
+    expect(srtToVtt(srt)).toBe(
+      [
+        "WEBVTT",
+        "",
+        "1",
+        "00:00:01.000 --> 00:00:03.500",
+        "Hello there.",
+        "",
+        "2",
+        "00:00:04.250 --> 00:00:06.000",
+        "General Kenobi,",
+        "you are a bold one.",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("keeps numeric cue indexes as identifiers and leaves commas in cue text alone", () => {
+    const vtt = srtToVtt("12\n00:01:00,000 --> 00:01:02,000\nWell, 3,000 of them.\n");
+
+    expect(vtt).toBe("WEBVTT\n\n12\n00:01:00.000 --> 00:01:02.000\nWell, 3,000 of them.\n");
+  });
+
+  it("pads single-digit hours", () => {
+    expect(srtToVtt("1\n0:00:01,000 --> 1:02:03,004\nHi")).toContain("00:00:01.000 --> 01:02:03.004");
+  });
+
+  it("keeps cue settings after the timings", () => {
+    expect(srtToVtt("1\n00:00:01,000 --> 00:00:02,000 X1:40 X2:600\nHi")).toContain(
+      "00:00:01.000 --> 00:00:02.000 X1:40 X2:600"
+    );
+  });
+});
+
+describe("toWebVtt", () => {
+  it("converts SRT with a byte order mark and CRLF line endings", () => {
+    const vtt = toWebVtt(`\uFEFF${srt}\r\n`, "Movie.en.SRT");
+
+    expect(vtt.startsWith("WEBVTT\n\n1\n00:00:01.000 --> 00:00:03.500\n")).toBe(true);
+    expect(vtt).not.toMatch(/\r|\uFEFF/);
+  });
+
+  it("passes WebVTT through with its line endings normalized", () => {
+    const vtt = "\uFEFFWEBVTT\r\n\r\n00:01.000 --> 00:02.000\r\nHi\r\n";
+
+    expect(toWebVtt(vtt, "movie.vtt")).toBe("WEBVTT\n\n00:01.000 --> 00:02.000\nHi\n");
+  });
+
+  it("rejects files that aren't what their extension says", () => {
+    expect(() => toWebVtt("1\nHello\n", "movie.srt")).toThrow(/no cue timings/);
+    expect(() => toWebVtt(srt, "movie.vtt")).toThrow(/missing WEBVTT header/);
+    expect(() => toWebVtt("[Script Info]", "movie.ass")).toThrow(/\.srt or \.vtt/);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Subtitle helpers: SRT to WebVTT conversion for uploaded files and
+ * extraction of embedded text subtitle streams from video containers.
+ * Browsers only render WebVTT in <track>, so everything is stored as .vtt.
+ */
+import path from "path";
+import { FFMPEG_PATH, probeStreams, runCommand } from "./ffmpeg";
+
+// Embedded codecs ffmpeg can convert to WebVTT. Image-based formats
+// (PGS, VobSub, DVB) would need OCR and are skipped.
+const TEXT_SUBTITLE_CODECS = new Set(["subrip", "srt", "ass", "ssa", "mov_text", "webvtt", "text"]);
+
+const SRT_TIMING = /^(\d{1,2}:\d{2}:\d{2}),(\d{3})(\s+-->\s+)(\d{1,2}:\d{2}:\d{2}),(\d{3})/;
+
+const normalizeText = (text: string) => text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+
+/**
+ * Convert SubRip to WebVTT. Cue numbers are kept as cue identifiers; only the
+ * timing lines need their millisecond separator changed.
+ */
+export const srtToVtt = (srt: string): string => {
+  const lines = normalizeText(srt)
+    .trim()
+    .split("\n")
+    .map((line) =>
+      // WebVTT wants two-digit hours, which some SRT writers leave out
+      line.replace(SRT_TIMING, (_, start, startMs, arrow, end, endMs) =>
+        `${start.padStart(8, "0")}.${startMs}${arrow}${end.padStart(8, "0")}.${endMs}`
+      )
+    );
+
+  return `WEBVTT\n\n${lines.join("\n")}\n`;
+};
+
+/**
+ * Turn an uploaded subtitle file into WebVTT. Throws for formats we can't
+ * read so the route can answer 400.
+ */
+export const toWebVtt = (content: string, filename: string): string => {
+  const ext = path.extname(filename).toLowerCase();
+  const text = normalizeText(content);
+
+  if (ext === ".vtt") {
+    if (!text.startsWith("WEBVTT")) {
+      throw new Error("Not a valid WebVTT file (missing WEBVTT header)");
+    }
+    return text;
+  }
+
+  if (ext === ".srt") {
+    if (!text.split("\n").some((line) => SRT_TIMING.test(line))) {
+      throw new Error("Not a valid SRT file (no cue timings found)");
+    }
+    return srtToVtt(text);
+  }
+
+  throw new Error("Subtitles must be .srt or .vtt files");
+};
+
+export interface ExtractedSubtitle {
+  streamIndex: number;
+  language: string;
+  label: string;
+  outputPath: string;
+}
+
+/**
+ * Convert every embedded text subtitle stream in `inputPath` to WebVTT in
+ * `outputDir`, in a single ffmpeg pass. Returns nothing when the container
+ * has no text subtitles.
+ */
+export const extractEmbeddedSubtitles = async (
+  inputPath: string,
+  outputDir: string
+): Promise<ExtractedSubtitle[]> => {
+  const streams = (await probeStreams(inputPath)).filter(
+    (stream) => stream.codec_type === "subtitle" && TEXT_SUBTITLE_CODECS.has(stream.codec_name ?? "")
+  );
+  if (streams.length === 0) return [];
+
+  const extracted = streams.map((stream) => {
+    const language = stream.tags?.language || "und";
+    return {
+      streamIndex: stream.index,
+      language,
+      label: stream.tags?.title || language.toUpperCase(),
+      outputPath: path.join(outputDir, `embedded-${stream.index}.vtt`),
+    };
+  });
+
+  const args = ["-y", "-i", inputPath];
+  extracted.forEach((subtitle) => {
+    args.push("-map", `0:${subtitle.streamIndex}`, "-c:s", "webvtt", subtitle.outputPath);
+  });
+  await runCommand(FFMPEG_PATH, args);
+
+  return extracted;
+};
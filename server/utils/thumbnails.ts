@@ -0,0 +1,84 @@
+/**
+ * Poster frames and timeline preview sprites for uploaded videos.
+ * The sprite is a single JPEG grid; a WebVTT "thumbnails" track maps each
+ * time range to its tile with a #xywh= media fragment, the format most web
+ * players understand for hover-scrub previews.
+ * Requires `ffmpeg`; see ./ffmpeg.
+ */
+import fs from "fs";
+import path from "path";
+import { FFMPEG_PATH, runCommand } from "./ffmpeg";
+
+export const POSTER_FILENAME = "poster.jpg";
+export const SPRITE_FILENAME = "sprite.jpg";
+export const PREVIEW_TRACK_FILENAME = "previews.vtt";
+
+const POSTER_WIDTH = 640;
+const TILE_WIDTH = 160;
+const SPRITE_COLUMNS = 10;
+// Caps the sprite at 10x10 tiles; longer videos get a wider interval
+const MAX_TILES = 100;
+const MIN_TILE_INTERVAL_SECONDS = 5;
+
+const formatVttTime = (seconds: number) => {
+  const ms = Math.round(seconds * 1000);
+  const h = String(Math.floor(ms / 3600000)).padStart(2, "0");
+  const m = String(Math.floor((ms % 3600000) / 60000)).padStart(2, "0");
+  const s = String(Math.floor((ms % 60000) / 1000)).padStart(2, "0");
+  return `${h}:${m}:${s}.${String(ms % 1000).padStart(3, "0")}`;
+};
+
+/**
+ * Grab a representative frame. ffmpeg's thumbnail filter picks the most
+ * typical frame of a short window starting 10% in, which skips black
+ * intros and logos more reliably than a fixed timestamp.
+ */
+export const generatePoster = async (inputPath: string, outputPath: string, duration: number) => {
+  const seekTo = Math.min(duration * 0.1, 300);
+  await runCommand(FFMPEG_PATH, [
+    "-y",
+    "-ss", seekTo.toFixed(2),
+    "-i", inputPath,
+    "-vf", `thumbnail=100,scale=${POSTER_WIDTH}:-2`,
+    "-frames:v", "1",
+    "-q:v", "3",
+    outputPath,
+  ]);
+};
+
+/**
+ * Build the sprite sheet and its WebVTT track in `outputDir`. Tile height
+ * follows the source aspect ratio. `spriteUrl` is the public URL the track
+ * points at.
+ */
+export const generatePreviewSprite = async (
+  inputPath: string,
+  outputDir: string,
+  spriteUrl: string,
+  video: { duration: number; width: number; height: number }
+) => {
+  const interval = Math.max(MIN_TILE_INTERVAL_SECONDS, Math.ceil(video.duration / MAX_TILES));
+  const tileCount = Math.max(1, Math.ceil(video.duration / interval));
+  const rows = Math.ceil(tileCount / SPRITE_COLUMNS);
+  // Even height keeps the JPEG encoder happy
+  const tileHeight = Math.round((TILE_WIDTH * video.height) / video.width / 2) * 2;
+
+  await runCommand(FFMPEG_PATH, [
+    "-y",
+    "-i", inputPath,
+    "-vf", `fps=1/${interval},scale=${TILE_WIDTH}:${tileHeight},tile=${SPRITE_COLUMNS}x${rows}`,
+    "-frames:v", "1",
+    "-q:v", "5",
+    path.join(outputDir, SPRITE_FILENAME),
+  ]);
+
+  const cues = Array.from({ length: tileCount }, (_, i) => {
+    const start = i * interval;
+    const end = Math.min(start + interval, video.duration);
+    const x = (i % SPRITE_COLUMNS) * TILE_WIDTH;
+    const y = Math.floor(i / SPRITE_COLUMNS) * tileHeight;
+    return `${formatVttTime(start)} --> ${formatVttTime(end)}\n${spriteUrl}#xywh=${x},${y},${TILE_WIDTH},${tileHeight}`;
+  });
+
+  fs.writeFileSync(path.join(outputDir, PREVIEW_TRACK_FILENAME), `WEBVTT\n\n${cues.join("\n\n")}\n`);
+};
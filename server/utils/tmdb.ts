@@ -0,0 +1,200 @@
+/**
+ * TMDB metadata provider
+ * Uses The Movie Database v3 API (requires TMDB_API_KEY)
+ */
+import type { MediaMetadata, MetadataCandidate, MetadataLookup, MetadataProvider } from "./metadata";
+
+const TMDB_API_KEY = process.env.TMDB_API_KEY || "";
+const TMDB_BASE_URL = "https://api.themoviedb.org/3";
+const TMDB_IMAGE_BASE_URL = "https://image.tmdb.org/t/p/w500";
+const TMDB_SITE_URL = "https://www.themoviedb.org";
+
+// Certifications are per country; OMDB reports US ones, so match it
+const CERTIFICATION_COUNTRY = "US";
+const MAX_ACTORS = 4;
+// Search results carry no IMDb ID, so each candidate costs one more request
+const MAX_CANDIDATES = 8;
+
+// The parts of TMDB's movie, show and episode responses we read
+interface TmdbDetails {
+  id: number;
+  title?: string; // movies
+  name?: string; // shows and episodes
+  overview?: string;
+  poster_path?: string | null;
+  still_path?: string | null; // episodes
+  release_date?: string;
+  first_air_date?: string;
+  air_date?: string;
+  imdb_id?: string | null;
+  genres?: { name: string }[];
+  number_of_seasons?: number;
+  credits?: {
+    cast?: { name: string }[];
+    crew?: { name: string; job: string }[];
+  };
+  external_ids?: { imdb_id?: string | null };
+  release_dates?: {
+    results: { iso_3166_1: string; release_dates: { certification: string }[] }[];
+  };
+  content_ratings?: { results: { iso_3166_1: string; rating: string }[] };
+}
+
+interface TmdbSearchResults {
+  results?: { id: number; title?: string; release_date?: string; poster_path?: string | null }[];
+}
+
+interface TmdbFindResults {
+  movie_results?: { id: number }[];
+  tv_results?: { id: number }[];
+}
+
+async function queryTmdb<T>(endpoint: string, params: Record<string, string> = {}): Promise<T | null> {
+  try {
+    const response = await fetch(
+      `${TMDB_BASE_URL}${endpoint}?${new URLSearchParams({ api_key: TMDB_API_KEY, ...params })}`
+    );
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      console.error("TMDB API error:", response.statusText);
+      return null;
+    }
+
+    return (await response.json()) as T;
+  } catch (error) {
+    console.error("Error fetching TMDB metadata:", error);
+    return null;
+  }
+}
+
+const year = (date: string | undefined) => (date ? parseInt(date.slice(0, 4)) || null : null);
+const image = (imagePath: string | null | undefined) =>
+  imagePath ? `${TMDB_IMAGE_BASE_URL}${imagePath}` : null;
+const names = (people: { name: string }[] | undefined) =>
+  people && people.length > 0 ? people.map((person) => person.name).join(", ") : null;
+
+const findMovie = async (movie: { title: string; year?: number | null; imdbId?: string | null }) => {
+  const id = movie.imdbId
+    ? (await queryTmdb<TmdbFindResults>(`/find/${movie.imdbId}`, { external_source: "imdb_id" }))
+        ?.movie_results?.[0]?.id
+    : (
+        await queryTmdb<TmdbSearchResults>("/search/movie", {
+          query: movie.title,
+          ...(movie.year ? { primary_release_year: String(movie.year) } : {}),
+        })
+      )?.results?.[0]?.id;
+  return id ? queryTmdb<TmdbDetails>(`/movie/${id}`, { append_to_response: "credits,release_dates" }) : null;
+};
+
+const searchMovies = async (title: string, releaseYear: number | null): Promise<MetadataCandidate[]> => {
+  const search = await queryTmdb<TmdbSearchResults>("/search/movie", {
+    query: title,
+    ...(releaseYear ? { primary_release_year: String(releaseYear) } : {}),
+  });
+
+  const candidates = await Promise.all(
+    (search?.results ?? []).slice(0, MAX_CANDIDATES).map(async (movie) => {
+      const ids = await queryTmdb<{ imdb_id?: string | null }>(`/movie/${movie.id}/external_ids`);
+      return ids?.imdb_id
+        ? {
+            imdbId: ids.imdb_id,
+            title: movie.title || title,
+            releaseYear: year(movie.release_date),
+            posterUrl: image(movie.poster_path),
+            provider: "tmdb",
+          }
+        : null;
+    })
+  );
+
+  return candidates.filter((candidate): candidate is MetadataCandidate => Boolean(candidate));
+};
+
+const findShowId = async (show: { title: string; imdbId: string | null }) => {
+  if (show.imdbId) {
+    const found = await queryTmdb<TmdbFindResults>(`/find/${show.imdbId}`, { external_source: "imdb_id" });
+    const id = found?.tv_results?.[0]?.id;
+    if (id) return id;
+  }
+
+  const search = await queryTmdb<TmdbSearchResults>("/search/tv", { query: show.title });
+  return search?.results?.[0]?.id ?? null;
+};
+
+const movieMetadata = (movie: TmdbDetails): Partial<MediaMetadata> => ({
+  title: movie.title || null,
+  description: movie.overview || null,
+  posterUrl: image(movie.poster_path),
+  imdbId: movie.imdb_id || null,
+  releaseYear: year(movie.release_date),
+  rating:
+    movie.release_dates?.results
+      .find((result) => result.iso_3166_1 === CERTIFICATION_COUNTRY)
+      ?.release_dates.find((release) => release.certification)?.certification || null,
+  genre: names(movie.genres),
+  director: names(movie.credits?.crew?.filter((member) => member.job === "Director")),
+  actors: names(movie.credits?.cast?.slice(0, MAX_ACTORS)),
+  externalApiUrl: `${TMDB_SITE_URL}/movie/${movie.id}`,
+});
+
+const showMetadata = (show: TmdbDetails): Partial<MediaMetadata> => ({
+  title: show.name || null,
+  description: show.overview || null,
+  posterUrl: image(show.poster_path),
+  imdbId: show.external_ids?.imdb_id || null,
+  releaseYear: year(show.first_air_date),
+  rating:
+    show.content_ratings?.results.find((result) => result.iso_3166_1 === CERTIFICATION_COUNTRY)?.rating ||
+    null,
+  genre: names(show.genres),
+  actors: names(show.credits?.cast?.slice(0, MAX_ACTORS)),
+  externalApiUrl: `${TMDB_SITE_URL}/tv/${show.id}`,
+  totalSeasons: show.number_of_seasons ?? null,
+});
+
+const episodeMetadata = (
+  showId: number,
+  query: Extract<MetadataLookup, { kind: "episode" }>,
+  episode: TmdbDetails
+): Partial<MediaMetadata> => ({
+  title: episode.name || null,
+  description: episode.overview || null,
+  posterUrl: image(episode.still_path),
+  imdbId: episode.external_ids?.imdb_id || null,
+  releaseYear: year(episode.air_date),
+  director: names(episode.credits?.crew?.filter((member) => member.job === "Director")),
+  actors: names(episode.credits?.cast?.slice(0, MAX_ACTORS)),
+  externalApiUrl: `${TMDB_SITE_URL}/tv/${showId}/season/${query.season}/episode/${query.episode}`,
+});
+
+export const tmdbProvider: MetadataProvider = {
+  name: "tmdb",
+  isAvailable: () => Boolean(TMDB_API_KEY),
+  lookup: async (query) => {
+    switch (query.kind) {
+      case "movie": {
+        const movie = await findMovie(query);
+        return movie ? movieMetadata(movie) : null;
+      }
+      case "series": {
+        const showId = await findShowId({ title: query.title, imdbId: null });
+        const show = showId
+          ? await queryTmdb<TmdbDetails>(`/tv/${showId}`, {
+              append_to_response: "credits,content_ratings,external_ids",
+            })
+          : null;
+        return show ? showMetadata(show) : null;
+      }
+      case "episode": {
+        const showId = await findShowId(query.series);
+        const episode = showId
+          ? await queryTmdb<TmdbDetails>(`/tv/${showId}/season/${query.season}/episode/${query.episode}`, {
+              append_to_response: "credits,external_ids",
+            })
+          : null;
+        return showId && episode ? episodeMetadata(showId, query, episode) : null;
+      }
+    }
+  },
+  search: searchMovies,
+};
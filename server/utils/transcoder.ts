@@ -0,0 +1,114 @@
+/**
+ * ffmpeg wrapper that turns an uploaded video into an adaptive HLS ladder:
+ * one rendition per entry in the ladder plus a master playlist, so players
+ * can pick a quality that fits the viewer's connection.
+ * Requires `ffmpeg` and `ffprobe`; see ./ffmpeg.
+ */
+import fs from "fs";
+import path from "path";
+import { FFMPEG_PATH, probeStreams, runCommand } from "./ffmpeg";
+
+export interface HlsRendition {
+  name: string;
+  height: number; // Target height; smaller sources are never upscaled
+  videoBitrate: string;
+  maxrate: string;
+  bufsize: string;
+  audioBitrate: string;
+}
+
+export const HLS_LADDER: HlsRendition[] = [
+  { name: "360p", height: 360, videoBitrate: "800k", maxrate: "856k", bufsize: "1200k", audioBitrate: "96k" },
+  { name: "480p", height: 480, videoBitrate: "1400k", maxrate: "1498k", bufsize: "2100k", audioBitrate: "128k" },
+  { name: "720p", height: 720, videoBitrate: "2800k", maxrate: "2996k", bufsize: "4200k", audioBitrate: "128k" },
+  { name: "1080p", height: 1080, videoBitrate: "5000k", maxrate: "5350k", bufsize: "7500k", audioBitrate: "192k" },
+];
+
+export const HLS_MASTER_PLAYLIST = "master.m3u8";
+
+// Segment length in seconds; keyframes are forced on the same boundary
+const HLS_SEGMENT_SECONDS = 6;
+
+const buildFfmpegArgs = (
+  inputPath: string,
+  outputDir: string,
+  ladder: HlsRendition[],
+  withAudio: boolean
+) => {
+  const splits = ladder.map((_, i) => `[v${i}]`).join("");
+  const scales = ladder
+    .map((rendition, i) => `[v${i}]scale=-2:'min(${rendition.height},ih)'[v${i}out]`)
+    .join(";");
+
+  const args = [
+    "-y",
+    "-i", inputPath,
+    "-filter_complex", `[0:v]split=${ladder.length}${splits};${scales}`,
+  ];
+
+  ladder.forEach((rendition, i) => {
+    args.push(
+      "-map", `[v${i}out]`,
+      `-c:v:${i}`, "libx264",
+      `-b:v:${i}`, rendition.videoBitrate,
+      `-maxrate:v:${i}`, rendition.maxrate,
+      `-bufsize:v:${i}`, rendition.bufsize
+    );
+    if (withAudio) {
+      args.push("-map", "0:a:0", `-c:a:${i}`, "aac", `-b:a:${i}`, rendition.audioBitrate);
+    }
+  });
+
+  if (withAudio) args.push("-ac", "2");
+
+  const streamMap = ladder
+    .map((rendition, i) => (withAudio ? `v:${i},a:${i},name:${rendition.name}` : `v:${i},name:${rendition.name}`))
+    .join(" ");
+
+  args.push(
+    "-preset", "veryfast",
+    "-pix_fmt", "yuv420p",
+    "-force_key_frames", `expr:gte(t,n_forced*${HLS_SEGMENT_SECONDS})`,
+    "-sc_threshold", "0",
+    "-f", "hls",
+    "-hls_time", String(HLS_SEGMENT_SECONDS),
+    "-hls_playlist_type", "vod",
+    "-hls_segment_filename", path.join(outputDir, "%v", "segment_%04d.ts"),
+    "-master_pl_name", HLS_MASTER_PLAYLIST,
+    "-var_stream_map", streamMap,
+    path.join(outputDir, "%v", "index.m3u8")
+  );
+
+  return args;
+};
+
+/**
+ * Transcode `inputPath` into `outputDir`. Output is written to a sibling temp
+ * directory and swapped in on success, so a half-finished ladder is never
+ * served.
+ */
+export const transcodeToHls = async (
+  inputPath: string,
+  outputDir: string,
+  ladder: HlsRendition[] = HLS_LADDER
+) => {
+  const workDir = `${outputDir}.partial`;
+  fs.rmSync(workDir, { recursive: true, force: true });
+  ladder.forEach((rendition) => {
+    fs.mkdirSync(path.join(workDir, rendition.name), { recursive: true });
+  });
+
+  try {
+    const streams = await probeStreams(inputPath);
+    const withAudio = streams.some((stream) => stream.codec_type === "audio");
+    await runCommand(FFMPEG_PATH, buildFfmpegArgs(inputPath, workDir, ladder, withAudio));
+
+    fs.rmSync(outputDir, { recursive: true, force: true });
+    fs.renameSync(workDir, outputDir);
+  } catch (error) {
+    fs.rmSync(workDir, { recursive: true, force: true });
+    throw error;
+  }
+
+  return path.join(outputDir, HLS_MASTER_PLAYLIST);
+};
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import {
+  ROOM_NAME_MAX_LENGTH,
+  WATCH_PARTY_MAX_WAIT_MS,
+  isWatchPartyMissed,
+  parseRoomName,
+  parseWatchPartyInput,
+  watchPartyDelay,
+} from "./watchParties";
+
+const now = new Date("2026-03-01T20:00:00Z");
+const inAnHour = "2026-03-01T21:00:00Z";
+
+describe("parseRoomName", () => {
+  it("trims the name and requires one", () => {
+    expect(parseRoomName("  Movie night ")).toEqual({ success: true, value: "Movie night" });
+    expect(parseRoomName("   ").success).toBe(false);
+    expect(parseRoomName(42).success).toBe(false);
+  });
+
+  it("bounds its length", () => {
+    expect(parseRoomName("x".repeat(ROOM_NAME_MAX_LENGTH)).success).toBe(true);
+    expect(parseRoomName("x".repeat(ROOM_NAME_MAX_LENGTH + 1)).success).toBe(false);
+  });
+});
+
+describe("parseWatchPartyInput", () => {
+  it("takes an ISO date or ms since epoch, with a media id or a video URL", () => {
+    expect(parseWatchPartyInput({ startsAt: inAnHour, mediaId: "m1" }, now)).toEqual({
+      success: true,
+      value: { startsAt: new Date(inAnHour), mediaId: "m1", videoUrl: null, title: null },
+    });
+    expect(
+      parseWatchPartyInput({ startsAt: Date.parse(inAnHour), videoUrl: " https://x.io/a.mp4 ", title: " Heat " }, now)
+    ).toEqual({
+      success: true,
+      value: { startsAt: new Date(inAnHour), mediaId: null, videoUrl: "https://x.io/a.mp4", title: "Heat" },
+    });
+  });
+
+  it("rejects start times that aren't dates, are past or are too far off", () => {
+    expect(parseWatchPartyInput({ startsAt: "tonight", mediaId: "m1" }, now)).toEqual({
+      success: false,
+      error: "startsAt must be a date",
+    });
+    expect(parseWatchPartyInput({ mediaId: "m1" }, now).success).toBe(false);
+    expect(parseWatchPartyInput({ startsAt: now.toISOString(), mediaId: "m1" }, now)).toEqual({
+      success: false,
+      error: "The watch party has to start in the future",
+    });
+    expect(parseWatchPartyInput({ startsAt: "2027-03-02T20:00:00Z", mediaId: "m1" }, now)).toEqual({
+      success: false,
+      error: "Watch parties can be scheduled up to a year ahead",
+    });
+  });
+
+  it("needs exactly one of mediaId and videoUrl", () => {
+    const error = { success: false, error: "Provide exactly one of mediaId or videoUrl" };
+
+    expect(parseWatchPartyInput({ startsAt: inAnHour }, now)).toEqual(error);
+    expect(parseWatchPartyInput({ startsAt: inAnHour, videoUrl: "  " }, now)).toEqual(error);
+    expect(parseWatchPartyInput({ startsAt: inAnHour, mediaId: "m1", videoUrl: "/a.mp4" }, now)).toEqual(error);
+  });
+
+  it("checks the title", () => {
+    expect(parseWatchPartyInput({ startsAt: inAnHour, mediaId: "m1", title: 7 }, now).success).toBe(false);
+    expect(parseWatchPartyInput({ startsAt: inAnHour, mediaId: "m1", title: "x".repeat(201) }, now).success).toBe(
+      false
+    );
+  });
+});
+
+describe("watch party scheduling", () => {
+  it("sleeps until the next party starts", () => {
+    expect(watchPartyDelay(new Date(now.getTime() + 5000), now)).toBe(5000);
+  });
+
+  it("checks straight away on a party that is due", () => {
+    expect(watchPartyDelay(now, now)).toBe(0);
+    expect(watchPartyDelay(new Date(now.getTime() - 60_000), now)).toBe(0);
+  });
+
+  it("re-checks far-off parties instead of waiting for them", () => {
+    expect(watchPartyDelay(new Date(inAnHour), now)).toBe(WATCH_PARTY_MAX_WAIT_MS);
+    expect(watchPartyDelay(new Date("2026-12-25T00:00:00Z"), now)).toBe(WATCH_PARTY_MAX_WAIT_MS);
+  });
+
+  it("marks a party missed only once it is past the late start allowance", () => {
+    const lateStartMs = 30 * 60 * 1000;
+    const startedAgo = (ms: number) => new Date(now.getTime() - ms);
+
+    expect(isWatchPartyMissed(startedAgo(0), lateStartMs, now)).toBe(false);
+    expect(isWatchPartyMissed(startedAgo(lateStartMs), lateStartMs, now)).toBe(false);
+    expect(isWatchPartyMissed(startedAgo(lateStartMs + 1), lateStartMs, now)).toBe(true);
+  });
+});
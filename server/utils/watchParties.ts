@@ -0,0 +1,89 @@
+/**
+ * Owned rooms and the watch parties scheduled in them.
+ *
+ * A room created from an account belongs to it: it keeps its code and
+ * settings when everyone leaves, and its owner can schedule watch parties,
+ * which start the chosen video for the whole room at the set time.
+ */
+
+export const ROOM_NAME_MAX_LENGTH = 80;
+const WATCH_PARTY_TITLE_MAX_LENGTH = 200;
+
+// How far ahead a watch party can be scheduled
+const WATCH_PARTY_MAX_LEAD_MS = 1000 * 60 * 60 * 24 * 365;
+// setTimeout can't wait much longer than 24 days, so far-off parties are
+// re-checked at this interval
+export const WATCH_PARTY_MAX_WAIT_MS = 1000 * 60 * 60;
+
+export const parseRoomName = (
+  input: unknown
+): { success: true; value: string } | { success: false; error: string } => {
+  const name = typeof input === "string" ? input.trim() : "";
+  if (!name) {
+    return { success: false, error: "A room name is required" };
+  }
+  if (name.length > ROOM_NAME_MAX_LENGTH) {
+    return { success: false, error: `The room name can be at most ${ROOM_NAME_MAX_LENGTH} characters` };
+  }
+  return { success: true, value: name };
+};
+
+export interface WatchPartyInput {
+  startsAt: Date;
+  // Exactly one of these is set
+  mediaId: string | null;
+  videoUrl: string | null;
+  // Null to use the media's title or the file name
+  title: string | null;
+}
+
+/**
+ * Validate a new watch party from a request body: `startsAt` (an ISO date or
+ * ms since epoch, in the future), one of `mediaId` or `videoUrl`, and an
+ * optional `title`.
+ */
+export const parseWatchPartyInput = (
+  input: unknown,
+  now = new Date()
+): { success: true; value: WatchPartyInput } | { success: false; error: string } => {
+  const { startsAt, mediaId, videoUrl, title } = (input ?? {}) as Record<string, unknown>;
+
+  const start = typeof startsAt === "string" || typeof startsAt === "number" ? new Date(startsAt) : null;
+  if (!start || Number.isNaN(start.getTime())) {
+    return { success: false, error: "startsAt must be a date" };
+  }
+  if (start.getTime() <= now.getTime()) {
+    return { success: false, error: "The watch party has to start in the future" };
+  }
+  if (start.getTime() - now.getTime() > WATCH_PARTY_MAX_LEAD_MS) {
+    return { success: false, error: "Watch parties can be scheduled up to a year ahead" };
+  }
+
+  const media = typeof mediaId === "string" && mediaId ? mediaId : null;
+  const url = typeof videoUrl === "string" && videoUrl.trim() ? videoUrl.trim() : null;
+  if (Boolean(media) === Boolean(url)) {
+    return { success: false, error: "Provide exactly one of mediaId or videoUrl" };
+  }
+
+  if (title !== undefined && title !== null && typeof title !== "string") {
+    return { success: false, error: "title must be a string" };
+  }
+  const trimmedTitle = title?.trim() || null;
+  if (trimmedTitle && trimmedTitle.length > WATCH_PARTY_TITLE_MAX_LENGTH) {
+    return { success: false, error: `The title can be at most ${WATCH_PARTY_TITLE_MAX_LENGTH} characters` };
+  }
+
+  return { success: true, value: { startsAt: start, mediaId: media, videoUrl: url, title: trimmedTitle } };
+};
+
+/**
+ * How long the scheduler sleeps before checking on the next party: until it
+ * starts, no longer than WATCH_PARTY_MAX_WAIT_MS, and not at all once it's due.
+ */
+export const watchPartyDelay = (startsAt: Date, now = new Date()) =>
+  Math.min(Math.max(startsAt.getTime() - now.getTime(), 0), WATCH_PARTY_MAX_WAIT_MS);
+
+// A due party more than `lateStartMs` past its start is marked missed
+// rather than started
+export const isWatchPartyMissed = (startsAt: Date, lateStartMs: number, now = new Date()) =>
+  now.getTime() - startsAt.getTime() > lateStartMs;
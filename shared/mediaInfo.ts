@@ -0,0 +1,59 @@
+// Technical metadata the server records for each media file by probing it
+// with ffprobe, and the browser-compatibility check built on it.
+
+export interface MediaAudioStream {
+  index: number;
+  codec: string | null;
+  language: string | null;
+  title: string | null;
+  channels: number | null;
+}
+
+export interface MediaSubtitleStream {
+  index: number;
+  codec: string | null;
+  language: string | null;
+  title: string | null;
+}
+
+export interface MediaProbe {
+  duration: number | null; // seconds
+  container: string | null; // ffprobe format_name, e.g. "matroska,webm"
+  videoCodec: string | null;
+  audioCodec: string | null; // codec of the first audio stream
+  width: number | null;
+  height: number | null;
+  bitRate: number | null; // bits per second, whole file
+  audioStreams: MediaAudioStream[];
+  subtitleStreams: MediaSubtitleStream[];
+}
+
+// Codecs every current desktop browser decodes in a <video> element
+const BROWSER_VIDEO_CODECS = new Set(["h264", "vp8", "vp9", "av1"]);
+const BROWSER_AUDIO_CODECS = new Set(["aac", "mp3", "opus", "vorbis", "flac"]);
+// ffprobe format names browsers can't demux at all
+const UNSUPPORTED_CONTAINERS = new Set(["avi", "flv", "asf", "mpegts", "mpeg", "rm"]);
+
+/**
+ * Reasons the original file may not play in a browser. Empty when it should
+ * play everywhere (or when nothing is known about it yet).
+ */
+export const getPlaybackIssues = (
+  probe: Pick<MediaProbe, "container" | "videoCodec" | "audioCodec">
+): string[] => {
+  const issues: string[] = [];
+
+  const containers = probe.container?.split(",") ?? [];
+  const unsupported = containers.find((name) => UNSUPPORTED_CONTAINERS.has(name));
+  if (unsupported) {
+    issues.push(`${unsupported.toUpperCase()} container`);
+  }
+  if (probe.videoCodec && !BROWSER_VIDEO_CODECS.has(probe.videoCodec)) {
+    issues.push(`${probe.videoCodec.toUpperCase()} video`);
+  }
+  if (probe.audioCodec && !BROWSER_AUDIO_CODECS.has(probe.audioCodec)) {
+    issues.push(`${probe.audioCodec.toUpperCase()} audio`);
+  }
+
+  return issues;
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import {
+  PROTOCOL_VERSION,
+  negotiateProtocolVersion,
+  parseClientMessage,
+  parseServerMessage,
+} from "./roomProtocol";
+
+const join = {
+  type: "join",
+  protocolVersion: PROTOCOL_VERSION,
+  roomCode: "ABC123",
+  token: "room-token",
+  username: "alice",
+};
+
+describe("parseClientMessage", () => {
+  it("accepts well-formed frames, as JSON text or already parsed", () => {
+    expect(parseClientMessage(JSON.stringify(join))).toEqual({ success: true, message: join });
+    expect(parseClientMessage({ type: "seek", payload: { position: 42 } })).toEqual({
+      success: true,
+      message: { type: "seek", payload: { position: 42 } },
+    });
+  });
+
+  it("trims chat bodies", () => {
+    const result = parseClientMessage({ type: "chat", body: "  hi there  " });
+
+    expect(result.success && result.message).toEqual({ type: "chat", body: "hi there" });
+  });
+
+  it("rejects text that isn't JSON", () => {
+    expect(parseClientMessage("{ not json")).toEqual({ success: false, error: "Message is not valid JSON" });
+  });
+
+  it("rejects frames without a known type", () => {
+    expect(parseClientMessage({ type: "self_destruct" })).toMatchObject({ success: false, type: "self_destruct" });
+    expect(parseClientMessage({ payload: {} })).toMatchObject({ success: false, type: undefined });
+    expect(parseClientMessage(null).success).toBe(false);
+    expect(parseClientMessage([join]).success).toBe(false);
+  });
+
+  it("rejects malformed frames, naming the type and the bad field", () => {
+    const seek = parseClientMessage({ type: "seek", payload: { position: -1 } });
+    expect(seek).toMatchObject({ success: false, type: "seek" });
+    expect(seek.success === false && seek.error).toMatch(/at payload\.position$/);
+
+    expect(parseClientMessage({ ...join, token: "" }).success).toBe(false);
+    expect(parseClientMessage({ ...join, protocolVersion: 1.5 }).success).toBe(false);
+    expect(parseClientMessage({ type: "chat", body: "   " }).success).toBe(false);
+    expect(parseClientMessage({ type: "chat", body: "x".repeat(1001) }).success).toBe(false);
+    expect(parseClientMessage({ type: "room_update", payload: { is_playing: "yes" } }).success).toBe(false);
+    expect(parseClientMessage({ type: "queue_move", item_id: "q1", index: -1 }).success).toBe(false);
+  });
+
+  it("doesn't let set_role hand out hosting", () => {
+    expect(parseClientMessage({ type: "set_role", participant_id: "p1", role: "cohost" }).success).toBe(true);
+    expect(parseClientMessage({ type: "set_role", participant_id: "p1", role: "host" }).success).toBe(false);
+  });
+});
+
+describe("parseServerMessage", () => {
+  it("accepts server frames", () => {
+    const clock = {
+      type: "clock",
+      payload: { position: 12.5, server_time: 1_700_000_000_000, is_playing: true, rate: 1 },
+    };
+    expect(parseServerMessage(JSON.stringify(clock))).toEqual({ success: true, message: clock });
+    expect(parseServerMessage({ type: "room_state", payload: { video_url: null } }).success).toBe(true);
+  });
+
+  it("rejects unknown error codes and statuses", () => {
+    expect(parseServerMessage({ type: "error", code: "teapot", message: "no" }).success).toBe(false);
+    expect(parseServerMessage({ type: "approval_status", userId: "u1", status: "vip" }).success).toBe(false);
+  });
+
+  it("doesn't accept client frames", () => {
+    expect(parseServerMessage(join)).toMatchObject({ success: false, type: "join" });
+  });
+});
+
+describe("negotiateProtocolVersion", () => {
+  it("speaks the client's version when it is supported", () => {
+    expect(negotiateProtocolVersion(PROTOCOL_VERSION)).toBe(PROTOCOL_VERSION);
+  });
+
+  it("finds no common version for older or newer clients", () => {
+    expect(negotiateProtocolVersion(1)).toBeNull();
+    expect(negotiateProtocolVersion(PROTOCOL_VERSION + 1)).toBeNull();
+  });
+});
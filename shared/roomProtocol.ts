@@ -0,0 +1,362 @@
+/**
+ * WebSocket message protocol shared by the room server and the browser client.
+ * Every frame is validated at runtime on receipt; the inferred types are the
+ * single source of truth for both ends.
+ */
+import { z } from "zod";
+
+/**
+ * Bump when a message shape changes incompatibly. The client announces its
+ * version in `join` and the server answers with the version it will speak.
+ */
+export const PROTOCOL_VERSION = 2;
+export const SUPPORTED_PROTOCOL_VERSIONS: readonly number[] = [2];
+
+// Kicked and banned participants have been removed from the room; banned
+// ones can't ask to join again. Left participants can come back.
+export const participantStatusSchema = z.enum(["pending", "approved", "rejected", "active", "left", "kicked", "banned"]);
+
+// Hosts and co-hosts control playback and the queue; only the host can
+// change roles
+export const participantRoleSchema = z.enum(["host", "cohost", "viewer"]);
+
+export const roomUpdatePayloadSchema = z.object({
+  video_url: z.string().optional(),
+  playback_position: z.number().nonnegative().optional(),
+  is_playing: z.boolean().optional(),
+  subtitle_enabled: z.boolean().optional(),
+  // Host-selected subtitle track; null falls back to the first track
+  subtitle_id: z.string().nullable().optional(),
+});
+
+export const CHAT_MESSAGE_MAX_LENGTH = 1000;
+
+export const chatMessageSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  username: z.string(),
+  body: z.string(),
+  created_at: z.number(), // ms since epoch
+});
+
+export const queueItemSchema = z.object({
+  id: z.string(),
+  media_id: z.string().nullable(),
+  video_url: z.string(),
+  title: z.string(),
+  added_by: z.string(),
+});
+
+// The next watch party scheduled in an owned room
+export const watchPartySchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  video_url: z.string(),
+  starts_at: z.number(), // ms since epoch
+});
+
+// Join requests and participant records as the host's lobby panels list them
+export const joinRequestSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  username: z.string(),
+  browserName: z.string().nullable(),
+  browserVersion: z.string().nullable(),
+  status: z.enum(["pending", "approved", "rejected"]),
+  requestedAt: z.string(), // ISO timestamp, as in the REST responses
+});
+
+export const participantRecordSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  username: z.string(),
+  role: participantRoleSchema,
+  // Also "left" once a participant has gone
+  status: z.string(),
+  muted: z.boolean(),
+  joinedAt: z.string(),
+});
+
+export const clockFrameSchema = z.object({
+  position: z.number(),
+  server_time: z.number(),
+  is_playing: z.boolean(),
+  rate: z.number().positive(),
+});
+
+// Client -> server
+
+const joinMessageSchema = z.object({
+  type: z.literal("join"),
+  protocolVersion: z.number().int(),
+  roomCode: z.string().min(1),
+  // Signed room token issued when the room was created or joined; the
+  // server derives the participant identity from it
+  token: z.string().min(1),
+  // Ignored: the server announces the name on the participant record. Kept
+  // so servers that still read it accept the frame.
+  username: z.string().min(1),
+});
+
+const pingMessageSchema = z.object({
+  type: z.literal("ping"),
+  client_time: z.number(),
+});
+
+const roomUpdateMessageSchema = z.object({
+  type: z.literal("room_update"),
+  payload: roomUpdatePayloadSchema,
+});
+
+const seekMessageSchema = z.object({
+  type: z.literal("seek"),
+  payload: z.object({ position: z.number().nonnegative() }),
+});
+
+const chatSendMessageSchema = z.object({
+  type: z.literal("chat"),
+  body: z.string().trim().min(1).max(CHAT_MESSAGE_MAX_LENGTH),
+});
+
+// Queue entries come either from the media library (`media_id`) or from a
+// plain URL; the server rejects frames carrying both or neither
+const queueAddMessageSchema = z.object({
+  type: z.literal("queue_add"),
+  media_id: z.string().min(1).optional(),
+  video_url: z.string().min(1).optional(),
+  title: z.string().trim().min(1).optional(),
+});
+
+const queueRemoveMessageSchema = z.object({
+  type: z.literal("queue_remove"),
+  item_id: z.string().min(1),
+});
+
+const queueMoveMessageSchema = z.object({
+  type: z.literal("queue_move"),
+  item_id: z.string().min(1),
+  index: z.number().int().nonnegative(),
+});
+
+const queueAdvanceMessageSchema = z.object({
+  type: z.literal("queue_advance"),
+  // Video the host just finished. Lets the server ignore duplicate `ended`
+  // events once the room has already moved on.
+  ended_video_url: z.string().optional(),
+});
+
+// Host only: promote a participant to co-host or demote them to viewer
+const setRoleMessageSchema = z.object({
+  type: z.literal("set_role"),
+  participant_id: z.string().min(1),
+  role: participantRoleSchema.exclude(["host"]),
+});
+
+// Host only: hand hosting to another participant, who takes over as host
+// while the current host becomes a co-host
+const transferHostMessageSchema = z.object({
+  type: z.literal("transfer_host"),
+  participant_id: z.string().min(1),
+});
+
+export const clientMessageSchema = z.discriminatedUnion("type", [
+  joinMessageSchema,
+  pingMessageSchema,
+  roomUpdateMessageSchema,
+  seekMessageSchema,
+  chatSendMessageSchema,
+  queueAddMessageSchema,
+  queueRemoveMessageSchema,
+  queueMoveMessageSchema,
+  queueAdvanceMessageSchema,
+  setRoleMessageSchema,
+  transferHostMessageSchema,
+]);
+
+// Server -> client
+
+export const protocolErrorCodeSchema = z.enum([
+  "invalid_message",
+  "unsupported_protocol",
+  "not_joined",
+  "unauthorized",
+  "forbidden",
+  "not_found",
+  "internal_error",
+]);
+
+const welcomeMessageSchema = z.object({
+  type: z.literal("welcome"),
+  protocolVersion: z.number().int(),
+  server_time: z.number(),
+});
+
+const errorMessageSchema = z.object({
+  type: z.literal("error"),
+  code: protocolErrorCodeSchema,
+  message: z.string(),
+  // Type of the client frame that caused the error, when it could be parsed
+  request_type: z.string().optional(),
+});
+
+const pongMessageSchema = z.object({
+  type: z.literal("pong"),
+  client_time: z.number(),
+  server_received: z.number(),
+  server_sent: z.number(),
+});
+
+const approvalStatusMessageSchema = z.object({
+  type: z.literal("approval_status"),
+  userId: z.string(),
+  status: participantStatusSchema,
+});
+
+const roomStateMessageSchema = z.object({
+  type: z.literal("room_state"),
+  payload: roomUpdatePayloadSchema.extend({ video_url: z.string().nullable().optional() }),
+});
+
+const roomUpdateBroadcastSchema = z.object({
+  type: z.literal("room_update"),
+  payload: roomUpdatePayloadSchema,
+});
+
+const clockMessageSchema = z.object({
+  type: z.literal("clock"),
+  payload: clockFrameSchema,
+});
+
+const chatBroadcastSchema = z.object({
+  type: z.literal("chat"),
+  message: chatMessageSchema,
+});
+
+const queueMessageSchema = z.object({
+  type: z.literal("queue"),
+  items: z.array(queueItemSchema),
+});
+
+const userJoinedMessageSchema = z.object({
+  type: z.literal("user_joined"),
+  userId: z.string(),
+  username: z.string(),
+});
+
+// A participant's role changed, by hand or because the host was away too long
+const roleUpdateMessageSchema = z.object({
+  type: z.literal("role_update"),
+  userId: z.string(),
+  username: z.string(),
+  role: participantRoleSchema,
+});
+
+// Muted participants can't chat until they are unmuted
+const muteStatusMessageSchema = z.object({
+  type: z.literal("mute_status"),
+  userId: z.string(),
+  muted: z.boolean(),
+});
+
+// Sent on join and whenever the room's next watch party changes; null when
+// none is scheduled
+const watchPartyMessageSchema = z.object({
+  type: z.literal("watch_party"),
+  party: watchPartySchema.nullable(),
+});
+
+// Lobby updates, sent to the host and co-hosts only
+const joinRequestCreatedMessageSchema = z.object({
+  type: z.literal("join_request_created"),
+  request: joinRequestSchema,
+});
+
+const joinRequestResolvedMessageSchema = z.object({
+  type: z.literal("join_request_resolved"),
+  requestId: z.string(),
+  status: z.enum(["approved", "rejected"]),
+});
+
+// A participant's status, role or mute changed, or they were just added
+const participantChangedMessageSchema = z.object({
+  type: z.literal("participant_changed"),
+  participant: participantRecordSchema,
+});
+
+const userLeftMessageSchema = z.object({
+  type: z.literal("user_left"),
+  username: z.string(),
+});
+
+export const serverMessageSchema = z.discriminatedUnion("type", [
+  welcomeMessageSchema,
+  errorMessageSchema,
+  pongMessageSchema,
+  approvalStatusMessageSchema,
+  roomStateMessageSchema,
+  roomUpdateBroadcastSchema,
+  clockMessageSchema,
+  chatBroadcastSchema,
+  queueMessageSchema,
+  userJoinedMessageSchema,
+  userLeftMessageSchema,
+  roleUpdateMessageSchema,
+  muteStatusMessageSchema,
+  watchPartyMessageSchema,
+  joinRequestCreatedMessageSchema,
+  joinRequestResolvedMessageSchema,
+  participantChangedMessageSchema,
+]);
+
+export type ParticipantStatus = z.infer<typeof participantStatusSchema>;
+export type ParticipantRole = z.infer<typeof participantRoleSchema>;
+export type RoomUpdatePayload = z.infer<typeof roomUpdatePayloadSchema>;
+export type ClockFrame = z.infer<typeof clockFrameSchema>;
+export type ChatMessage = z.infer<typeof chatMessageSchema>;
+export type QueueItem = z.infer<typeof queueItemSchema>;
+export type WatchParty = z.infer<typeof watchPartySchema>;
+export type JoinRequest = z.infer<typeof joinRequestSchema>;
+export type ParticipantRecord = z.infer<typeof participantRecordSchema>;
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+export type ServerMessage = z.infer<typeof serverMessageSchema>;
+export type LobbyMessage =
+  | z.infer<typeof joinRequestCreatedMessageSchema>
+  | z.infer<typeof joinRequestResolvedMessageSchema>
+  | z.infer<typeof participantChangedMessageSchema>;
+export type ProtocolErrorCode = z.infer<typeof protocolErrorCodeSchema>;
+
+export type ParseResult<T> =
+  | { success: true; message: T }
+  | { success: false; error: string; type?: string };
+
+const parseFrame = <T>(schema: z.ZodType<T>, raw: unknown): ParseResult<T> => {
+  let data: unknown;
+  try {
+    data = typeof raw === "string" ? JSON.parse(raw) : raw;
+  } catch {
+    return { success: false, error: "Message is not valid JSON" };
+  }
+
+  const type =
+    typeof data === "object" && data !== null && typeof (data as { type?: unknown }).type === "string"
+      ? (data as { type: string }).type
+      : undefined;
+
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const where = issue?.path.length ? ` at ${issue.path.join(".")}` : "";
+    return { success: false, error: `${issue?.message ?? "Invalid message"}${where}`, type };
+  }
+
+  return { success: true, message: result.data };
+};
+
+export const parseClientMessage = (raw: unknown) => parseFrame(clientMessageSchema, raw);
+export const parseServerMessage = (raw: unknown) => parseFrame(serverMessageSchema, raw);
+
+/**
+ * Pick the version both sides speak, or null if there is none
+ */
+export const negotiateProtocolVersion = (clientVersion: number): number | null =>
+  SUPPORTED_PROTOCOL_VERSIONS.includes(clientVersion) ? clientVersion : null;
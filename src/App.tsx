@@ -9,6 +9,7 @@ import Signup from "./pages/Signup";
 import Room from "./pages/Room";
 import Lobby from "./pages/Lobby";
 import MediaLibrary from "./pages/MediaLibrary";
+import MyRooms from "./pages/MyRooms";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -26,6 +27,7 @@ const App = () => (
           <Route path="/room/:code" element={<Room />} />
           <Route path="/lobby/:code" element={<Lobby />} />
           <Route path="/media" element={<MediaLibrary />} />
+          <Route path="/my-rooms" element={<MyRooms />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,116 @@
+import { useEffect, useRef, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { MessageSquare, Send } from "lucide-react";
+import { CHAT_MESSAGE_MAX_LENGTH, ChatMessage } from "@shared/roomProtocol";
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  currentUserId: string;
+  hasMore: boolean;
+  // Muted participants can read along but not send
+  muted: boolean;
+  onSend: (body: string) => void;
+  onLoadOlder: () => Promise<void>;
+}
+
+export const ChatPanel = ({
+  messages,
+  currentUserId,
+  hasMore,
+  muted,
+  onSend,
+  onLoadOlder,
+}: ChatPanelProps) => {
+  const [draft, setDraft] = useState("");
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const lastMessageIdRef = useRef<string | null>(null);
+
+  // Stick to the bottom when a new message arrives, but not when older
+  // history is prepended above the current view
+  useEffect(() => {
+    const lastId = messages[messages.length - 1]?.id ?? null;
+    if (lastId !== lastMessageIdRef.current && scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+    lastMessageIdRef.current = lastId;
+  }, [messages]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const body = draft.trim();
+    if (!body) return;
+
+    onSend(body);
+    setDraft("");
+  };
+
+  const handleLoadOlder = async () => {
+    setLoadingOlder(true);
+    try {
+      await onLoadOlder();
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  return (
+    <div className="backdrop-blur-glass bg-card/60 rounded-xl p-4 border border-border/50 flex flex-col h-[28rem] lg:h-full">
+      <h3 className="text-lg font-semibold mb-3 flex items-center gap-2">
+        <MessageSquare className="h-5 w-5" />
+        Chat
+      </h3>
+
+      <div ref={scrollRef} className="flex-1 overflow-y-auto space-y-3 pr-1">
+        {hasMore && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleLoadOlder}
+            disabled={loadingOlder}
+            className="w-full text-xs"
+          >
+            {loadingOlder ? "Loading..." : "Load older messages"}
+          </Button>
+        )}
+
+        {messages.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No messages yet. Say hi!</p>
+        ) : (
+          messages.map((message) => (
+            <div key={message.id} className="text-sm">
+              <div className="flex items-baseline gap-2">
+                <span
+                  className={`font-semibold truncate ${
+                    message.userId === currentUserId ? "text-primary" : "text-foreground"
+                  }`}
+                >
+                  {message.username}
+                </span>
+                <span className="text-xs text-muted-foreground shrink-0">
+                  {format(new Date(message.created_at), "HH:mm")}
+                </span>
+              </div>
+              <p className="text-foreground/90 break-words whitespace-pre-wrap">{message.body}</p>
+            </div>
+          ))
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex gap-2 mt-3">
+        <Input
+          placeholder={muted ? "You are muted" : "Send a message"}
+          value={draft}
+          maxLength={CHAT_MESSAGE_MAX_LENGTH}
+          disabled={muted}
+          onChange={(e) => setDraft(e.target.value)}
+        />
+        <Button type="submit" size="icon" disabled={muted || !draft.trim()}>
+          <Send className="h-4 w-4" />
+        </Button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { EpisodeFormValue } from "@/lib/episodes";
+
+interface EpisodeFieldsProps {
+  value: EpisodeFormValue;
+  onChange: (value: EpisodeFormValue) => void;
+  disabled?: boolean;
+}
+
+/**
+ * "TV episode" toggle with the show, season and episode it belongs to.
+ * Metadata is then looked up for that episode instead of a movie.
+ */
+export const EpisodeFields = ({ value, onChange, disabled = false }: EpisodeFieldsProps) => (
+  <div className="space-y-3">
+    <label className="flex items-center gap-3 text-sm font-medium">
+      <Switch
+        checked={value.isEpisode}
+        onCheckedChange={(isEpisode) => onChange({ ...value, isEpisode })}
+        disabled={disabled}
+      />
+      TV episode
+    </label>
+
+    {value.isEpisode && (
+      <div className="grid grid-cols-[1fr_5rem_5rem] gap-2">
+        <Input
+          placeholder="Series title"
+          value={value.seriesTitle}
+          onChange={(e) => onChange({ ...value, seriesTitle: e.target.value })}
+          disabled={disabled}
+        />
+        <Input
+          type="number"
+          min={0}
+          placeholder="Season"
+          value={value.season}
+          onChange={(e) => onChange({ ...value, season: e.target.value })}
+          disabled={disabled}
+          aria-label="Season"
+        />
+        <Input
+          type="number"
+          min={0}
+          placeholder="Episode"
+          value={value.episode}
+          onChange={(e) => onChange({ ...value, episode: e.target.value })}
+          disabled={disabled}
+          aria-label="Episode"
+        />
+      </div>
+    )}
+  </div>
+);
@@ -4,21 +4,15 @@ import { Badge } from "@/components/ui/badge";
 import { CheckCircle, XCircle, Clock } from "lucide-react";
 import { api } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
-
-interface JoinRequest {
-  id: string;
-  username: string;
-  browserName: string;
-  browserVersion: string;
-  status: "pending" | "approved" | "rejected";
-  requestedAt: string;
-}
+import type { LobbyFeed } from "@/hooks/useRoomWebSocket";
+import type { JoinRequest } from "@shared/roomProtocol";
 
 interface JoinRequestsPanelProps {
   roomCode: string;
+  lobbyFeed: LobbyFeed;
 }
 
-const JoinRequestsPanel = ({ roomCode }: JoinRequestsPanelProps) => {
+const JoinRequestsPanel = ({ roomCode, lobbyFeed }: JoinRequestsPanelProps) => {
   const { toast } = useToast();
   const [requests, setRequests] = useState<JoinRequest[]>([]);
   const [loading, setLoading] = useState(false);
@@ -35,11 +29,26 @@ const JoinRequestsPanel = ({ roomCode }: JoinRequestsPanelProps) => {
     }
   };
 
+  // Catch up whenever the socket (re)connects; poll only while it's down
   useEffect(() => {
     fetchRequests();
+    if (lobbyFeed.connected) return;
+
     const interval = setInterval(fetchRequests, 3000);
     return () => clearInterval(interval);
-  }, [roomCode]);
+  }, [roomCode, lobbyFeed.connected]);
+
+  useEffect(
+    () =>
+      lobbyFeed.subscribe((event) => {
+        if (event.type === "join_request_created") {
+          setRequests((prev) => [...prev.filter((r) => r.id !== event.request.id), event.request]);
+        } else if (event.type === "join_request_resolved") {
+          setRequests((prev) => prev.map((r) => (r.id === event.requestId ? { ...r, status: event.status } : r)));
+        }
+      }),
+    [lobbyFeed]
+  );
 
   const handleApprove = async (requestId: string, username: string) => {
     try {
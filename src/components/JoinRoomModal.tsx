@@ -8,12 +8,16 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import type { RoomAccessMode } from "@/lib/api";
 
 interface JoinRoomModalProps {
   isOpen: boolean;
   roomCode: string;
-  onJoin: (username: string) => Promise<void>;
+  onJoin: (username: string, password?: string) => Promise<void>;
   isLoading?: boolean;
+  accessMode?: RoomAccessMode;
+  // Opened from an invite link, which gets past any access mode
+  hasInvite?: boolean;
 }
 
 export const JoinRoomModal = ({
@@ -21,9 +25,22 @@ export const JoinRoomModal = ({
   roomCode,
   onJoin,
   isLoading = false,
+  accessMode = "approval",
+  hasInvite = false,
 }: JoinRoomModalProps) => {
   const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
   const [error, setError] = useState("");
+  const needsPassword = accessMode === "password" && !hasInvite;
+
+  const description = hasInvite
+    ? "You've been invited. Enter your name to join the room."
+    : {
+        approval: "Enter your name to join the room. The host will need to approve your request.",
+        open: "Enter your name to join the room.",
+        password: "Enter your name and the room's password or PIN to join.",
+        invite: "This room is invite-only. Ask the host for an invite link.",
+      }[accessMode];
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -35,7 +52,7 @@ export const JoinRoomModal = ({
     }
 
     try {
-      await onJoin(username.trim());
+      await onJoin(username.trim(), needsPassword ? password : undefined);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to join room");
     }
@@ -46,9 +63,7 @@ export const JoinRoomModal = ({
       <DialogContent className="sm:max-w-md" onInteractOutside={(e) => e.preventDefault()}>
         <DialogHeader>
           <DialogTitle>Join Room</DialogTitle>
-          <DialogDescription>
-            Enter your name to join the room. The host will need to approve your request.
-          </DialogDescription>
+          <DialogDescription>{description}</DialogDescription>
         </DialogHeader>
 
         <form onSubmit={handleSubmit} className="space-y-4">
@@ -66,11 +81,27 @@ export const JoinRoomModal = ({
             />
           </div>
 
+          {needsPassword && (
+            <div>
+              <label className="text-sm font-medium mb-2 block">Room Password</label>
+              <Input
+                type="password"
+                placeholder="Enter the password or PIN"
+                value={password}
+                onChange={(e) => {
+                  setPassword(e.target.value);
+                  setError("");
+                }}
+                disabled={isLoading}
+              />
+            </div>
+          )}
+
           {error && <p className="text-sm text-destructive">{error}</p>}
 
           <Button
             type="submit"
-            disabled={isLoading || !username.trim()}
+            disabled={isLoading || !username.trim() || (needsPassword && !password)}
             className="w-full shadow-glow-primary"
           >
             {isLoading ? "Joining..." : "Join Room"}
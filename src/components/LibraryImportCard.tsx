@@ -0,0 +1,130 @@
+import { useEffect, useState } from "react";
+import { FolderInput } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { api, LibraryImportReport } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+
+interface LibraryImportCardProps {
+  // Called after an import that added anything
+  onImported: () => void;
+}
+
+/**
+ * Scan the server's media folder (LIBRARY_DIR) and add the videos that aren't
+ * in the library yet. Renders nothing when the server has no folder set up.
+ */
+export const LibraryImportCard = ({ onImported }: LibraryImportCardProps) => {
+  const { toast } = useToast();
+  const [configured, setConfigured] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [watched, setWatched] = useState<string[]>([]);
+  const [folder, setFolder] = useState("");
+  const [report, setReport] = useState<LibraryImportReport | null>(null);
+
+  useEffect(() => {
+    api
+      .getLibraryStatus()
+      .then((status) => {
+        setConfigured(status.configured);
+        setImporting(status.importing);
+        setWatched(status.watched);
+      })
+      .catch(() => setConfigured(false));
+  }, []);
+
+  const handleImport = async () => {
+    setImporting(true);
+    try {
+      const { report } = await api.importLibrary(folder.trim() || undefined);
+      setReport(report);
+      toast({
+        title: "Import finished",
+        description: `${report.imported.length} new video(s) added.`,
+      });
+      if (report.imported.length > 0) onImported();
+    } catch (error) {
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Failed to import the media folder.",
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  if (!configured) return null;
+
+  return (
+    <Card className="backdrop-blur-glass bg-card/60 border-border/50 p-6">
+      <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+        <FolderInput className="h-5 w-5" />
+        Import Server Folder
+      </h2>
+
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Adds videos already on the server without copying them. Files that are in the library already are skipped.
+        </p>
+        {watched.length > 0 && (
+          <p className="text-sm text-muted-foreground">
+            Kept in sync automatically: {watched.join(", ")}
+          </p>
+        )}
+        <div className="flex gap-2">
+          <Input
+            placeholder="Folder inside the media folder (optional)"
+            value={folder}
+            onChange={(e) => setFolder(e.target.value)}
+            disabled={importing}
+          />
+          <Button onClick={handleImport} disabled={importing} className="shrink-0">
+            {importing ? "Scanning..." : "Scan & Import"}
+          </Button>
+        </div>
+
+        {report && (
+          <div className="space-y-2 border-t border-border/50 pt-4 text-sm">
+            <p className="text-foreground">
+              {report.imported.length} imported · {report.alreadyImported} already in the library ·{" "}
+              {report.moved.length} moved · {report.missing.length} missing · {report.duplicates.length} duplicate(s) ·{" "}
+              {report.unreadable.length} unreadable
+            </p>
+            {report.imported.map((file) => (
+              <p key={file.mediaId} className="text-xs text-muted-foreground truncate" title={file.path}>
+                Added "{file.title}"
+              </p>
+            ))}
+            {report.restored.map((file) => (
+              <p key={file.mediaId} className="text-xs text-muted-foreground truncate" title={file.path}>
+                Back again: {file.path}
+              </p>
+            ))}
+            {report.moved.map((file) => (
+              <p key={file.mediaId} className="text-xs text-muted-foreground truncate" title={file.from}>
+                Moved: {file.from} → {file.path}
+              </p>
+            ))}
+            {report.missing.map((file) => (
+              <p key={file.mediaId} className="text-xs text-destructive truncate" title={file.path}>
+                Missing: {file.path}
+              </p>
+            ))}
+            {report.duplicates.map((file) => (
+              <p key={file.path} className="text-xs text-muted-foreground truncate" title={file.path}>
+                Duplicate: {file.path} (same as {file.duplicateOf})
+              </p>
+            ))}
+            {report.unreadable.map((file) => (
+              <p key={file.path} className="text-xs text-destructive truncate" title={file.error}>
+                Unreadable: {file.path} ({file.error})
+              </p>
+            ))}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
@@ -1,38 +1,62 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import { format } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { CheckCircle, XCircle, Clock, RefreshCw } from "lucide-react";
+import { CheckCircle, XCircle, Clock, RefreshCw, Crown, MessageSquareOff, MessageSquare, UserX, Ban, ScrollText } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { api } from "@/lib/api";
-
-interface Participant {
-  id: string;
-  username: string;
-  status: "active" | "left" | "rejected";
-  isHost: boolean;
-  joinedAt: string;
-}
+import type { LobbyFeed } from "@/hooks/useRoomWebSocket";
+import { RoomAccessCard } from "@/components/RoomAccessCard";
+import { api, ModerationLogEntry } from "@/lib/api";
+import type { JoinRequest, ParticipantRecord as Participant, ParticipantRole } from "@shared/roomProtocol";
 
 interface LobbyManagementPanelProps {
   roomCode: string;
+  // Role of the user looking at the panel
+  currentRole: ParticipantRole;
+  lobbyFeed: LobbyFeed;
 }
 
-export const LobbyManagementPanel = ({ roomCode }: LobbyManagementPanelProps) => {
+const ROLE_LABELS: Record<ParticipantRole, string> = {
+  host: "Host",
+  cohost: "Co-host",
+  viewer: "Viewer",
+};
+
+// The host can moderate anyone else, co-hosts only viewers
+const ROLE_RANK: Record<ParticipantRole, number> = { host: 2, cohost: 1, viewer: 0 };
+
+const MODERATION_VERBS: Record<ModerationLogEntry["action"], string> = {
+  kick: "kicked",
+  ban: "banned",
+  mute: "muted",
+  unmute: "unmuted",
+};
+
+export const LobbyManagementPanel = ({ roomCode, currentRole, lobbyFeed }: LobbyManagementPanelProps) => {
   const { toast } = useToast();
   const [participants, setParticipants] = useState<Participant[]>([]);
-  const [joinRequests, setJoinRequests] = useState<any[]>([]);
+  const [joinRequests, setJoinRequests] = useState<JoinRequest[]>([]);
+  const [moderationLog, setModerationLog] = useState<ModerationLogEntry[]>([]);
   const [loading, setLoading] = useState(false);
+  // Read by the feed subscription, which only sees the list it started with
+  const participantsRef = useRef(participants);
+  participantsRef.current = participants;
+
+  const canManageRoles = currentRole === "host";
+  const canModerate = (participant: Participant) => ROLE_RANK[currentRole] > ROLE_RANK[participant.role];
 
   const fetchData = async () => {
     setLoading(true);
     try {
-      const [participantsRes, requestsRes] = await Promise.all([
+      const [participantsRes, requestsRes, logRes] = await Promise.all([
         api.getAllParticipants(roomCode),
         api.getJoinRequests(roomCode),
+        api.getModerationLog(roomCode),
       ]);
       setParticipants(participantsRes.participants || []);
       setJoinRequests(requestsRes.requests || []);
+      setModerationLog(logRes.entries);
     } catch (error) {
       console.error("Failed to load lobby data:", error);
       toast({
@@ -45,11 +69,43 @@ export const LobbyManagementPanel = ({ roomCode }: LobbyManagementPanelProps) =>
     }
   };
 
+  // Catch up whenever the socket (re)connects; poll only while it's down
   useEffect(() => {
     fetchData();
+    if (lobbyFeed.connected) return;
+
     const interval = setInterval(fetchData, 3000);
     return () => clearInterval(interval);
-  }, [roomCode]);
+  }, [roomCode, lobbyFeed.connected]);
+
+  useEffect(
+    () =>
+      lobbyFeed.subscribe((event) => {
+        if (event.type === "join_request_created") {
+          setJoinRequests((prev) => [...prev.filter((r) => r.id !== event.request.id), event.request]);
+        } else if (event.type === "join_request_resolved") {
+          setJoinRequests((prev) => prev.map((r) => (r.id === event.requestId ? { ...r, status: event.status } : r)));
+        } else {
+          const changed = event.participant;
+          const previous = participantsRef.current.find((p) => p.id === changed.id);
+          setParticipants((prev) =>
+            prev.some((p) => p.id === changed.id)
+              ? prev.map((p) => (p.id === changed.id ? changed : p))
+              : [...prev, changed]
+          );
+          // Another host or co-host may have kicked, banned or (un)muted
+          // someone; other changes, like joins and leaves, aren't logged
+          const removed = (changed.status === "kicked" || changed.status === "banned") && previous?.status !== changed.status;
+          if (removed || changed.muted !== (previous?.muted ?? false)) {
+            api
+              .getModerationLog(roomCode)
+              .then((log) => setModerationLog(log.entries))
+              .catch((error) => console.error("Failed to load the moderation log:", error));
+          }
+        }
+      }),
+    [lobbyFeed, roomCode]
+  );
 
   const handleApprove = async (requestId: string) => {
     try {
@@ -71,8 +127,86 @@ export const LobbyManagementPanel = ({ roomCode }: LobbyManagementPanelProps) =>
     }
   };
 
+  const handleSetRole = async (participant: Participant, role: "cohost" | "viewer") => {
+    try {
+      await api.setParticipantRole(roomCode, participant.id, role);
+      toast({
+        title: "Role updated",
+        description: `${participant.username} is now a ${ROLE_LABELS[role].toLowerCase()}`,
+      });
+      fetchData();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to change role",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleTransferHost = async (participant: Participant) => {
+    try {
+      await api.transferHost(roomCode, participant.id);
+      toast({ title: "Host transferred", description: `${participant.username} is now the host` });
+      fetchData();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to transfer host",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleMute = async (participant: Participant) => {
+    try {
+      await api.setParticipantMuted(roomCode, participant.id, !participant.muted);
+      toast({
+        title: participant.muted ? "Unmuted" : "Muted",
+        description: participant.muted
+          ? `${participant.username} can chat again`
+          : `${participant.username} can no longer chat`,
+      });
+      fetchData();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to change mute",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRemove = async (participant: Participant, action: "kick" | "ban") => {
+    const question =
+      action === "kick"
+        ? `Remove ${participant.username} from the room? They can ask to join again.`
+        : `Ban ${participant.username}? They won't be able to join this room again.`;
+    if (!confirm(question)) return;
+
+    try {
+      if (action === "kick") {
+        await api.kickParticipant(roomCode, participant.id);
+      } else {
+        await api.banParticipant(roomCode, participant.id);
+      }
+      toast({
+        title: action === "kick" ? "Kicked" : "Banned",
+        description: `${participant.username} was removed from the room`,
+      });
+      fetchData();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : `Failed to ${action}`,
+        variant: "destructive",
+      });
+    }
+  };
+
   const pendingRequests = joinRequests.filter((r) => r.status === "pending");
-  const activeParticipants = participants.filter((p) => p.status === "active" && !p.isHost);
+  const activeParticipants = participants.filter((p) => p.status === "active");
+  const removedParticipants = participants.filter((p) => p.status === "kicked" || p.status === "banned");
   const rejectedParticipants = participants.filter((p) => p.status === "rejected");
 
   return (
@@ -85,6 +219,8 @@ export const LobbyManagementPanel = ({ roomCode }: LobbyManagementPanelProps) =>
         </Button>
       </div>
 
+      {canManageRoles && <RoomAccessCard roomCode={roomCode} />}
+
       {/* Pending Requests */}
       <Card className="backdrop-blur-glass bg-card/60 border-border/50 p-4">
         <h3 className="font-semibold mb-3 flex items-center gap-2">
@@ -123,9 +259,54 @@ export const LobbyManagementPanel = ({ roomCode }: LobbyManagementPanelProps) =>
             <p className="text-sm text-muted-foreground">No active participants</p>
           ) : (
             activeParticipants.map((p) => (
-              <div key={p.id} className="flex items-center justify-between p-2 bg-background/50 rounded">
-                <p className="font-medium text-sm">{p.username}</p>
-                <Badge variant="outline" className="bg-green-500/20 text-green-500">Active</Badge>
+              <div key={p.id} className="flex items-center justify-between gap-2 p-2 bg-background/50 rounded">
+                <div className="flex items-center gap-2 min-w-0">
+                  <p className="font-medium text-sm truncate">{p.username}</p>
+                  <Badge
+                    variant="outline"
+                    className={p.role === "viewer" ? "bg-green-500/20 text-green-500" : "bg-primary/20 text-primary"}
+                  >
+                    {p.role === "host" && <Crown className="h-3 w-3 mr-1" />}
+                    {ROLE_LABELS[p.role]}
+                  </Badge>
+                  {p.muted && (
+                    <Badge variant="outline" className="bg-yellow-500/20 text-yellow-500">Muted</Badge>
+                  )}
+                </div>
+                {canModerate(p) && (
+                  <div className="flex gap-2 shrink-0">
+                    {canManageRoles && (
+                      <>
+                        {p.role === "viewer" ? (
+                          <Button size="sm" variant="outline" onClick={() => handleSetRole(p, "cohost")}>
+                            Make co-host
+                          </Button>
+                        ) : (
+                          <Button size="sm" variant="outline" onClick={() => handleSetRole(p, "viewer")}>
+                            Make viewer
+                          </Button>
+                        )}
+                        <Button size="sm" variant="secondary" onClick={() => handleTransferHost(p)}>
+                          Make host
+                        </Button>
+                      </>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      title={p.muted ? "Unmute" : "Mute"}
+                      onClick={() => handleMute(p)}
+                    >
+                      {p.muted ? <MessageSquare className="h-4 w-4" /> : <MessageSquareOff className="h-4 w-4" />}
+                    </Button>
+                    <Button size="sm" variant="outline" title="Kick" onClick={() => handleRemove(p, "kick")}>
+                      <UserX className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="destructive" title="Ban" onClick={() => handleRemove(p, "ban")}>
+                      <Ban className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
               </div>
             ))
           )}
@@ -146,6 +327,42 @@ export const LobbyManagementPanel = ({ roomCode }: LobbyManagementPanelProps) =>
           </div>
         </Card>
       )}
+
+      {/* Kicked and Banned Users */}
+      {removedParticipants.length > 0 && (
+        <Card className="backdrop-blur-glass bg-card/60 border-border/50 p-4">
+          <h3 className="font-semibold mb-3">Removed Users ({removedParticipants.length})</h3>
+          <div className="space-y-2">
+            {removedParticipants.map((p) => (
+              <div key={p.id} className="flex items-center justify-between p-2 bg-background/50 rounded">
+                <p className="font-medium text-sm">{p.username}</p>
+                <Badge variant="outline" className="bg-red-500/20 text-red-500">
+                  {p.status === "banned" ? "Banned" : "Kicked"}
+                </Badge>
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+
+      {/* Moderation Log */}
+      {moderationLog.length > 0 && (
+        <Card className="backdrop-blur-glass bg-card/60 border-border/50 p-4">
+          <h3 className="font-semibold mb-3 flex items-center gap-2">
+            <ScrollText className="h-4 w-4" />
+            Moderation Log
+          </h3>
+          <div className="space-y-1 max-h-48 overflow-y-auto">
+            {moderationLog.map((entry) => (
+              <p key={entry.id} className="text-xs text-muted-foreground">
+                <span className="text-foreground/70">{format(new Date(entry.createdAt), "HH:mm")}</span>{" "}
+                {entry.actorUsername} {MODERATION_VERBS[entry.action]} {entry.targetUsername}
+                {entry.reason && ` (${entry.reason})`}
+              </p>
+            ))}
+          </div>
+        </Card>
+      )}
     </div>
   );
 };
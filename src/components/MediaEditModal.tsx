@@ -10,6 +10,12 @@ import {
   DialogTitle,
   DialogFooter,
 } from "@/components/ui/dialog";
+import { SubtitleManager } from "@/components/SubtitleManager";
+import { EpisodeFields } from "@/components/EpisodeFields";
+import { MetadataMatchPicker } from "@/components/MetadataMatchPicker";
+import { EpisodeInput, MediaRecord, ReleaseDetails } from "@/lib/api";
+import { EMPTY_EPISODE_FORM, toEpisodeForm, toEpisodeInput } from "@/lib/episodes";
+import { isLocalMediaUrl } from "@/lib/mediaInfo";
 
 interface MediaEditModalProps {
   isOpen: boolean;
@@ -18,10 +24,25 @@ interface MediaEditModalProps {
     title: string;
     description: string | null;
     file_url?: string;
+    // Set when the media is filed under a TV show
+    episode?: EpisodeInput | null;
+    imdbId?: string | null;
+    imdbPinned?: boolean;
+    releaseYear?: number | null;
+    releaseResolution?: string | null;
+    releaseSource?: string | null;
   } | null;
   isLoading: boolean;
   onClose: () => void;
-  onSave: (title: string, description: string, file_url?: string) => Promise<void>;
+  onSave: (
+    title: string,
+    description: string,
+    file_url: string | undefined,
+    episode: EpisodeInput | null,
+    release: ReleaseDetails
+  ) => Promise<void>;
+  // The media row after its metadata match was pinned or unpinned
+  onMatched: (media: MediaRecord) => void;
 }
 
 export const MediaEditModal = ({
@@ -30,10 +51,16 @@ export const MediaEditModal = ({
   isLoading,
   onClose,
   onSave,
+  onMatched,
 }: MediaEditModalProps) => {
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
   const [fileUrl, setFileUrl] = useState("");
+  const [episodeForm, setEpisodeForm] = useState(EMPTY_EPISODE_FORM);
+  const [releaseYear, setReleaseYear] = useState("");
+  const [resolution, setResolution] = useState("");
+  const [source, setSource] = useState("");
+  const episode = toEpisodeInput(episodeForm);
 
   // Update form fields when media changes
   useEffect(() => {
@@ -41,14 +68,22 @@ export const MediaEditModal = ({
       setTitle(media.title || "");
       setDescription(media.description || "");
       setFileUrl(media.file_url || "");
+      setEpisodeForm(toEpisodeForm(media.episode));
+      setReleaseYear(media.releaseYear ? String(media.releaseYear) : "");
+      setResolution(media.releaseResolution || "");
+      setSource(media.releaseSource || "");
     }
   }, [media, isOpen]);
 
   const handleSave = async () => {
-    if (!title.trim()) {
+    if (!title.trim() || episode === undefined) {
       return;
     }
-    await onSave(title, description, fileUrl);
+    await onSave(title, description, fileUrl, episode, {
+      release_year: parseInt(releaseYear) || null,
+      release_resolution: resolution.trim() || null,
+      release_source: source.trim() || null,
+    });
     onClose();
   };
 
@@ -58,7 +93,7 @@ export const MediaEditModal = ({
         <DialogHeader>
           <DialogTitle>Edit Media</DialogTitle>
           <DialogDescription>
-            Update the title and description for this media file.
+            Update the details and subtitle tracks for this media file.
           </DialogDescription>
         </DialogHeader>
 
@@ -93,13 +128,58 @@ export const MediaEditModal = ({
               Update the file URL if you've moved or changed the video file location.
             </p>
           </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label className="text-sm font-medium mb-2 block">Year</label>
+              <Input
+                placeholder="1999"
+                inputMode="numeric"
+                value={releaseYear}
+                onChange={(e) => setReleaseYear(e.target.value.replace(/\D/g, "").slice(0, 4))}
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-2 block">Resolution</label>
+              <Input placeholder="1080p" value={resolution} onChange={(e) => setResolution(e.target.value)} />
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-2 block">Source</label>
+              <Input placeholder="BluRay" value={source} onChange={(e) => setSource(e.target.value)} />
+            </div>
+          </div>
+
+          <EpisodeFields value={episodeForm} onChange={setEpisodeForm} disabled={isLoading} />
+
+          {/* Episodes take their metadata from their show */}
+          {media && !media.episode && (
+            <div className="border-t border-border/50 pt-4">
+              <MetadataMatchPicker
+                key={media.id}
+                mediaId={media.id}
+                title={media.title}
+                imdbId={media.imdbId}
+                imdbPinned={media.imdbPinned}
+                onMatched={onMatched}
+              />
+            </div>
+          )}
+
+          {media && (
+            <div className="border-t border-border/50 pt-4">
+              <SubtitleManager
+                mediaId={media.id}
+                canExtract={isLocalMediaUrl(media.file_url)}
+              />
+            </div>
+          )}
         </div>
 
         <DialogFooter>
           <Button variant="outline" onClick={onClose} disabled={isLoading}>
             Cancel
           </Button>
-          <Button onClick={handleSave} disabled={isLoading || !title.trim()}>
+          <Button onClick={handleSave} disabled={isLoading || !title.trim() || episode === undefined}>
             {isLoading ? "Saving..." : "Save Changes"}
           </Button>
         </DialogFooter>
@@ -0,0 +1,163 @@
+import { useEffect, useState } from "react";
+import { Search, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { api, MediaFacets, MediaQuery, MediaSort } from "@/lib/api";
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+const sortLabels: Record<MediaSort, string> = {
+  relevance: "Best match",
+  newest: "Recently added",
+  oldest: "Oldest added",
+  title: "Title A–Z",
+  year: "Release year",
+};
+
+interface MediaSearchBarProps {
+  value: MediaQuery;
+  onChange: (query: MediaQuery) => void;
+  // Search and genre chips only, for tight spaces
+  compact?: boolean;
+}
+
+const toggle = (list: string[] | undefined, item: string) =>
+  list?.includes(item) ? list.filter((i) => i !== item) : [...(list ?? []), item];
+
+export const MediaSearchBar = ({ value, onChange, compact = false }: MediaSearchBarProps) => {
+  const [text, setText] = useState(value.q ?? "");
+  const [facets, setFacets] = useState<MediaFacets | null>(null);
+
+  useEffect(() => {
+    api
+      .getMediaFacets()
+      .then(setFacets)
+      .catch((error) => console.error("Error fetching media filters:", error));
+  }, []);
+
+  useEffect(() => {
+    if (text === (value.q ?? "")) return;
+    const timeout = setTimeout(() => onChange({ ...value, q: text }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [text, value, onChange]);
+
+  const searching = Boolean(value.q?.trim());
+  // Mirrors the server: relevance is the default while searching and
+  // meaningless otherwise
+  let sort: MediaSort = searching ? "relevance" : "newest";
+  if (value.sort && (value.sort !== "relevance" || searching)) sort = value.sort;
+  const hasFilters = Boolean(
+    value.q || value.genres?.length || value.ratings?.length || value.yearFrom || value.yearTo
+  );
+
+  const setYear = (key: "yearFrom" | "yearTo", input: string) => {
+    const year = Number(input);
+    onChange({ ...value, [key]: input && Number.isInteger(year) ? year : null });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        <div className="relative flex-1 min-w-[12rem]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search titles, people, genres..."
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+
+        {!compact && (
+          <>
+            <Select value={sort} onValueChange={(s) => onChange({ ...value, sort: s as MediaSort })}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(sortLabels) as MediaSort[])
+                  .filter((s) => s !== "relevance" || searching)
+                  .map((s) => (
+                    <SelectItem key={s} value={s}>
+                      {sortLabels[s]}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+
+            {facets?.years && (
+              <div className="flex items-center gap-1">
+                <Input
+                  type="number"
+                  placeholder={String(facets.years.min)}
+                  value={value.yearFrom ?? ""}
+                  onChange={(e) => setYear("yearFrom", e.target.value)}
+                  className="w-24"
+                  aria-label="From year"
+                />
+                <span className="text-muted-foreground">–</span>
+                <Input
+                  type="number"
+                  placeholder={String(facets.years.max)}
+                  value={value.yearTo ?? ""}
+                  onChange={(e) => setYear("yearTo", e.target.value)}
+                  className="w-24"
+                  aria-label="To year"
+                />
+              </div>
+            )}
+          </>
+        )}
+
+        {hasFilters && (
+          <Button
+            variant="ghost"
+            size="icon"
+            title="Clear filters"
+            onClick={() => {
+              setText("");
+              onChange({ sort: value.sort === "relevance" ? undefined : value.sort });
+            }}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {facets && (facets.genres.length > 0 || (!compact && facets.ratings.length > 0)) && (
+        <div className="flex flex-wrap gap-1.5">
+          {facets.genres.map((genre) => (
+            <Badge
+              key={genre}
+              variant={value.genres?.includes(genre) ? "default" : "outline"}
+              className="cursor-pointer select-none"
+              onClick={() => onChange({ ...value, genres: toggle(value.genres, genre) })}
+            >
+              {genre}
+            </Badge>
+          ))}
+          {!compact &&
+            facets.ratings.map((rating) => (
+              <Badge
+                key={rating}
+                variant={value.ratings?.includes(rating) ? "secondary" : "outline"}
+                className="cursor-pointer select-none"
+                onClick={() => onChange({ ...value, ratings: toggle(value.ratings, rating) })}
+              >
+                {rating}
+              </Badge>
+            ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { Film, Pin, PinOff, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { api, MediaRecord, MetadataCandidate } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+
+interface MetadataMatchPickerProps {
+  mediaId: string;
+  title: string;
+  imdbId?: string | null;
+  imdbPinned?: boolean;
+  // Called with the updated media row after pinning or unpinning
+  onMatched: (media: MediaRecord) => void;
+}
+
+/**
+ * Search the metadata providers for a movie and pin the media file to the
+ * right IMDb title, for when the automatic title lookup picked a remake or
+ * a namesake.
+ */
+export const MetadataMatchPicker = ({
+  mediaId,
+  title,
+  imdbId = null,
+  imdbPinned = false,
+  onMatched,
+}: MetadataMatchPickerProps) => {
+  const { toast } = useToast();
+  const [query, setQuery] = useState(title);
+  const [year, setYear] = useState("");
+  const [manualId, setManualId] = useState("");
+  const [results, setResults] = useState<MetadataCandidate[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const handleSearch = async () => {
+    if (!query.trim()) return;
+
+    setSearching(true);
+    try {
+      const { results } = await api.searchMetadata(query.trim(), parseInt(year) || null);
+      setResults(results);
+    } catch (error) {
+      toast({
+        title: "Search failed",
+        description: error instanceof Error ? error.message : "Failed to search metadata.",
+        variant: "destructive",
+      });
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleMatch = async (nextImdbId: string | null) => {
+    setBusy(true);
+    try {
+      const { media } = await api.matchMedia(mediaId, nextImdbId);
+      toast({
+        title: nextImdbId ? "Match pinned" : "Match unpinned",
+        description: nextImdbId
+          ? `Metadata now comes from ${nextImdbId}.`
+          : "Resync will look this title up by name again.",
+      });
+      setManualId("");
+      onMatched(media);
+    } catch (error) {
+      toast({
+        title: "Match failed",
+        description: error instanceof Error ? error.message : "Failed to update the metadata match.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <label className="text-sm font-medium">Metadata match</label>
+        {imdbPinned && imdbId ? (
+          <div className="flex items-center gap-2">
+            <Badge variant="secondary">
+              <Pin className="h-3 w-3 mr-1" />
+              {imdbId}
+            </Badge>
+            <Button variant="ghost" size="sm" onClick={() => handleMatch(null)} disabled={busy}>
+              <PinOff className="h-4 w-4 mr-1" />
+              Unpin
+            </Button>
+          </div>
+        ) : (
+          <span className="text-xs text-muted-foreground">
+            {imdbId ? `Automatic: ${imdbId}` : "No match yet"}
+          </span>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          placeholder="Title"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleSearch()}
+        />
+        <Input
+          placeholder="Year"
+          value={year}
+          onChange={(e) => setYear(e.target.value.replace(/\D/g, ""))}
+          onKeyDown={(e) => e.key === "Enter" && handleSearch()}
+          className="w-20"
+          inputMode="numeric"
+        />
+        <Button variant="outline" size="icon" onClick={handleSearch} disabled={searching || !query.trim()}>
+          <Search className={`h-4 w-4 ${searching ? "animate-pulse" : ""}`} />
+        </Button>
+      </div>
+
+      {results && (
+        <div className="max-h-60 space-y-1 overflow-y-auto">
+          {results.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No matches found.</p>
+          ) : (
+            results.map((candidate) => (
+              <div
+                key={candidate.imdbId}
+                className={`flex items-center gap-3 rounded-md px-2 py-1.5 hover:bg-muted/50 ${candidate.imdbId === imdbId ? "bg-muted/50" : ""}`}
+              >
+                <div className="h-12 w-8 shrink-0 overflow-hidden rounded bg-black/50 flex items-center justify-center">
+                  {candidate.posterUrl ? (
+                    <img src={candidate.posterUrl} alt={candidate.title} className="h-full w-full object-cover" />
+                  ) : (
+                    <Film className="h-4 w-4 text-muted-foreground" />
+                  )}
+                </div>
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm">
+                    {candidate.title}
+                    {candidate.releaseYear && (
+                      <span className="text-muted-foreground"> ({candidate.releaseYear})</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{candidate.imdbId}</p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleMatch(candidate.imdbId)}
+                  disabled={busy || (imdbPinned && candidate.imdbId === imdbId)}
+                >
+                  Use
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          placeholder="Or pin an IMDb ID, e.g. tt0111161"
+          value={manualId}
+          onChange={(e) => setManualId(e.target.value.trim())}
+        />
+        <Button
+          variant="outline"
+          onClick={() => handleMatch(manualId)}
+          disabled={busy || !/^tt\d+$/.test(manualId)}
+        >
+          <Pin className="h-4 w-4 mr-1" />
+          Pin
+        </Button>
+      </div>
+    </div>
+  );
+};
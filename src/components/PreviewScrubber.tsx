@@ -0,0 +1,114 @@
+import { RefObject, useEffect, useRef, useState } from "react";
+import { findPreviewTile, parsePreviewTrack, PreviewTile } from "@/lib/previewTrack";
+import { formatDuration } from "@/lib/mediaInfo";
+
+interface PreviewScrubberProps {
+  videoRef: RefObject<HTMLVideoElement>;
+  previewTrackUrl: string;
+  // Only the host moves the room clock; everyone else just gets previews
+  canSeek: boolean;
+}
+
+/**
+ * Timeline bar under the player that shows sprite thumbnails while hovering
+ * and, for the host, seeks on click. Native <video> controls offer no hook
+ * for hover previews, so this sits alongside them.
+ */
+export const PreviewScrubber = ({ videoRef, previewTrackUrl, canSeek }: PreviewScrubberProps) => {
+  const barRef = useRef<HTMLDivElement>(null);
+  const [tiles, setTiles] = useState<PreviewTile[]>([]);
+  const [duration, setDuration] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [hover, setHover] = useState<{ time: number; left: number } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setTiles([]);
+
+    fetch(previewTrackUrl)
+      .then((res) => (res.ok ? res.text() : Promise.reject(new Error(`HTTP ${res.status}`))))
+      .then((vtt) => {
+        if (!cancelled) setTiles(parsePreviewTrack(vtt));
+      })
+      .catch((error) => {
+        console.error("Failed to load preview thumbnails:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [previewTrackUrl]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const update = () => {
+      setDuration(Number.isFinite(video.duration) ? video.duration : 0);
+      setCurrentTime(video.currentTime);
+    };
+    update();
+
+    video.addEventListener("timeupdate", update);
+    video.addEventListener("durationchange", update);
+    return () => {
+      video.removeEventListener("timeupdate", update);
+      video.removeEventListener("durationchange", update);
+    };
+  }, [videoRef]);
+
+  if (tiles.length === 0 || duration <= 0) return null;
+
+  const timeAt = (clientX: number) => {
+    const rect = barRef.current!.getBoundingClientRect();
+    const fraction = Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1);
+    return { time: fraction * duration, left: fraction * rect.width, width: rect.width };
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    const { time, left, width } = timeAt(e.clientX);
+    const tile = findPreviewTile(tiles, time);
+    // Keep the preview inside the bar at either end
+    const half = (tile?.width ?? 0) / 2;
+    setHover({ time, left: Math.min(Math.max(left, half), width - half) });
+  };
+
+  const handleClick = (e: React.MouseEvent) => {
+    if (!canSeek || !videoRef.current) return;
+    videoRef.current.currentTime = timeAt(e.clientX).time;
+  };
+
+  const hoverTile = hover ? findPreviewTile(tiles, hover.time) : null;
+
+  return (
+    <div
+      ref={barRef}
+      className={`relative z-10 h-2 bg-white/10 hover:h-3 transition-all ${canSeek ? "cursor-pointer" : "cursor-default"}`}
+      onMouseMove={handleMouseMove}
+      onMouseLeave={() => setHover(null)}
+      onClick={handleClick}
+    >
+      <div className="h-full bg-primary" style={{ width: `${(currentTime / duration) * 100}%` }} />
+
+      {hover && hoverTile && (
+        <div
+          className="absolute bottom-full mb-2 -translate-x-1/2 pointer-events-none"
+          style={{ left: hover.left }}
+        >
+          <div
+            className="rounded border border-border/50 shadow-lg"
+            style={{
+              width: hoverTile.width,
+              height: hoverTile.height,
+              backgroundImage: `url(${hoverTile.url})`,
+              backgroundPosition: `-${hoverTile.x}px -${hoverTile.y}px`,
+            }}
+          />
+          <p className="mt-1 text-center text-xs text-white">
+            <span className="rounded bg-black/70 px-1">{formatDuration(hover.time)}</span>
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ArrowDown, ArrowUp, ListVideo, Plus, SkipForward, X } from "lucide-react";
+import { api } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import type { QueueItem } from "@shared/roomProtocol";
+
+interface QueuePanelProps {
+  roomCode: string;
+  items: QueueItem[];
+  isHost: boolean;
+  onItemsChange: (items: QueueItem[]) => void;
+  onSkip: () => void;
+}
+
+export const QueuePanel = ({ roomCode, items, isHost, onItemsChange, onSkip }: QueuePanelProps) => {
+  const { toast } = useToast();
+  const [videoUrl, setVideoUrl] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  // Queue changes are also broadcast over the socket; applying the REST
+  // response as well keeps the host's view snappy on slow connections.
+  const runQueueAction = async (action: () => Promise<{ items: QueueItem[] }>, failure: string) => {
+    setBusy(true);
+    try {
+      const result = await action();
+      onItemsChange(result.items);
+      return true;
+    } catch (error) {
+      toast({
+        title: failure,
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAddUrl = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const url = videoUrl.trim();
+    if (!url) return;
+
+    const added = await runQueueAction(
+      () => api.addToQueue(roomCode, { video_url: url }),
+      "Failed to add to queue"
+    );
+    if (added) setVideoUrl("");
+  };
+
+  const handleRemove = (itemId: string) =>
+    runQueueAction(() => api.removeFromQueue(roomCode, itemId), "Failed to remove from queue");
+
+  const handleMove = (itemId: string, index: number) =>
+    runQueueAction(() => api.moveQueueItem(roomCode, itemId, index), "Failed to reorder queue");
+
+  if (!isHost && items.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="backdrop-blur-glass bg-card/60 rounded-xl p-6 border border-border/50">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <ListVideo className="h-5 w-5" />
+          Up Next ({items.length})
+        </h3>
+        {isHost && items.length > 0 && (
+          <Button size="sm" variant="secondary" onClick={onSkip} disabled={busy} className="gap-2">
+            <SkipForward className="h-4 w-4" />
+            Play next
+          </Button>
+        )}
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-sm text-muted-foreground mb-4">
+          The queue is empty. Add videos from the library or by URL and they'll play one after another.
+        </p>
+      ) : (
+        <ol className="space-y-2 mb-4">
+          {items.map((item, index) => (
+            <li
+              key={item.id}
+              className="flex items-center gap-3 p-3 bg-background/50 rounded-lg border border-border/50"
+            >
+              <span className="text-sm text-muted-foreground w-5 text-right">{index + 1}</span>
+              <span className="flex-1 min-w-0 text-sm font-medium truncate" title={item.video_url}>
+                {item.title}
+              </span>
+              {isHost && (
+                <div className="flex items-center gap-1">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8"
+                    disabled={busy || index === 0}
+                    onClick={() => handleMove(item.id, index - 1)}
+                    title="Move up"
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8"
+                    disabled={busy || index === items.length - 1}
+                    onClick={() => handleMove(item.id, index + 1)}
+                    title="Move down"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8"
+                    disabled={busy}
+                    onClick={() => handleRemove(item.id)}
+                    title="Remove from queue"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {isHost && (
+        <form onSubmit={handleAddUrl} className="flex gap-2">
+          <Input
+            type="url"
+            placeholder="Queue a video URL"
+            value={videoUrl}
+            onChange={(e) => setVideoUrl(e.target.value)}
+          />
+          <Button type="submit" disabled={busy || !videoUrl.trim()} className="gap-2">
+            <Plus className="h-4 w-4" />
+            Add
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,214 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Copy, Link, Lock, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { api, RoomAccess, RoomAccessMode, RoomInvite } from "@/lib/api";
+import { ROOM_ACCESS_MODES, formatInviteUses, inviteUrl } from "@/lib/roomAccess";
+
+interface RoomAccessCardProps {
+  roomCode: string;
+}
+
+// Lifetimes offered for new invite links, in hours
+const INVITE_LIFETIMES: { hours: number; label: string }[] = [
+  { hours: 1, label: "1 hour" },
+  { hours: 24, label: "1 day" },
+  { hours: 24 * 7, label: "7 days" },
+];
+
+const inviteState = (invite: RoomInvite) => {
+  if (new Date(invite.expiresAt) <= new Date()) return "Expired";
+  if (invite.maxUses !== null && invite.useCount >= invite.maxUses) return "Used up";
+  return null;
+};
+
+/**
+ * Host-only settings for who may join the room without asking: the access
+ * mode, the room password and invite links.
+ */
+export const RoomAccessCard = ({ roomCode }: RoomAccessCardProps) => {
+  const { toast } = useToast();
+  const [access, setAccess] = useState<RoomAccess | null>(null);
+  const [mode, setMode] = useState<RoomAccessMode>("approval");
+  const [password, setPassword] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [singleUse, setSingleUse] = useState(true);
+  const [lifetimeHours, setLifetimeHours] = useState(24);
+
+  const showError = (error: unknown, fallback: string) =>
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+
+  useEffect(() => {
+    api
+      .getRoomAccess(roomCode)
+      .then((data) => {
+        setAccess(data);
+        setMode(data.mode);
+      })
+      .catch((error) => console.error("Failed to load access settings:", error));
+  }, [roomCode]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const data = await api.updateRoomAccess(roomCode, mode, mode === "password" && password ? password : undefined);
+      setAccess(data);
+      setPassword("");
+      toast({ title: "Access updated", description: ROOM_ACCESS_MODES.find((o) => o.value === mode)?.description });
+    } catch (error) {
+      showError(error, "Failed to update access");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreateInvite = async () => {
+    try {
+      const { invite } = await api.createRoomInvite(roomCode, {
+        maxUses: singleUse ? 1 : undefined,
+        expiresInHours: lifetimeHours,
+      });
+      setAccess((prev) => (prev ? { ...prev, invites: [invite, ...prev.invites] } : prev));
+      await navigator.clipboard.writeText(inviteUrl(roomCode, invite));
+      toast({ title: "Invite link created", description: "The link has been copied to your clipboard." });
+    } catch (error) {
+      showError(error, "Failed to create invite");
+    }
+  };
+
+  const handleCopy = async (invite: RoomInvite) => {
+    await navigator.clipboard.writeText(inviteUrl(roomCode, invite));
+    toast({ title: "Copied", description: "Invite link copied to your clipboard." });
+  };
+
+  const handleRevoke = async (invite: RoomInvite) => {
+    if (!confirm("Revoke this invite link? Nobody else will be able to join with it.")) return;
+
+    try {
+      await api.revokeRoomInvite(roomCode, invite.id);
+      setAccess((prev) => (prev ? { ...prev, invites: prev.invites.filter((i) => i.id !== invite.id) } : prev));
+    } catch (error) {
+      showError(error, "Failed to revoke invite");
+    }
+  };
+
+  if (!access) return null;
+
+  const unchanged = mode === access.mode && !password;
+  const needsPassword = mode === "password" && !access.hasPassword && !password;
+
+  return (
+    <Card className="backdrop-blur-glass bg-card/60 border-border/50 p-4">
+      <h3 className="font-semibold mb-3 flex items-center gap-2">
+        <Lock className="h-4 w-4" />
+        Room Access
+      </h3>
+
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Select value={mode} onValueChange={(value) => setMode(value as RoomAccessMode)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ROOM_ACCESS_MODES.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {ROOM_ACCESS_MODES.find((option) => option.value === mode)?.description}
+          </p>
+          {mode === "password" && (
+            <Input
+              type="password"
+              placeholder={access.hasPassword ? "New password (leave empty to keep it)" : "Password or PIN"}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          )}
+          <Button size="sm" onClick={handleSave} disabled={saving || unchanged || needsPassword}>
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </div>
+
+        <div className="space-y-2 border-t border-border/50 pt-4">
+          <h4 className="text-sm font-medium flex items-center gap-2">
+            <Link className="h-4 w-4" />
+            Invite Links
+          </h4>
+          <p className="text-xs text-muted-foreground">Invite links let people in whatever the access mode is.</p>
+          <div className="flex flex-wrap gap-2">
+            <Select value={singleUse ? "single" : "multi"} onValueChange={(value) => setSingleUse(value === "single")}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="single">Single use</SelectItem>
+                <SelectItem value="multi">Unlimited uses</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={String(lifetimeHours)} onValueChange={(value) => setLifetimeHours(Number(value))}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {INVITE_LIFETIMES.map((lifetime) => (
+                  <SelectItem key={lifetime.hours} value={String(lifetime.hours)}>
+                    {lifetime.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" onClick={handleCreateInvite}>
+              Create link
+            </Button>
+          </div>
+
+          {access.invites.map((invite) => {
+            const state = inviteState(invite);
+            return (
+              <div key={invite.id} className="flex items-center justify-between gap-2 p-2 bg-background/50 rounded">
+                <div className="min-w-0">
+                  <p className="text-sm">{formatInviteUses(invite)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Expires {format(new Date(invite.expiresAt), "MMM d, HH:mm")}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {state ? (
+                    <Badge variant="outline" className="bg-red-500/20 text-red-500">{state}</Badge>
+                  ) : (
+                    <Button size="sm" variant="outline" title="Copy link" onClick={() => handleCopy(invite)}>
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button size="sm" variant="destructive" title="Revoke" onClick={() => handleRevoke(invite)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,205 @@
+import { ReactNode, useCallback, useEffect, useState } from "react";
+import { ArrowLeft, Search, Tv } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { api, Series, SeriesEpisode } from "@/lib/api";
+import { formatDuration } from "@/lib/mediaInfo";
+import { formatEpisodeCode, formatSeasonLabel } from "@/lib/episodes";
+
+type SeriesSummary = Series & { seasonCount: number; episodeCount: number };
+type SeriesDetail = { series: Series; seasons: { number: number; episodes: SeriesEpisode[] }[] };
+
+interface SeriesBrowserProps {
+  // Buttons shown on each episode row
+  renderEpisodeActions: (episode: SeriesEpisode, series: Series) => ReactNode;
+  onEpisodeClick?: (episode: SeriesEpisode, series: Series) => void;
+  // Bump to re-fetch after the library changed elsewhere on the page
+  refreshKey?: number;
+  compact?: boolean;
+}
+
+/**
+ * The library's TV shows: a grid of series, then one show's episodes grouped
+ * by season.
+ */
+export const SeriesBrowser = ({
+  renderEpisodeActions,
+  onEpisodeClick,
+  refreshKey = 0,
+  compact = false,
+}: SeriesBrowserProps) => {
+  const [seriesList, setSeriesList] = useState<SeriesSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<SeriesDetail | null>(null);
+
+  const fetchSeriesList = useCallback(async () => {
+    try {
+      const { series } = await api.listSeries();
+      setSeriesList(series);
+    } catch (error) {
+      console.error("Error fetching series:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSeriesList();
+  }, [fetchSeriesList, refreshKey]);
+
+  useEffect(() => {
+    if (!selectedId) {
+      setDetail(null);
+      return;
+    }
+
+    let cancelled = false;
+    api
+      .getSeries(selectedId)
+      .then((result) => {
+        if (!cancelled) setDetail(result);
+      })
+      .catch((error) => {
+        // Its last episode was probably just removed
+        console.error("Error fetching series:", error);
+        if (!cancelled) setSelectedId(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId, refreshKey]);
+
+  if (selectedId) {
+    if (!detail || detail.series.id !== selectedId) {
+      return (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-pulse text-muted-foreground">Loading episodes...</div>
+        </div>
+      );
+    }
+
+    const { series, seasons } = detail;
+
+    return (
+      <div className="space-y-4">
+        <div className="flex items-start gap-4">
+          <Button variant="ghost" size="icon" onClick={() => setSelectedId(null)} title="All shows">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          {series.posterUrl && !compact && (
+            <img src={series.posterUrl} alt={series.title} className="h-28 rounded object-cover" />
+          )}
+          <div className="min-w-0 space-y-1">
+            <h3 className="font-semibold">{series.title}</h3>
+            <p className="text-xs text-muted-foreground">
+              {[series.releaseYear, series.rating, series.genre].filter(Boolean).join(" • ")}
+            </p>
+            {series.description && !compact && (
+              <p className="text-sm text-muted-foreground line-clamp-3">{series.description}</p>
+            )}
+          </div>
+        </div>
+
+        <Accordion type="multiple" defaultValue={seasons.slice(0, 1).map((season) => String(season.number))}>
+          {seasons.map((season) => (
+            <AccordionItem key={season.number} value={String(season.number)}>
+              <AccordionTrigger>
+                {formatSeasonLabel(season.number)}
+                <span className="ml-auto mr-2 text-xs font-normal text-muted-foreground">
+                  {season.episodes.length} {season.episodes.length === 1 ? "episode" : "episodes"}
+                </span>
+              </AccordionTrigger>
+              <AccordionContent>
+                <div className="space-y-1">
+                  {season.episodes.map((episode) => (
+                    <div
+                      key={episode.id}
+                      className={`flex items-center gap-3 rounded-md px-2 py-1.5 hover:bg-muted/50 ${onEpisodeClick ? "cursor-pointer" : ""}`}
+                      onClick={() => onEpisodeClick?.(episode, series)}
+                    >
+                      <span className="w-16 shrink-0 font-mono text-xs text-muted-foreground">
+                        {formatEpisodeCode(episode.seasonNumber, episode.episodeNumber)}
+                      </span>
+                      <span className="flex-1 truncate text-sm">{episode.title}</span>
+                      {episode.duration != null && (
+                        <span className="text-xs text-muted-foreground">{formatDuration(episode.duration)}</span>
+                      )}
+                      <div className="flex shrink-0 gap-1" onClick={(e) => e.stopPropagation()}>
+                        {renderEpisodeActions(episode, series)}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </AccordionContent>
+            </AccordionItem>
+          ))}
+        </Accordion>
+      </div>
+    );
+  }
+
+  const visible = seriesList.filter((series) =>
+    series.title.toLowerCase().includes(filter.trim().toLowerCase())
+  );
+
+  return (
+    <div className="space-y-4">
+      {seriesList.length > 0 && (
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Filter shows..."
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+      )}
+
+      {visible.length === 0 ? (
+        <div className="text-center py-8">
+          <Tv className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+          <p className="text-muted-foreground">
+            {loading
+              ? "Loading shows..."
+              : seriesList.length > 0
+                ? "No shows match your filter."
+                : "No TV shows in the library yet."}
+          </p>
+        </div>
+      ) : (
+        <div
+          className={`grid gap-3 ${compact ? "grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5" : "grid-cols-2 md:grid-cols-4 lg:grid-cols-5"}`}
+        >
+          {visible.map((series) => (
+            <Card
+              key={series.id}
+              className="backdrop-blur-glass bg-card/60 border-border/50 overflow-hidden hover:border-primary/50 transition-colors cursor-pointer"
+              onClick={() => setSelectedId(series.id)}
+            >
+              <div className="aspect-[2/3] bg-black/50 flex items-center justify-center overflow-hidden">
+                {series.posterUrl ? (
+                  <img src={series.posterUrl} alt={series.title} className="w-full h-full object-cover" />
+                ) : (
+                  <Tv className="h-8 w-8 text-muted-foreground" />
+                )}
+              </div>
+              <div className="p-2">
+                <h3 className="font-semibold text-xs mb-1 truncate">{series.title}</h3>
+                <p className="text-xs text-muted-foreground">
+                  {series.seasonCount} {series.seasonCount === 1 ? "season" : "seasons"} · {series.episodeCount}{" "}
+                  {series.episodeCount === 1 ? "episode" : "episodes"}
+                </p>
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
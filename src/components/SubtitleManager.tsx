@@ -0,0 +1,173 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Subtitles, Trash2, Upload, Wand2 } from "lucide-react";
+import { api, SubtitleTrack } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+
+interface SubtitleManagerProps {
+  mediaId: string;
+  // Only uploaded files can have subtitle streams extracted from them
+  canExtract: boolean;
+}
+
+export const SubtitleManager = ({ mediaId, canExtract }: SubtitleManagerProps) => {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [tracks, setTracks] = useState<SubtitleTrack[]>([]);
+  const [language, setLanguage] = useState("en");
+  const [label, setLabel] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const fetchTracks = useCallback(async () => {
+    try {
+      const { subtitles } = await api.listSubtitles(mediaId);
+      setTracks(subtitles);
+    } catch (error) {
+      console.error("Error fetching subtitles:", error);
+    }
+  }, [mediaId]);
+
+  useEffect(() => {
+    fetchTracks();
+  }, [fetchTracks]);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setBusy(true);
+    try {
+      await api.uploadSubtitle(mediaId, file, language.trim(), label.trim() || undefined);
+      toast({
+        title: "Subtitles added",
+        description: `${file.name} is now available in rooms.`,
+      });
+      setLabel("");
+      await fetchTracks();
+    } catch (error) {
+      toast({
+        title: "Upload failed",
+        description: error instanceof Error ? error.message : "Failed to upload subtitles.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+    }
+  };
+
+  const handleDelete = async (track: SubtitleTrack) => {
+    setBusy(true);
+    try {
+      await api.deleteSubtitle(mediaId, track.id);
+      await fetchTracks();
+    } catch (error) {
+      toast({
+        title: "Delete failed",
+        description: "Failed to remove subtitle track.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleExtract = async () => {
+    setBusy(true);
+    try {
+      await api.extractSubtitles(mediaId);
+      toast({
+        title: "Extraction queued",
+        description: "Embedded subtitle tracks will appear here once they're extracted.",
+      });
+    } catch (error) {
+      toast({
+        title: "Extraction failed",
+        description: error instanceof Error ? error.message : "Failed to queue extraction.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="text-sm font-medium flex items-center gap-2">
+        <Subtitles className="h-4 w-4" />
+        Subtitles
+      </label>
+
+      {tracks.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No subtitle tracks yet.</p>
+      ) : (
+        <ul className="space-y-2">
+          {tracks.map((track) => (
+            <li key={track.id} className="flex items-center justify-between gap-2 text-sm">
+              <span className="truncate">
+                {track.label} <span className="text-muted-foreground">({track.language})</span>
+              </span>
+              <div className="flex items-center gap-2">
+                {track.source === "embedded" && <Badge variant="secondary">Embedded</Badge>}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  disabled={busy}
+                  onClick={() => handleDelete(track)}
+                  title="Remove track"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          placeholder="Language (e.g. en)"
+          value={language}
+          onChange={(e) => setLanguage(e.target.value)}
+          className="w-28"
+        />
+        <Input
+          placeholder="Label (optional)"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+        />
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".srt,.vtt"
+        onChange={handleUpload}
+        className="hidden"
+      />
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex-1"
+          disabled={busy || !language.trim()}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <Upload className="h-4 w-4 mr-2" />
+          Upload .srt / .vtt
+        </Button>
+        {canExtract && (
+          <Button variant="outline" size="sm" className="flex-1" disabled={busy} onClick={handleExtract}>
+            <Wand2 className="h-4 w-4 mr-2" />
+            Extract embedded
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import { Subtitles } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { SubtitleTrack } from "@/lib/api";
+
+// Viewer choice that defers to whatever the host has selected
+export const FOLLOW_HOST = "host";
+export const SUBTITLES_OFF = "off";
+
+interface SubtitleSelectorProps {
+  tracks: SubtitleTrack[];
+  isHost: boolean;
+  // Track id, SUBTITLES_OFF, or (viewers only) FOLLOW_HOST
+  value: string;
+  // Label of the host's current choice, shown on the follow option
+  hostLabel: string;
+  onChange: (value: string) => void;
+}
+
+export const SubtitleSelector = ({ tracks, isHost, value, hostLabel, onChange }: SubtitleSelectorProps) => {
+  return (
+    <div className="flex items-center gap-3">
+      <Subtitles className="h-5 w-5 text-muted-foreground shrink-0" />
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="w-full sm:w-72">
+          <SelectValue placeholder="Subtitles" />
+        </SelectTrigger>
+        <SelectContent>
+          {!isHost && <SelectItem value={FOLLOW_HOST}>Follow host ({hostLabel})</SelectItem>}
+          <SelectItem value={SUBTITLES_OFF}>Off</SelectItem>
+          {tracks.map((track) => (
+            <SelectItem key={track.id} value={track.id}>
+              {track.label}
+              {track.label.toLowerCase() !== track.language.toLowerCase() && (
+                <span className="text-muted-foreground"> ({track.language})</span>
+              )}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {isHost && (
+        <span className="text-xs text-muted-foreground hidden sm:inline">Synced to everyone</span>
+      )}
+    </div>
+  );
+};
@@ -1,57 +1,65 @@
-import { useEffect, useState } from "react";
+import { useMemo, useState } from "react";
 import { Card } from "@/components/ui/card";
-import { Film, Check } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Film, Check, ListPlus, AlertTriangle, Play, Tv } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { api } from "@/lib/api";
+import { api, MediaQuery, SeriesEpisode } from "@/lib/api";
+import { useMediaSearch } from "@/hooks/useMediaSearch";
+import { MediaSearchBar } from "@/components/MediaSearchBar";
+import { SeriesBrowser } from "@/components/SeriesBrowser";
+import { MediaProbe, formatDuration, formatResolution, getPlaybackWarning } from "@/lib/mediaInfo";
 
-interface MediaFile {
+interface MediaFile extends Partial<MediaProbe> {
   id: string;
   title: string;
   description: string | null;
   file_url: string;
   file_type: string;
   posterUrl?: string | null;
+  thumbnailUrl?: string | null;
   releaseYear?: number | null;
   rating?: string | null;
+  transcodeStatus?: string;
+  // Library files that are gone from the server's disk
+  missingAt?: string | null;
 }
 
+// What selecting or queueing needs from a movie or an episode
+type PlayableMedia = Pick<MediaFile, "id" | "title" | "file_url">;
+
+const fromEpisode = (episode: SeriesEpisode): PlayableMedia => ({
+  id: episode.id,
+  title: episode.title,
+  file_url: episode.fileUrl,
+});
+
 interface VideoBrowserProps {
   roomId: string;
   onVideoSelected: () => void;
-  username?: string;
 }
 
-const VideoBrowser = ({ roomId, onVideoSelected, username }: VideoBrowserProps) => {
+const VideoBrowser = ({ roomId, onVideoSelected }: VideoBrowserProps) => {
   const { toast } = useToast();
-  const [mediaFiles, setMediaFiles] = useState<MediaFile[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [mediaQuery, setMediaQuery] = useState<MediaQuery>({});
+  // Episodes are picked by show on the TV tab
+  const movieQuery = useMemo<MediaQuery>(() => ({ ...mediaQuery, type: "movie" }), [mediaQuery]);
+  const { media, loading, hasMore, loadMore } = useMediaSearch(movieQuery);
   const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [queueingId, setQueueingId] = useState<string | null>(null);
   const [failedImages, setFailedImages] = useState<Set<string>>(new Set());
 
-  useEffect(() => {
-    fetchMediaFiles();
-  }, []);
-
-  const fetchMediaFiles = async () => {
-    try {
-      const { media } = await api.listMedia();
-      console.log("Fetched media files:", media);
-      setMediaFiles(
-        media.map((file: any) => ({
-          ...file,
-          file_url: file.file_url ?? file.fileUrl,
-          file_type: file.file_type ?? file.fileType,
-          posterUrl: file.posterUrl ?? file.poster_url ?? null,
-        }))
-      );
-    } catch (error) {
-      console.error("Error fetching media files:", error);
-    } finally {
-      setLoading(false);
-    }
-  };
+  const mediaFiles: MediaFile[] = useMemo(
+    () =>
+      media.map((file) => ({
+        ...file,
+        file_url: file.fileUrl,
+        file_type: file.fileType,
+      })),
+    [media]
+  );
 
-  const handleSelectVideo = async (file: MediaFile) => {
+  const handleSelectVideo = async (file: PlayableMedia) => {
     setSelectedId(file.id);
 
     try {
@@ -59,7 +67,7 @@ const VideoBrowser = ({ roomId, onVideoSelected, username }: VideoBrowserProps)
         video_url: file.file_url,
         playback_position: 0,
         is_playing: false,
-      }, username);
+      });
 
       toast({
         title: "Video selected!",
@@ -79,64 +87,183 @@ const VideoBrowser = ({ roomId, onVideoSelected, username }: VideoBrowserProps)
     }
   };
 
-  if (loading) {
-    return (
+  const handleQueueVideo = async (e: React.MouseEvent, file: PlayableMedia) => {
+    // Don't also select the card
+    e.stopPropagation();
+    setQueueingId(file.id);
+
+    try {
+      await api.addToQueue(roomId, { media_id: file.id });
+
+      toast({
+        title: "Added to queue",
+        description: `${file.title} will play after the current video.`,
+      });
+    } catch (error) {
+      console.error("Error queueing video:", error);
+      toast({
+        title: "Failed to add to queue",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setQueueingId(null);
+    }
+  };
+
+  const isFiltered = Boolean(mediaQuery.q?.trim() || mediaQuery.genres?.length);
+
+  const renderEmpty = () =>
+    loading ? (
       <div className="flex items-center justify-center py-8">
-        <div className="animate-pulse text-muted-foreground">Loading videos...</div>
+        <div className="animate-pulse text-muted-foreground">Loading movies...</div>
       </div>
-    );
-  }
-
-  if (mediaFiles.length === 0) {
-    return (
+    ) : isFiltered ? (
+      <p className="text-center py-8 text-muted-foreground">No movies match your search.</p>
+    ) : (
       <div className="text-center py-8">
         <Film className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
-        <p className="text-muted-foreground">No videos available in the library.</p>
+        <p className="text-muted-foreground">No movies available in the library.</p>
         <p className="text-sm text-muted-foreground mt-2">
           An admin needs to upload videos first.
         </p>
       </div>
     );
-  }
 
   return (
-    <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-3">
-      {mediaFiles.map((file) => (
-        <Card
-          key={file.id}
-          className="backdrop-blur-glass bg-card/60 border-border/50 overflow-hidden hover:border-primary/50 transition-colors cursor-pointer group"
-          onClick={() => handleSelectVideo(file)}
-        >
-          <div className="aspect-video bg-black/50 flex items-center justify-center overflow-hidden relative">
-            {file.posterUrl && !failedImages.has(file.id) ? (
-              <img
-                src={file.posterUrl}
-                alt={file.title}
-                className="w-full h-full object-cover group-hover:scale-105 transition-transform"
-                onError={() => {
-                  console.error("Failed to load poster:", file.posterUrl);
-                  setFailedImages((prev) => new Set([...prev, file.id]));
-                }}
-                crossOrigin="anonymous"
-              />
-            ) : (
-              <Film className="h-8 w-8 text-muted-foreground" />
-            )}
+    <Tabs defaultValue="movies">
+      <TabsList className="mb-4">
+        <TabsTrigger value="movies" className="gap-2">
+          <Film className="h-4 w-4" />
+          Movies
+        </TabsTrigger>
+        <TabsTrigger value="tv" className="gap-2">
+          <Tv className="h-4 w-4" />
+          TV Shows
+        </TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="movies" className="space-y-4">
+        <MediaSearchBar value={mediaQuery} onChange={setMediaQuery} compact />
+
+        {mediaFiles.length === 0 ? (
+          renderEmpty()
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-3">
+            {mediaFiles.map((file) => (
+              <Card
+                key={file.id}
+                className="backdrop-blur-glass bg-card/60 border-border/50 overflow-hidden hover:border-primary/50 transition-colors cursor-pointer group"
+                onClick={() => handleSelectVideo(file)}
+              >
+                <div className="aspect-video bg-black/50 flex items-center justify-center overflow-hidden relative">
+                  {file.duration != null && (
+                    <span className="absolute bottom-1 right-1 z-10 rounded bg-black/70 px-1 text-[10px] text-white">
+                      {formatDuration(file.duration)}
+                    </span>
+                  )}
+                  {file.posterUrl && !failedImages.has(file.id) ? (
+                    <img
+                      src={file.posterUrl}
+                      alt={file.title}
+                      className="w-full h-full object-cover group-hover:scale-105 transition-transform"
+                      onError={() => {
+                        console.error("Failed to load poster:", file.posterUrl);
+                        setFailedImages((prev) => new Set([...prev, file.id]));
+                      }}
+                      crossOrigin="anonymous"
+                    />
+                  ) : file.thumbnailUrl ? (
+                    <img
+                      src={file.thumbnailUrl}
+                      alt={file.title}
+                      className="w-full h-full object-cover group-hover:scale-105 transition-transform"
+                    />
+                  ) : (
+                    <Film className="h-8 w-8 text-muted-foreground" />
+                  )}
+                </div>
+                <div className="p-2">
+                  <h3 className="font-semibold text-xs mb-1 truncate">{file.title}</h3>
+                  <div className="flex items-center justify-between gap-1">
+                    <p className="text-xs text-muted-foreground truncate flex items-center gap-1">
+                      {[file.releaseYear, file.width && file.height ? formatResolution(file.width, file.height) : null]
+                        .filter(Boolean)
+                        .join(" · ")}
+                      {file.missingAt ? (
+                        <span title="The file is missing from the server">
+                          <AlertTriangle className="h-3 w-3 text-destructive" />
+                        </span>
+                      ) : (
+                        getPlaybackWarning(file, file.transcodeStatus === "ready") && (
+                          <span title={getPlaybackWarning(file, file.transcodeStatus === "ready") ?? undefined}>
+                            <AlertTriangle className="h-3 w-3 text-amber-500" />
+                          </span>
+                        )
+                      )}
+                    </p>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-6 w-6"
+                      title="Add to queue"
+                      disabled={queueingId === file.id}
+                      onClick={(e) => handleQueueVideo(e, file)}
+                    >
+                      <ListPlus className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                  {selectedId === file.id && (
+                    <div className="mt-2 flex items-center justify-center text-green-500">
+                      <Check className="h-4 w-4" />
+                    </div>
+                  )}
+                </div>
+              </Card>
+            ))}
           </div>
-          <div className="p-2">
-            <h3 className="font-semibold text-xs mb-1 truncate">{file.title}</h3>
-            {file.releaseYear && (
-              <p className="text-xs text-muted-foreground">{file.releaseYear}</p>
-            )}
-            {selectedId === file.id && (
-              <div className="mt-2 flex items-center justify-center text-green-500">
-                <Check className="h-4 w-4" />
-              </div>
-            )}
+        )}
+
+        {hasMore && (
+          <div className="flex justify-center">
+            <Button variant="outline" size="sm" onClick={loadMore} disabled={loading}>
+              {loading ? "Loading..." : "Load more"}
+            </Button>
           </div>
-        </Card>
-      ))}
-    </div>
+        )}
+      </TabsContent>
+
+      <TabsContent value="tv">
+        <SeriesBrowser
+          compact
+          onEpisodeClick={(episode) => handleSelectVideo(fromEpisode(episode))}
+          renderEpisodeActions={(episode) => (
+            <>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7"
+                title="Play now"
+                disabled={selectedId === episode.id}
+                onClick={() => handleSelectVideo(fromEpisode(episode))}
+              >
+                {selectedId === episode.id ? <Check className="h-3.5 w-3.5" /> : <Play className="h-3.5 w-3.5" />}
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7"
+                title="Add to queue"
+                disabled={queueingId === episode.id}
+                onClick={(e) => handleQueueVideo(e, fromEpisode(episode))}
+              >
+                <ListPlus className="h-3.5 w-3.5" />
+              </Button>
+            </>
+          )}
+        />
+      </TabsContent>
+    </Tabs>
   );
 };
 
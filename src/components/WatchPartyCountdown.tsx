@@ -0,0 +1,57 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { CalendarClock } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import type { WatchParty } from "@shared/roomProtocol";
+
+interface WatchPartyCountdownProps {
+  party: WatchParty;
+  // Server clock, so everyone's countdown reaches zero together
+  getServerTime: () => number;
+}
+
+// "2d 03:04:05", "04:05"
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => String(value).padStart(2, "0");
+  const clock = hours || days ? `${pad(hours)}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+  return days ? `${days}d ${clock}` : clock;
+};
+
+/**
+ * The lobby shown while a room waits for its next watch party; the server
+ * starts the video at `starts_at` and sends the following party, if any.
+ */
+export const WatchPartyCountdown = ({ party, getServerTime }: WatchPartyCountdownProps) => {
+  const [remaining, setRemaining] = useState(() => party.starts_at - getServerTime());
+
+  useEffect(() => {
+    const tick = () => setRemaining(party.starts_at - getServerTime());
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [party.starts_at, getServerTime]);
+
+  return (
+    <Card className="backdrop-blur-glass bg-card/60 border-border/50 p-4 flex items-center justify-between gap-4">
+      <div className="flex items-center gap-3 min-w-0">
+        <CalendarClock className="h-6 w-6 text-primary shrink-0" />
+        <div className="min-w-0">
+          <p className="text-sm text-muted-foreground">Watch party</p>
+          <p className="font-semibold truncate">{party.title}</p>
+          <p className="text-xs text-muted-foreground">{format(new Date(party.starts_at), "EEE MMM d, HH:mm")}</p>
+        </div>
+      </div>
+      <div className="text-right shrink-0">
+        <p className="text-2xl font-mono font-semibold">
+          {remaining > 0 ? formatRemaining(remaining) : "Starting..."}
+        </p>
+        {remaining > 0 && <p className="text-xs text-muted-foreground">until it starts</p>}
+      </div>
+    </Card>
+  );
+};
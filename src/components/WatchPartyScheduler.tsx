@@ -0,0 +1,139 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { CalendarPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+import type { WatchParty } from "@shared/roomProtocol";
+
+interface WatchPartySchedulerProps {
+  roomCode: string;
+  onScheduled: (party: WatchParty) => void;
+}
+
+type MediaResult = Awaited<ReturnType<typeof api.listMedia>>["media"][number];
+
+// Library matches offered while typing
+const MEDIA_RESULTS = 8;
+
+/**
+ * Form for scheduling a watch party in an owned room: when it starts, and
+ * either a library video or a URL to play.
+ */
+export const WatchPartyScheduler = ({ roomCode, onScheduled }: WatchPartySchedulerProps) => {
+  const { toast } = useToast();
+  // datetime-local value, in the browser's time zone
+  const [startsAt, setStartsAt] = useState("");
+  const [search, setSearch] = useState("");
+  const [results, setResults] = useState<MediaResult[]>([]);
+  const [media, setMedia] = useState<MediaResult | null>(null);
+  const [videoUrl, setVideoUrl] = useState("");
+  const [title, setTitle] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (media || !search.trim()) {
+      setResults([]);
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      api
+        .listMedia({ q: search }, { limit: MEDIA_RESULTS })
+        .then((data) => setResults(data.media))
+        .catch((error) => console.error("Failed to search media:", error));
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [search, media]);
+
+  const handleSchedule = async () => {
+    setSaving(true);
+    try {
+      const { watchParty } = await api.scheduleWatchParty(roomCode, {
+        startsAt: new Date(startsAt).toISOString(),
+        title: title.trim() || undefined,
+        ...(media ? { mediaId: media.id } : { videoUrl: videoUrl.trim() }),
+      });
+      onScheduled(watchParty);
+      setStartsAt("");
+      setSearch("");
+      setMedia(null);
+      setVideoUrl("");
+      setTitle("");
+      toast({
+        title: "Watch party scheduled",
+        description: `${watchParty.title} starts ${format(new Date(watchParty.starts_at), "MMM d, HH:mm")}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to schedule watch party",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const ready = Boolean(startsAt) && (media !== null || Boolean(videoUrl.trim()));
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium flex items-center gap-2">
+        <CalendarPlus className="h-4 w-4" />
+        Schedule a Watch Party
+      </h4>
+      <Input
+        type="datetime-local"
+        value={startsAt}
+        min={format(new Date(), "yyyy-MM-dd'T'HH:mm")}
+        onChange={(e) => setStartsAt(e.target.value)}
+      />
+
+      {media ? (
+        <div className="flex items-center justify-between gap-2 p-2 bg-background/50 rounded">
+          <p className="text-sm truncate">{media.title}</p>
+          <Button size="sm" variant="ghost" onClick={() => setMedia(null)}>
+            Change
+          </Button>
+        </div>
+      ) : (
+        <>
+          <Input
+            placeholder="Search the media library"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            disabled={Boolean(videoUrl.trim())}
+          />
+          {results.length > 0 && (
+            <div className="space-y-1">
+              {results.map((result) => (
+                <button
+                  key={result.id}
+                  type="button"
+                  className="w-full text-left text-sm p-2 rounded bg-background/50 hover:bg-background/80 truncate"
+                  onClick={() => setMedia(result)}
+                >
+                  {result.title}
+                  {result.releaseYear ? ` (${result.releaseYear})` : ""}
+                </button>
+              ))}
+            </div>
+          )}
+          <Input
+            placeholder="...or a video URL"
+            value={videoUrl}
+            onChange={(e) => setVideoUrl(e.target.value)}
+            disabled={Boolean(search.trim())}
+          />
+        </>
+      )}
+
+      <Input placeholder="Title (optional)" value={title} onChange={(e) => setTitle(e.target.value)} />
+      <Button size="sm" onClick={handleSchedule} disabled={!ready || saving}>
+        {saving ? "Scheduling..." : "Schedule"}
+      </Button>
+    </div>
+  );
+};
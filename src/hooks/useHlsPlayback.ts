@@ -0,0 +1,61 @@
+import { RefObject, useEffect, useState } from "react";
+import Hls from "hls.js";
+
+const HLS_MIME_TYPE = "application/vnd.apple.mpegurl";
+
+/**
+ * Play an HLS master playlist through hls.js or the browser's native HLS
+ * support. Returns whether HLS is driving the element; when it isn't, the
+ * caller renders the original file as a <source> (no `hlsUrl`, or a fatal
+ * HLS error).
+ */
+export const useHlsPlayback = (
+  videoRef: RefObject<HTMLVideoElement>,
+  hlsUrl: string | null
+) => {
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    setFailed(false);
+  }, [hlsUrl]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !hlsUrl || failed) return;
+
+    if (Hls.isSupported()) {
+      const hls = new Hls();
+      hls.on(Hls.Events.ERROR, (_event, data) => {
+        if (!data.fatal) return;
+        console.error("HLS playback failed, falling back to the original file:", data.details);
+        hls.destroy();
+        setFailed(true);
+      });
+      hls.loadSource(hlsUrl);
+      hls.attachMedia(video);
+
+      return () => hls.destroy();
+    }
+
+    // Safari plays HLS natively
+    if (video.canPlayType(HLS_MIME_TYPE)) {
+      video.src = hlsUrl;
+      return () => {
+        video.removeAttribute("src");
+      };
+    }
+  }, [videoRef, hlsUrl, failed]);
+
+  // Once HLS gives up, the original <source> is rendered again; make the
+  // element pick it up
+  useEffect(() => {
+    if (failed) videoRef.current?.load();
+  }, [videoRef, failed]);
+
+  const usingHls =
+    Boolean(hlsUrl) &&
+    !failed &&
+    (Hls.isSupported() || Boolean(videoRef.current?.canPlayType(HLS_MIME_TYPE)));
+
+  return { usingHls };
+};
@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { api, MediaQuery } from "@/lib/api";
+
+const PAGE_SIZE = 24;
+
+type MediaItem = Awaited<ReturnType<typeof api.listMedia>>["media"][number];
+
+/**
+ * Paged library search. Changing `query` starts over from the first page;
+ * `loadMore` appends the next one and `refresh` re-fetches everything loaded
+ * so far (e.g. after an edit or while polling).
+ */
+export const useMediaSearch = (query: MediaQuery) => {
+  const [media, setMedia] = useState<MediaItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  // Responses for superseded queries are dropped
+  const requestIdRef = useRef(0);
+  const loadedCountRef = useRef(0);
+
+  const fetchPage = useCallback(
+    async (options: { cursor?: string; limit?: number; append: boolean }) => {
+      const requestId = ++requestIdRef.current;
+      setLoading(true);
+      try {
+        const result = await api.listMedia(query, { cursor: options.cursor, limit: options.limit ?? PAGE_SIZE });
+        if (requestId !== requestIdRef.current) return;
+
+        setMedia((prev) => {
+          const next = options.append ? [...prev, ...result.media] : result.media;
+          loadedCountRef.current = next.length;
+          return next;
+        });
+        setNextCursor(result.nextCursor);
+        setError(null);
+      } catch (err) {
+        if (requestId !== requestIdRef.current) return;
+        setError(err instanceof Error ? err : new Error("Failed to load media"));
+      } finally {
+        if (requestId === requestIdRef.current) setLoading(false);
+      }
+    },
+    [query]
+  );
+
+  useEffect(() => {
+    fetchPage({ append: false });
+  }, [fetchPage]);
+
+  const loadMore = useCallback(() => {
+    if (nextCursor) fetchPage({ cursor: nextCursor, append: true });
+  }, [fetchPage, nextCursor]);
+
+  const refresh = useCallback(
+    () => fetchPage({ limit: Math.max(PAGE_SIZE, loadedCountRef.current), append: false }),
+    [fetchPage]
+  );
+
+  return { media, loading, error, hasMore: Boolean(nextCursor), loadMore, refresh };
+};
@@ -0,0 +1,48 @@
+import { useEffect, useState } from "react";
+import { api, NextEpisode, SubtitleTrack } from "@/lib/api";
+
+interface PlaybackSource {
+  hlsUrl: string | null;
+  previewTrackUrl: string | null;
+  subtitles: SubtitleTrack[];
+  nextEpisode: NextEpisode | null;
+}
+
+const EMPTY_SOURCE: PlaybackSource = {
+  hlsUrl: null,
+  previewTrackUrl: null,
+  subtitles: [],
+  nextEpisode: null,
+};
+
+/**
+ * Look up what the server has for a room's video URL beyond the file itself:
+ * the transcoded HLS ladder, subtitle tracks, the scrub preview track and,
+ * for TV episodes, the episode after it.
+ * External URLs resolve to none of them.
+ */
+export const usePlaybackSource = (videoUrl: string | null | undefined) => {
+  const [source, setSource] = useState<PlaybackSource>(EMPTY_SOURCE);
+
+  useEffect(() => {
+    setSource(EMPTY_SOURCE);
+    if (!videoUrl) return;
+
+    let cancelled = false;
+    api
+      .getPlaybackSource(videoUrl)
+      .then((result) => {
+        if (!cancelled) setSource(result);
+      })
+      .catch((error) => {
+        // Not fatal: the original file still plays
+        console.error("Failed to resolve playback source:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [videoUrl]);
+
+  return source;
+};
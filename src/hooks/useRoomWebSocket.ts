@@ -1,43 +1,113 @@
-import { useEffect, useRef, useCallback } from "react";
+import { useEffect, useRef, useCallback, useState } from "react";
+import { TimeSyncSample, bestOffset, computeTimeSyncSample } from "@/lib/playbackSync";
+import { api } from "@/lib/api";
+import {
+  ChatMessage,
+  ClientMessage,
+  ClockFrame,
+  PROTOCOL_VERSION,
+  ParticipantRole,
+  ParticipantStatus,
+  QueueItem,
+  LobbyMessage,
+  RoomUpdatePayload,
+  WatchParty,
+  parseServerMessage,
+} from "@shared/roomProtocol";
 
-interface RoomUpdatePayload {
-  video_url?: string;
-  playback_position?: number;
-  is_playing?: boolean;
-  subtitle_enabled?: boolean;
+/**
+ * Live join request and participant updates for the host's lobby panels; only
+ * hosts and co-hosts receive them. `connected` is false while the socket is
+ * down, when the panels have to poll instead.
+ */
+export interface LobbyFeed {
+  connected: boolean;
+  subscribe: (listener: (event: LobbyMessage) => void) => () => void;
 }
 
-interface WebSocketMessage {
-  type: string;
-  payload?: any;
-  position?: number;
-  username?: string;
-  userId?: string;
-  status?: "pending" | "approved" | "rejected" | "active";
+// Number of recent ping/pong samples kept for offset estimation
+const TIME_SYNC_SAMPLES = 8;
+// Pings sent in quick succession right after connecting
+const TIME_SYNC_BURST = 5;
+const TIME_SYNC_BURST_SPACING_MS = 250;
+// Steady-state re-sync interval to follow clock skew over long sessions
+const TIME_SYNC_INTERVAL_MS = 15000;
+
+// What to do with each kind of server message; messages without a handler
+// are ignored
+export interface RoomSocketHandlers {
+  onRoomUpdate?: (payload: RoomUpdatePayload) => void;
+  onClock?: (clock: ClockFrame) => void;
+  onUserJoined?: (username: string) => void;
+  onUserLeft?: (username: string) => void;
+  // Our own status only
+  onApprovalStatusChange?: (status: ParticipantStatus) => void;
+  onChat?: (message: ChatMessage) => void;
+  onQueue?: (items: QueueItem[]) => void;
+  onRoleUpdate?: (userId: string, username: string, role: ParticipantRole) => void;
+  onMuteChange?: (userId: string, muted: boolean) => void;
+  onLobbyEvent?: (event: LobbyMessage) => void;
+  onWatchParty?: (party: WatchParty | null) => void;
 }
 
 export const useRoomWebSocket = (
   roomCode: string | undefined,
   userId: string | undefined,
   username: string | undefined,
-  onRoomUpdate: (payload: RoomUpdatePayload) => void,
-  onSeek: (position: number, username: string) => void,
-  onUserJoined: (username: string) => void,
-  onUserLeft: (username: string) => void,
-  onApprovalStatusChange?: (status: "pending" | "approved" | "rejected" | "active") => void
+  handlers: RoomSocketHandlers
 ) => {
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const timeSyncTimersRef = useRef<ReturnType<typeof setTimeout>[]>([]);
+  const timeSyncSamplesRef = useRef<TimeSyncSample[]>([]);
+  const serverOffsetRef = useRef(0);
+  // Set when the server refuses our protocol version or room token, or the
+  // host kicks or bans us; reconnecting can't help
+  const joinRejectedRef = useRef(false);
+  // True from the server's welcome until the socket closes
+  const [connected, setConnected] = useState(false);
 
-  // Store callbacks in refs to avoid dependency issues
-  const callbacksRef = useRef({ onRoomUpdate, onSeek, onUserJoined, onUserLeft, onApprovalStatusChange });
+  // Store handlers in a ref so the socket isn't torn down when they change
+  const handlersRef = useRef(handlers);
 
   useEffect(() => {
-    callbacksRef.current = { onRoomUpdate, onSeek, onUserJoined, onUserLeft, onApprovalStatusChange };
-  }, [onRoomUpdate, onSeek, onUserJoined, onUserLeft, onApprovalStatusChange]);
+    handlersRef.current = handlers;
+  }, [handlers]);
+
+  const send = useCallback((message: ClientMessage) => {
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify(message));
+    }
+  }, []);
+
+  const sendPing = useCallback(() => {
+    send({ type: "ping", client_time: Date.now() });
+  }, [send]);
+
+  const stopTimeSync = useCallback(() => {
+    timeSyncTimersRef.current.forEach((timer) => clearTimeout(timer));
+    timeSyncTimersRef.current = [];
+  }, []);
+
+  const startTimeSync = useCallback(() => {
+    stopTimeSync();
+    for (let i = 0; i < TIME_SYNC_BURST; i += 1) {
+      timeSyncTimersRef.current.push(setTimeout(sendPing, i * TIME_SYNC_BURST_SPACING_MS));
+    }
+    timeSyncTimersRef.current.push(setInterval(sendPing, TIME_SYNC_INTERVAL_MS));
+  }, [sendPing, stopTimeSync]);
+
+  /**
+   * Current time on the server's clock, in ms
+   */
+  const getServerTime = useCallback(() => Date.now() + serverOffsetRef.current, []);
 
   const connect = useCallback(() => {
-    if (!roomCode || !userId || !username) return;
+    if (!roomCode || !userId || !username || joinRejectedRef.current) return;
+
+    // The socket authenticates with the room token issued on create/join
+    const token = api.getRoomToken(roomCode);
+    if (!token) return;
 
     // Don't reconnect if already connected
     if (wsRef.current?.readyState === WebSocket.OPEN) {
@@ -56,39 +126,82 @@ export const useRoomWebSocket = (
       wsRef.current.onopen = () => {
         console.log("WebSocket connected");
         // Send join message
-        wsRef.current?.send(
-          JSON.stringify({
-            type: "join",
-            roomCode,
-            userId,
-            username,
-          })
-        );
+        send({
+          type: "join",
+          protocolVersion: PROTOCOL_VERSION,
+          roomCode,
+          token,
+          username,
+        });
+        startTimeSync();
       };
 
       wsRef.current.onmessage = (event) => {
-        try {
-          const message: WebSocketMessage = JSON.parse(event.data);
+        const parsed = parseServerMessage(event.data);
+        if (parsed.success === false) {
+          console.error("Ignoring invalid WebSocket message:", parsed.error);
+          return;
+        }
 
-          if (message.type === "approval_status") {
-            // User approval status changed
-            if (message.userId === userId && callbacksRef.current.onApprovalStatusChange) {
-              callbacksRef.current.onApprovalStatusChange(message.status || "pending");
+        const message = parsed.message;
+
+        if (message.type === "welcome") {
+          setConnected(true);
+        } else if (message.type === "pong") {
+          const sample = computeTimeSyncSample(
+            message.client_time,
+            message.server_received,
+            message.server_sent,
+            Date.now()
+          );
+          timeSyncSamplesRef.current = [...timeSyncSamplesRef.current, sample].slice(-TIME_SYNC_SAMPLES);
+          serverOffsetRef.current = bestOffset(timeSyncSamplesRef.current);
+        } else if (message.type === "error") {
+          console.error(
+            `WebSocket error from server (${message.code}${message.request_type ? ` on ${message.request_type}` : ""}):`,
+            message.message
+          );
+          if (message.code === "unsupported_protocol" || message.code === "unauthorized") {
+            joinRejectedRef.current = true;
+          }
+        } else if (message.type === "approval_status") {
+          // User approval status changed
+          if (message.userId === userId) {
+            if (message.status === "kicked" || message.status === "banned") {
+              joinRejectedRef.current = true;
             }
-          } else if (message.type === "room_state") {
-            // New user joining - receive current room state
-            callbacksRef.current.onRoomUpdate(message.payload);
-          } else if (message.type === "room_update") {
-            callbacksRef.current.onRoomUpdate(message.payload);
-          } else if (message.type === "seek") {
-            callbacksRef.current.onSeek(message.position || 0, message.username || "Unknown");
-          } else if (message.type === "user_joined") {
-            callbacksRef.current.onUserJoined(message.username || "Unknown");
-          } else if (message.type === "user_left") {
-            callbacksRef.current.onUserLeft(message.username || "Unknown");
+            handlersRef.current.onApprovalStatusChange?.(message.status);
           }
-        } catch (error) {
-          console.error("Failed to parse WebSocket message:", error);
+        } else if (message.type === "room_state") {
+          // New user joining - receive current room state
+          handlersRef.current.onRoomUpdate?.({
+            ...message.payload,
+            video_url: message.payload.video_url ?? undefined,
+          });
+        } else if (message.type === "room_update") {
+          handlersRef.current.onRoomUpdate?.(message.payload);
+        } else if (message.type === "clock") {
+          handlersRef.current.onClock?.(message.payload);
+        } else if (message.type === "chat") {
+          handlersRef.current.onChat?.(message.message);
+        } else if (message.type === "queue") {
+          handlersRef.current.onQueue?.(message.items);
+        } else if (message.type === "user_joined") {
+          handlersRef.current.onUserJoined?.(message.username);
+        } else if (message.type === "user_left") {
+          handlersRef.current.onUserLeft?.(message.username);
+        } else if (message.type === "role_update") {
+          handlersRef.current.onRoleUpdate?.(message.userId, message.username, message.role);
+        } else if (message.type === "mute_status") {
+          handlersRef.current.onMuteChange?.(message.userId, message.muted);
+        } else if (message.type === "watch_party") {
+          handlersRef.current.onWatchParty?.(message.party);
+        } else if (
+          message.type === "join_request_created" ||
+          message.type === "join_request_resolved" ||
+          message.type === "participant_changed"
+        ) {
+          handlersRef.current.onLobbyEvent?.(message);
         }
       };
 
@@ -97,6 +210,12 @@ export const useRoomWebSocket = (
       };
 
       wsRef.current.onclose = () => {
+        setConnected(false);
+        stopTimeSync();
+        if (joinRejectedRef.current) {
+          console.log("WebSocket disconnected");
+          return;
+        }
         console.log("WebSocket disconnected, attempting to reconnect...");
         // Attempt to reconnect after 3 seconds
         reconnectTimeoutRef.current = setTimeout(() => {
@@ -106,35 +225,20 @@ export const useRoomWebSocket = (
     } catch (error) {
       console.error("Failed to create WebSocket:", error);
     }
-  }, [roomCode, userId, username]);
-
-  const sendRoomUpdate = useCallback((payload: RoomUpdatePayload) => {
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
-      wsRef.current.send(
-        JSON.stringify({
-          type: "room_update",
-          roomCode,
-          userId,
-          username,
-          payload,
-        })
-      );
-    }
-  }, [roomCode, userId, username]);
+  }, [roomCode, userId, username, send, startTimeSync, stopTimeSync]);
 
   const sendSeek = useCallback((position: number) => {
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
-      wsRef.current.send(
-        JSON.stringify({
-          type: "seek",
-          roomCode,
-          userId,
-          username,
-          payload: { position },
-        })
-      );
-    }
-  }, [roomCode, userId, username]);
+    send({ type: "seek", payload: { position } });
+  }, [send]);
+
+  const sendChat = useCallback((body: string) => {
+    send({ type: "chat", body });
+  }, [send]);
+
+  // Host only: start the next queued entry once `endedVideoUrl` finishes
+  const sendQueueAdvance = useCallback((endedVideoUrl?: string) => {
+    send({ type: "queue_advance", ended_video_url: endedVideoUrl });
+  }, [send]);
 
   useEffect(() => {
     if (!roomCode || !userId || !username) return;
@@ -145,10 +249,10 @@ export const useRoomWebSocket = (
       if (reconnectTimeoutRef.current) {
         clearTimeout(reconnectTimeoutRef.current);
       }
+      stopTimeSync();
       // Don't close on unmount if still connected - let server handle cleanup
     };
   }, [roomCode, userId, username]);
 
-  return { sendRoomUpdate, sendSeek };
+  return { sendSeek, sendChat, sendQueueAdvance, getServerTime, connected };
 };
-
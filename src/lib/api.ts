@@ -1,3 +1,13 @@
+import type {
+  ChatMessage,
+  JoinRequest,
+  ParticipantRecord,
+  ParticipantRole,
+  QueueItem,
+  WatchParty,
+} from "@shared/roomProtocol";
+import type { MediaProbe } from "@shared/mediaInfo";
+
 const API_BASE = import.meta.env.VITE_API_URL || "/api";
 const TOKEN_KEY = "watchparty_token";
 
@@ -5,9 +15,253 @@ const getToken = () => localStorage.getItem(TOKEN_KEY);
 const setToken = (token: string) => localStorage.setItem(TOKEN_KEY, token);
 const clearToken = () => localStorage.removeItem(TOKEN_KEY);
 
+// Per-room participant tokens, issued when a room is created or joined
+const roomTokenKey = (code: string) => `roomToken:${code.toUpperCase()}`;
+const getRoomToken = (code: string) => localStorage.getItem(roomTokenKey(code));
+const setRoomToken = (code: string, token: string) =>
+  localStorage.setItem(roomTokenKey(code), token);
+const clearRoomToken = (code: string) => localStorage.removeItem(roomTokenKey(code));
+
+export interface SubtitleTrack {
+  id: string;
+  language: string;
+  label: string;
+  url: string;
+  source: "upload" | "embedded";
+}
+
+// The signed-in account; see /api/auth
+export interface AccountUser {
+  id: string;
+  email: string;
+  username: string;
+  roles: string[];
+}
+
+// A rooms row as the server stores it
+export interface RoomRecord {
+  id: string;
+  code: string;
+  name: string | null;
+  videoUrl: string | null;
+  playbackPosition: number;
+  isPlaying: boolean;
+  subtitleEnabled: boolean;
+  subtitleId: string | null;
+  ownerId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type TranscodeStatus = "none" | "pending" | "processing" | "ready" | "failed";
+
+// A media_files row as the server stores it
+export interface MediaRecord extends Omit<MediaProbe, "audioStreams" | "subtitleStreams"> {
+  id: string;
+  title: string;
+  description: string | null;
+  fileUrl: string;
+  storageBackend: string | null;
+  storageKey: string | null;
+  fileType: string;
+  fileSize: number | null;
+  uploadedBy: string;
+  externalApiUrl: string | null;
+  posterUrl: string | null;
+  imdbId: string | null;
+  imdbPinned: boolean;
+  releaseYear: number | null;
+  rating: string | null;
+  genre: string | null;
+  director: string | null;
+  actors: string | null;
+  transcodeStatus: TranscodeStatus;
+  hlsUrl: string | null;
+  transcodeError: string | null;
+  // null until the file has been probed
+  audioStreams: MediaProbe["audioStreams"] | null;
+  subtitleStreams: MediaProbe["subtitleStreams"] | null;
+  probedAt: string | null;
+  probeError: string | null;
+  releaseResolution: string | null;
+  releaseSource: string | null;
+  thumbnailUrl: string | null;
+  previewTrackUrl: string | null;
+  thumbnailError: string | null;
+  seriesId: string | null;
+  seasonNumber: number | null;
+  episodeNumber: number | null;
+  contentHash: string | null;
+  missingAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RoomParticipant {
+  id: string;
+  userId: string;
+  username: string;
+  role: ParticipantRole;
+  status: string;
+  muted: boolean;
+}
+
+export interface ModerationLogEntry {
+  id: string;
+  action: "kick" | "ban" | "mute" | "unmute";
+  actorUsername: string;
+  targetUsername: string;
+  reason: string | null;
+  createdAt: string;
+}
+
+// Who may join a room without the host approving them
+export type RoomAccessMode = "open" | "approval" | "password" | "invite";
+
+export interface RoomInvite {
+  id: string;
+  token: string;
+  maxUses: number | null; // null for unlimited
+  useCount: number;
+  expiresAt: string;
+  createdAt: string;
+}
+
+export interface RoomAccess {
+  mode: RoomAccessMode;
+  hasPassword: boolean;
+  invites: RoomInvite[];
+}
+
+// A persistent room owned by the signed-in account
+export interface MyRoom {
+  id: string;
+  code: string;
+  name: string | null;
+  createdAt: string;
+  online: number; // open connections right now
+  watchParties: WatchParty[]; // upcoming, soonest first
+}
+
+export type MediaSort = "relevance" | "newest" | "oldest" | "title" | "year";
+
+// Library search; see GET /api/media
+export interface MediaQuery {
+  q?: string;
+  genres?: string[]; // all must match
+  ratings?: string[]; // any may match
+  yearFrom?: number | null;
+  yearTo?: number | null;
+  type?: "movie" | "episode"; // both when unset
+  sort?: MediaSort;
+}
+
+export interface MediaFacets {
+  genres: string[];
+  ratings: string[];
+  years: { min: number; max: number } | null;
+}
+
+// A possible metadata match for a movie; see GET /api/media/metadata-search
+export interface MetadataCandidate {
+  imdbId: string;
+  title: string;
+  releaseYear: number | null;
+  posterUrl: string | null;
+  provider: string;
+}
+
+// Parsed from an upload's filename; see PUT /api/media/:id
+export interface ReleaseDetails {
+  release_year: number | null;
+  release_resolution: string | null; // e.g. "1080p"
+  release_source: string | null; // e.g. "BluRay"
+}
+
+// Files a media item under a TV show
+export interface EpisodeInput {
+  seriesTitle: string;
+  season: number;
+  episode: number;
+}
+
+export interface Series {
+  id: string;
+  title: string;
+  description: string | null;
+  posterUrl: string | null;
+  imdbId: string | null;
+  releaseYear: number | null;
+  rating: string | null;
+  genre: string | null;
+  actors: string | null;
+  totalSeasons: number | null;
+  externalApiUrl: string | null;
+}
+
+// A media file filed under a show, as listed by GET /api/series/:id
+export interface SeriesEpisode {
+  id: string;
+  title: string;
+  description: string | null;
+  fileUrl: string;
+  fileType: string;
+  fileSize: number | null;
+  posterUrl: string | null;
+  thumbnailUrl: string | null;
+  releaseYear: number | null;
+  duration: number | null;
+  transcodeStatus: TranscodeStatus;
+  seasonNumber: number;
+  episodeNumber: number;
+}
+
+export interface NextEpisode {
+  id: string;
+  title: string;
+  fileUrl: string;
+  seasonNumber: number;
+  episodeNumber: number;
+}
+
+export interface UploadStatus {
+  id: string;
+  filename: string;
+  fileType: string;
+  title: string;
+  description: string | null;
+  size: number;
+  offset: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// What a scan of the server's media folder found; paths are on the server
+export interface LibraryImportReport {
+  root: string;
+  imported: { path: string; mediaId: string; title: string }[];
+  alreadyImported: number;
+  restored: { path: string; mediaId: string }[];
+  moved: { path: string; from: string; mediaId: string }[];
+  missing: { path: string; mediaId: string }[];
+  duplicates: { path: string; duplicateOf: string }[];
+  unreadable: { path: string; error: string }[];
+}
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+  percentage: number;
+  eta: number;
+  // Waiting to retry after a network failure
+  reconnecting: boolean;
+}
+
 type RequestInitWithBody = Omit<RequestInit, "body"> & {
   body?: any;
   rawBody?: BodyInit;
+  // Attach the stored room token for this room code
+  roomCode?: string;
 };
 
 const request = async <T>(
@@ -27,6 +281,11 @@ const request = async <T>(
     headers.Authorization = `Bearer ${token}`;
   }
 
+  const roomToken = options.roomCode ? getRoomToken(options.roomCode) : null;
+  if (roomToken) {
+    headers["X-Room-Token"] = roomToken;
+  }
+
   const res = await fetch(`${API_BASE}${path}`, {
     ...options,
     headers,
@@ -46,12 +305,145 @@ const request = async <T>(
   return res.json() as Promise<T>;
 };
 
+// Each PATCH carries one chunk, so a dropped connection costs at most this much
+const UPLOAD_CHUNK_BYTES = 8 * 1024 * 1024;
+// Backoff between consecutive failed chunks; the upload gives up after the last
+const UPLOAD_RETRY_DELAYS_MS = [1000, 2000, 5000, 10000, 20000, 30000];
+
+// Identifies a local file across page reloads (browsers can't reopen it for us)
+const uploadResumeKey = (file: File) =>
+  `mediaUpload:${file.name}:${file.size}:${file.lastModified}`;
+
+type ChunkResult =
+  | { success: true; offset: number }
+  | { success: false; retryable: boolean; error: string };
+
+// PATCH one chunk with XHR, which (unlike fetch) reports upload progress.
+// An offset mismatch isn't a failure: the server's offset is where to go on.
+const sendUploadChunk = (
+  uploadId: string,
+  offset: number,
+  chunk: Blob,
+  onChunkProgress: (loaded: number) => void
+) =>
+  new Promise<ChunkResult>((resolve) => {
+    const xhr = new XMLHttpRequest();
+    const token = getToken();
+
+    xhr.upload.addEventListener("progress", (e) => onChunkProgress(e.loaded));
+
+    xhr.addEventListener("load", () => {
+      let body: { upload?: UploadStatus; offset?: number; error?: string } = {};
+      try {
+        body = JSON.parse(xhr.responseText);
+      } catch {
+        // Proxies can answer with HTML; the status decides what happens next
+      }
+
+      if (xhr.status >= 200 && xhr.status < 300 && body.upload) {
+        resolve({ success: true, offset: body.upload.offset });
+      } else if (xhr.status === 409 && typeof body.offset === "number") {
+        resolve({ success: true, offset: body.offset });
+      } else {
+        resolve({
+          success: false,
+          // 423: an earlier, interrupted request for this upload is still
+          // being written on the server
+          retryable: xhr.status >= 500 || xhr.status === 423,
+          error: body.error || "Upload failed",
+        });
+      }
+    });
+
+    xhr.addEventListener("error", () => {
+      resolve({ success: false, retryable: true, error: "Network error" });
+    });
+
+    xhr.open("PATCH", `${API_BASE}/media/uploads/${uploadId}`);
+    xhr.setRequestHeader("Content-Type", "application/offset+octet-stream");
+    xhr.setRequestHeader("Upload-Offset", String(offset));
+    if (token) {
+      xhr.setRequestHeader("Authorization", `Bearer ${token}`);
+    }
+    xhr.send(chunk);
+  });
+
+// Sleep before a retry, and don't spend retries while the browser is offline
+const waitToRetry = (delayMs: number) =>
+  new Promise<void>((resolve) => {
+    if (navigator.onLine) {
+      setTimeout(resolve, delayMs);
+    } else {
+      window.addEventListener("online", () => resolve(), { once: true });
+    }
+  });
+
+const sendResumableUpload = async (
+  upload: UploadStatus,
+  file: File,
+  payload: { title?: string; description?: string; episode?: EpisodeInput },
+  onProgress?: (progress: UploadProgress) => void
+) => {
+  let offset = upload.offset;
+  // ETA only counts bytes sent in this session
+  const startOffset = offset;
+  const startTime = Date.now();
+
+  const report = (loaded: number, reconnecting = false) => {
+    if (!onProgress) return;
+    const elapsed = (Date.now() - startTime) / 1000; // seconds
+    const speed = elapsed > 0 ? (loaded - startOffset) / elapsed : 0; // bytes per second
+    const eta = speed > 0 ? Math.round((file.size - loaded) / speed) : 0;
+
+    onProgress({
+      loaded,
+      total: file.size,
+      percentage: Math.round((loaded / file.size) * 100),
+      eta,
+      reconnecting,
+    });
+  };
+
+  report(offset);
+
+  let failures = 0;
+  while (offset < file.size) {
+    const chunk = file.slice(offset, offset + UPLOAD_CHUNK_BYTES);
+    const chunkStart = offset;
+    const result = await sendUploadChunk(upload.id, offset, chunk, (loaded) =>
+      report(chunkStart + loaded)
+    );
+
+    if (result.success === false) {
+      if (!result.retryable || failures >= UPLOAD_RETRY_DELAYS_MS.length) {
+        throw new Error(result.error);
+      }
+      report(offset, true);
+      await waitToRetry(UPLOAD_RETRY_DELAYS_MS[failures]);
+      failures += 1;
+      continue;
+    }
+
+    offset = result.offset;
+    failures = 0;
+    report(offset);
+  }
+
+  return request<{ fileUrl: string; metadata: Record<string, unknown> | null }>(`/media/uploads/${upload.id}/complete`, {
+    method: "POST",
+    body: payload,
+  });
+};
+
 export const api = {
   getToken,
   setToken,
   clearToken,
+  getRoomToken,
+  setRoomToken,
+  clearRoomToken,
   async signup(email: string, password: string, username: string) {
-    const data = await request<{ token: string; user: any }>("/auth/signup", {
+    const data = await request<{ token: string; user: AccountUser }>("/auth/signup", {
       method: "POST",
       body: { email, password, username },
     });
@@ -59,7 +451,7 @@ export const api = {
     return data.user;
   },
   async login(email: string, password: string) {
-    const data = await request<{ token: string; user: any }>("/auth/login", {
+    const data = await request<{ token: string; user: AccountUser }>("/auth/login", {
       method: "POST",
       body: { email, password },
     });
@@ -67,153 +459,402 @@ export const api = {
     return data.user;
   },
   async currentUser() {
-    return request<{ user: any }>("/auth/me", { method: "GET" });
+    return request<{ user: AccountUser }>("/auth/me", { method: "GET" });
   },
   logout() {
     clearToken();
   },
-  async createRoom(username: string, browserFingerprint?: string) {
-    return request<{ room: any; code: string; userId?: string }>("/rooms", {
+  async createRoom(username: string, access?: { mode: RoomAccessMode; password?: string }) {
+    const data = await request<{ room: RoomRecord; code: string; userId: string; roomToken: string }>("/rooms", {
       method: "POST",
-      body: { username, browserFingerprint },
+      body: { username, access },
     });
+    setRoomToken(data.code, data.roomToken);
+    return data;
   },
-  async joinRoom(code: string, username: string, browserName?: string, browserVersion?: string, browserFingerprint?: string) {
-    return request<{ room: any; status?: string; message?: string; userId?: string }>(`/rooms/${code}/join`, {
+  // `credentials` satisfy the room's access policy: its password, or an invite token
+  async joinRoom(
+    code: string,
+    username: string,
+    browserName?: string,
+    browserVersion?: string,
+    credentials: { password?: string; invite?: string } = {}
+  ) {
+    const data = await request<{ room: RoomRecord; status?: string; message?: string; userId: string; roomToken: string }>(`/rooms/${code}/join`, {
       method: "POST",
-      body: { username, browserName, browserVersion, browserFingerprint },
+      body: { username, browserName, browserVersion, ...credentials },
+      // Coming back to a room keeps the identity it knew us by
+      roomCode: code,
     });
+    setRoomToken(code, data.roomToken);
+    return data;
   },
   async getRoomWithParticipants(code: string) {
-    return request<{ room: any; participants: any[] }>(`/rooms/${code}`, {
-      method: "GET",
-    });
+    return request<{ room: RoomRecord; participants: RoomParticipant[]; access: { mode: RoomAccessMode }; watchParty: WatchParty | null }>(
+      `/rooms/${code}`,
+      { method: "GET" }
+    );
   },
   async updateRoom(
-    id: string,
+    code: string,
     updates: Partial<{
       video_url: string;
       playback_position: number;
       is_playing: boolean;
       subtitle_enabled: boolean;
-    }>,
-    username?: string,
-    userId?: string
+      subtitle_id: string | null;
+    }>
   ) {
-    return request<{ room: any }>(`/rooms/${id}`, {
+    return request<{ room: RoomRecord }>(`/rooms/${code}`, {
+      method: "PUT",
+      body: updates,
+      roomCode: code,
+    });
+  },
+  async getRoomMessages(code: string, before?: string) {
+    const query = before ? `?before=${encodeURIComponent(before)}` : "";
+    return request<{ messages: ChatMessage[]; nextCursor: string | null }>(`/rooms/${code}/messages${query}`, {
+      method: "GET",
+      roomCode: code,
+    });
+  },
+  async addToQueue(code: string, entry: { media_id: string } | { video_url: string; title?: string }) {
+    return request<{ item: QueueItem; items: QueueItem[] }>(`/rooms/${code}/queue`, {
+      method: "POST",
+      body: entry,
+      roomCode: code,
+    });
+  },
+  async removeFromQueue(code: string, itemId: string) {
+    return request<{ items: QueueItem[] }>(`/rooms/${code}/queue/${itemId}`, {
+      method: "DELETE",
+      roomCode: code,
+    });
+  },
+  async moveQueueItem(code: string, itemId: string, index: number) {
+    return request<{ items: QueueItem[] }>(`/rooms/${code}/queue/${itemId}/position`, {
       method: "PUT",
-      body: { ...updates, username, userId },
+      body: { index },
+      roomCode: code,
     });
   },
   async listParticipants(roomId: string) {
-    return request<{ participants: any[] }>(`/rooms/${roomId}/participants`);
+    return request<{ participants: RoomParticipant[] }>(`/rooms/${roomId}/participants`);
+  },
+  async listMedia(query: MediaQuery = {}, page: { cursor?: string; limit?: number } = {}) {
+    const params = new URLSearchParams();
+    if (query.q?.trim()) params.set("q", query.q.trim());
+    query.genres?.forEach((genre) => params.append("genre", genre));
+    query.ratings?.forEach((rating) => params.append("rating", rating));
+    if (query.yearFrom) params.set("yearFrom", String(query.yearFrom));
+    if (query.yearTo) params.set("yearTo", String(query.yearTo));
+    if (query.type) params.set("type", query.type);
+    if (query.sort) params.set("sort", query.sort);
+    if (page.cursor) params.set("cursor", page.cursor);
+    if (page.limit) params.set("limit", String(page.limit));
+
+    const search = params.toString();
+    return request<{ media: MediaRecord[]; nextCursor: string | null }>(`/media${search ? `?${search}` : ""}`, {
+      method: "GET",
+    });
+  },
+  async getMediaFacets() {
+    return request<MediaFacets>("/media/facets", { method: "GET" });
+  },
+  async listSeries() {
+    return request<{ series: (Series & { seasonCount: number; episodeCount: number })[] }>("/series", {
+      method: "GET",
+    });
+  },
+  async getSeries(id: string) {
+    return request<{ series: Series; seasons: { number: number; episodes: SeriesEpisode[] }[] }>(`/series/${id}`, {
+      method: "GET",
+    });
   },
-  async listMedia() {
-    return request<{ media: any[] }>("/media", { method: "GET" });
+  async listUploads() {
+    return request<{ uploads: UploadStatus[] }>("/media/uploads", { method: "GET" });
   },
+  async cancelUpload(uploadId: string) {
+    return request<{ success: boolean }>(`/media/uploads/${uploadId}`, { method: "DELETE" });
+  },
+  // Upload through the resumable protocol. Picking the same file again after a
+  // reload continues where the last attempt stopped.
   async uploadMedia(
     file: File,
-    payload: { title: string; description?: string },
-    onProgress?: (progress: { loaded: number; total: number; percentage: number; eta: number }) => void
+    payload: { title?: string; description?: string; episode?: EpisodeInput },
+    onProgress?: (progress: UploadProgress) => void
   ) {
-    const formData = new FormData();
-    formData.append("file", file);
-    formData.append("title", payload.title);
-    if (payload.description) formData.append("description", payload.description);
-
-    return new Promise<{ fileUrl: string }>((resolve, reject) => {
-      const xhr = new XMLHttpRequest();
-      const token = getToken();
-
-      // Track upload progress
-      if (onProgress) {
-        let startTime = Date.now();
-        xhr.upload.addEventListener("progress", (e) => {
-          if (e.lengthComputable) {
-            const loaded = e.loaded;
-            const total = e.total;
-            const percentage = Math.round((loaded / total) * 100);
-            const elapsed = (Date.now() - startTime) / 1000; // seconds
-            const speed = loaded / elapsed; // bytes per second
-            const remaining = total - loaded;
-            const eta = Math.round(remaining / speed); // seconds
-
-            onProgress({ loaded, total, percentage, eta });
-          }
-        });
-      }
+    const resumeKey = uploadResumeKey(file);
+    const storedId = localStorage.getItem(resumeKey);
 
-      xhr.addEventListener("load", () => {
-        if (xhr.status >= 200 && xhr.status < 300) {
-          try {
-            const response = JSON.parse(xhr.responseText);
-            resolve(response);
-          } catch (e) {
-            reject(new Error("Failed to parse response"));
-          }
-        } else {
-          try {
-            const error = JSON.parse(xhr.responseText);
-            reject(new Error(error.error || "Upload failed"));
-          } catch {
-            reject(new Error("Upload failed"));
-          }
-        }
-      });
+    let upload: UploadStatus | null = null;
+    if (storedId) {
+      upload = await request<{ upload: UploadStatus }>(`/media/uploads/${storedId}`, { method: "GET" })
+        .then((data) => (data.upload.size === file.size ? data.upload : null))
+        .catch(() => null);
+    }
 
-      xhr.addEventListener("error", () => {
-        reject(new Error("Upload failed"));
+    if (!upload) {
+      const data = await request<{ upload: UploadStatus }>("/media/uploads", {
+        method: "POST",
+        body: {
+          filename: file.name,
+          fileType: file.type || "unknown",
+          size: file.size,
+          title: payload.title,
+          description: payload.description,
+        },
       });
+      upload = data.upload;
+      localStorage.setItem(resumeKey, upload.id);
+    }
 
-      xhr.addEventListener("abort", () => {
-        reject(new Error("Upload cancelled"));
-      });
-
-      xhr.open("POST", `${API_BASE}/media`);
-      if (token) {
-        xhr.setRequestHeader("Authorization", `Bearer ${token}`);
-      }
-      xhr.send(formData);
+    // On failure the key stays, so the next attempt with this file resumes
+    const result = await sendResumableUpload(upload, file, payload, onProgress);
+    localStorage.removeItem(resumeKey);
+    return result;
+  },
+  // Continue an unfinished upload listed by listUploads with its original file
+  async resumeUpload(
+    upload: UploadStatus,
+    file: File,
+    onProgress?: (progress: UploadProgress) => void
+  ) {
+    if (file.size !== upload.size) {
+      throw new Error(`That isn't the file this upload started with (${upload.filename})`);
+    }
+    const result = await sendResumableUpload(
+      upload,
+      file,
+      { title: upload.title, description: upload.description ?? undefined },
+      onProgress
+    );
+    localStorage.removeItem(uploadResumeKey(file));
+    return result;
+  },
+  async getLibraryStatus() {
+    return request<{ configured: boolean; importing: boolean; watched: string[] }>("/media/library", { method: "GET" });
+  },
+  // Register new files from the server's media folder, or one folder inside it
+  async importLibrary(path?: string) {
+    return request<{ report: LibraryImportReport }>("/media/library/import", {
+      method: "POST",
+      body: path ? { path } : {},
     });
   },
   async deleteMedia(id: string) {
     return request<{ success: boolean }>(`/media/${id}`, { method: "DELETE" });
   },
-  async updateMedia(id: string, payload: { title?: string; description?: string; file_url?: string }) {
-    return request<{ media: any }>(`/media/${id}`, {
+  async updateMedia(
+    id: string,
+    payload: {
+      title?: string;
+      description?: string;
+      file_url?: string;
+      episode?: EpisodeInput | null;
+    } & Partial<ReleaseDetails>
+  ) {
+    return request<{ media: MediaRecord }>(`/media/${id}`, {
       method: "PUT",
       body: payload,
     });
   },
+  async transcodeMedia(id: string) {
+    return request<{ media: MediaRecord }>(`/media/${id}/transcode`, {
+      method: "POST",
+    });
+  },
+  async getPlaybackSource(videoUrl: string) {
+    return request<{
+      hlsUrl: string | null;
+      previewTrackUrl: string | null;
+      subtitles: SubtitleTrack[];
+      nextEpisode: NextEpisode | null;
+    }>(
+      `/media/playback?url=${encodeURIComponent(videoUrl)}`,
+      { method: "GET" }
+    );
+  },
+  async listSubtitles(mediaId: string) {
+    return request<{ subtitles: SubtitleTrack[] }>(`/media/${mediaId}/subtitles`, {
+      method: "GET",
+    });
+  },
+  async uploadSubtitle(mediaId: string, file: File, language: string, label?: string) {
+    const formData = new FormData();
+    formData.append("file", file);
+    formData.append("language", language);
+    if (label) formData.append("label", label);
+
+    return request<{ subtitle: SubtitleTrack }>(`/media/${mediaId}/subtitles`, {
+      method: "POST",
+      rawBody: formData,
+    });
+  },
+  async deleteSubtitle(mediaId: string, subtitleId: string) {
+    return request<{ success: boolean }>(`/media/${mediaId}/subtitles/${subtitleId}`, {
+      method: "DELETE",
+    });
+  },
+  async extractSubtitles(mediaId: string) {
+    return request<{ message: string }>(`/media/${mediaId}/subtitles/extract`, {
+      method: "POST",
+    });
+  },
   async resyncMediaOMDB(id: string) {
-    return request<{ media: any }>(`/media/${id}/resync-omdb`, {
+    return request<{ media: MediaRecord }>(`/media/${id}/resync-omdb`, {
       method: "POST",
     });
   },
+  async searchMetadata(title: string, year?: number | null) {
+    const params = new URLSearchParams({ title });
+    if (year) params.set("year", String(year));
+    return request<{ results: MetadataCandidate[] }>(`/media/metadata-search?${params}`, {
+      method: "GET",
+    });
+  },
+  // Pin a movie to an IMDb title, or unpin it with null
+  async matchMedia(id: string, imdbId: string | null) {
+    return request<{ media: MediaRecord }>(`/media/${id}/match`, {
+      method: "PUT",
+      body: { imdbId },
+    });
+  },
   async getJoinRequests(code: string) {
-    return request<{ requests: any[] }>(`/rooms/${code}/join-requests`, {
+    return request<{ requests: JoinRequest[] }>(`/rooms/${code}/join-requests`, {
       method: "GET",
+      roomCode: code,
     });
   },
   async approveJoinRequest(code: string, requestId: string) {
     return request<{ message: string }>(`/rooms/${code}/join-requests/${requestId}/approve`, {
       method: "POST",
+      roomCode: code,
     });
   },
   async rejectJoinRequest(code: string, requestId: string) {
     return request<{ message: string }>(`/rooms/${code}/join-requests/${requestId}/reject`, {
       method: "POST",
+      roomCode: code,
     });
   },
   async getAllParticipants(code: string) {
-    return request<{ participants: any[] }>(`/rooms/${code}/participants/all`, {
+    return request<{ participants: ParticipantRecord[] }>(`/rooms/${code}/participants/all`, {
       method: "GET",
+      roomCode: code,
     });
   },
   async updateParticipantStatus(code: string, username: string, status: string) {
     return request<{ message: string }>(`/rooms/${code}/participants/${username}/status`, {
       method: "PUT",
       body: { status },
+      roomCode: code,
+    });
+  },
+  async setParticipantRole(code: string, participantId: string, role: Exclude<ParticipantRole, "host">) {
+    return request<{ participant: RoomParticipant }>(`/rooms/${code}/participants/${participantId}/role`, {
+      method: "PUT",
+      body: { role },
+      roomCode: code,
+    });
+  },
+  async kickParticipant(code: string, participantId: string, reason?: string) {
+    return request<{ participant: RoomParticipant }>(`/rooms/${code}/participants/${participantId}/kick`, {
+      method: "POST",
+      body: { reason },
+      roomCode: code,
+    });
+  },
+  async banParticipant(code: string, participantId: string, reason?: string) {
+    return request<{ participant: RoomParticipant }>(`/rooms/${code}/participants/${participantId}/ban`, {
+      method: "POST",
+      body: { reason },
+      roomCode: code,
+    });
+  },
+  async setParticipantMuted(code: string, participantId: string, muted: boolean) {
+    return request<{ participant: RoomParticipant }>(`/rooms/${code}/participants/${participantId}/mute`, {
+      method: "PUT",
+      body: { muted },
+      roomCode: code,
+    });
+  },
+  async getModerationLog(code: string) {
+    return request<{ entries: ModerationLogEntry[] }>(`/rooms/${code}/moderation-log`, {
+      method: "GET",
+      roomCode: code,
+    });
+  },
+  async getRoomAccess(code: string) {
+    return request<RoomAccess>(`/rooms/${code}/access`, {
+      method: "GET",
+      roomCode: code,
+    });
+  },
+  // Without a password, password mode keeps the room's current one
+  async updateRoomAccess(code: string, mode: RoomAccessMode, password?: string) {
+    return request<RoomAccess>(`/rooms/${code}/access`, {
+      method: "PUT",
+      body: { mode, password },
+      roomCode: code,
+    });
+  },
+  async createRoomInvite(code: string, options: { maxUses?: number; expiresInHours?: number }) {
+    return request<{ invite: RoomInvite }>(`/rooms/${code}/invites`, {
+      method: "POST",
+      body: options,
+      roomCode: code,
+    });
+  },
+  async revokeRoomInvite(code: string, inviteId: string) {
+    return request<{ message: string }>(`/rooms/${code}/invites/${inviteId}`, {
+      method: "DELETE",
+      roomCode: code,
+    });
+  },
+  async listMyRooms() {
+    return request<{ rooms: MyRoom[] }>("/my-rooms", { method: "GET" });
+  },
+  async createMyRoom(name: string, access?: { mode: RoomAccessMode; password?: string }) {
+    const data = await request<{ code: string; userId: string; roomToken: string }>("/my-rooms", {
+      method: "POST",
+      body: { name, access },
+    });
+    setRoomToken(data.code, data.roomToken);
+    return data;
+  },
+  // Enter an owned room as its host
+  async openMyRoom(code: string) {
+    const data = await request<{ code: string; userId: string; roomToken: string }>(`/my-rooms/${code}/open`, {
+      method: "POST",
+    });
+    setRoomToken(data.code, data.roomToken);
+    return data;
+  },
+  async deleteMyRoom(code: string) {
+    const data = await request<{ message: string }>(`/my-rooms/${code}`, { method: "DELETE" });
+    clearRoomToken(code);
+    return data;
+  },
+  async scheduleWatchParty(
+    code: string,
+    party: { startsAt: string; title?: string } & ({ mediaId: string } | { videoUrl: string })
+  ) {
+    return request<{ watchParty: WatchParty }>(`/my-rooms/${code}/watch-parties`, {
+      method: "POST",
+      body: party,
+    });
+  },
+  async cancelWatchParty(code: string, partyId: string) {
+    return request<{ message: string }>(`/my-rooms/${code}/watch-parties/${partyId}`, {
+      method: "DELETE",
+    });
+  },
+  async transferHost(code: string, participantId: string) {
+    return request<{ participants: RoomParticipant[] }>(`/rooms/${code}/host`, {
+      method: "POST",
+      body: { participant_id: participantId },
+      roomCode: code,
     });
   },
 };
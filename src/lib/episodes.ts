@@ -0,0 +1,51 @@
+/**
+ * Display and form helpers for TV episodes.
+ */
+
+import type { EpisodeInput } from "@/lib/api";
+
+// S01E02
+export const formatEpisodeCode = (season: number, episode: number) =>
+  `S${String(season).padStart(2, "0")}E${String(episode).padStart(2, "0")}`;
+
+// Metadata providers file specials under season 0
+export const formatSeasonLabel = (season: number) => (season === 0 ? "Specials" : `Season ${season}`);
+
+// Library form state for filing media under a show. Numbers stay strings
+// while they are being typed.
+export interface EpisodeFormValue {
+  isEpisode: boolean;
+  seriesTitle: string;
+  season: string;
+  episode: string;
+}
+
+export const EMPTY_EPISODE_FORM: EpisodeFormValue = {
+  isEpisode: false,
+  seriesTitle: "",
+  season: "",
+  episode: "",
+};
+
+export const toEpisodeForm = (episode: EpisodeInput | null | undefined): EpisodeFormValue =>
+  episode
+    ? {
+        isEpisode: true,
+        seriesTitle: episode.seriesTitle,
+        season: String(episode.season),
+        episode: String(episode.episode),
+      }
+    : EMPTY_EPISODE_FORM;
+
+// What to send for the form: null for a movie, undefined while an episode's
+// fields are incomplete
+export const toEpisodeInput = (form: EpisodeFormValue): EpisodeInput | null | undefined => {
+  if (!form.isEpisode) return null;
+
+  const season = Number(form.season);
+  const episode = Number(form.episode);
+  if (!form.seriesTitle.trim() || form.season === "" || form.episode === "") return undefined;
+  if (!Number.isInteger(season) || season < 0 || !Number.isInteger(episode) || episode < 0) return undefined;
+
+  return { seriesTitle: form.seriesTitle.trim(), season, episode };
+};
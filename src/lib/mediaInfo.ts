@@ -0,0 +1,106 @@
+/**
+ * Display helpers for the technical metadata the server probes from each
+ * uploaded file.
+ */
+
+import { getPlaybackIssues, type MediaProbe } from "@shared/mediaInfo";
+
+export type { MediaProbe };
+
+// Friendlier names for the ffprobe codec ids people actually run into
+const CODEC_NAMES: Record<string, string> = {
+  h264: "H.264",
+  hevc: "HEVC",
+  mpeg4: "MPEG-4",
+  vp8: "VP8",
+  vp9: "VP9",
+  av1: "AV1",
+  aac: "AAC",
+  ac3: "AC-3",
+  eac3: "E-AC-3",
+  dts: "DTS",
+  truehd: "TrueHD",
+  mp3: "MP3",
+  opus: "Opus",
+  vorbis: "Vorbis",
+  flac: "FLAC",
+};
+
+const CHANNEL_LAYOUTS: Record<number, string> = { 1: "mono", 2: "stereo", 6: "5.1", 8: "7.1" };
+
+export const formatCodec = (codec: string) => CODEC_NAMES[codec] ?? codec.toUpperCase();
+
+/**
+ * 1:42:07, or 42:07 for anything under an hour
+ */
+export const formatDuration = (seconds: number) => {
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+};
+
+export const formatBitRate = (bitsPerSecond: number) =>
+  bitsPerSecond >= 1_000_000
+    ? `${(bitsPerSecond / 1_000_000).toFixed(1)} Mbps`
+    : `${Math.round(bitsPerSecond / 1000)} kbps`;
+
+// Files the server holds itself (uploads, remote storage and its media
+// folder), so it can probe, transcode and extract subtitles from them
+export const isLocalMediaUrl = (url: string | null | undefined) =>
+  Boolean(url && ["/uploads/", "/storage/", "/library/"].some((prefix) => url.startsWith(prefix)));
+
+// Short resolution label: 1080p for 1920x1080, raw dimensions otherwise
+export const formatResolution = (width: number, height: number) =>
+  [2160, 1440, 1080, 720, 576, 480, 360].includes(height) ? `${height}p` : `${width}×${height}`;
+
+/**
+ * Warning text when the original file may not play in browsers, or null.
+ * Files with a finished HLS transcode play fine regardless.
+ */
+export const getPlaybackWarning = (
+  probe: Partial<Pick<MediaProbe, "container" | "videoCodec" | "audioCodec">>,
+  hlsReady: boolean
+) => {
+  if (hlsReady) return null;
+  const issues = getPlaybackIssues({
+    container: probe.container ?? null,
+    videoCodec: probe.videoCodec ?? null,
+    audioCodec: probe.audioCodec ?? null,
+  });
+  return issues.length > 0 ? `May not play in browsers: ${issues.join(", ")}` : null;
+};
+
+/**
+ * One-line summary such as "1:42:07 · 1080p · H.264 / AAC · 8.2 Mbps"
+ */
+export const formatTechSummary = (probe: Partial<MediaProbe>) =>
+  [
+    probe.duration ? formatDuration(probe.duration) : null,
+    probe.width && probe.height ? formatResolution(probe.width, probe.height) : null,
+    [probe.videoCodec, probe.audioCodec]
+      .filter((codec): codec is string => Boolean(codec))
+      .map(formatCodec)
+      .join(" / ") || null,
+    probe.bitRate ? formatBitRate(probe.bitRate) : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+// "English (AAC 5.1)" style label for an audio or subtitle stream
+export const formatStreamLabel = (stream: {
+  codec: string | null;
+  language: string | null;
+  title: string | null;
+  channels?: number | null;
+}) => {
+  const name = stream.title || stream.language?.toUpperCase() || "Unknown";
+  const details = [
+    stream.codec ? formatCodec(stream.codec) : null,
+    stream.channels ? CHANNEL_LAYOUTS[stream.channels] ?? `${stream.channels}ch` : null,
+  ]
+    .filter(Boolean)
+    .join(" ");
+  return details ? `${name} (${details})` : name;
+};
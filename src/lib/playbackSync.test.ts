@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { bestOffset, computeTimeSyncSample, correctDrift, expectedPosition } from "./playbackSync";
+
+describe("computeTimeSyncSample", () => {
+  it("splits the round trip evenly around the server's processing time", () => {
+    // Client clock 1000ms behind the server, 40ms each way, 10ms on the server
+    const sample = computeTimeSyncSample(0, 1040, 1050, 90);
+
+    expect(sample).toEqual({ offset: 1000, roundTrip: 80 });
+  });
+});
+
+describe("bestOffset", () => {
+  it("is zero without samples", () => {
+    expect(bestOffset([])).toBe(0);
+  });
+
+  it("uses the sample with the shortest round trip", () => {
+    expect(
+      bestOffset([
+        { offset: 900, roundTrip: 300 },
+        { offset: 1000, roundTrip: 20 },
+        { offset: 1100, roundTrip: 150 },
+      ])
+    ).toBe(1000);
+  });
+});
+
+describe("expectedPosition", () => {
+  const clock = { position: 10, server_time: 50_000, is_playing: true, rate: 1 };
+
+  it("extrapolates a playing clock from its server time", () => {
+    expect(expectedPosition(clock, 53_000)).toBe(13);
+    expect(expectedPosition({ ...clock, rate: 1.5 }, 52_000)).toBe(13);
+  });
+
+  it("holds a paused clock at its position", () => {
+    expect(expectedPosition({ ...clock, is_playing: false }, 90_000)).toBe(10);
+  });
+});
+
+describe("correctDrift", () => {
+  it("plays at the clock rate inside the deadband", () => {
+    expect(correctDrift(10.02, 10)).toEqual({ action: "rate", playbackRate: 1 });
+    expect(correctDrift(10, 10.04, 1.25)).toEqual({ action: "rate", playbackRate: 1.25 });
+  });
+
+  it("speeds up when behind and slows down when ahead, in proportion", () => {
+    const behind = correctDrift(10, 10.1);
+    const ahead = correctDrift(10.1, 10);
+
+    expect(behind.action).toBe("rate");
+    expect(behind.action === "rate" && behind.playbackRate).toBeCloseTo(1.05);
+    expect(ahead.action === "rate" && ahead.playbackRate).toBeCloseTo(0.95);
+  });
+
+  it("clamps the rate adjustment", () => {
+    expect(correctDrift(10, 11.5)).toEqual({ action: "rate", playbackRate: 1.1 });
+    expect(correctDrift(11.5, 10)).toEqual({ action: "rate", playbackRate: 0.9 });
+    expect(correctDrift(10, 11.5, 2)).toEqual({ action: "rate", playbackRate: 2.1 });
+  });
+
+  it("seeks instead when the drift is too large to catch up", () => {
+    expect(correctDrift(10, 12.5)).toEqual({ action: "seek", position: 12.5 });
+    expect(correctDrift(40, 12.5)).toEqual({ action: "seek", position: 12.5 });
+  });
+});
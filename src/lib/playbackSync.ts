@@ -0,0 +1,83 @@
+/**
+ * Helpers for following the server-authoritative room clock.
+ * Small drift is corrected by nudging playbackRate; only large jumps seek.
+ */
+
+import type { ClockFrame } from "@shared/roomProtocol";
+
+export type { ClockFrame };
+
+export interface TimeSyncSample {
+  offset: number; // serverTime - clientTime (ms)
+  roundTrip: number; // ms
+}
+
+// Drift below this is imperceptible; play at normal speed
+const DRIFT_DEADBAND_S = 0.05;
+// Drift above this is too large to catch up on smoothly; seek instead
+const DRIFT_SEEK_THRESHOLD_S = 2;
+// Maximum speed-up/slow-down applied while catching up
+const MAX_RATE_ADJUSTMENT = 0.1;
+// Seconds of drift corrected per second of playback (before clamping)
+const DRIFT_CORRECTION_GAIN = 0.5;
+
+/**
+ * NTP-style offset estimate from a ping/pong exchange
+ */
+export const computeTimeSyncSample = (
+  clientSent: number,
+  serverReceived: number,
+  serverSent: number,
+  clientReceived: number
+): TimeSyncSample => ({
+  offset: (serverReceived - clientSent + (serverSent - clientReceived)) / 2,
+  roundTrip: clientReceived - clientSent - (serverSent - serverReceived),
+});
+
+/**
+ * Pick the offset from the sample with the lowest round trip, which has the
+ * least room for asymmetric network delay
+ */
+export const bestOffset = (samples: TimeSyncSample[]): number => {
+  if (samples.length === 0) return 0;
+  return samples.reduce((best, sample) =>
+    sample.roundTrip < best.roundTrip ? sample : best
+  ).offset;
+};
+
+/**
+ * Where the media should be right now according to the room clock
+ */
+export const expectedPosition = (clock: ClockFrame, serverNow: number): number => {
+  if (!clock.is_playing) return clock.position;
+  return clock.position + ((serverNow - clock.server_time) / 1000) * clock.rate;
+};
+
+export type DriftCorrection =
+  | { action: "seek"; position: number }
+  | { action: "rate"; playbackRate: number };
+
+/**
+ * Decide how to bring the local player back in line with the clock
+ */
+export const correctDrift = (
+  currentTime: number,
+  expected: number,
+  clockRate = 1
+): DriftCorrection => {
+  const drift = expected - currentTime;
+
+  if (Math.abs(drift) > DRIFT_SEEK_THRESHOLD_S) {
+    return { action: "seek", position: expected };
+  }
+
+  if (Math.abs(drift) < DRIFT_DEADBAND_S) {
+    return { action: "rate", playbackRate: clockRate };
+  }
+
+  const adjustment = Math.max(
+    -MAX_RATE_ADJUSTMENT,
+    Math.min(MAX_RATE_ADJUSTMENT, drift * DRIFT_CORRECTION_GAIN)
+  );
+  return { action: "rate", playbackRate: clockRate + adjustment };
+};
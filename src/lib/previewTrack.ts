@@ -0,0 +1,58 @@
+/**
+ * Parsing for WebVTT thumbnail tracks: each cue's payload is an image URL
+ * with a #xywh= fragment selecting one tile of a sprite sheet.
+ */
+
+export interface PreviewTile {
+  start: number; // seconds
+  end: number;
+  url: string; // sprite image, without the fragment
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const CUE_TIMING = /^((?:\d+:)?\d{2}:\d{2}\.\d{3})\s+-->\s+((?:\d+:)?\d{2}:\d{2}\.\d{3})/;
+const XYWH_FRAGMENT = /#xywh=(\d+),(\d+),(\d+),(\d+)$/;
+
+const parseVttTime = (value: string) =>
+  value
+    .split(":")
+    .reduce((total, part) => total * 60 + Number(part), 0);
+
+export const parsePreviewTrack = (vtt: string): PreviewTile[] => {
+  const tiles: PreviewTile[] = [];
+  const lines = vtt.replace(/\r\n?/g, "\n").split("\n");
+
+  lines.forEach((line, i) => {
+    const timing = CUE_TIMING.exec(line.trim());
+    const payload = lines[i + 1]?.trim();
+    if (!timing || !payload) return;
+
+    const fragment = XYWH_FRAGMENT.exec(payload);
+    if (!fragment) return;
+
+    tiles.push({
+      start: parseVttTime(timing[1]),
+      end: parseVttTime(timing[2]),
+      url: payload.slice(0, fragment.index),
+      x: Number(fragment[1]),
+      y: Number(fragment[2]),
+      width: Number(fragment[3]),
+      height: Number(fragment[4]),
+    });
+  });
+
+  return tiles;
+};
+
+// Tiles are in time order, so the last one starting at or before `time` wins
+export const findPreviewTile = (tiles: PreviewTile[], time: number) => {
+  let found: PreviewTile | null = null;
+  for (const tile of tiles) {
+    if (tile.start > time) break;
+    found = tile;
+  }
+  return found;
+};
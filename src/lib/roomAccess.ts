@@ -0,0 +1,22 @@
+/**
+ * Display helpers for room access policies.
+ */
+
+import type { RoomAccessMode, RoomInvite } from "@/lib/api";
+
+export const ROOM_ACCESS_MODES: { value: RoomAccessMode; label: string; description: string }[] = [
+  { value: "approval", label: "Host approval", description: "You approve everyone who asks to join" },
+  { value: "open", label: "Open", description: "Anyone with the room code joins straight away" },
+  { value: "password", label: "Password", description: "Anyone who knows the password or PIN joins" },
+  { value: "invite", label: "Invite only", description: "Only people with an invite link can join" },
+];
+
+// The link that joins `roomCode` with the invite; see the Room page
+export const inviteUrl = (roomCode: string, invite: RoomInvite) =>
+  `${window.location.origin}/room/${roomCode}?invite=${encodeURIComponent(invite.token)}`;
+
+// "3 of 5 uses", "2 uses"
+export const formatInviteUses = (invite: RoomInvite) =>
+  invite.maxUses === null
+    ? `${invite.useCount} use${invite.useCount === 1 ? "" : "s"}`
+    : `${invite.useCount} of ${invite.maxUses} use${invite.maxUses === 1 ? "" : "s"}`;
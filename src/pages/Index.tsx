@@ -2,17 +2,27 @@ import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { Film, Users, Play, Library, LogIn, UserPlus } from "lucide-react";
-import { api } from "@/lib/api";
+import { Film, Users, Play, Library, LogIn, UserPlus, DoorOpen } from "lucide-react";
+import { api, RoomAccessMode } from "@/lib/api";
+import { ROOM_ACCESS_MODES } from "@/lib/roomAccess";
 import { detectBrowser } from "@/lib/browser-detect";
-import { getPersistentBrowserFingerprint } from "@/lib/browserFingerprint";
 
 const Index = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
   const [username, setUsername] = useState("");
   const [roomCode, setRoomCode] = useState("");
+  const [joinPassword, setJoinPassword] = useState("");
+  const [accessMode, setAccessMode] = useState<RoomAccessMode>("approval");
+  const [roomPassword, setRoomPassword] = useState("");
   const [isCreating, setIsCreating] = useState(false);
   const [isJoining, setIsJoining] = useState(false);
   const [isAdmin, setIsAdmin] = useState(false);
@@ -46,8 +56,10 @@ const Index = () => {
 
     setIsCreating(true);
     try {
-      const browserFingerprint = getPersistentBrowserFingerprint();
-      const { code, userId } = await api.createRoom(username.trim(), browserFingerprint);
+      const { code, userId } = await api.createRoom(username.trim(), {
+        mode: accessMode,
+        password: accessMode === "password" ? roomPassword : undefined,
+      });
 
       // Store userId for later use
       if (userId) {
@@ -64,7 +76,7 @@ const Index = () => {
       console.error("Error creating room:", error);
       toast({
         title: "Failed to create room",
-        description: "Please try again.",
+        description: error instanceof Error ? error.message : "Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -89,22 +101,25 @@ const Index = () => {
 
     try {
       const browser = detectBrowser();
-      const browserFingerprint = getPersistentBrowserFingerprint();
-      const result = await api.joinRoom(normalizedCode, trimmedUsername, browser.name, browser.version, browserFingerprint);
+      const result = await api.joinRoom(normalizedCode, trimmedUsername, browser.name, browser.version, {
+        password: joinPassword || undefined,
+      });
 
       // Store userId for later use
       if (result.userId) {
         localStorage.setItem("userId", result.userId);
       }
 
+      // Store the room code and username for polling, and for the room page
+      // to recognise us when the room let us straight in
+      localStorage.setItem("pendingRoomCode", normalizedCode);
+      localStorage.setItem("pendingUsername", trimmedUsername);
+
       if (result.status === "pending") {
         toast({
           title: "Waiting for approval",
           description: "The host will review your request shortly.",
         });
-        // Store the room code and username for polling
-        localStorage.setItem("pendingRoomCode", normalizedCode);
-        localStorage.setItem("pendingUsername", trimmedUsername);
         navigate(`/lobby/${normalizedCode}`);
       } else {
         toast({
@@ -148,6 +163,15 @@ const Index = () => {
           <div className="flex items-center gap-1 sm:gap-2">
             {isLoggedIn ? (
               <>
+                <Button
+                  variant="outline"
+                  onClick={() => navigate("/my-rooms")}
+                  size="sm"
+                  className="text-xs sm:text-sm"
+                >
+                  <DoorOpen className="h-3 sm:h-4 w-3 sm:w-4 mr-1 sm:mr-2" />
+                  <span className="hidden sm:inline">My Rooms</span>
+                </Button>
                 {isAdmin && (
                   <Button
                     variant="outline"
@@ -288,6 +312,16 @@ const Index = () => {
                   className="bg-input border-border focus:border-accent text-sm"
                 />
               </div>
+              <div className="space-y-2">
+                <label className="text-xs sm:text-sm font-medium text-foreground">Room Password</label>
+                <Input
+                  type="password"
+                  placeholder="Only if the room has one"
+                  value={joinPassword}
+                  onChange={(e) => setJoinPassword(e.target.value)}
+                  className="bg-input border-border focus:border-accent text-sm"
+                />
+              </div>
               <Button
                 type="submit"
                 disabled={isJoining}
@@ -333,10 +367,42 @@ const Index = () => {
               </div>
             )}
 
+            {/* Access Settings */}
+            <div className="space-y-2">
+              <label className="text-xs sm:text-sm font-medium text-foreground">Who Can Join</label>
+              <Select value={accessMode} onValueChange={(mode) => setAccessMode(mode as RoomAccessMode)}>
+                <SelectTrigger className="bg-input border-border text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROOM_ACCESS_MODES.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {ROOM_ACCESS_MODES.find((option) => option.value === accessMode)?.description}
+              </p>
+            </div>
+            {accessMode === "password" && (
+              <div className="space-y-2">
+                <label className="text-xs sm:text-sm font-medium text-foreground">Room Password</label>
+                <Input
+                  type="password"
+                  placeholder="Password or PIN (at least 4 characters)"
+                  value={roomPassword}
+                  onChange={(e) => setRoomPassword(e.target.value)}
+                  className="bg-input border-border focus:border-primary text-sm"
+                />
+              </div>
+            )}
+
             {/* Create Room Button */}
             <Button
               onClick={createRoom}
-              disabled={isCreating || !username.trim()}
+              disabled={isCreating || !username.trim() || (accessMode === "password" && !roomPassword)}
               className="w-full h-10 sm:h-12 text-sm sm:text-base shadow-glow-primary hover:shadow-glow-accent transition-all"
               size="lg"
             >
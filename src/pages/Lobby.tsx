@@ -4,12 +4,14 @@ import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { Clock, CheckCircle, XCircle } from "lucide-react";
 import { useRoomWebSocket } from "@/hooks/useRoomWebSocket";
+import { api } from "@/lib/api";
+import type { ParticipantStatus } from "@shared/roomProtocol";
 
 const Lobby = () => {
   const { code } = useParams();
   const navigate = useNavigate();
   const { toast } = useToast();
-  const [status, setStatus] = useState<"pending" | "approved" | "rejected" | "active">("pending");
+  const [status, setStatus] = useState<ParticipantStatus>("pending");
   const [username, setUsername] = useState("");
   const [userId, setUserId] = useState("");
 
@@ -27,9 +29,7 @@ const Lobby = () => {
     setUserId(storedUserId);
   }, [code, navigate]);
 
-  const handleApprovalStatusChange = (
-    newStatus: "pending" | "approved" | "rejected" | "active"
-  ) => {
+  const handleApprovalStatusChange = (newStatus: ParticipantStatus) => {
     if (newStatus === "active") {
       setStatus("approved");
       toast({
@@ -43,7 +43,7 @@ const Lobby = () => {
           navigate(`/room/${code}`);
         }
       }, 1000);
-    } else if (newStatus === "rejected") {
+    } else if (newStatus === "rejected" || newStatus === "kicked" || newStatus === "banned") {
       setStatus("rejected");
       toast({
         title: "Request Rejected",
@@ -52,21 +52,13 @@ const Lobby = () => {
       });
       localStorage.removeItem("pendingRoomCode");
       localStorage.removeItem("pendingUsername");
+      if (code) api.clearRoomToken(code);
     } else {
       setStatus(newStatus);
     }
   };
 
-  useRoomWebSocket(
-    code || "",
-    userId,
-    username,
-    () => {},
-    () => {},
-    () => {},
-    () => {},
-    handleApprovalStatusChange
-  );
+  useRoomWebSocket(code || "", userId, username, { onApprovalStatusChange: handleApprovalStatusChange });
 
   return (
     <div className="min-h-screen bg-gradient-hero flex items-center justify-center p-3 sm:p-4">
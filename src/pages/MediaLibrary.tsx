@@ -1,16 +1,40 @@
-import { useEffect, useState, useRef } from "react";
+import { useEffect, useMemo, useState, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { Upload, Trash2, Film, ArrowLeft, Edit2, RefreshCw } from "lucide-react";
-import { api } from "@/lib/api";
+import { Upload, Trash2, Film, ArrowLeft, Edit2, RefreshCw, Layers, AlertTriangle, Tv } from "lucide-react";
+import {
+  api,
+  EpisodeInput,
+  MediaQuery,
+  MediaRecord,
+  ReleaseDetails,
+  TranscodeStatus,
+  UploadProgress,
+  UploadStatus,
+} from "@/lib/api";
+import { useMediaSearch } from "@/hooks/useMediaSearch";
+import { MediaSearchBar } from "@/components/MediaSearchBar";
+import { SeriesBrowser } from "@/components/SeriesBrowser";
+import { EpisodeFields } from "@/components/EpisodeFields";
+import { EMPTY_EPISODE_FORM, toEpisodeInput } from "@/lib/episodes";
+import {
+  MediaProbe,
+  formatStreamLabel,
+  formatTechSummary,
+  getPlaybackWarning,
+  isLocalMediaUrl,
+} from "@/lib/mediaInfo";
 import { MediaEditModal } from "@/components/MediaEditModal";
+import { LibraryImportCard } from "@/components/LibraryImportCard";
 
-interface MediaFile {
+interface MediaFile extends Partial<MediaProbe> {
   id: string;
   title: string;
   description: string | null;
@@ -20,40 +44,100 @@ interface MediaFile {
   created_at: string;
   // IMDB metadata
   posterUrl?: string | null;
+  thumbnailUrl?: string | null;
   imdbId?: string | null;
+  imdbPinned?: boolean;
   releaseYear?: number | null;
+  // Parsed from the upload's filename
+  releaseResolution?: string | null;
+  releaseSource?: string | null;
   rating?: string | null;
   genre?: string | null;
   director?: string | null;
   actors?: string | null;
   externalApiUrl?: string | null;
+  // HLS transcoding
+  transcodeStatus?: TranscodeStatus;
+  transcodeError?: string | null;
+  // ffprobe
+  probedAt?: string | null;
+  probeError?: string | null;
+  // TV episodes only
+  episode?: EpisodeInput | null;
+  // Library files that are gone from disk; the record stays until they're back
+  missingAt?: string | null;
 }
 
+// Poll while transcodes are queued or running so their status stays current
+const TRANSCODE_POLL_INTERVAL_MS = 10000;
+
+const transcodeLabels: Record<NonNullable<MediaFile["transcodeStatus"]>, string> = {
+  none: "Original only",
+  pending: "Queued for HLS",
+  processing: "Transcoding...",
+  ready: "HLS ready",
+  failed: "Transcode failed",
+};
+
+const EMPTY_PROGRESS: UploadProgress = {
+  percentage: 0,
+  loaded: 0,
+  total: 0,
+  eta: 0,
+  reconnecting: false,
+};
+
+// Server rows are camelCase; the page was written against snake_case.
+// Series episodes carry only some of a media row's fields.
+const toMediaFile = (
+  file: Pick<MediaRecord, "id" | "title" | "description" | "fileUrl" | "fileType" | "fileSize"> &
+    Partial<MediaRecord>
+): MediaFile => ({
+  ...file,
+  file_url: file.fileUrl,
+  file_type: file.fileType,
+  file_size: file.fileSize,
+  created_at: file.createdAt,
+});
+
 const MediaLibrary = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
-
-  const [mediaFiles, setMediaFiles] = useState<MediaFile[]>([]);
+  const resumeInputRef = useRef<HTMLInputElement>(null);
+
+  const [mediaQuery, setMediaQuery] = useState<MediaQuery>({});
+  // Episodes are browsed by show on the TV tab
+  const movieQuery = useMemo<MediaQuery>(() => ({ ...mediaQuery, type: "movie" }), [mediaQuery]);
+  const {
+    media,
+    error: mediaError,
+    loading: mediaLoading,
+    hasMore,
+    loadMore,
+    refresh: fetchMediaFiles,
+  } = useMediaSearch(movieQuery);
+  // Bumped whenever the library changes so the TV tab re-fetches too
+  const [seriesVersion, setSeriesVersion] = useState(0);
   const [isAdmin, setIsAdmin] = useState(false);
   const [loading, setLoading] = useState(true);
   const [uploading, setUploading] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState({
-    percentage: 0,
-    loaded: 0,
-    total: 0,
-    eta: 0,
-  });
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress>(EMPTY_PROGRESS);
+  // Uploads left unfinished by a failure or a page reload
+  const [pendingUploads, setPendingUploads] = useState<UploadStatus[]>([]);
+  const [resumeTarget, setResumeTarget] = useState<UploadStatus | null>(null);
 
   const [uploadForm, setUploadForm] = useState({
     title: "",
     description: "",
   });
+  const [uploadEpisode, setUploadEpisode] = useState(EMPTY_EPISODE_FORM);
 
   const [editingMedia, setEditingMedia] = useState<MediaFile | null>(null);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [isEditLoading, setIsEditLoading] = useState(false);
   const [resyncing, setResyncing] = useState<string | null>(null);
+  const [transcoding, setTranscoding] = useState<string | null>(null);
 
   useEffect(() => {
     checkAdminAndFetchFiles();
@@ -75,86 +159,150 @@ const MediaLibrary = () => {
       }
 
       setIsAdmin(true);
-      await fetchMediaFiles();
+      await fetchPendingUploads();
       setLoading(false);
     } catch {
       navigate("/login");
     }
   };
 
-  const fetchMediaFiles = async () => {
+  const mediaFiles: MediaFile[] = useMemo(() => media.map(toMediaFile), [media]);
+
+  const refreshLibrary = async () => {
+    setSeriesVersion((version) => version + 1);
+    await fetchMediaFiles();
+  };
+
+  const isFiltered = Boolean(
+    mediaQuery.q?.trim() ||
+      mediaQuery.genres?.length ||
+      mediaQuery.ratings?.length ||
+      mediaQuery.yearFrom ||
+      mediaQuery.yearTo
+  );
+
+  useEffect(() => {
+    if (!mediaError) return;
+    toast({
+      title: "Error",
+      description: "Failed to fetch media files.",
+      variant: "destructive",
+    });
+  }, [mediaError, toast]);
+
+  const fetchPendingUploads = async () => {
     try {
-      const { media } = await api.listMedia();
-      setMediaFiles(
-        media.map((file: any) => ({
-          ...file,
-          file_url: file.file_url ?? file.fileUrl,
-          file_type: file.file_type ?? file.fileType,
-          file_size: file.file_size ?? file.fileSize ?? null,
-          created_at: file.created_at ?? file.createdAt,
-        }))
-      );
+      const { uploads } = await api.listUploads();
+      setPendingUploads(uploads);
     } catch (error) {
-      toast({
-        title: "Error",
-        description: "Failed to fetch media files.",
-        variant: "destructive",
-      });
+      console.error("Error fetching unfinished uploads:", error);
     }
   };
 
+  const hasActiveTranscodes = mediaFiles.some(
+    (file) => file.transcodeStatus === "pending" || file.transcodeStatus === "processing"
+  );
+
+  useEffect(() => {
+    if (!hasActiveTranscodes) return;
+    const interval = setInterval(fetchMediaFiles, TRANSCODE_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasActiveTranscodes, fetchMediaFiles]);
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    if (!uploadForm.title.trim()) {
+    const episode = toEpisodeInput(uploadEpisode);
+    if (episode === undefined) {
       toast({
-        title: "Title required",
-        description: "Please enter a title for the video.",
+        title: "Episode details required",
+        description: "Enter the series title, season and episode number.",
         variant: "destructive",
       });
       return;
     }
 
-    setUploading(true);
-    setUploadProgress({ percentage: 0, loaded: 0, total: 0, eta: 0 });
-
-    try {
-      await api.uploadMedia(
+    const uploaded = await runUpload((onProgress) =>
+      api.uploadMedia(
         file,
         {
-          title: uploadForm.title,
+          // The server parses a title from the filename when there's none
+          title: uploadForm.title.trim() || undefined,
           description: uploadForm.description || undefined,
+          episode: episode ?? undefined,
         },
-        (progress) => {
-          setUploadProgress({
-            percentage: progress.percentage,
-            loaded: progress.loaded,
-            total: progress.total,
-            eta: progress.eta,
-          });
-        }
-      );
+        onProgress
+      )
+    );
+    if (uploaded) {
+      setUploadForm({ title: "", description: "" });
+      setUploadEpisode(EMPTY_EPISODE_FORM);
+    }
+
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  const handleResumeClick = (pending: UploadStatus) => {
+    setResumeTarget(pending);
+    resumeInputRef.current?.click();
+  };
+
+  const handleResumeFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file && resumeTarget) {
+      await runUpload((onProgress) => api.resumeUpload(resumeTarget, file, onProgress));
+    }
+
+    setResumeTarget(null);
+    if (resumeInputRef.current) {
+      resumeInputRef.current.value = "";
+    }
+  };
+
+  const handleDiscardUpload = async (id: string) => {
+    try {
+      await api.cancelUpload(id);
+      await fetchPendingUploads();
+    } catch (error) {
+      toast({
+        title: "Discard failed",
+        description: error instanceof Error ? error.message : "Failed to discard upload.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Shared progress and toast handling for new and resumed uploads
+  const runUpload = async (
+    send: (onProgress: (progress: UploadProgress) => void) => Promise<unknown>
+  ) => {
+    setUploading(true);
+    setUploadProgress(EMPTY_PROGRESS);
+
+    try {
+      await send(setUploadProgress);
 
       toast({
         title: "Upload successful!",
         description: "Video has been added to the media library.",
       });
 
-      setUploadForm({ title: "", description: "" });
-      await fetchMediaFiles();
+      await refreshLibrary();
+      return true;
     } catch (error) {
       toast({
         title: "Upload failed",
-        description: "Failed to upload video. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to upload video.",
         variant: "destructive",
       });
+      return false;
     } finally {
       setUploading(false);
-      setUploadProgress({ percentage: 0, loaded: 0, total: 0, eta: 0 });
-      if (fileInputRef.current) {
-        fileInputRef.current.value = "";
-      }
+      setUploadProgress(EMPTY_PROGRESS);
+      await fetchPendingUploads();
     }
   };
 
@@ -169,7 +317,7 @@ const MediaLibrary = () => {
         description: "Video has been removed from the library.",
       });
 
-      await fetchMediaFiles();
+      await refreshLibrary();
     } catch (error) {
       toast({
         title: "Delete failed",
@@ -184,24 +332,31 @@ const MediaLibrary = () => {
     setIsEditModalOpen(true);
   };
 
-  const handleEditSave = async (title: string, description: string, file_url?: string) => {
+  const handleEditSave = async (
+    title: string,
+    description: string,
+    file_url: string | undefined,
+    episode: EpisodeInput | null,
+    release: ReleaseDetails
+  ) => {
     if (!editingMedia) return;
 
     setIsEditLoading(true);
     try {
-      const payload: any = {
+      await api.updateMedia(editingMedia.id, {
         title,
         description,
-        file_url: file_url || ""
-      };
-      await api.updateMedia(editingMedia.id, payload);
+        file_url: file_url || "",
+        episode,
+        ...release,
+      });
 
       toast({
         title: "Updated",
         description: "Media information has been updated.",
       });
 
-      await fetchMediaFiles();
+      await refreshLibrary();
     } catch (error) {
       toast({
         title: "Update failed",
@@ -220,13 +375,13 @@ const MediaLibrary = () => {
 
       toast({
         title: "Resynced",
-        description: "OMDB metadata has been updated.",
+        description: "Metadata has been updated.",
       });
 
-      await fetchMediaFiles();
+      await refreshLibrary();
     } catch (error) {
-      console.error("OMDB resync error:", error);
-      const errorMessage = error instanceof Error ? error.message : "Failed to resync OMDB metadata.";
+      console.error("Metadata resync error:", error);
+      const errorMessage = error instanceof Error ? error.message : "Failed to resync metadata.";
       toast({
         title: "Resync failed",
         description: errorMessage,
@@ -237,6 +392,29 @@ const MediaLibrary = () => {
     }
   };
 
+  const handleTranscode = async (id: string) => {
+    setTranscoding(id);
+    try {
+      await api.transcodeMedia(id);
+
+      toast({
+        title: "Transcode queued",
+        description: "An adaptive HLS version will be available once it finishes.",
+      });
+
+      await fetchMediaFiles();
+    } catch (error) {
+      console.error("Transcode error:", error);
+      toast({
+        title: "Transcode failed",
+        description: error instanceof Error ? error.message : "Failed to queue transcode.",
+        variant: "destructive",
+      });
+    } finally {
+      setTranscoding(null);
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -271,9 +449,9 @@ const MediaLibrary = () => {
             
             <div className="space-y-4">
               <div>
-                <label className="text-sm font-medium mb-2 block">Title *</label>
+                <label className="text-sm font-medium mb-2 block">Title</label>
                 <Input
-                  placeholder="Enter video title"
+                  placeholder="Leave blank to use the filename"
                   value={uploadForm.title}
                   onChange={(e) => setUploadForm({ ...uploadForm, title: e.target.value })}
                 />
@@ -289,6 +467,8 @@ const MediaLibrary = () => {
                 />
               </div>
 
+              <EpisodeFields value={uploadEpisode} onChange={setUploadEpisode} disabled={uploading} />
+
               <div>
                 <input
                   ref={fileInputRef}
@@ -319,7 +499,11 @@ const MediaLibrary = () => {
                       </div>
                       <div>
                         <p className="font-medium text-foreground">
-                          {uploadProgress.eta > 0 ? `${uploadProgress.eta}s` : "Calculating..."}
+                          {uploadProgress.reconnecting
+                            ? "Reconnecting..."
+                            : uploadProgress.eta > 0
+                              ? `${uploadProgress.eta}s`
+                              : "Calculating..."}
                         </p>
                         <p className="text-xs">Time remaining</p>
                       </div>
@@ -327,125 +511,313 @@ const MediaLibrary = () => {
                   </div>
                 )}
               </div>
+
+              {/* Unfinished uploads */}
+              {pendingUploads.length > 0 && (
+                <div className="space-y-2 border-t border-border/50 pt-4">
+                  <input
+                    ref={resumeInputRef}
+                    type="file"
+                    accept="video/*,.mkv,.mp4,.webm,.avi,.mov"
+                    onChange={handleResumeFile}
+                    className="hidden"
+                  />
+                  <p className="text-sm font-medium">Unfinished uploads</p>
+                  {pendingUploads.map((pending) => (
+                    <div key={pending.id} className="flex items-center justify-between gap-4 text-sm">
+                      <div className="min-w-0">
+                        <p className="truncate text-foreground">{pending.title}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {pending.filename} · {Math.round((pending.offset / pending.size) * 100)}% of{" "}
+                          {(pending.size / 1024 / 1024).toFixed(1)} MB
+                        </p>
+                      </div>
+                      <div className="flex gap-2 shrink-0">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={uploading}
+                          onClick={() => handleResumeClick(pending)}
+                        >
+                          Resume
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={uploading}
+                          onClick={() => handleDiscardUpload(pending.id)}
+                        >
+                          Discard
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           </Card>
 
+          <LibraryImportCard onImported={refreshLibrary} />
+
           {/* Media Files Grid */}
           <div>
             <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
               <Film className="h-5 w-5" />
-              Uploaded Videos ({mediaFiles.length})
+              Uploaded Videos
             </h2>
-            
-            {mediaFiles.length === 0 ? (
-              <Card className="backdrop-blur-glass bg-card/60 border-border/50 p-12 text-center">
-                <Film className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
-                <p className="text-muted-foreground">No videos uploaded yet.</p>
-              </Card>
-            ) : (
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {mediaFiles.map((file) => (
-                  <Card key={file.id} className="backdrop-blur-glass bg-card/60 border-border/50 overflow-hidden hover:border-primary/50 transition-colors">
-                    {/* Poster or Placeholder */}
-                    <div className="aspect-video bg-black/50 flex items-center justify-center overflow-hidden">
-                      {file.posterUrl ? (
-                        <img
-                          src={file.posterUrl}
-                          alt={file.title}
-                          className="w-full h-full object-cover"
-                        />
-                      ) : (
-                        <Film className="h-12 w-12 text-muted-foreground" />
-                      )}
-                    </div>
 
-                    <div className="p-4 space-y-3">
-                      <div>
-                        <h3 className="font-semibold mb-1 truncate">{file.title}</h3>
-                        {file.releaseYear && (
-                          <p className="text-xs text-muted-foreground">
-                            {file.releaseYear}
-                            {file.rating && ` • ${file.rating}`}
-                          </p>
-                        )}
-                      </div>
+            <Tabs defaultValue="movies">
+              <TabsList className="mb-4">
+                <TabsTrigger value="movies" className="gap-2">
+                  <Film className="h-4 w-4" />
+                  Movies
+                </TabsTrigger>
+                <TabsTrigger value="tv" className="gap-2">
+                  <Tv className="h-4 w-4" />
+                  TV Shows
+                </TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="movies">
+                <div className="mb-4">
+                  <MediaSearchBar value={mediaQuery} onChange={setMediaQuery} />
+                </div>
+
+                {mediaFiles.length === 0 ? (
+                  <Card className="backdrop-blur-glass bg-card/60 border-border/50 p-12 text-center">
+                    <Film className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+                    <p className="text-muted-foreground">
+                      {mediaLoading
+                        ? "Loading..."
+                        : isFiltered
+                          ? "No movies match your search."
+                          : "No movies uploaded yet."}
+                    </p>
+                  </Card>
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {mediaFiles.map((file) => (
+                      <Card key={file.id} className="backdrop-blur-glass bg-card/60 border-border/50 overflow-hidden hover:border-primary/50 transition-colors">
+                        {/* Poster or Placeholder */}
+                        <div className="aspect-video bg-black/50 flex items-center justify-center overflow-hidden">
+                          {file.posterUrl || file.thumbnailUrl ? (
+                            <img
+                              src={file.posterUrl || file.thumbnailUrl!}
+                              alt={file.title}
+                              className="w-full h-full object-cover"
+                            />
+                          ) : (
+                            <Film className="h-12 w-12 text-muted-foreground" />
+                          )}
+                        </div>
 
-                      {file.description && (
-                        <p className="text-sm text-muted-foreground line-clamp-2">
-                          {file.description}
-                        </p>
-                      )}
+                        <div className="p-4 space-y-3">
+                          <div>
+                            <h3 className="font-semibold mb-1 truncate">{file.title}</h3>
+                            {file.releaseYear && (
+                              <p className="text-xs text-muted-foreground">
+                                {file.releaseYear}
+                                {file.rating && ` • ${file.rating}`}
+                              </p>
+                            )}
+                            {file.missingAt && (
+                              <p className="text-xs text-destructive flex items-center gap-1 mt-1">
+                                <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+                                File missing since {new Date(file.missingAt).toLocaleDateString()}
+                              </p>
+                            )}
+                          </div>
+
+                          {file.description && (
+                            <p className="text-sm text-muted-foreground line-clamp-2">
+                              {file.description}
+                            </p>
+                          )}
 
-                      {/* IMDB Metadata */}
-                      {(file.genre || file.director || file.actors) && (
-                        <div className="space-y-1 text-xs text-muted-foreground border-t border-border/50 pt-2">
-                          {file.genre && (
-                            <p><span className="font-medium">Genre:</span> {file.genre}</p>
+                          {/* IMDB Metadata */}
+                          {(file.genre || file.director || file.actors) && (
+                            <div className="space-y-1 text-xs text-muted-foreground border-t border-border/50 pt-2">
+                              {file.genre && (
+                                <p><span className="font-medium">Genre:</span> {file.genre}</p>
+                              )}
+                              {file.director && (
+                                <p><span className="font-medium">Director:</span> {file.director}</p>
+                              )}
+                              {file.actors && (
+                                <p><span className="font-medium">Cast:</span> {file.actors}</p>
+                              )}
+                            </div>
                           )}
-                          {file.director && (
-                            <p><span className="font-medium">Director:</span> {file.director}</p>
+
+                          <div className="space-y-1 text-xs text-muted-foreground border-t border-border/50 pt-2">
+                            <div className="flex items-center justify-between">
+                              <span className="uppercase">{file.file_type}</span>
+                              {file.file_size && (
+                                <span>{(file.file_size / 1024 / 1024).toFixed(1)} MB</span>
+                              )}
+                            </div>
+                            {formatTechSummary(file) && <p>{formatTechSummary(file)}</p>}
+                            {(file.releaseSource || file.releaseResolution) && (
+                              <p>
+                                <span className="font-medium">Release:</span>{" "}
+                                {[file.releaseSource, file.releaseResolution].filter(Boolean).join(" ")}
+                              </p>
+                            )}
+                            {file.audioStreams && file.audioStreams.length > 0 && (
+                              <p className="truncate">
+                                <span className="font-medium">Audio:</span>{" "}
+                                {file.audioStreams.map(formatStreamLabel).join(", ")}
+                              </p>
+                            )}
+                            {file.subtitleStreams && file.subtitleStreams.length > 0 && (
+                              <p className="truncate">
+                                <span className="font-medium">Subtitles:</span>{" "}
+                                {file.subtitleStreams.map(formatStreamLabel).join(", ")}
+                              </p>
+                            )}
+                            {file.probeError && (
+                              <p className="truncate" title={file.probeError}>
+                                Couldn't read technical details
+                              </p>
+                            )}
+                            {getPlaybackWarning(file, file.transcodeStatus === "ready") && (
+                              <p className="flex items-start gap-1 text-amber-500">
+                                <AlertTriangle className="h-3.5 w-3.5 shrink-0 mt-px" />
+                                {getPlaybackWarning(file, file.transcodeStatus === "ready")}
+                              </p>
+                            )}
+                          </div>
+
+                          {/* Transcoding */}
+                          {isLocalMediaUrl(file.file_url) && (
+                            <div className="flex items-center justify-between gap-2">
+                              <Badge
+                                variant={file.transcodeStatus === "failed" ? "destructive" : "secondary"}
+                                title={file.transcodeError ?? undefined}
+                              >
+                                {transcodeLabels[file.transcodeStatus ?? "none"]}
+                              </Badge>
+                              {(file.transcodeStatus === "none" || file.transcodeStatus === "failed" || !file.transcodeStatus) && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleTranscode(file.id)}
+                                  disabled={transcoding === file.id}
+                                >
+                                  <Layers className="h-4 w-4 mr-2" />
+                                  {file.transcodeStatus === "failed" ? "Retry" : "Transcode"}
+                                </Button>
+                              )}
+                            </div>
                           )}
-                          {file.actors && (
-                            <p><span className="font-medium">Cast:</span> {file.actors}</p>
+
+                          {/* IMDB Link */}
+                          {file.externalApiUrl && (
+                            <a
+                              href={file.externalApiUrl}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-xs text-primary hover:underline block"
+                            >
+                              View on IMDB →
+                            </a>
                           )}
-                        </div>
-                      )}
 
-                      <div className="flex items-center justify-between text-xs text-muted-foreground border-t border-border/50 pt-2">
-                        <span className="uppercase">{file.file_type}</span>
-                        {file.file_size && (
-                          <span>{(file.file_size / 1024 / 1024).toFixed(1)} MB</span>
-                        )}
-                      </div>
+                          <div className="flex gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleEditClick(file)}
+                              className="flex-1"
+                            >
+                              <Edit2 className="h-4 w-4 mr-2" />
+                              Edit
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleResyncOMDB(file.id)}
+                              disabled={resyncing === file.id}
+                              className="flex-1"
+                            >
+                              <RefreshCw className={`h-4 w-4 mr-2 ${resyncing === file.id ? "animate-spin" : ""}`} />
+                              {resyncing === file.id ? "Syncing..." : "Resync"}
+                            </Button>
+                          </div>
+
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            onClick={() => handleDelete(file.id)}
+                            className="w-full"
+                          >
+                            <Trash2 className="h-4 w-4 mr-2" />
+                            Delete
+                          </Button>
+                        </div>
+                      </Card>
+                    ))}
+                  </div>
+                )}
 
-                      {/* IMDB Link */}
-                      {file.externalApiUrl && (
-                        <a
-                          href={file.externalApiUrl}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="text-xs text-primary hover:underline block"
+                {hasMore && (
+                  <div className="mt-6 flex justify-center">
+                    <Button variant="outline" onClick={loadMore} disabled={mediaLoading}>
+                      {mediaLoading ? "Loading..." : "Load more"}
+                    </Button>
+                  </div>
+                )}
+              </TabsContent>
+
+              <TabsContent value="tv">
+                <Card className="backdrop-blur-glass bg-card/60 border-border/50 p-6">
+                  <SeriesBrowser
+                    refreshKey={seriesVersion}
+                    renderEpisodeActions={(episode, series) => (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          title="Edit"
+                          onClick={() =>
+                            handleEditClick({
+                              ...toMediaFile(episode),
+                              episode: {
+                                seriesTitle: series.title,
+                                season: episode.seasonNumber,
+                                episode: episode.episodeNumber,
+                              },
+                            })
+                          }
                         >
-                          View on IMDB →
-                        </a>
-                      )}
-
-                      <div className="flex gap-2">
+                          <Edit2 className="h-4 w-4" />
+                        </Button>
                         <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => handleEditClick(file)}
-                          className="flex-1"
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          title="Resync metadata"
+                          onClick={() => handleResyncOMDB(episode.id)}
+                          disabled={resyncing === episode.id}
                         >
-                          <Edit2 className="h-4 w-4 mr-2" />
-                          Edit
+                          <RefreshCw className={`h-4 w-4 ${resyncing === episode.id ? "animate-spin" : ""}`} />
                         </Button>
                         <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => handleResyncOMDB(file.id)}
-                          disabled={resyncing === file.id}
-                          className="flex-1"
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-destructive"
+                          title="Delete"
+                          onClick={() => handleDelete(episode.id)}
                         >
-                          <RefreshCw className={`h-4 w-4 mr-2 ${resyncing === file.id ? "animate-spin" : ""}`} />
-                          {resyncing === file.id ? "Syncing..." : "Resync"}
+                          <Trash2 className="h-4 w-4" />
                         </Button>
-                      </div>
-
-                      <Button
-                        variant="destructive"
-                        size="sm"
-                        onClick={() => handleDelete(file.id)}
-                        className="w-full"
-                      >
-                        <Trash2 className="h-4 w-4 mr-2" />
-                        Delete
-                      </Button>
-                    </div>
-                  </Card>
-                ))}
-              </div>
-            )}
+                      </>
+                    )}
+                  />
+                </Card>
+              </TabsContent>
+            </Tabs>
           </div>
         </div>
 
@@ -459,6 +831,10 @@ const MediaLibrary = () => {
             setEditingMedia(null);
           }}
           onSave={handleEditSave}
+          onMatched={(media) => {
+            setEditingMedia(toMediaFile(media));
+            refreshLibrary();
+          }}
         />
       </div>
     </div>
@@ -0,0 +1,209 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { ArrowLeft, CalendarClock, DoorOpen, Plus, Trash2, Users, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { WatchPartyScheduler } from "@/components/WatchPartyScheduler";
+import { api, MyRoom } from "@/lib/api";
+import type { WatchParty } from "@shared/roomProtocol";
+
+const MyRooms = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [rooms, setRooms] = useState<MyRoom[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+
+  const showError = (error: unknown, fallback: string) =>
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+
+  useEffect(() => {
+    const fetchRooms = async () => {
+      try {
+        await api.currentUser();
+      } catch {
+        navigate("/login");
+        return;
+      }
+
+      try {
+        const data = await api.listMyRooms();
+        setRooms(data.rooms);
+      } catch (error) {
+        console.error("Failed to load rooms:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchRooms();
+  }, [navigate]);
+
+  const updateParties = (code: string, update: (parties: WatchParty[]) => WatchParty[]) =>
+    setRooms((prev) => prev.map((room) => (room.code === code ? { ...room, watchParties: update(room.watchParties) } : room)));
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      await api.createMyRoom(name.trim());
+      const data = await api.listMyRooms();
+      setRooms(data.rooms);
+      setName("");
+    } catch (error) {
+      showError(error, "Failed to create room");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleOpen = async (room: MyRoom) => {
+    try {
+      const { userId } = await api.openMyRoom(room.code);
+      localStorage.setItem("userId", userId);
+      navigate(`/room/${room.code}`);
+    } catch (error) {
+      showError(error, "Failed to open room");
+    }
+  };
+
+  const handleDelete = async (room: MyRoom) => {
+    if (!confirm(`Delete "${room.name}"? Anyone still in it will be disconnected.`)) return;
+
+    try {
+      await api.deleteMyRoom(room.code);
+      setRooms((prev) => prev.filter((r) => r.code !== room.code));
+    } catch (error) {
+      showError(error, "Failed to delete room");
+    }
+  };
+
+  const handleCancelParty = async (room: MyRoom, party: WatchParty) => {
+    if (!confirm(`Cancel the watch party "${party.title}"?`)) return;
+
+    try {
+      await api.cancelWatchParty(room.code, party.id);
+      updateParties(room.code, (parties) => parties.filter((p) => p.id !== party.id));
+    } catch (error) {
+      showError(error, "Failed to cancel watch party");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-hero">
+      <header className="backdrop-blur-glass bg-card/60 border-b border-border/50 sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" onClick={() => navigate("/")}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <h1 className="text-2xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+              My Rooms
+            </h1>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-4xl mx-auto space-y-6">
+          <Card className="backdrop-blur-glass bg-card/60 border-border/50 p-6">
+            <h2 className="text-xl font-semibold mb-2 flex items-center gap-2">
+              <Plus className="h-5 w-5" />
+              New Room
+            </h2>
+            <p className="text-sm text-muted-foreground mb-4">
+              Your rooms keep their code and settings when everyone leaves, so you can come back to them.
+            </p>
+            <div className="flex gap-2">
+              <Input
+                placeholder="Room name"
+                value={name}
+                maxLength={80}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && name.trim() && handleCreate()}
+              />
+              <Button onClick={handleCreate} disabled={isCreating || !name.trim()}>
+                {isCreating ? "Creating..." : "Create"}
+              </Button>
+            </div>
+          </Card>
+
+          {loading ? (
+            <p className="text-center text-muted-foreground">Loading rooms...</p>
+          ) : rooms.length === 0 ? (
+            <p className="text-center text-muted-foreground">You don't have any rooms yet.</p>
+          ) : (
+            rooms.map((room) => (
+              <Card key={room.code} className="backdrop-blur-glass bg-card/60 border-border/50 p-6 space-y-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <h3 className="text-lg font-semibold truncate">{room.name}</h3>
+                    <div className="flex items-center gap-2 mt-1">
+                      <Badge variant="secondary">{room.code}</Badge>
+                      <Badge variant="outline" className="gap-1">
+                        <Users className="h-3 w-3" />
+                        {room.online} online
+                      </Badge>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Button size="sm" onClick={() => handleOpen(room)}>
+                      <DoorOpen className="h-4 w-4 mr-2" />
+                      Open
+                    </Button>
+                    <Button size="sm" variant="destructive" title="Delete room" onClick={() => handleDelete(room)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                {room.watchParties.length > 0 && (
+                  <div className="space-y-2">
+                    <h4 className="text-sm font-medium flex items-center gap-2">
+                      <CalendarClock className="h-4 w-4" />
+                      Upcoming Watch Parties
+                    </h4>
+                    {room.watchParties.map((party) => (
+                      <div key={party.id} className="flex items-center justify-between gap-2 p-2 bg-background/50 rounded">
+                        <div className="min-w-0">
+                          <p className="text-sm truncate">{party.title}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {format(new Date(party.starts_at), "EEE MMM d, HH:mm")}
+                          </p>
+                        </div>
+                        <Button size="sm" variant="ghost" title="Cancel" onClick={() => handleCancelParty(room, party)}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="border-t border-border/50 pt-4">
+                  <WatchPartyScheduler
+                    roomCode={room.code}
+                    onScheduled={(party) =>
+                      updateParties(room.code, (parties) =>
+                        [...parties, party].sort((a, b) => a.starts_at - b.starts_at)
+                      )
+                    }
+                  />
+                </div>
+              </Card>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MyRooms;
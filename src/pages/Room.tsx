@@ -1,45 +1,67 @@
-import { useEffect, useRef, useState } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useParams, useNavigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Play, Pause, Volume2, Subtitles, Users, Copy, Check, Maximize, Upload, Library, Shield } from "lucide-react";
+import { Play, Pause, Volume2, Subtitles, Users, Copy, Check, Maximize, Upload, Library, Shield, SkipForward } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { useRoomWebSocket } from "@/hooks/useRoomWebSocket";
+import { LobbyFeed, useRoomWebSocket } from "@/hooks/useRoomWebSocket";
+import { useHlsPlayback } from "@/hooks/useHlsPlayback";
+import { usePlaybackSource } from "@/hooks/usePlaybackSource";
 import VideoBrowser from "@/components/VideoBrowser";
 import JoinRequestsPanel from "@/components/JoinRequestsPanel";
 import { JoinRoomModal } from "@/components/JoinRoomModal";
 import { LobbyManagementPanel } from "@/components/LobbyManagementPanel";
-import { api } from "@/lib/api";
-import { getPersistentBrowserFingerprint } from "@/lib/browserFingerprint";
+import { ChatPanel } from "@/components/ChatPanel";
+import { QueuePanel } from "@/components/QueuePanel";
+import { PreviewScrubber } from "@/components/PreviewScrubber";
+import { FOLLOW_HOST, SUBTITLES_OFF, SubtitleSelector } from "@/components/SubtitleSelector";
+import { WatchPartyCountdown } from "@/components/WatchPartyCountdown";
+import { api, RoomAccessMode, RoomRecord } from "@/lib/api";
 import { Home } from "lucide-react";
 import { detectBrowser } from "@/lib/browser-detect";
+import { ClockFrame, correctDrift, expectedPosition } from "@/lib/playbackSync";
+import { formatEpisodeCode } from "@/lib/episodes";
+import type {
+  ChatMessage,
+  LobbyMessage,
+  ParticipantRole,
+  ParticipantStatus,
+  QueueItem,
+  RoomUpdatePayload,
+  WatchParty,
+} from "@shared/roomProtocol";
 
 
 interface RoomData {
   id: string;
   code: string;
+  name: string | null; // set for owned rooms
   video_url: string | null;
   playback_position: number;
   is_playing: boolean;
   subtitle_enabled: boolean;
+  subtitle_id: string | null;
 }
 
 interface Participant {
   id: string;
   username: string;
   userId: string;
-  isHost?: boolean;
+  role?: ParticipantRole;
   status?: string;
+  muted?: boolean;
 }
 
-const mapRoom = (data: any): RoomData => ({
+const mapRoom = (data: RoomRecord): RoomData => ({
   id: data.id,
   code: data.code,
-  video_url: data.video_url ?? data.videoUrl ?? null,
-  playback_position: Number(data.playback_position ?? data.playbackPosition ?? 0),
-  is_playing: Boolean(data.is_playing ?? data.isPlaying),
-  subtitle_enabled: Boolean(data.subtitle_enabled ?? data.subtitleEnabled),
+  name: data.name,
+  video_url: data.videoUrl,
+  playback_position: data.playbackPosition,
+  is_playing: data.isPlaying,
+  subtitle_enabled: data.subtitleEnabled,
+  subtitle_id: data.subtitleId,
 });
 
 const getMimeType = (url: string): string => {
@@ -60,6 +82,9 @@ const getMimeType = (url: string): string => {
 
 const Room = () => {
   const { code } = useParams();
+  const [searchParams] = useSearchParams();
+  // Invite links open the room with ?invite=<token>
+  const inviteToken = searchParams.get("invite") ?? undefined;
   const navigate = useNavigate();
   const { toast } = useToast();
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -71,18 +96,31 @@ const Room = () => {
   const [copied, setCopied] = useState(false);
   const [localVideoUrl, setLocalVideoUrl] = useState("");
   const [isAdmin, setIsAdmin] = useState(false);
-  const [isHost, setIsHost] = useState(false);
+  const [role, setRole] = useState<ParticipantRole>("viewer");
   const [uploading, setUploading] = useState(false);
   const [username, setUsername] = useState<string>("");
   const [userId, setUserId] = useState<string>("");
   const [hasJoined, setHasJoined] = useState(false);
   const [showJoinModal, setShowJoinModal] = useState(false);
   const [isJoiningRoom, setIsJoiningRoom] = useState(false);
+  const [accessMode, setAccessMode] = useState<RoomAccessMode>("approval");
   const [isLoggedIn, setIsLoggedIn] = useState(false);
   const [isApproved, setIsApproved] = useState(false);
-  const [approvalStatus, setApprovalStatus] = useState<"pending" | "approved" | "rejected" | "active">("pending");
+  const [approvalStatus, setApprovalStatus] = useState<ParticipantStatus>("pending");
+  const [muted, setMuted] = useState(false);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [chatCursor, setChatCursor] = useState<string | null>(null);
+  const [queue, setQueue] = useState<QueueItem[]>([]);
+  // The next scheduled watch party, shown as a countdown until it starts
+  const [watchParty, setWatchParty] = useState<WatchParty | null>(null);
+  // Viewer-local subtitle choice: FOLLOW_HOST, SUBTITLES_OFF or a track id
+  const [localSubtitle, setLocalSubtitle] = useState(FOLLOW_HOST);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Co-hosts get the host's controls; only the host hands out roles
+  const isHost = role === "host";
+  const canControl = role !== "viewer";
   const isSyncingRef = useRef(false);
+  const clockRef = useRef<ClockFrame | null>(null);
 
   useEffect(() => {
     const checkAdmin = async () => {
@@ -112,7 +150,7 @@ const Room = () => {
   }, []);
 
   // WebSocket handlers
-  const handleRoomUpdate = (payload: any) => {
+  const handleRoomUpdate = (payload: RoomUpdatePayload) => {
     setRoom((prev) =>
       prev
         ? {
@@ -121,50 +159,70 @@ const Room = () => {
             playback_position: payload.playback_position ?? prev.playback_position,
             is_playing: payload.is_playing ?? prev.is_playing,
             subtitle_enabled: payload.subtitle_enabled ?? prev.subtitle_enabled,
+            // Track ids belong to a video; a new video starts on the default
+            subtitle_id:
+              payload.subtitle_id !== undefined
+                ? payload.subtitle_id
+                : payload.video_url && payload.video_url !== prev.video_url
+                  ? null
+                  : prev.subtitle_id,
           }
         : prev
     );
+  };
 
-    // Sync video player
-    if (videoRef.current) {
-      if (payload.is_playing !== undefined) {
-        if (payload.is_playing && videoRef.current.paused) {
-          videoRef.current.play().catch((err) => {
-            console.error("Video play() failed", err);
-            toast({
-              title: "Tap to start playback",
-              description:
-                "Your browser blocked autoplay. Tap the video once to start, then it will stay in sync.",
-            });
-          });
-        } else if (!payload.is_playing && !videoRef.current.paused) {
-          videoRef.current.pause();
-        }
-      }
+  // Bring the local player in line with the last authoritative clock frame.
+  // Play state and large jumps are applied directly; small drift is absorbed
+  // by nudging playbackRate so viewers never stutter on a seek.
+  const syncToClock = () => {
+    const clock = clockRef.current;
+    const video = videoRef.current;
+    if (!clock || !video || video.readyState < HTMLMediaElement.HAVE_METADATA) return;
+
+    if (clock.is_playing && video.paused) {
+      video.play().catch((err) => {
+        console.error("Video play() failed", err);
+        toast({
+          title: "Tap to start playback",
+          description:
+            "Your browser blocked autoplay. Tap the video once to start, then it will stay in sync.",
+        });
+      });
+    } else if (!clock.is_playing && !video.paused) {
+      video.pause();
+    }
 
-      if (payload.playback_position !== undefined) {
-        const timeDiff = Math.abs(videoRef.current.currentTime - payload.playback_position);
-        if (timeDiff > 0.5) {
-          isSyncingRef.current = true;
-          videoRef.current.currentTime = payload.playback_position;
-          setTimeout(() => {
-            isSyncingRef.current = false;
-          }, 100);
-        }
+    const expected = expectedPosition(clock, getServerTime());
+
+    if (!clock.is_playing) {
+      video.playbackRate = clock.rate;
+      if (Math.abs(video.currentTime - expected) > 0.25) {
+        isSyncingRef.current = true;
+        video.currentTime = expected;
       }
+      return;
     }
-  };
 
-  const handleSeek = (position: number, seekUsername: string) => {
-    if (videoRef.current) {
+    const correction = correctDrift(video.currentTime, expected, clock.rate);
+    if (correction.action === "seek") {
       isSyncingRef.current = true;
-      videoRef.current.currentTime = position;
-      setTimeout(() => {
-        isSyncingRef.current = false;
-      }, 100);
+      video.currentTime = correction.position;
+      video.playbackRate = clock.rate;
+    } else {
+      video.playbackRate = correction.playbackRate;
     }
   };
 
+  const handleClock = (clock: ClockFrame) => {
+    clockRef.current = clock;
+    setRoom((prev) =>
+      prev && prev.is_playing !== clock.is_playing
+        ? { ...prev, is_playing: clock.is_playing }
+        : prev
+    );
+    syncToClock();
+  };
+
   const handleUserJoined = (newUsername: string) => {
     toast({
       title: "User joined",
@@ -172,23 +230,15 @@ const Room = () => {
     });
   };
 
-  const handleUserLeft = async (leftUsername: string) => {
+  // The server marks the participant as left when their connection closes
+  const handleUserLeft = (leftUsername: string) => {
     toast({
       title: "User left",
       description: `${leftUsername} left the room.`,
     });
-
-    // Update participant status to "left" in the database
-    if (code) {
-      try {
-        await api.updateParticipantStatus(code, leftUsername, "left");
-      } catch (error) {
-        console.error("Failed to update participant status:", error);
-      }
-    }
   };
 
-  const handleApprovalStatusChange = (status: "pending" | "approved" | "rejected" | "active") => {
+  const handleApprovalStatusChange = (status: ParticipantStatus) => {
     setApprovalStatus(status);
 
     if (status === "active") {
@@ -198,32 +248,127 @@ const Room = () => {
         title: "Approved!",
         description: "You've been approved to join the room.",
       });
-    } else if (status === "rejected") {
-      // User was rejected, redirect to home
+    } else if (status === "rejected" || status === "kicked" || status === "banned") {
+      // User was rejected or removed, redirect to home
       toast({
-        title: "Request Rejected",
-        description: "The host declined your request.",
+        title: status === "rejected" ? "Request Rejected" : "Removed from Room",
+        description:
+          status === "rejected"
+            ? "The host declined your request."
+            : status === "kicked"
+              ? "The host removed you from the room."
+              : "The host banned you from this room.",
         variant: "destructive",
       });
       setTimeout(() => {
         localStorage.removeItem("pendingUsername");
         localStorage.removeItem("userId");
+        // The room token stays: it is this browser's identity in the room
         navigate("/");
       }, 2000);
     }
   };
 
-  const { sendRoomUpdate, sendSeek } = useRoomWebSocket(
-    code,
-    userId,
-    username,
-    handleRoomUpdate,
-    handleSeek,
-    handleUserJoined,
-    handleUserLeft,
-    handleApprovalStatusChange
+  const handleRoleUpdate = (changedUserId: string, changedUsername: string, newRole: ParticipantRole) => {
+    setParticipants((prev) => prev.map((p) => (p.userId === changedUserId ? { ...p, role: newRole } : p)));
+
+    if (changedUserId !== userId) return;
+    setRole(newRole);
+    toast({
+      title: "Your role changed",
+      description:
+        newRole === "host"
+          ? "You are now the host."
+          : newRole === "cohost"
+            ? "You are now a co-host and can control playback."
+            : "You are now a viewer.",
+    });
+  };
+
+  const handleMuteChange = (changedUserId: string, isMuted: boolean) => {
+    if (changedUserId !== userId) return;
+    setMuted(isMuted);
+    toast({
+      title: isMuted ? "You were muted" : "You were unmuted",
+      description: isMuted ? "The host turned off your chat." : "You can chat again.",
+    });
+  };
+
+  const handleChat = (message: ChatMessage) => {
+    setChatMessages((prev) => (prev.some((m) => m.id === message.id) ? prev : [...prev, message]));
+  };
+
+  // The lobby panels subscribe to join request and participant pushes
+  const lobbyListenersRef = useRef(new Set<(event: LobbyMessage) => void>());
+  const handleLobbyMessage = (event: LobbyMessage) => {
+    lobbyListenersRef.current.forEach((listener) => listener(event));
+  };
+
+  const { sendSeek, sendChat, sendQueueAdvance, getServerTime, connected } = useRoomWebSocket(code, userId, username, {
+    onRoomUpdate: handleRoomUpdate,
+    onClock: handleClock,
+    onUserJoined: handleUserJoined,
+    onUserLeft: handleUserLeft,
+    onApprovalStatusChange: handleApprovalStatusChange,
+    onChat: handleChat,
+    onQueue: setQueue,
+    onRoleUpdate: handleRoleUpdate,
+    onMuteChange: handleMuteChange,
+    onLobbyEvent: handleLobbyMessage,
+    onWatchParty: setWatchParty,
+  });
+
+  const lobbyFeed = useMemo<LobbyFeed>(
+    () => ({
+      connected,
+      subscribe: (listener) => {
+        lobbyListenersRef.current.add(listener);
+        return () => {
+          lobbyListenersRef.current.delete(listener);
+        };
+      },
+    }),
+    [connected]
   );
 
+  const playbackSource = usePlaybackSource(room?.video_url);
+  const { usingHls } = useHlsPlayback(videoRef, playbackSource.hlsUrl);
+  const subtitleTracks = playbackSource.subtitles;
+
+  // The host's track applies to everyone unless a viewer picks their own
+  const hostSubtitle = room?.subtitle_enabled
+    ? subtitleTracks.find((track) => track.id === room.subtitle_id) ?? subtitleTracks[0] ?? null
+    : null;
+  const activeSubtitleId =
+    canControl || localSubtitle === FOLLOW_HOST
+      ? hostSubtitle?.id ?? null
+      : localSubtitle === SUBTITLES_OFF
+        ? null
+        : localSubtitle;
+
+  // A viewer's override refers to the previous video's tracks
+  useEffect(() => {
+    setLocalSubtitle(FOLLOW_HOST);
+  }, [room?.video_url]);
+
+  // <track default> only applies on load, so drive the TextTrack modes
+  // directly; re-apply as tracks are added to a fresh element
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const applyModes = () => {
+      Array.from(video.textTracks).forEach((track) => {
+        if (track.kind !== "subtitles") return;
+        track.mode = track.id === activeSubtitleId ? "showing" : "disabled";
+      });
+    };
+
+    applyModes();
+    video.textTracks.addEventListener("addtrack", applyModes);
+    return () => video.textTracks.removeEventListener("addtrack", applyModes);
+  }, [activeSubtitleId, subtitleTracks, room?.video_url]);
+
   // Initial room fetch
   useEffect(() => {
     const fetchRoom = async () => {
@@ -233,14 +378,14 @@ const Room = () => {
         const data = await api.getRoomWithParticipants(code);
         setRoom(mapRoom(data.room));
         setParticipants(data.participants);
+        setAccessMode(data.access.mode);
+        setWatchParty(data.watchParty);
 
         let userIsApproved = false;
 
         // Check if current user is approved (in active participants)
         if (username || userId) {
-          const participantsList = data.participants as Participant[];
-
-          const matchingParticipant = participantsList.find((p: Participant) =>
+          const matchingParticipant = data.participants.find((p) =>
             userId ? p.userId === userId : p.username === username
           );
 
@@ -276,11 +421,8 @@ const Room = () => {
 
           setIsApproved(userIsApproved);
 
-          // Check if current user is the host
-          const currentUserIsHost = participantsList.some((p: Participant) =>
-            userId ? p.userId === userId && p.isHost : p.username === username && p.isHost
-          );
-          setIsHost(currentUserIsHost);
+          setRole(matchingParticipant?.role ?? "viewer");
+          setMuted(Boolean(matchingParticipant?.muted));
 
           // If the user is already an active participant, mark them as joined
           if (userIsApproved && !hasJoined) {
@@ -309,6 +451,34 @@ const Room = () => {
     fetchRoom();
   }, [code, navigate, toast, isLoggedIn, hasJoined, username, userId]);
 
+  // Load recent chat history once we're allowed in the room
+  useEffect(() => {
+    if (!code || !isApproved) return;
+
+    api
+      .getRoomMessages(code)
+      .then(({ messages, nextCursor }) => {
+        // Live messages may have arrived while history was loading
+        setChatMessages((prev) => [...messages, ...prev.filter((m) => !messages.some((h) => h.id === m.id))]);
+        setChatCursor(nextCursor);
+      })
+      .catch((error) => {
+        console.error("Failed to load chat history:", error);
+      });
+  }, [code, isApproved]);
+
+  const handleLoadOlderMessages = async () => {
+    if (!code || !chatCursor) return;
+
+    try {
+      const { messages, nextCursor } = await api.getRoomMessages(code, chatCursor);
+      setChatMessages((prev) => [...messages, ...prev]);
+      setChatCursor(nextCursor);
+    } catch (error) {
+      console.error("Failed to load older messages:", error);
+    }
+  };
+
   // Handle video source changes
   useEffect(() => {
     if (!videoRef.current || !room?.video_url) return;
@@ -318,6 +488,16 @@ const Room = () => {
     console.log("Video source changed, reloading:", room.video_url);
   }, [room?.video_url]);
 
+  // Keep correcting drift between clock frames; playbackRate nudges need to
+  // be re-evaluated as the gap closes. The interval runs for the page's
+  // lifetime and calls the latest syncToClock through the ref.
+  const syncToClockRef = useRef(syncToClock);
+  syncToClockRef.current = syncToClock;
+  useEffect(() => {
+    const interval = setInterval(() => syncToClockRef.current(), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
   // Cleanup: Mark user as left when they leave the room
   useEffect(() => {
     return () => {
@@ -330,20 +510,19 @@ const Room = () => {
     };
   }, [code, username, isApproved]);
 
-  const handleJoinRoom = async (joinUsername: string) => {
+  const handleJoinRoom = async (joinUsername: string, password?: string) => {
     if (!code) return;
 
     setIsJoiningRoom(true);
     try {
       const browser = detectBrowser();
-      const browserFingerprint = getPersistentBrowserFingerprint();
 
       const result = await api.joinRoom(
         code,
         joinUsername,
         browser.name,
         browser.version,
-        browserFingerprint
+        { password, invite: inviteToken }
       );
 
       if (result?.userId) {
@@ -358,6 +537,17 @@ const Room = () => {
       localStorage.setItem("pendingRoomCode", code);
       localStorage.setItem("pendingUsername", joinUsername);
 
+      // The room's access policy let us straight in; the room fetch picks up
+      // our participant record
+      if (result.status === "active") {
+        setUserId(result.userId);
+        toast({
+          title: "Joined room!",
+          description: `Welcome to room ${code}`,
+        });
+        return;
+      }
+
       toast({
         title: "Join request sent",
         description: "Waiting for host approval...",
@@ -369,7 +559,7 @@ const Room = () => {
       console.error("Error sending join request:", error);
       toast({
         title: "Failed to join room",
-        description: "Something went wrong while sending your join request.",
+        description: error instanceof Error ? error.message : "Something went wrong while sending your join request.",
         variant: "destructive",
       });
     } finally {
@@ -390,26 +580,14 @@ const Room = () => {
         : prev
     );
 
-    // Send update via WebSocket for real-time sync
-    sendRoomUpdate({
+    // The server saves the change and passes it on to everyone in the room
+    await api.updateRoom(room.code, {
       video_url: updates.video_url,
       playback_position: updates.playback_position,
       is_playing: updates.is_playing,
       subtitle_enabled: updates.subtitle_enabled,
+      subtitle_id: updates.subtitle_id,
     });
-
-    // Also update on server for persistence
-    await api.updateRoom(
-      room.id,
-      {
-        video_url: updates.video_url,
-        playback_position: updates.playback_position,
-        is_playing: updates.is_playing,
-        subtitle_enabled: updates.subtitle_enabled,
-      },
-      username,
-      userId
-    );
   };
 
   const handlePlayPause = async () => {
@@ -436,19 +614,28 @@ const Room = () => {
     updateRoomState({ subtitle_enabled: !room.subtitle_enabled });
   };
 
-  const lastUpdateRef = useRef<number>(0);
+  const handleSubtitleChange = (value: string) => {
+    if (!canControl) {
+      setLocalSubtitle(value);
+      return;
+    }
 
-  const handleVideoTimeUpdate = () => {
-    if (!room || !videoRef.current || !room.is_playing || isSyncingRef.current) return;
+    if (value === SUBTITLES_OFF) {
+      updateRoomState({ subtitle_enabled: false });
+    } else {
+      updateRoomState({ subtitle_enabled: true, subtitle_id: value });
+    }
+  };
 
-    const currentTime = videoRef.current.currentTime;
-    const now = Date.now();
+  const handlePlayNextEpisode = async () => {
+    const next = playbackSource.nextEpisode;
+    if (!next) return;
 
-    // Send updates every 500ms for smooth sync
-    if (now - lastUpdateRef.current > 500) {
-      lastUpdateRef.current = now;
-      sendRoomUpdate({ playback_position: currentTime });
-    }
+    await updateRoomState({
+      video_url: next.fileUrl,
+      playback_position: 0,
+      is_playing: true,
+    });
   };
 
   const handleSetVideo = async () => {
@@ -494,9 +681,8 @@ const Room = () => {
     setUploading(true);
 
     try {
-      const response = await api.uploadMedia(file, {
-        title: file.name,
-      });
+      // Title, year and episode are parsed from the filename server-side
+      const response = await api.uploadMedia(file, {});
 
       await updateRoomState({
         video_url: response.fileUrl,
@@ -536,6 +722,8 @@ const Room = () => {
           roomCode={code || ""}
           onJoin={handleJoinRoom}
           isLoading={isJoiningRoom}
+          accessMode={accessMode}
+          hasInvite={Boolean(inviteToken)}
         />
       </div>
     );
@@ -560,6 +748,7 @@ const Room = () => {
               <span className="mr-2">Room: {code}</span>
               {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
             </Badge>
+            {room?.name && <h1 className="font-semibold truncate">{room.name}</h1>}
           </div>
 
           <div className="flex items-center gap-2">
@@ -584,6 +773,8 @@ const Room = () => {
       {/* Main Content */}
       <div className="container mx-auto px-4 py-8">
         <div className="max-w-6xl mx-auto space-y-6">
+          {watchParty && <WatchPartyCountdown party={watchParty} getServerTime={getServerTime} />}
+          <div className="grid gap-6 lg:grid-cols-[1fr_320px]">
           {/* Video Player */}
           <div className="relative rounded-xl overflow-hidden bg-black shadow-glow-primary">
             {room?.video_url ? (
@@ -592,11 +783,20 @@ const Room = () => {
                   ref={videoRef}
                   key={room.video_url}
                   className="w-full h-full"
-                  onTimeUpdate={handleVideoTimeUpdate}
                   onSeeked={() => {
-                    if (videoRef.current && !isSyncingRef.current) {
+                    // Seeks we made to follow the clock must not echo back
+                    if (isSyncingRef.current) {
+                      isSyncingRef.current = false;
+                      return;
+                    }
+                    if (!videoRef.current) return;
+                    // Only the host and co-hosts move the room clock (the
+                    // server persists the seek); anyone else is pulled back
+                    // into sync.
+                    if (canControl) {
                       sendSeek(videoRef.current.currentTime);
-                      updateRoomState({ playback_position: videoRef.current.currentTime });
+                    } else {
+                      syncToClock();
                     }
                   }}
                   onError={(e) => {
@@ -605,15 +805,31 @@ const Room = () => {
                     const errorMessage = video.error?.message;
                     console.error("Video error:", { errorCode, errorMessage, url: room.video_url, mimeType: getMimeType(room.video_url) });
                   }}
+                  onEnded={() => {
+                    // The hosts' players drive the queue; the server ignores
+                    // duplicate advances and broadcasts the next entry
+                    if (canControl) sendQueueAdvance(room.video_url);
+                  }}
                   onLoadedMetadata={() => {
                     console.log("Video metadata loaded:", { url: room.video_url, duration: videoRef.current?.duration });
+                    syncToClock();
                   }}
                   playsInline
                   controls
                   crossOrigin="anonymous"
                   preload="metadata"
                 >
-                  <source src={room.video_url} type={getMimeType(room.video_url)} />
+                  {!usingHls && <source src={room.video_url} type={getMimeType(room.video_url)} />}
+                  {subtitleTracks.map((track) => (
+                    <track
+                      key={track.id}
+                      id={track.id}
+                      kind="subtitles"
+                      src={track.url}
+                      srcLang={track.language}
+                      label={track.label}
+                    />
+                  ))}
                   Your browser does not support the video tag.
                 </video>
               </div>
@@ -623,8 +839,17 @@ const Room = () => {
               </div>
             )}
 
-            {/* Video Controls Overlay - Only for Host */}
-            {isHost && (
+            {room?.video_url && playbackSource.previewTrackUrl && (
+              <PreviewScrubber
+                key={room.video_url}
+                videoRef={videoRef}
+                previewTrackUrl={playbackSource.previewTrackUrl}
+                canSeek={canControl}
+              />
+            )}
+
+            {/* Video Controls Overlay - Host and co-hosts */}
+            {canControl && (
             <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-6">
               <div className="flex items-center justify-between">
                 <div className="flex items-center gap-3">
@@ -666,8 +891,61 @@ const Room = () => {
             )}
           </div>
 
-          {/* Video Source Selection - Only for Host */}
-          {isHost && (
+          {/* Chat */}
+          <ChatPanel
+            messages={chatMessages}
+            currentUserId={userId}
+            hasMore={Boolean(chatCursor)}
+            muted={muted}
+            onSend={sendChat}
+            onLoadOlder={handleLoadOlderMessages}
+          />
+          </div>
+
+          {/* Subtitles */}
+          {subtitleTracks.length > 0 && (
+            <div className="backdrop-blur-glass bg-card/60 rounded-xl px-6 py-4 border border-border/50">
+              <SubtitleSelector
+                tracks={subtitleTracks}
+                isHost={canControl}
+                value={canControl ? hostSubtitle?.id ?? SUBTITLES_OFF : localSubtitle}
+                hostLabel={hostSubtitle?.label ?? "Off"}
+                onChange={handleSubtitleChange}
+              />
+            </div>
+          )}
+
+          {/* Next Episode - Host and co-hosts */}
+          {canControl && playbackSource.nextEpisode && (
+            <div className="backdrop-blur-glass bg-card/60 rounded-xl px-6 py-4 border border-border/50 flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <p className="text-xs text-muted-foreground">Next episode</p>
+                <p className="truncate text-sm font-medium">
+                  {formatEpisodeCode(playbackSource.nextEpisode.seasonNumber, playbackSource.nextEpisode.episodeNumber)}
+                  {" · "}
+                  {playbackSource.nextEpisode.title}
+                </p>
+              </div>
+              <Button onClick={handlePlayNextEpisode} className="shrink-0 gap-2">
+                <SkipForward className="h-4 w-4" />
+                Play next episode
+              </Button>
+            </div>
+          )}
+
+          {/* Play Queue */}
+          {room && (
+            <QueuePanel
+              roomCode={room.code}
+              items={queue}
+              isHost={canControl}
+              onItemsChange={setQueue}
+              onSkip={() => sendQueueAdvance(room.video_url ?? undefined)}
+            />
+          )}
+
+          {/* Video Source Selection - Host and co-hosts */}
+          {canControl && (
           <div className="backdrop-blur-glass bg-card/60 rounded-xl p-6 border border-border/50">
             <Tabs defaultValue="library" className="w-full">
               <TabsList className="w-full grid grid-cols-3">
@@ -698,7 +976,6 @@ const Room = () => {
                       console.error("Failed to refresh room state:", error);
                     }
                   }}
-                  username={username}
                 />
               </TabsContent>
 
@@ -745,14 +1022,14 @@ const Room = () => {
               </TabsContent>
 
               <TabsContent value="lobby" className="mt-4">
-                {room && <LobbyManagementPanel roomCode={room.code} />}
+                {room && <LobbyManagementPanel roomCode={room.code} currentRole={role} lobbyFeed={lobbyFeed} />}
               </TabsContent>
             </Tabs>
           </div>
           )}
 
-          {/* Join Requests - Only for Host */}
-          {isHost && <JoinRequestsPanel roomCode={room.code} />}
+          {/* Join Requests - Host and co-hosts */}
+          {canControl && <JoinRequestsPanel roomCode={room.code} lobbyFeed={lobbyFeed} />}
 
           {/* Participants */}
           <div className="backdrop-blur-glass bg-card/60 rounded-xl p-6 border border-border/50">
@@ -764,6 +1041,8 @@ const Room = () => {
               {participants.map((participant) => (
                 <Badge key={participant.id} variant="secondary">
                   {participant.username}
+                  {participant.role === "host" && " (host)"}
+                  {participant.role === "cohost" && " (co-host)"}
                 </Badge>
               ))}
             </div>
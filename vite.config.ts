@@ -12,12 +12,15 @@ export default defineConfig(({ mode }) => ({
     proxy: {
       "/api": "http://localhost:4000",
       "/uploads": "http://localhost:4000",
+      "/library": "http://localhost:4000",
+      "/storage": "http://localhost:4000",
     },
   },
   plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      "@shared": path.resolve(__dirname, "./shared"),
     },
   },
 }));